@@ -20,9 +20,8 @@ const ListAccountsSchema = z.object({
 });
 
 const SearchTransactionsSchema = z.object({
-  account_id: z.string().optional().describe('Filter by account'),
-  date_start: z.string().optional().describe('Start date (YYYY-MM-DD)'),
-  date_end: z.string().optional().describe('End date (YYYY-MM-DD)'),
+  account_id: z.string().describe('Account whose transactions to list'),
+  date: z.string().optional().describe('Transaction date (YYYY-MM-DD)'),
   page: z.number().int().min(1).default(1),
   limit: z.number().int().min(1).max(100).default(100),
 });
@@ -77,7 +76,7 @@ Do NOT use when: Checking account balances (use list_accounts instead).
 
 <example>
 search_transactions(account_id="12345")
-search_transactions(date_start="2024-01-01", date_end="2024-12-31")
+search_transactions(account_id="12345", date="2024-01-15")
 </example>
 
 <returns>
@@ -87,12 +86,12 @@ List of transactions with payment/transfer details.
     inputSchema: {
       type: 'object',
       properties: {
-        account_id: { type: 'string', description: 'Filter by account ID' },
-        date_start: { type: 'string', description: 'Start date (YYYY-MM-DD)' },
-        date_end: { type: 'string', description: 'End date (YYYY-MM-DD)' },
+        account_id: { type: 'string', description: 'Account ID (from list_accounts)' },
+        date: { type: 'string', description: 'Transaction date (YYYY-MM-DD)' },
         page: { type: 'number', default: 1 },
         limit: { type: 'number', default: 100 },
       },
+      required: ['account_id'],
     },
   },
   {
@@ -203,12 +202,9 @@ export async function handleSearchTransactions(args: unknown): Promise<ToolRespo
     const params = SearchTransactionsSchema.parse(args);
     const client = getClient();
 
-    const filter: Record<string, string> = {};
-    if (params.account_id) filter['account_id'] = params.account_id;
-    if (params.date_start) filter['date'] = params.date_start;
-
-    const response = await client.transactions.list({
-      filter,
+    // The spec lists transactions per account only
+    const response = await client.accounts.transactions(params.account_id, {
+      ...(params.date !== undefined && { filter: { date: params.date } }),
       page: { number: params.page, size: params.limit },
     });
 
@@ -253,6 +249,7 @@ export async function handleCreateBankFee(args: unknown): Promise<ToolResponse>
       });
     }
 
+    // The spec's bank fee form has no account relationship to send
     const response = await client.bankFees.create({
       data: {
         type: 'bank_fees',
@@ -263,11 +260,6 @@ export async function handleCreateBankFee(args: unknown): Promise<ToolResponse>
           description: params.description ?? 'Bank fee',
           net_total: params.amount,
         },
-        relationships: {
-          account: {
-            data: { id: params.account_id, type: 'accounts' },
-          },
-        },
       },
     });
 
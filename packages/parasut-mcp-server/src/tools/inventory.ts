@@ -15,7 +15,7 @@ import { handleError } from '../utils/errors.js';
 // ============================================================================
 
 const GetStockLevelsSchema = z.object({
-  product_id: z.string().optional().describe('Filter by product ID'),
+  product_id: z.string().describe('Product ID'),
   page: z.number().int().min(1).default(1),
   limit: z.number().int().min(1).max(100).default(100),
 });
@@ -37,13 +37,12 @@ export const inventoryTools: Tool[] = [
     name: 'get_stock_levels',
     description: `
 <usecase>
-Get current stock levels for products.
+Get current stock levels of a product, per warehouse.
 Use when: Checking inventory quantities, verifying stock before invoicing.
 Do NOT use when: Looking for stock history (use search_stock_movements instead).
 </usecase>
 
 <example>
-get_stock_levels()
 get_stock_levels(product_id="12345")
 </example>
 
@@ -54,10 +53,11 @@ Stock levels with: id, stock_count per warehouse.
     inputSchema: {
       type: 'object',
       properties: {
-        product_id: { type: 'string', description: 'Filter by product ID' },
+        product_id: { type: 'string', description: 'Product ID' },
         page: { type: 'number', default: 1 },
         limit: { type: 'number', default: 100 },
       },
+      required: ['product_id'],
     },
   },
   {
@@ -100,11 +100,8 @@ export async function handleGetStockLevels(args: unknown): Promise<ToolResponse>
     const params = GetStockLevelsSchema.parse(args);
     const client = getClient();
 
-    const filter: Record<string, string> = {};
-    if (params.product_id) filter['product_id'] = params.product_id;
-
-    const response = await client.inventoryLevels.list({
-      filter,
+    // The spec lists inventory levels per product only
+    const response = await client.inventoryLevels.listForProduct(params.product_id, {
       page: { number: params.page, size: params.limit },
       include: ['product', 'warehouse'],
     });
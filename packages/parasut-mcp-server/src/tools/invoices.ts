@@ -782,23 +782,40 @@ export async function handleInvoicePdf(args: unknown): Promise<ToolResponse> {
     const params = InvoicePdfSchema.parse(args);
     const client = getClient();
 
-    // First, try to find an existing e-archive for this invoice
-    const eArchives = await client.eArchives.list({
-      page: { number: 1, size: 25 },
+    // The PDF belongs to the invoice's active e-archive or e-invoice
+    const invoice = await client.salesInvoices.get(params.id, {
+      include: ['active_e_document'],
     });
-
-    // Look for an e-archive associated with this invoice
-    // If found, get its PDF
-    for (const archive of eArchives.data) {
-      if (archive.attributes.printable_url) {
+    const relationships = invoice.data.relationships as
+      | { active_e_document?: { data?: { id: string; type: string } | null } }
+      | undefined;
+    const eDocument = relationships?.active_e_document?.data;
+
+    if (eDocument?.id) {
+      const isArchive = eDocument.type === 'e_archives';
+      const pdf = isArchive
+        ? await client.eArchives.getPdf(eDocument.id)
+        : await client.eInvoices.getPdf(eDocument.id);
+      const url = pdf?.data?.attributes.url;
+
+      if (url) {
         return formatSuccess({
-          url: archive.attributes.printable_url,
-          note: 'PDF URL from e-archive',
+          url,
+          expires_at: pdf.data.attributes.expires_at,
+          note: `PDF URL from ${isArchive ? 'e-archive' : 'e-invoice'}`,
         }, {
           summary: 'PDF found',
-          notes: ['This is the e-archive PDF for the invoice'],
+          notes: ['The URL expires after 1 hour'],
         });
       }
+
+      return formatSuccess({
+        invoice_id: params.id,
+        pdf_available: false,
+        message: 'The e-document PDF is still being generated. Try again shortly.',
+      }, {
+        summary: 'PDF not ready yet',
+      });
     }
 
     // If no e-archive found, explain how to generate PDF
@@ -36,6 +36,7 @@ const CreateSalarySchema = z.object({
   amount: z.number().positive().describe('Salary amount'),
   date: z.string().optional().describe('Salary date'),
   description: z.string().optional().describe('Description'),
+  currency: z.enum(['TRL', 'USD', 'EUR', 'GBP']).default('TRL'),
   confirm: z.boolean().optional().describe('⚠️ Set to true to confirm salary payment. Required to execute.'),
 });
 
@@ -148,6 +149,7 @@ Do NOT use when: Recording supplier payments (use record_bill_payment instead).
 ⚠️ REQUIRES CONFIRMATION: Set confirm=true to execute.
 - employee_id: Employee ID (required)
 - amount: Salary amount (required)
+- currency: Must be TRL, USD, EUR, or GBP (default TRL)
 - confirm: Must be true to execute. Without confirm=true, returns preview only.
 </instructions>
 
@@ -169,6 +171,7 @@ With confirm=true: Created salary record with: id, amount.
         confirm: { type: 'boolean', description: '⚠️ Set to true to confirm salary. Required to execute.' },
         date: { type: 'string', description: 'Salary date (YYYY-MM-DD)' },
         description: { type: 'string', description: 'Description' },
+        currency: { type: 'string', enum: ['TRL', 'USD', 'EUR', 'GBP'], description: 'Currency. MUST be one of: TRL, USD, EUR, GBP' },
       },
       required: ['employee_id', 'amount'],
     },
@@ -318,14 +321,15 @@ export async function handleCreateSalary(args: unknown): Promise<ToolResponse> {
           employee_id: params.employee_id,
           employee_name: employee?.attributes.name ?? 'Unknown',
           amount: params.amount,
+          currency: params.currency,
           date: issueDate,
           description: params.description ?? 'Salary',
         },
         warning: '⚠️ This will record a salary payment and affect financial records. Call again with confirm=true to proceed.',
       }, {
-        summary: `Preview: Record salary of ${params.amount} for ${employee?.attributes.name ?? 'employee'}`,
+        summary: `Preview: Record salary of ${params.amount} ${params.currency} for ${employee?.attributes.name ?? 'employee'}`,
         nextSteps: [
-          { action: 'Confirm salary', example: `create_salary(employee_id="${params.employee_id}", amount=${params.amount}, confirm=true)` },
+          { action: 'Confirm salary', example: `create_salary(employee_id="${params.employee_id}", amount=${params.amount}${params.currency !== 'TRL' ? `, currency="${params.currency}"` : ''}, confirm=true)` },
         ],
       });
     }
@@ -336,6 +340,7 @@ export async function handleCreateSalary(args: unknown): Promise<ToolResponse> {
         attributes: {
           issue_date: issueDate,
           due_date: issueDate,
+          currency: params.currency,
           description: params.description ?? 'Salary',
           net_total: params.amount,
         },
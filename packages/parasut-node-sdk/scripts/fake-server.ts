@@ -0,0 +1,21 @@
+#!/usr/bin/env tsx
+/**
+ * Fake Server Script
+ *
+ * Starts the in-memory fake Paraşüt API for demos, e.g. to run the MCP
+ * server with PARASUT_BASE_URL pointing at it.
+ * Run with: npm run fake-server [port]
+ */
+
+import { FakeParasutServer } from '../src/fake/index.js';
+
+const port = Number(process.argv[2] ?? 4010);
+const server = new FakeParasutServer();
+const baseUrl = await server.listen(port);
+
+console.log(`Fake Paraşüt API listening on ${baseUrl}`);
+console.log('Company ID: 123456 (any client and user credentials are accepted)');
+
+process.on('SIGINT', () => {
+  void server.close().then(() => process.exit(0));
+});
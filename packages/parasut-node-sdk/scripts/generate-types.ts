@@ -19,6 +19,22 @@ const SWAGGER_PATH = resolve(__dirname, '../../../spec/swagger.yaml');
 const OUTPUT_DIR = resolve(__dirname, '../src/generated');
 const TYPES_OUTPUT = resolve(OUTPUT_DIR, 'types.ts');
 const OPERATIONS_OUTPUT = resolve(OUTPUT_DIR, 'operations.ts');
+const RESOURCES_OUTPUT = resolve(OUTPUT_DIR, 'resources.ts');
+const SCHEMAS_OUTPUT = resolve(OUTPUT_DIR, 'schemas.ts');
+
+// Method names for member actions, keyed by path suffix.
+// Suffixes not listed here are camelCased.
+const ACTION_METHOD_NAMES: Record<string, string> = {
+  payments: 'pay',
+  debit_transactions: 'debit',
+  credit_transactions: 'credit',
+  contact_debit_transactions: 'collect',
+  contact_credit_transactions: 'pay',
+  pdf: 'getPdf',
+};
+
+// Collections with a hand-written resource that does not extend BaseResource
+const SKIPPED_COLLECTIONS = new Set(['trackable_jobs']);
 
 // Type mapping from Swagger to TypeScript
 const TYPE_MAP: Record<string, string> = {
@@ -74,8 +90,9 @@ interface SchemaObject {
   format?: string;
   description?: string;
   readOnly?: boolean;
-  enum?: string[];
+  enum?: (string | number)[];
   items?: SchemaObject;
+  allOf?: SchemaObject[];
   properties?: Record<string, SchemaObject>;
   required?: string[];
   $ref?: string;
@@ -92,7 +109,11 @@ interface OperationInfo {
   pathParams: string[];
   queryParams: QueryParam[];
   bodyParam?: string;
+  /** Inline body schema, emitted as the `bodyParam` type */
+  bodySchema?: SchemaObject;
   responseType: string | null;
+  /** Success response schema, validated at runtime */
+  responseSchema?: SchemaObject;
   successStatus: number;
 }
 
@@ -138,68 +159,105 @@ function resolveRef(ref: string): string {
   return ref.replace('#/definitions/', '');
 }
 
-function swaggerTypeToTs(schema: SchemaObject, definitions: Record<string, SchemaObject>): string {
+/**
+ * Single-line JSDoc comment, escaping any `*\/` in the text
+ */
+function docComment(text: string, indent: string): string {
+  return `${indent}/** ${text.replace(/\*\//g, '*\\/')} */`;
+}
+
+/**
+ * Property lines of an object schema, indented by `indent`
+ */
+function propertyLines(
+  schema: SchemaObject,
+  definitions: Record<string, SchemaObject>,
+  indent: string
+): string[] {
+  const lines: string[] = [];
+
+  for (const [propName, propSchema] of Object.entries(schema.properties ?? {})) {
+    const optional = schema.required?.includes(propName) ? '' : '?';
+    const readonly = propSchema.readOnly ? 'readonly ' : '';
+    const type = swaggerTypeToTs(propSchema, definitions, indent);
+
+    // Add description as JSDoc
+    if (propSchema.description) {
+      lines.push(docComment(propSchema.description, indent));
+    }
+
+    // Quote property names with special characters
+    lines.push(`${indent}${readonly}${formatPropertyKey(propName)}${optional}: ${type};`);
+  }
+
+  return lines;
+}
+
+function swaggerTypeToTs(
+  schema: SchemaObject,
+  definitions: Record<string, SchemaObject>,
+  indent = ''
+): string {
   if (schema.$ref) {
     return resolveRef(schema.$ref);
   }
 
+  if (schema.allOf) {
+    return schema.allOf.map((part) => swaggerTypeToTs(part, definitions, indent)).join(' & ');
+  }
+
   if (schema.enum) {
-    return schema.enum.map((v) => `'${v}'`).join(' | ');
+    return schema.enum.map((v) => (typeof v === 'string' ? `'${v}'` : String(v))).join(' | ');
   }
 
   if (schema.type === 'array') {
     if (schema.items) {
-      const itemType = swaggerTypeToTs(schema.items, definitions);
-      return `${itemType}[]`;
+      const itemType = swaggerTypeToTs(schema.items, definitions, indent);
+      return /^[\w.]+$/.test(itemType) ? `${itemType}[]` : `Array<${itemType}>`;
     }
     return 'unknown[]';
   }
 
-  if (schema.type === 'object' && schema.properties) {
-    const props = Object.entries(schema.properties)
-      .map(([key, prop]) => {
-        const optional = !schema.required?.includes(key) ? '?' : '';
-        const type = swaggerTypeToTs(prop, definitions);
-        return `  ${key}${optional}: ${type};`;
-      })
-      .join('\n');
-    return `{\n${props}\n}`;
+  // Objects without `type: object` still carry properties
+  if (schema.properties) {
+    const props = propertyLines(schema, definitions, `${indent}  `);
+    return `{\n${props.join('\n')}\n${indent}}`;
+  }
+
+  // Empty schemas such as `relationships: {}` accept anything
+  if (!schema.type) {
+    return 'unknown';
   }
 
-  return TYPE_MAP[schema.type ?? 'string'] ?? 'unknown';
+  return TYPE_MAP[schema.type] ?? 'unknown';
 }
 
 function generateDefinitionType(
   name: string,
   schema: SchemaObject,
-  definitions: Record<string, SchemaObject>
+  definitions: Record<string, SchemaObject>,
+  description = schema.description
 ): string {
   const lines: string[] = [];
 
-  if (schema.description) {
-    lines.push(`/** ${schema.description} */`);
+  if (description) {
+    lines.push(docComment(description, ''));
   }
 
-  if (schema.type === 'object' && schema.properties) {
-    lines.push(`export interface ${name} {`);
-
-    for (const [propName, propSchema] of Object.entries(schema.properties)) {
-      const required = schema.required?.includes(propName);
-      const readonly = propSchema.readOnly ? 'readonly ' : '';
-      let type = swaggerTypeToTs(propSchema, definitions);
-
-      // Quote property names with special characters
-      const key = formatPropertyKey(propName);
-      const optional = isValidIdentifier(propName) ? (required ? '' : '?') : '';
+  // `allOf` of definitions plus inline properties becomes an extending interface
+  const parents = schema.allOf?.filter((part) => part.$ref).map((part) => resolveRef(part.$ref!)) ?? [];
+  const own = schema.allOf?.filter((part) => !part.$ref) ?? [];
 
-      // Add description as JSDoc
-      if (propSchema.description) {
-        lines.push(`  /** ${propSchema.description} */`);
-      }
-
-      lines.push(`  ${readonly}${key}${optional}: ${type};`);
+  if (schema.allOf && own.length <= 1 && own.every((part) => part.properties)) {
+    const extendsClause = parents.length > 0 ? ` extends ${parents.join(', ')}` : '';
+    lines.push(`export interface ${name}${extendsClause} {`);
+    if (own[0]) {
+      lines.push(...propertyLines(own[0], definitions, '  '));
     }
-
+    lines.push('}');
+  } else if (schema.properties) {
+    lines.push(`export interface ${name} {`);
+    lines.push(...propertyLines(schema, definitions, '  '));
     lines.push('}');
   } else {
     // Type alias for simple types
@@ -210,6 +268,45 @@ function generateDefinitionType(
   return lines.join('\n');
 }
 
+/**
+ * Marks the members JSON:API requires but the spec's inline bodies leave
+ * optional: `type` on resource objects and identifiers, and `attributes`
+ * on the body's primary `data`.
+ */
+function withJsonApiRequired(schema: SchemaObject, primary = true): SchemaObject {
+  if (schema.type === 'array' && schema.items) {
+    return { ...schema, items: withJsonApiRequired(schema.items, false) };
+  }
+  if (!schema.properties) {
+    return schema;
+  }
+
+  const properties: Record<string, SchemaObject> = {};
+  for (const [key, prop] of Object.entries(schema.properties)) {
+    properties[key] = withJsonApiRequired(prop, primary && key === 'data');
+  }
+
+  const required = new Set(schema.required ?? []);
+  if (properties['type']?.enum?.length === 1) {
+    required.add('type');
+    if (primary && properties['attributes']) {
+      required.add('attributes');
+    }
+  }
+  if (primary && properties['data']) {
+    required.add('data');
+  }
+
+  return { ...schema, properties, required: [...required] };
+}
+
+/**
+ * Name of the generated body type for an operation with an inline body
+ */
+function bodyTypeName(operationId: string): string {
+  return `${pascalCase(operationId)}Body`;
+}
+
 function extractOperations(spec: SwaggerSpec): OperationInfo[] {
   const operations: OperationInfo[] = [];
 
@@ -235,19 +332,22 @@ function extractOperations(spec: SwaggerSpec): OperationInfo[] {
           default: p.default,
         }));
 
-      // Extract body parameter type
+      // Extract body parameter type; inline schemas get a type per operation
       const bodyParam = allParams.find((p) => p.in === 'body');
       let bodyType: string | undefined;
+      let bodySchema: SchemaObject | undefined;
       if (bodyParam?.schema) {
         if (bodyParam.schema.$ref) {
           bodyType = resolveRef(bodyParam.schema.$ref);
-        } else if (bodyParam.name) {
-          bodyType = pascalCase(bodyParam.name) + 'Input';
+        } else {
+          bodyType = bodyTypeName(operation.operationId);
+          bodySchema = withJsonApiRequired(bodyParam.schema);
         }
       }
 
       // Find success response type
       let responseType: string | null = null;
+      let responseSchema: SchemaObject | undefined;
       let successStatus = 200;
       const responses = operation.responses ?? {};
 
@@ -255,6 +355,7 @@ function extractOperations(spec: SwaggerSpec): OperationInfo[] {
         const statusNum = parseInt(status, 10);
         if (statusNum >= 200 && statusNum < 300 && response.schema) {
           successStatus = statusNum;
+          responseSchema = response.schema;
           if (response.schema.$ref) {
             responseType = resolveRef(response.schema.$ref);
           } else if (response.schema.properties?.data) {
@@ -279,7 +380,9 @@ function extractOperations(spec: SwaggerSpec): OperationInfo[] {
         pathParams: pathParams.filter((p) => p !== 'company_id'),
         queryParams,
         bodyParam: bodyType,
+        ...(bodySchema !== undefined && { bodySchema }),
         responseType,
+        ...(responseSchema !== undefined && { responseSchema }),
         successStatus,
       });
     }
@@ -288,7 +391,10 @@ function extractOperations(spec: SwaggerSpec): OperationInfo[] {
   return operations;
 }
 
-function generateTypesFile(definitions: Record<string, SchemaObject>): string {
+function generateTypesFile(
+  definitions: Record<string, SchemaObject>,
+  operations: OperationInfo[]
+): string {
   const lines: string[] = [
     '/**',
     ' * Auto-generated TypeScript types from Paraşüt Swagger spec.',
@@ -329,7 +435,7 @@ function generateTypesFile(definitions: Record<string, SchemaObject>): string {
     '}',
     '',
     '/** Base JSON:API resource */',
-    'export interface JsonApiResource<TAttributes = Record<string, unknown>, TRelationships = Record<string, unknown>> {',
+    'export interface JsonApiResource<TAttributes = object, TRelationships = object> {',
     '  id: string;',
     '  type: string;',
     '  attributes: TAttributes;',
@@ -370,6 +476,23 @@ function generateTypesFile(definitions: Record<string, SchemaObject>): string {
     lines.push('');
   }
 
+  lines.push('// ============================================================================');
+  lines.push('// Request Bodies (Generated from inline body parameters)');
+  lines.push('// ============================================================================');
+  lines.push('');
+
+  for (const op of operations) {
+    if (!op.bodyParam || !op.bodySchema) continue;
+    if (definitions[op.bodyParam]) {
+      throw new Error(`Body type ${op.bodyParam} for ${op.operationId} clashes with a definition`);
+    }
+
+    const displayPath = op.path.replace('/{company_id}', '');
+    const description = `Request body for ${op.operationId} (\`${op.method} ${displayPath}\`)`;
+    lines.push(generateDefinitionType(op.bodyParam, op.bodySchema, definitions, description));
+    lines.push('');
+  }
+
   return lines.join('\n');
 }
 
@@ -380,6 +503,20 @@ function generateOperationsFile(operations: OperationInfo[]): string {
     ' * DO NOT EDIT MANUALLY - run `npm run generate` instead.',
     ' */',
     '',
+  ];
+
+  // Body types referenced by OperationBodies
+  const bodyTypes = [...new Set(operations.flatMap((op) => (op.bodyParam ? [op.bodyParam] : [])))].sort();
+  if (bodyTypes.length > 0) {
+    lines.push('import type {');
+    for (const name of bodyTypes) {
+      lines.push(`  ${name},`);
+    }
+    lines.push("} from './types.js';");
+    lines.push('');
+  }
+
+  lines.push(
     'export interface OperationMeta {',
     '  operationId: string;',
     '  method: string;',
@@ -387,12 +524,12 @@ function generateOperationsFile(operations: OperationInfo[]): string {
     '  tag: string;',
     '  summary: string;',
     '  hasCompanyId: boolean;',
-    '  pathParams: string[];',
+    '  pathParams: readonly string[];',
     '  successStatus: number;',
     '}',
     '',
-    'export const OPERATIONS: Record<string, OperationMeta> = {',
-  ];
+    'export const OPERATIONS = {'
+  );
 
   for (const op of operations) {
     const key = formatPropertyKey(op.operationId);
@@ -408,7 +545,7 @@ function generateOperationsFile(operations: OperationInfo[]): string {
     lines.push(`  },`);
   }
 
-  lines.push('};');
+  lines.push('} as const satisfies Record<string, OperationMeta>;');
   lines.push('');
 
   // Group operations by tag for easy resource mapping
@@ -430,6 +567,48 @@ function generateOperationsFile(operations: OperationInfo[]): string {
   lines.push('};');
   lines.push('');
 
+  // Generate parameter types per operation for the typed executor
+  lines.push('// ============================================================================');
+  lines.push('// Parameter Types per Operation');
+  lines.push('// ============================================================================');
+  lines.push('');
+
+  lines.push('export type OperationId = keyof typeof OPERATIONS;');
+  lines.push('');
+
+  lines.push('/** Path parameters per operation (company_id is filled in by the client) */');
+  lines.push('export interface OperationPathParams {');
+  for (const op of operations) {
+    const params = op.pathParams.map((p) => `${formatPropertyKey(p)}: string | number`).join('; ');
+    lines.push(`  ${formatPropertyKey(op.operationId)}: ${params ? `{ ${params} }` : 'Record<string, never>'};`);
+  }
+  lines.push('}');
+  lines.push('');
+
+  lines.push('/** Request body per operation (never for operations without one) */');
+  lines.push('export interface OperationBodies {');
+  for (const op of operations) {
+    lines.push(`  ${formatPropertyKey(op.operationId)}: ${op.bodyParam ?? 'never'};`);
+  }
+  lines.push('}');
+  lines.push('');
+
+  lines.push('/** Query parameters per operation */');
+  lines.push('export interface OperationQueryParams {');
+  for (const op of operations) {
+    if (op.queryParams.length === 0) {
+      lines.push(`  ${formatPropertyKey(op.operationId)}: Record<string, never>;`);
+      continue;
+    }
+    lines.push(`  ${formatPropertyKey(op.operationId)}: {`);
+    for (const param of op.queryParams) {
+      lines.push(`    ${formatPropertyKey(param.name)}${param.required ? '' : '?'}: ${param.type};`);
+    }
+    lines.push('  };');
+  }
+  lines.push('}');
+  lines.push('');
+
   // Generate filter types per resource
   lines.push('// ============================================================================');
   lines.push('// Filter Types per Resource');
@@ -446,10 +625,8 @@ function generateOperationsFile(operations: OperationInfo[]): string {
         for (const param of filterParams) {
           // Extract filter name: filter[name] -> name
           const filterName = param.name.replace('filter[', '').replace(']', '');
-          const key = formatPropertyKey(filterName);
-          const optional = isValidIdentifier(filterName) ? '?' : '';
           lines.push(`  /** ${param.description ?? ''} */`);
-          lines.push(`  ${key}${optional}: ${param.type};`);
+          lines.push(`  ${formatPropertyKey(filterName)}?: ${param.type};`);
         }
         lines.push('}');
         lines.push('');
@@ -460,6 +637,470 @@ function generateOperationsFile(operations: OperationInfo[]): string {
   return lines.join('\n');
 }
 
+interface RouteInfo {
+  collection: string;
+  /** Parent segments of a nested collection, e.g. `product/{product_id}` */
+  parent?: string;
+  member: boolean;
+  /** Path after `{id}`, e.g. `/archive` or `.pdf` */
+  suffix: string;
+}
+
+function parseRoute(path: string): RouteInfo {
+  const segments = path.replace(/#.*$/, '').replace('/{company_id}/', '').split('/');
+
+  // Nested collections like `product/{product_id}/inventory_levels`
+  const second = segments[1];
+  if (segments.length >= 3 && second !== undefined && second.startsWith('{') && !second.startsWith('{id}')) {
+    return { collection: segments[2]!, parent: segments.slice(0, 2).join('/'), member: false, suffix: '' };
+  }
+
+  const member = second !== undefined && second.startsWith('{id}');
+  const suffix = member
+    ? second.slice('{id}'.length) + segments.slice(2).map((s) => `/${s}`).join('')
+    : '';
+  return { collection: segments[0]!, member, suffix };
+}
+
+function isCrudOperation(op: OperationInfo, route: RouteInfo): boolean {
+  if (route.parent || route.suffix) return false;
+  return route.member
+    ? ['GET', 'PUT', 'DELETE'].includes(op.method)
+    : ['GET', 'POST'].includes(op.method);
+}
+
+function actionMethodName(route: RouteInfo): string {
+  if (route.parent) {
+    return `listFor${pascalCase(route.parent.split('/')[0]!)}`;
+  }
+  const key = route.suffix.replace(/^[./]/, '');
+  return ACTION_METHOD_NAMES[key] ?? camelCase(key);
+}
+
+function attributesTypeOf(
+  definition: string | null | undefined,
+  definitions: Record<string, SchemaObject>
+): string | undefined {
+  const ref = definition ? definitions[definition]?.properties?.['attributes']?.$ref : undefined;
+  return ref ? resolveRef(ref) : undefined;
+}
+
+/**
+ * Joins names with commas, wrapped into lines of at most 80 characters
+ */
+function wrapList(names: string[], prefix: string): string[] {
+  const lines: string[] = [];
+  let line = prefix;
+  names.forEach((name, index) => {
+    const item = index < names.length - 1 ? `${name},` : `${name}.`;
+    if (line !== prefix && line.length + item.length + 1 > 80) {
+      lines.push(line.trimEnd());
+      line = prefix;
+    }
+    line += line === prefix ? item : ` ${item}`;
+  });
+  lines.push(line);
+  return lines;
+}
+
+function generateResourcesFile(
+  operations: OperationInfo[],
+  definitions: Record<string, SchemaObject>
+): string {
+  // Group company-scoped operations by collection
+  const groups = new Map<string, OperationInfo[]>();
+  for (const op of operations) {
+    if (!op.hasCompanyId) continue;
+    const { collection } = parseRoute(op.path);
+    if (SKIPPED_COLLECTIONS.has(collection)) continue;
+    if (!groups.has(collection)) {
+      groups.set(collection, []);
+    }
+    groups.get(collection)!.push(op);
+  }
+
+  // Filter types emitted into operations.ts, by tag
+  const filterTypes = new Map<string, string>();
+  const tags = new Set(operations.map((op) => op.tag));
+  for (const tag of tags) {
+    const listOp = operations.find((o) => o.tag === tag && o.operationId.startsWith('list'));
+    if (listOp?.queryParams.some((p) => p.name.startsWith('filter['))) {
+      filterTypes.set(tag, `${pascalCase(tag)}Filters`);
+    }
+  }
+
+  const typeImports = new Set<string>(['JsonApiResource', 'JsonApiResponse']);
+  const filterImports = new Set<string>();
+  const body: string[] = [];
+  let usesResourcePayload = false;
+
+  for (const [collection, ops] of [...groups].sort(([a], [b]) => a.localeCompare(b))) {
+    const className = `Generated${pascalCase(collection)}Resource`;
+    const routes = new Map(ops.map((op) => [op, parseRoute(op.path)]));
+    const crud = ops.filter((op) => isCrudOperation(op, routes.get(op)!));
+
+    // The resource definition comes from show, then list, then create
+    const resourceOp =
+      crud.find((op) => op.method === 'GET' && routes.get(op)!.member) ??
+      ops.find((op) => op.method === 'GET' && op.responseType?.endsWith('[]')) ??
+      crud.find((op) => op.method === 'POST');
+    const resourceDefinition = resourceOp?.responseType?.replace(/\[\]$/, '');
+    const attributesType = attributesTypeOf(resourceDefinition, definitions);
+    if (attributesType) typeImports.add(attributesType);
+
+    const listOp = ops.find((op) => op.method === 'GET' && op.responseType?.endsWith('[]'));
+    const filterType = listOp ? filterTypes.get(listOp.tag) : undefined;
+    if (filterType) filterImports.add(filterType);
+
+    // Create and update bodies; variants like `#basic` and `#detailed` form a union
+    const bodyTypeOf = (method: string): string | undefined => {
+      const names = crud
+        .filter((op) => op.method === method && op.bodyParam)
+        .map((op) => op.bodyParam!);
+      names.forEach((name) => typeImports.add(name));
+      return names.length > 0 ? names.join(' | ') : undefined;
+    };
+    const createBody = bodyTypeOf('POST');
+    const updateBody = bodyTypeOf('PUT');
+    if (Boolean(createBody) !== Boolean(updateBody)) usesResourcePayload = true;
+
+    const responseTypeOf = (op: OperationInfo): string => {
+      const definition = op.responseType?.replace(/\[\]$/, '');
+      if (definition && definition === resourceDefinition) return 'TResource';
+      const attributes = attributesTypeOf(definition, definitions);
+      if (!attributes) return 'JsonApiResource';
+      typeImports.add(attributes);
+      return `JsonApiResource<${attributes}>`;
+    };
+
+    body.push('// ============================================================================');
+    body.push(`// ${pascalCase(collection)}`);
+    body.push('// ============================================================================');
+    body.push('');
+    body.push('/**');
+    body.push(` * Spec operations for \`/${collection}\`:`);
+    body.push(...wrapList(ops.map((op) => op.operationId), ' * '));
+    body.push(' */');
+    body.push(`export class ${className}<`);
+    body.push(`  TResource extends JsonApiResource = JsonApiResource${attributesType ? `<${attributesType}>` : ''},`);
+    body.push(`  TAttributes = ${attributesType ?? 'object'},`);
+    body.push(`  TFilters extends object = ${filterType ?? 'object'}`);
+    if (createBody || updateBody) {
+      body.push('> extends BaseResource<');
+      body.push('  TResource,');
+      body.push('  TAttributes,');
+      body.push('  TFilters,');
+      body.push(`  ${createBody ?? 'ResourcePayload<TAttributes>'},`);
+      body.push(`  ${updateBody ?? 'ResourcePayload<TAttributes>'}`);
+      body.push('> {');
+    } else {
+      body.push('> extends BaseResource<TResource, TAttributes, TFilters> {');
+    }
+    body.push(`  constructor(config: Omit<ResourceConfig, 'basePath' | 'resourceType'>) {`);
+    body.push('    super({');
+    body.push('      ...config,');
+    body.push(`      basePath: '/${collection}',`);
+    body.push(`      resourceType: '${collection}',`);
+    body.push('    });');
+    body.push('  }');
+
+    // Make public only the CRUD methods the spec declares
+    const crudOp = (method: string, member: boolean): OperationInfo | undefined =>
+      crud.find((op) => op.method === method && routes.get(op)!.member === member);
+    const createPayload = createBody ?? 'ResourcePayload<TAttributes>';
+    const updatePayload = updateBody ?? 'ResourcePayload<TAttributes>';
+    const pageless = "Omit<ListQueryParams<TFilters>, 'page'>";
+    const crudMethods: Array<[OperationInfo | undefined, string[]]> = [
+      [crudOp('GET', false), [
+        'override async list(params: ListQueryParams<TFilters> = {}): Promise<PaginatedResponse<TResource>> {',
+        '  return super.list(params);',
+        '}',
+        '',
+        'override iterate(',
+        '  params: ListQueryParams<TFilters> & IterateOptions = {}',
+        '): AsyncGenerator<TResource, void, undefined> {',
+        '  return super.iterate(params);',
+        '}',
+        '',
+        'override async listAll(params: ListQueryParams<TFilters> & IterateOptions = {}): Promise<TResource[]> {',
+        '  return super.listAll(params);',
+        '}',
+        '',
+        `override async count(params: ${pageless} = {}): Promise<number> {`,
+        '  return super.count(params);',
+        '}',
+        '',
+        `override async exists(params: ${pageless} = {}): Promise<boolean> {`,
+        '  return super.exists(params);',
+        '}',
+        '',
+        `override async first(params: ${pageless} = {}): Promise<TResource | null> {`,
+        '  return super.first(params);',
+        '}',
+      ]],
+      [crudOp('GET', true), [
+        'override async get(',
+        '  id: string | number,',
+        '  params: ShowQueryParams = {}',
+        '): Promise<JsonApiResponse<TResource>> {',
+        '  return super.get(id, params);',
+        '}',
+      ]],
+      [crudOp('POST', false), [
+        'override async create(',
+        `  payload: ${createPayload},`,
+        '  options: IdempotencyOptions = {}',
+        '): Promise<JsonApiResponse<TResource>> {',
+        '  return super.create(payload, options);',
+        '}',
+      ]],
+      [crudOp('PUT', true), [
+        'override async update(',
+        '  id: string | number,',
+        `  payload: PartialPayload<${updatePayload}>,`,
+        '  options: ActionOptions = {}',
+        '): Promise<JsonApiResponse<TResource>> {',
+        '  return super.update(id, payload, options);',
+        '}',
+      ]],
+      [crudOp('DELETE', true), [
+        'override async delete(id: string | number, options: ActionOptions = {}): Promise<void> {',
+        '  return super.delete(id, options);',
+        '}',
+      ]],
+    ];
+    for (const [op, lines] of crudMethods) {
+      if (!op) continue;
+      if (lines.some((line) => line.includes('ResourcePayload<TAttributes>'))) {
+        usesResourcePayload = true;
+      }
+      const displayPath = op.path.replace('/{company_id}', '');
+      body.push('');
+      body.push('  /**');
+      body.push(`   * ${op.summary} (\`${op.method} ${displayPath}\`).`);
+      body.push('   */');
+      body.push(...lines.map((line) => (line ? `  ${line}` : '')));
+    }
+
+    const seen = new Set<string>();
+    for (const op of ops) {
+      const route = routes.get(op)!;
+      if (isCrudOperation(op, route)) continue;
+
+      const name = actionMethodName(route);
+      if (seen.has(name)) {
+        throw new Error(`Duplicate method ${className}.${name} for ${op.operationId}`);
+      }
+      seen.add(name);
+
+      const displayPath = op.path.replace('/{company_id}', '');
+      const isList = op.method === 'GET' && op.responseType?.endsWith('[]');
+      const payloadType = op.bodyParam;
+      if (payloadType) typeImports.add(payloadType);
+
+      body.push('');
+      body.push('  /**');
+      body.push(`   * ${op.summary} (\`${op.method} ${displayPath}\`).`);
+      body.push('   */');
+
+      if (route.parent) {
+        const params = [...route.parent.matchAll(/\{([^}]+)\}/g)].map((m) => m[1]!);
+        const path = `/\${this.companyId}/${route.parent.replace(/\{([^}]+)\}/g, (_, p: string) => `\${${camelCase(p)}}`)}/${collection}`;
+        body.push(`  async ${name}(`);
+        for (const param of params) {
+          body.push(`    ${camelCase(param)}: string | number,`);
+        }
+        body.push('    params: ListQueryParams<TFilters> = {}');
+        body.push('  ): Promise<PaginatedResponse<TResource>> {');
+        body.push('    return this.listAt<TResource>(');
+        body.push(`      \`${path}\`,`);
+        body.push('      params');
+        body.push('    );');
+        body.push('  }');
+        continue;
+      }
+
+      const path = `this.buildPath(id, '${route.suffix}')`;
+      const response = responseTypeOf(op);
+
+      if (isList) {
+        body.push(`  async ${name}(`);
+        body.push('    id: string | number,');
+        body.push('    params: ListQueryParams = {}');
+        body.push(`  ): Promise<PaginatedResponse<${response}>> {`);
+        body.push(`    return this.listAt<${response}>(`);
+        body.push(`      ${path},`);
+        body.push('      params');
+        body.push('    );');
+        body.push('  }');
+      } else if (op.method === 'GET') {
+        body.push(`  async ${name}(`);
+        body.push('    id: string | number,');
+        body.push('    params: ShowQueryParams = {}');
+        body.push(`  ): Promise<JsonApiResponse<${response}>> {`);
+        body.push(`    return this.transport.get<JsonApiResponse<${response}>>(`);
+        body.push(`      ${path},`);
+        body.push('      buildShowQuery(params),');
+        body.push('      this.requestOptions(params)');
+        body.push('    );');
+        body.push('  }');
+      } else if (op.bodyParam && op.method === 'POST' && op.successStatus === 201) {
+        // Creates a record, so repeats go through the idempotency guard
+        body.push(`  async ${name}(`);
+        body.push('    id: string | number,');
+        body.push(`    payload: ${payloadType},`);
+        body.push('    options: IdempotencyOptions = {}');
+        body.push(`  ): Promise<JsonApiResponse<${response}>> {`);
+        body.push(`    return this.guardedWrite('${name}', options, (request) =>`);
+        body.push(`      this.transport.post<JsonApiResponse<${response}>>(`);
+        body.push(`        ${path},`);
+        body.push('        payload,');
+        body.push('        request');
+        body.push('      )');
+        body.push('    );');
+        body.push('  }');
+      } else {
+        const method = op.method.toLowerCase();
+        const args = op.method === 'DELETE'
+          ? [path, 'this.requestOptions(options)']
+          : [path, op.bodyParam ? 'payload' : 'undefined', 'this.requestOptions(options)'];
+        body.push(`  async ${name}(`);
+        body.push('    id: string | number,');
+        if (op.bodyParam) {
+          body.push(`    payload: ${payloadType},`);
+        }
+        body.push('    options: ActionOptions = {}');
+        body.push(`  ): Promise<JsonApiResponse<${response}>> {`);
+        body.push(`    return this.transport.${method}<JsonApiResponse<${response}>>(`);
+        body.push(args.map((arg) => `      ${arg}`).join(',\n'));
+        body.push('    );');
+        body.push('  }');
+      }
+    }
+
+    body.push('}');
+    body.push('');
+  }
+
+  const sortedTypes = [...typeImports].sort();
+  const sortedFilters = [...filterImports].sort();
+
+  return [
+    '/**',
+    ' * Auto-generated resource classes from Paraşüt Swagger spec.',
+    ' * DO NOT EDIT MANUALLY - run `npm run generate` instead.',
+    ' *',
+    ' * One class per collection with the spec\'s HTTP verbs, action endpoints',
+    ' * and filters. Hand-written resources extend these with conveniences.',
+    ' */',
+    '',
+    'import {',
+    '  BaseResource,',
+    '  type ActionOptions,',
+    '  type IterateOptions,',
+    '  type PaginatedResponse,',
+    '  type PartialPayload,',
+    '  type ResourceConfig,',
+    ...(usesResourcePayload ? ['  type ResourcePayload,'] : []),
+    "} from '../resources/BaseResource.js';",
+    "import type { IdempotencyOptions } from '../client/Idempotency.js';",
+    "import { buildShowQuery, type ListQueryParams, type ShowQueryParams } from '../client/QueryBuilder.js';",
+    'import type {',
+    ...sortedTypes.map((name) => `  ${name},`),
+    "} from './types.js';",
+    'import type {',
+    ...sortedFilters.map((name) => `  ${name},`),
+    "} from './operations.js';",
+    '',
+    ...body,
+  ].join('\n');
+}
+
+/**
+ * Schema as a `SchemaNode` literal for the runtime validator. Keeps only
+ * what validation checks: type, enum, required, items, properties, allOf
+ * and references.
+ */
+function schemaLiteral(schema: SchemaObject | SchemaObject[], indent: string): string {
+  // A YAML list where a schema belongs (e.g. `logo`) accepts anything
+  if (Array.isArray(schema)) {
+    return '{}';
+  }
+  if (schema.$ref) {
+    return `{ ref: '${resolveRef(schema.$ref)}' }`;
+  }
+
+  const inner = `${indent}  `;
+  const quote = (value: string | number): string =>
+    typeof value === 'string' ? `'${value.replace(/'/g, "\\'")}'` : String(value);
+
+  const simple: string[] = [];
+  const type = schema.type?.toLowerCase() ?? (schema.properties ? 'object' : undefined);
+  if (type) {
+    simple.push(`type: '${type}'`);
+  }
+  if (schema.enum) {
+    simple.push(`enum: [${schema.enum.map(quote).join(', ')}]`);
+  }
+  if (schema.required?.length) {
+    simple.push(`required: [${schema.required.map(quote).join(', ')}]`);
+  }
+
+  const nested: string[] = [];
+  if (schema.items) {
+    nested.push(`items: ${schemaLiteral(schema.items, inner)}`);
+  }
+  if (schema.allOf) {
+    const parts = schema.allOf.map((part) => `${inner}  ${schemaLiteral(part, `${inner}  `)},`);
+    nested.push(`allOf: [\n${parts.join('\n')}\n${inner}]`);
+  }
+  if (schema.properties) {
+    const props = Object.entries(schema.properties).map(
+      ([key, prop]) => `${inner}  ${formatPropertyKey(key)}: ${schemaLiteral(prop, `${inner}  `)},`
+    );
+    nested.push(`properties: {\n${props.join('\n')}\n${inner}}`);
+  }
+
+  if (nested.length === 0) {
+    return simple.length > 0 ? `{ ${simple.join(', ')} }` : '{}';
+  }
+  return `{\n${[...simple, ...nested].map((entry) => `${inner}${entry},`).join('\n')}\n${indent}}`;
+}
+
+function generateSchemasFile(
+  definitions: Record<string, SchemaObject>,
+  operations: OperationInfo[]
+): string {
+  const lines: string[] = [
+    '/**',
+    ' * Auto-generated runtime schemas from Paraşüt Swagger spec.',
+    ' * DO NOT EDIT MANUALLY - run `npm run generate` instead.',
+    ' */',
+    '',
+    "import type { SchemaNode } from '../client/Validation.js';",
+    '',
+    '/** Schema per definition, referenced by `ref` */',
+    'export const SCHEMAS: Record<string, SchemaNode> = {',
+  ];
+
+  for (const name of Object.keys(definitions).sort()) {
+    lines.push(`  ${formatPropertyKey(name)}: ${schemaLiteral(definitions[name]!, '  ')},`);
+  }
+  lines.push('};');
+  lines.push('');
+
+  lines.push('/** Success response schema per operation */');
+  lines.push('export const RESPONSE_SCHEMAS: Record<string, SchemaNode> = {');
+  for (const op of operations) {
+    if (!op.responseSchema) continue;
+    lines.push(`  ${formatPropertyKey(op.operationId)}: ${schemaLiteral(op.responseSchema, '  ')},`);
+  }
+  lines.push('};');
+  lines.push('');
+
+  return lines.join('\n');
+}
+
 // Main execution
 function main() {
   console.log('🔧 Generating types from swagger.yaml...\n');
@@ -475,20 +1116,34 @@ function main() {
   // Ensure output directory exists
   mkdirSync(OUTPUT_DIR, { recursive: true });
 
+  // Extract operations, whose inline bodies become types
+  const operations = extractOperations(spec);
+  console.log(`   Found ${operations.length} operations`);
+
   // Generate types
   console.log('\n📝 Generating types.ts...');
-  const typesContent = generateTypesFile(spec.definitions);
+  const typesContent = generateTypesFile(spec.definitions, operations);
   writeFileSync(TYPES_OUTPUT, typesContent, 'utf-8');
   console.log(`   Written to ${TYPES_OUTPUT}`);
 
-  // Extract and generate operations
+  // Generate operations
   console.log('\n📝 Generating operations.ts...');
-  const operations = extractOperations(spec);
-  console.log(`   Found ${operations.length} operations`);
   const operationsContent = generateOperationsFile(operations);
   writeFileSync(OPERATIONS_OUTPUT, operationsContent, 'utf-8');
   console.log(`   Written to ${OPERATIONS_OUTPUT}`);
 
+  // Generate resource classes
+  console.log('\n📝 Generating resources.ts...');
+  const resourcesContent = generateResourcesFile(operations, spec.definitions);
+  writeFileSync(RESOURCES_OUTPUT, resourcesContent, 'utf-8');
+  console.log(`   Written to ${RESOURCES_OUTPUT}`);
+
+  // Generate runtime schemas
+  console.log('\n📝 Generating schemas.ts...');
+  const schemasContent = generateSchemasFile(spec.definitions, operations);
+  writeFileSync(SCHEMAS_OUTPUT, schemasContent, 'utf-8');
+  console.log(`   Written to ${SCHEMAS_OUTPUT}`);
+
   console.log('\n✅ Type generation complete!');
 }
 
@@ -0,0 +1,323 @@
+/**
+ * Response Cache
+ *
+ * Opt-in cache for GET responses, keyed by path, serialized query and the
+ * identity the response was fetched for. TTLs are configured per resource
+ * (the first non-numeric path segment, e.g. `item_categories`). Any write to
+ * a resource path invalidates the cached lists and records of that resource
+ * and of the resources it affects, such as `accounts` after a payment.
+ */
+
+import type { Middleware, RequestConfig } from './HttpTransport.js';
+import { silentLogger, type Logger } from './Logger.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CacheEntry {
+  value: unknown;
+  /**
+   * Expiry as a Unix timestamp in milliseconds.
+   */
+  expiresAt: number;
+}
+
+/**
+ * Persists cached responses. Implement this to share the cache across
+ * processes (Redis, ...).
+ */
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | null>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  /**
+   * Removes every entry whose key starts with the prefix.
+   */
+  deleteByPrefix(prefix: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface CacheConfig {
+  /**
+   * Store for cached responses.
+   * Defaults to an in-memory LRU store.
+   */
+  store?: CacheStore;
+
+  /**
+   * TTL in milliseconds per resource, keyed by path segment.
+   * @default { item_categories: 300000, tags: 300000, accounts: 60000, taxes: 60000, e_invoice_inboxes: 3600000 }
+   */
+  ttlMs: Record<string, number>;
+
+  /**
+   * TTL for resources not listed in `ttlMs`. 0 disables caching for them.
+   * @default 0
+   */
+  defaultTtlMs: number;
+
+  /**
+   * Maximum entries kept by the default in-memory store.
+   * @default 500
+   */
+  maxEntries: number;
+
+  /**
+   * Resources whose cached entries a write to the key resource also drops,
+   * e.g. a sales invoice payment changes account balances. Merged with
+   * the defaults.
+   */
+  invalidates: Record<string, string[]>;
+
+  /**
+   * Identity responses are cached for; entries are only served to the
+   * same scope. ParasutClient derives it from the credentials or token.
+   */
+  scope?: string;
+}
+
+export const DEFAULT_CACHE_CONFIG: CacheConfig = {
+  ttlMs: {
+    item_categories: 300_000,
+    tags: 300_000,
+    accounts: 60_000,
+    taxes: 60_000,
+    e_invoice_inboxes: 3_600_000,
+  },
+  defaultTtlMs: 0,
+  maxEntries: 500,
+  invalidates: {
+    // Payments and transactions move account and contact balances
+    sales_invoices: ['accounts', 'contacts', 'transactions'],
+    purchase_bills: ['accounts', 'contacts', 'transactions'],
+    bank_fees: ['accounts', 'transactions'],
+    salaries: ['accounts', 'transactions', 'employees'],
+    taxes: ['accounts', 'transactions'],
+    accounts: ['transactions'],
+    contacts: ['accounts', 'transactions'],
+    transactions: ['accounts', 'contacts'],
+    // E-documents set `active_e_document` on their invoice
+    e_archives: ['sales_invoices'],
+    e_invoices: ['sales_invoices'],
+    e_smms: ['sales_invoices'],
+  },
+};
+
+// ============================================================================
+// In-Memory LRU Store
+// ============================================================================
+
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, CacheEntry>();
+
+  constructor(private readonly maxEntries = 500) {}
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+    // Move to the most recently used position
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async deleteByPrefix(prefix: string): Promise<void> {
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+// ============================================================================
+// Response Cache
+// ============================================================================
+
+export class ResponseCache {
+  private readonly config: CacheConfig;
+  private readonly store: CacheStore;
+  private invalidations = 0;
+
+  constructor(config: Partial<CacheConfig> = {}) {
+    this.config = {
+      ...DEFAULT_CACHE_CONFIG,
+      ...config,
+      ttlMs: { ...DEFAULT_CACHE_CONFIG.ttlMs, ...config.ttlMs },
+      invalidates: { ...DEFAULT_CACHE_CONFIG.invalidates, ...config.invalidates },
+    };
+    this.store = config.store ?? new MemoryCacheStore(this.config.maxEntries);
+  }
+
+  /**
+   * Counter bumped on every invalidation. Pass it to `set` to skip caching
+   * responses fetched before a concurrent write.
+   */
+  get generation(): number {
+    return this.invalidations;
+  }
+
+  /**
+   * Returns the TTL for a request path, or 0 if it is not cached.
+   */
+  ttlFor(path: string): number {
+    const resource = resourceName(path);
+    return (resource !== undefined ? this.config.ttlMs[resource] : undefined)
+      ?? this.config.defaultTtlMs;
+  }
+
+  /**
+   * Returns a cached response, or undefined on a miss or expired entry.
+   */
+  async get(request: RequestConfig): Promise<unknown> {
+    const entry = await this.store.get(this.key(request));
+    if (!entry || entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+    // Copy so callers can't mutate the cached value
+    return structuredClone(entry.value);
+  }
+
+  /**
+   * Caches a response for the request path's TTL.
+   */
+  async set(request: RequestConfig, value: unknown, generation?: number): Promise<void> {
+    const ttl = this.ttlFor(request.path);
+    if (ttl <= 0 || (generation !== undefined && generation !== this.invalidations)) {
+      return;
+    }
+    await this.store.set(this.key(request), {
+      value: structuredClone(value),
+      expiresAt: Date.now() + ttl,
+    });
+  }
+
+  /**
+   * Drops cached lists and records of the resource a path belongs to and
+   * of the resources it affects, for every scope.
+   */
+  async invalidate(path: string): Promise<void> {
+    this.invalidations++;
+    const prefix = resourcePath(path);
+    const resource = resourceName(path);
+    const parent = prefix.slice(0, prefix.lastIndexOf('/'));
+    const related = (resource !== undefined ? this.config.invalidates[resource] : undefined) ?? [];
+
+    for (const target of [prefix, ...related.map((name) => `${parent}/${name}`)]) {
+      // Match `/1/tags` and `/1/tags/...` but not `/1/tags_other`
+      await this.store.deleteByPrefix(`${target}?`);
+      await this.store.deleteByPrefix(`${target}/`);
+    }
+  }
+
+  private key(request: RequestConfig): string {
+    return cacheKey(request, this.config.scope);
+  }
+
+  /**
+   * Drops every cached response.
+   */
+  async clear(): Promise<void> {
+    this.invalidations++;
+    await this.store.clear();
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Builds the cache key from the path, the query sorted by name and the
+ * scope. The path comes first so invalidation by prefix covers every scope.
+ */
+function cacheKey(request: RequestConfig, scope = ''): string {
+  const query = Object.entries(request.query ?? {})
+    .filter(([, value]) => value !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
+    .join('&');
+  return `${request.path}?${query}#${encodeURIComponent(scope)}`;
+}
+
+/**
+ * Returns the resource segment of a path, e.g. `tags` for `/123/tags/4`.
+ */
+function resourceName(path: string): string | undefined {
+  return path.split('?')[0]?.split('/').find((segment) => segment !== '' && !/^\d+$/.test(segment));
+}
+
+/**
+ * Returns the path up to and including the resource segment, e.g. `/123/tags`.
+ */
+function resourcePath(path: string): string {
+  const segments = (path.split('?')[0] ?? path).split('/');
+  const index = segments.findIndex((segment) => segment !== '' && !/^\d+$/.test(segment));
+  return index === -1 ? path : segments.slice(0, index + 1).join('/');
+}
+
+// ============================================================================
+// Transport Middleware
+// ============================================================================
+
+/**
+ * Creates a transport middleware that serves cached GETs and invalidates
+ * the resource on every other method. Register it before rate limiting so
+ * cache hits don't consume tokens. A failing invalidation is logged as
+ * `cache:error` and never replaces the write's result.
+ */
+export function createCacheMiddleware(cache: ResponseCache, logger: Logger = silentLogger): Middleware {
+  return async (ctx, next) => {
+    const { request } = ctx;
+
+    if (request.method !== 'GET') {
+      try {
+        return await next();
+      } finally {
+        // Also invalidate on failure: an ambiguous error may have applied the write
+        try {
+          await cache.invalidate(request.path);
+        } catch (error) {
+          logger.log({
+            event: 'cache:error',
+            level: 'error',
+            method: request.method,
+            path: request.path,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+    }
+
+    if (cache.ttlFor(request.path) <= 0) {
+      return next();
+    }
+
+    const cached = await cache.get(request);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const generation = cache.generation;
+    const result = await next();
+    await cache.set(request, result, generation);
+    return result;
+  };
+}
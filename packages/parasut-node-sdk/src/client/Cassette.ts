@@ -0,0 +1,272 @@
+/**
+ * HTTP Cassette
+ *
+ * Records request/response pairs to a JSON file and replays them later, so
+ * a full client session (including OAuth token calls) can run offline.
+ * The cassette is a fetch function: pass `cassette.fetch` as the client's
+ * `fetch` option and both API and token requests go through it.
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { ParasutCassetteError } from './errors.js';
+import type { FetchFunction } from './HttpTransport.js';
+import { DEFAULT_REDACT_KEYS, redact } from './Logger.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CassetteMode = 'record' | 'replay';
+
+export interface CassetteMatchOptions {
+  /**
+   * @default true
+   */
+  method?: boolean;
+  /**
+   * @default true
+   */
+  path?: boolean;
+  /**
+   * @default true
+   */
+  query?: boolean;
+  /**
+   * @default true
+   */
+  body?: boolean;
+}
+
+export interface CassetteConfig {
+  /**
+   * JSON file the interactions are written to and read from.
+   */
+  path: string;
+
+  /**
+   * `record` sends requests and saves them; `replay` serves saved responses.
+   */
+  mode: CassetteMode;
+
+  /**
+   * Request parts that must be equal for a saved interaction to match.
+   */
+  match?: CassetteMatchOptions;
+
+  /**
+   * Fetch implementation used while recording.
+   * @default globalThis.fetch
+   */
+  fetch?: FetchFunction;
+
+  /**
+   * Attribute keys redacted in addition to credentials and tokens.
+   * @default ['tax_number', 'iban', 'tckn']
+   */
+  redactKeys?: string[];
+}
+
+export interface CassetteRequest {
+  method: string;
+  url: string;
+  path: string;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+export interface CassetteResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface CassetteInteraction {
+  request: CassetteRequest;
+  response: CassetteResponse;
+}
+
+/**
+ * Token response fields saved as stable placeholders instead of being
+ * redacted, so a replayed session gets usable tokens.
+ */
+const TOKEN_KEYS: readonly string[] = ['access_token', 'refresh_token'];
+
+// ============================================================================
+// Cassette
+// ============================================================================
+
+export class Cassette {
+  /**
+   * Fetch function to pass to ParasutClient (or HttpTransport).
+   */
+  readonly fetch: FetchFunction;
+
+  private readonly config: CassetteConfig;
+  private readonly match: Required<CassetteMatchOptions>;
+  private readonly redactKeys: readonly string[];
+  private interactions: CassetteInteraction[] = [];
+  private readonly used = new Set<CassetteInteraction>();
+  private readonly placeholders = new Map<string, string>();
+  private loaded: Promise<void> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(config: CassetteConfig) {
+    this.config = config;
+    this.match = { method: true, path: true, query: true, body: true, ...config.match };
+    this.redactKeys = config.redactKeys ?? DEFAULT_REDACT_KEYS;
+    this.fetch = (input, init) =>
+      this.config.mode === 'record' ? this.record(input, init) : this.replay(input, init);
+  }
+
+  /**
+   * Saved interactions not served yet in replay mode.
+   */
+  get pending(): CassetteInteraction[] {
+    return this.interactions.filter((interaction) => !this.used.has(interaction));
+  }
+
+  /**
+   * Waits until every recorded interaction has been written to disk.
+   */
+  async save(): Promise<void> {
+    await this.writing;
+  }
+
+  private async record(input: string, init: RequestInit = {}): Promise<Response> {
+    const request = this.describeRequest(input, init);
+    const response = await (this.config.fetch ?? globalThis.fetch)(input, init);
+
+    const body = await response.clone().text();
+    const headers = Object.fromEntries(response.headers.entries());
+    this.interactions.push({
+      request,
+      response: {
+        status: response.status,
+        headers,
+        body: this.redactBody(body, headers['content-type']),
+      },
+    });
+
+    // Rewrite the whole file after every interaction so a crash keeps what ran
+    const snapshot = JSON.stringify({ interactions: this.interactions }, null, 2);
+    // A failed earlier write is reported to its own caller only
+    const write = this.writing.catch(() => undefined).then(() => writeFile(this.config.path, snapshot));
+    this.writing = write;
+    await write;
+
+    return response;
+  }
+
+  private async replay(input: string, init: RequestInit = {}): Promise<Response> {
+    this.loaded ??= this.load();
+    await this.loaded;
+
+    const request = this.describeRequest(input, init);
+    const interaction = this.interactions.find(
+      (candidate) => !this.used.has(candidate) && this.matches(candidate.request, request)
+    );
+
+    if (!interaction) {
+      throw new ParasutCassetteError(
+        `No recorded interaction in ${this.config.path} matches ${request.method} ${request.url}`
+      );
+    }
+
+    this.used.add(interaction);
+    const { status, headers, body } = interaction.response;
+    // Statuses like 204 must not carry a body
+    return new Response(status === 204 || status === 304 ? null : body, { status, headers });
+  }
+
+  private async load(): Promise<void> {
+    const parsed = JSON.parse(await readFile(this.config.path, 'utf8')) as {
+      interactions?: CassetteInteraction[];
+    };
+    this.interactions = parsed.interactions ?? [];
+  }
+
+  /**
+   * Normalizes a request for saving and matching, with secrets redacted.
+   */
+  private describeRequest(input: string, init: RequestInit): CassetteRequest {
+    const url = new URL(input);
+    const headers = Object.fromEntries(new Headers(init.headers).entries());
+    const query = Object.fromEntries(
+      [...url.searchParams.entries()].sort(([a], [b]) => a.localeCompare(b))
+    );
+    const body = typeof init.body === 'string'
+      ? this.parseBody(init.body, headers['content-type'])
+      : undefined;
+
+    return {
+      method: (init.method ?? 'GET').toUpperCase(),
+      url: `${url.origin}${url.pathname}`,
+      path: url.pathname,
+      query: redact(query, this.redactKeys) as Record<string, string>,
+      headers: redact(headers, this.redactKeys) as Record<string, string>,
+      ...(body !== undefined && { body: redact(body, this.redactKeys) }),
+    };
+  }
+
+  /**
+   * Parses JSON and form bodies so they can be redacted and compared.
+   */
+  private parseBody(body: string, contentType = ''): unknown {
+    if (contentType.includes('application/x-www-form-urlencoded')) {
+      return Object.fromEntries(new URLSearchParams(body).entries());
+    }
+    try {
+      return JSON.parse(body);
+    } catch {
+      return body;
+    }
+  }
+
+  private redactBody(body: string, contentType = ''): string {
+    if (!contentType.includes('json')) {
+      return body;
+    }
+    try {
+      const parsed: unknown = JSON.parse(body);
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        return JSON.stringify(redact(parsed, this.redactKeys));
+      }
+
+      const tokens: Record<string, string> = {};
+      const rest: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(parsed)) {
+        if (TOKEN_KEYS.includes(key) && typeof value === 'string') {
+          tokens[key] = this.placeholder(key, value);
+        } else {
+          rest[key] = value;
+        }
+      }
+      return JSON.stringify({ ...(redact(rest, this.redactKeys) as object), ...tokens });
+    } catch {
+      return body;
+    }
+  }
+
+  /**
+   * Stable stand-in for a token, e.g. `cassette-access_token-1`. The same
+   * token always maps to the same placeholder within a recording.
+   */
+  private placeholder(key: string, token: string): string {
+    let placeholder = this.placeholders.get(token);
+    if (placeholder === undefined) {
+      placeholder = `cassette-${key}-${this.placeholders.size + 1}`;
+      this.placeholders.set(token, placeholder);
+    }
+    return placeholder;
+  }
+
+  private matches(saved: CassetteRequest, actual: CassetteRequest): boolean {
+    return (
+      (!this.match.method || saved.method === actual.method) &&
+      (!this.match.path || saved.url === actual.url) &&
+      (!this.match.query || JSON.stringify(saved.query) === JSON.stringify(actual.query)) &&
+      (!this.match.body || JSON.stringify(saved.body) === JSON.stringify(actual.body))
+    );
+  }
+}
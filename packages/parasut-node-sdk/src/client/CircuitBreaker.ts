@@ -0,0 +1,232 @@
+/**
+ * Circuit Breaker
+ *
+ * Stops sending requests while the API is failing. After consecutive 5xx
+ * responses, network errors or timeouts the circuit opens and requests fail
+ * fast with ParasutCircuitOpenError. Once the reset timeout passes, a limited
+ * number of trial requests decide whether to close or reopen it.
+ */
+
+import type { Middleware } from './HttpTransport.js';
+import {
+  ParasutApiError,
+  ParasutCircuitOpenError,
+  ParasutNetworkError,
+} from './errors.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerConfig {
+  /**
+   * Whether the circuit breaker is enabled.
+   * @default true
+   */
+  enabled: boolean;
+
+  /**
+   * Consecutive failures that open the circuit.
+   * @default 5
+   */
+  failureThreshold: number;
+
+  /**
+   * Time the circuit stays open before allowing trial requests, in milliseconds.
+   * @default 30000
+   */
+  resetTimeoutMs: number;
+
+  /**
+   * Concurrent trial requests allowed while half-open.
+   * @default 1
+   */
+  halfOpenMaxRequests: number;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
+  enabled: true,
+  failureThreshold: 5,
+  resetTimeoutMs: 30_000,
+  halfOpenMaxRequests: 1,
+};
+
+export interface CircuitStateChangeContext {
+  from: CircuitState;
+  to: CircuitState;
+  /**
+   * Consecutive failures at the time of the change.
+   */
+  failures: number;
+  /**
+   * Failure that caused the circuit to open.
+   */
+  error?: Error;
+}
+
+export interface CircuitStateChangeHook {
+  (context: CircuitStateChangeContext): void;
+}
+
+// ============================================================================
+// Circuit Breaker
+// ============================================================================
+
+export class CircuitBreaker {
+  private readonly config: CircuitBreakerConfig;
+  private readonly hooks: CircuitStateChangeHook[] = [];
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private trials = 0;
+
+  constructor(config: Partial<CircuitBreakerConfig> = {}) {
+    this.config = { ...DEFAULT_CIRCUIT_BREAKER_CONFIG, ...config };
+  }
+
+  /**
+   * Adds a hook that's called whenever the circuit changes state.
+   */
+  onStateChange(hook: CircuitStateChangeHook): void {
+    this.hooks.push(hook);
+  }
+
+  /**
+   * Gets the current state. An open circuit whose reset timeout has passed
+   * reports `half-open`.
+   */
+  getState(): CircuitState {
+    if (this.state === 'open' && this.remainingOpenMs() === 0) {
+      this.transition('half-open');
+    }
+    return this.state;
+  }
+
+  /**
+   * Executes a function through the circuit breaker.
+   */
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    if (!this.config.enabled) {
+      return fn();
+    }
+
+    this.admit();
+
+    const trial = this.state === 'half-open';
+    if (trial) {
+      this.trials++;
+    }
+
+    try {
+      const result = await fn();
+      this.recordSuccess();
+      return result;
+    } catch (error) {
+      if (isCircuitFailure(error)) {
+        this.recordFailure(error as Error);
+      } else if (error instanceof ParasutApiError) {
+        // The API answered; it is healthy even if the request was rejected
+        this.recordSuccess();
+      }
+      throw error;
+    } finally {
+      if (trial) {
+        this.trials--;
+      }
+    }
+  }
+
+  /**
+   * Closes the circuit and clears the failure count.
+   */
+  reset(): void {
+    this.failures = 0;
+    this.transition('closed');
+  }
+
+  /**
+   * Throws if the circuit does not admit a request right now.
+   */
+  private admit(): void {
+    const state = this.getState();
+
+    if (state === 'open') {
+      throw new ParasutCircuitOpenError(this.remainingOpenMs());
+    }
+
+    if (state === 'half-open' && this.trials >= this.config.halfOpenMaxRequests) {
+      throw new ParasutCircuitOpenError(0);
+    }
+  }
+
+  private recordSuccess(): void {
+    // Late responses from before the circuit opened don't close it
+    if (this.state === 'open') {
+      return;
+    }
+    this.failures = 0;
+    if (this.state === 'half-open') {
+      this.transition('closed');
+    }
+  }
+
+  private recordFailure(error: Error): void {
+    this.failures++;
+
+    if (
+      this.state === 'half-open' ||
+      (this.state === 'closed' && this.failures >= this.config.failureThreshold)
+    ) {
+      this.openedAt = Date.now();
+      this.transition('open', error);
+    }
+  }
+
+  private remainingOpenMs(): number {
+    return Math.max(0, this.openedAt + this.config.resetTimeoutMs - Date.now());
+  }
+
+  private transition(to: CircuitState, error?: Error): void {
+    const from = this.state;
+    if (from === to) {
+      return;
+    }
+    this.state = to;
+
+    const context: CircuitStateChangeContext = {
+      from,
+      to,
+      failures: this.failures,
+      ...(error !== undefined && { error }),
+    };
+    for (const hook of this.hooks) {
+      hook(context);
+    }
+  }
+}
+
+/**
+ * Returns true for errors that indicate the API is unavailable:
+ * 5xx responses, network errors and timeouts.
+ */
+function isCircuitFailure(error: unknown): boolean {
+  if (error instanceof ParasutNetworkError) {
+    return true;
+  }
+  return error instanceof ParasutApiError && error.status >= 500;
+}
+
+// ============================================================================
+// Transport Middleware
+// ============================================================================
+
+/**
+ * Creates a transport middleware that runs every attempt through the breaker.
+ * Register it inside retry so each attempt counts, and before rate limiting
+ * so rejected requests don't consume tokens.
+ */
+export function createCircuitBreakerMiddleware(breaker: CircuitBreaker): Middleware {
+  return (_ctx, next) => breaker.execute(next);
+}
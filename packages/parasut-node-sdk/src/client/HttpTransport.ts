@@ -1,15 +1,23 @@
 /**
  * HTTP Transport Layer
  *
- * Provides a native fetch wrapper with interceptors, error handling,
- * and JSON:API content type support.
+ * Provides a native fetch wrapper with a middleware pipeline, error handling,
+ * rate limiting, retries and JSON:API content type support.
  */
 
 import {
   createApiError,
+  ParasutAbortError,
   ParasutNetworkError,
   ParasutTimeoutError,
 } from './errors.js';
+import {
+  createRateLimitMiddleware,
+  parseRateLimitHeaders,
+  type RateLimiter,
+} from './RateLimiter.js';
+import { createRetryMiddleware, type RetryHandler } from './RetryHandler.js';
+import { throwIfAborted } from './abort.js';
 
 // ============================================================================
 // Types
@@ -22,14 +30,121 @@ export interface RequestConfig {
   body?: unknown;
   headers?: Record<string, string>;
   timeout?: number;
+  /**
+   * Cancels the request, including rate limiter waits and retry backoff.
+   */
+  signal?: AbortSignal;
+  /**
+   * Rate limiter lane (e.g. `'high'`, `'normal'`, `'low'`).
+   */
+  priority?: string;
+  /**
+   * Operation label for metrics, e.g. `sales_invoices.share`. Defaults to
+   * the spec operation matching the method and path.
+   */
+  operation?: string;
+}
+
+/**
+ * Minimal fetch signature accepted by the SDK.
+ * The global `fetch`, undici's `fetch` and most test doubles satisfy it.
+ */
+export type FetchFunction = (input: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Network options shared by API and OAuth token requests.
+ */
+export interface ConnectionOptions {
+  /**
+   * Custom fetch implementation.
+   * @default globalThis.fetch
+   */
+  fetch?: FetchFunction;
+
+  /**
+   * undici Dispatcher (e.g. `Agent` for keep-alive, `ProxyAgent`, or an
+   * Agent with a custom CA bundle). Passed as `dispatcher` to fetch.
+   */
+  dispatcher?: unknown;
+
+  /**
+   * Node `http.Agent` for fetch implementations that accept `agent`
+   * (e.g. node-fetch).
+   */
+  agent?: unknown;
 }
 
-export interface TransportConfig {
+/**
+ * Executes fetch with the configured implementation and connection options.
+ */
+export function fetchWithOptions(
+  url: string,
+  init: RequestInit,
+  options: ConnectionOptions = {}
+): Promise<Response> {
+  const fetchImpl = options.fetch ?? globalThis.fetch;
+  const passthrough: { dispatcher?: unknown; agent?: unknown } = {};
+
+  if (options.dispatcher !== undefined) {
+    passthrough.dispatcher = options.dispatcher;
+  }
+  if (options.agent !== undefined) {
+    passthrough.agent = options.agent;
+  }
+
+  // Dispatcher/agent types differ between fetch implementations
+  return fetchImpl(url, { ...init, ...passthrough } as RequestInit);
+}
+
+export interface TransportConfig extends ConnectionOptions {
   baseUrl: string;
   timeout: number;
   headers?: Record<string, string>;
+  /**
+   * Rate limiter consulted before every attempt (including retries).
+   * Registered as middleware when the transport is created.
+   */
+  rateLimiter?: RateLimiter;
+  /**
+   * Retry handler wrapping each request.
+   * Registered as the outermost middleware when the transport is created.
+   */
+  retryHandler?: RetryHandler;
+}
+
+/**
+ * Per-request state passed through the middleware pipeline.
+ */
+export interface MiddlewareContext {
+  /**
+   * The request being executed.
+   * Middleware may replace it before calling `next()`.
+   */
+  request: RequestConfig;
+
+  /**
+   * Raw response of the latest attempt.
+   * Set by the transport once headers arrive, including for error statuses.
+   */
+  response?: Response;
+
+  /**
+   * Attempt number (1-based), set by the retry middleware.
+   */
+  attempt?: number;
 }
 
+/**
+ * Continues to the next middleware (or the network) and resolves with the parsed body.
+ */
+export type MiddlewareNext = () => Promise<unknown>;
+
+/**
+ * Onion-style middleware. Awaits `next()` to run the rest of the pipeline and
+ * may inspect, replace or short-circuit the result.
+ */
+export type Middleware = (context: MiddlewareContext, next: MiddlewareNext) => Promise<unknown>;
+
 export interface RequestInterceptor {
   (config: RequestConfig): RequestConfig | Promise<RequestConfig>;
 }
@@ -42,6 +157,13 @@ export interface ErrorInterceptor {
   (error: Error): Error | Promise<Error>;
 }
 
+/**
+ * Normalizes a thrown value into an Error.
+ */
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
 // ============================================================================
 // Query Serialization
 // ============================================================================
@@ -85,72 +207,234 @@ export function buildUrl(
   return url + serializeQuery(query);
 }
 
+// ============================================================================
+// Request Coalescing
+// ============================================================================
+
+interface InFlightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  /**
+   * Callers still waiting for the result.
+   */
+  waiters: number;
+  /**
+   * Callers that joined so far; every caller after the first gets a copy.
+   */
+  joined: number;
+}
+
+/**
+ * Creates a middleware that shares one in-flight request between concurrent
+ * GETs with the same URL, Authorization header and priority lane, so a
+ * high-priority caller never waits on a request queued in a lower lane.
+ * Register it after
+ * authentication and before retry and rate limiting so a shared request
+ * consumes a single rate limiter token.
+ *
+ * Each caller keeps its own AbortSignal; the shared request is cancelled
+ * only when every caller has aborted.
+ */
+export function createCoalescingMiddleware(): Middleware {
+  const inFlight = new Map<string, InFlightRequest>();
+
+  return async (ctx, next) => {
+    const { request } = ctx;
+    if (request.method !== 'GET') {
+      return next();
+    }
+
+    const sortedQuery = Object.fromEntries(
+      Object.entries(request.query ?? {}).sort(([a], [b]) => a.localeCompare(b))
+    );
+    const key = [
+      `${request.path}${serializeQuery(sortedQuery)}`,
+      request.headers?.['Authorization'] ?? '',
+      request.priority ?? '',
+    ].join(' ');
+
+    throwIfAborted(request.signal);
+
+    let entry = inFlight.get(key);
+    if (!entry) {
+      const controller = new AbortController();
+      ctx.request = { ...request, signal: controller.signal };
+      entry = { promise: next(), controller, waiters: 0, joined: 0 };
+      inFlight.set(key, entry);
+    }
+
+    const shared = entry;
+    const release = (): void => {
+      if (inFlight.get(key) === shared) {
+        inFlight.delete(key);
+      }
+    };
+    shared.promise.then(release, release);
+
+    return joinInFlight(shared, request.signal, () => {
+      // Every caller aborted: cancel and let the next caller start afresh
+      release();
+      shared.controller.abort();
+    });
+  };
+}
+
+/**
+ * Waits for a shared request, rejecting early if the caller's signal aborts.
+ */
+function joinInFlight(
+  entry: InFlightRequest,
+  signal: AbortSignal | undefined,
+  onAbandoned: () => void
+): Promise<unknown> {
+  const copy = entry.joined++ > 0;
+  entry.waiters++;
+
+  return new Promise((resolve, reject) => {
+    let settled = false;
+
+    const leave = (): void => {
+      settled = true;
+      signal?.removeEventListener('abort', onAbort);
+      entry.waiters--;
+    };
+
+    const onAbort = (): void => {
+      if (settled) return;
+      leave();
+      if (entry.waiters === 0) {
+        onAbandoned();
+      }
+      reject(new ParasutAbortError(signal?.reason));
+    };
+
+    entry.promise.then(
+      (value) => {
+        if (settled) return;
+        leave();
+        // Callers must not see each other's mutations
+        resolve(copy ? structuredClone(value) : value);
+      },
+      (error: unknown) => {
+        if (settled) return;
+        leave();
+        reject(error);
+      }
+    );
+
+    if (signal?.aborted) {
+      onAbort();
+    } else {
+      signal?.addEventListener('abort', onAbort, { once: true });
+    }
+  });
+}
+
 // ============================================================================
 // HTTP Transport
 // ============================================================================
 
 export class HttpTransport {
   private config: TransportConfig;
-  private requestInterceptors: RequestInterceptor[] = [];
-  private responseInterceptors: ResponseInterceptor[] = [];
-  private errorInterceptors: ErrorInterceptor[] = [];
+  private middleware: Middleware[] = [];
 
   constructor(config: TransportConfig) {
     this.config = config;
+
+    if (config.retryHandler) {
+      this.use(createRetryMiddleware(config.retryHandler));
+    }
+    if (config.rateLimiter) {
+      this.use(createRateLimitMiddleware(config.rateLimiter));
+    }
+  }
+
+  /**
+   * Adds a middleware to the pipeline.
+   * Middleware runs in registration order; the first registered is the
+   * outermost layer and sees the final result or error of everything inside it.
+   *
+   * @example
+   * ```typescript
+   * transport.use(async (ctx, next) => {
+   *   const start = Date.now();
+   *   try {
+   *     return await next();
+   *   } finally {
+   *     console.log(ctx.request.method, ctx.request.path, Date.now() - start);
+   *   }
+   * });
+   * ```
+   */
+  use(middleware: Middleware): void {
+    this.middleware.push(middleware);
   }
 
   /**
    * Adds a request interceptor.
-   * Interceptors are called in order before the request is sent.
+   * Adapter over `use()`: the interceptor may replace the request config.
    */
   addRequestInterceptor(interceptor: RequestInterceptor): void {
-    this.requestInterceptors.push(interceptor);
+    this.use(async (ctx, next) => {
+      ctx.request = await interceptor(ctx.request);
+      return next();
+    });
   }
 
   /**
    * Adds a response interceptor.
-   * Interceptors are called in order after a successful response.
+   * Adapter over `use()`: called with the response after a successful request.
    */
   addResponseInterceptor(interceptor: ResponseInterceptor): void {
-    this.responseInterceptors.push(interceptor);
+    this.use(async (ctx, next) => {
+      const body = await next();
+      return ctx.response ? interceptor(ctx.response, body) : body;
+    });
   }
 
   /**
    * Adds an error interceptor.
-   * Interceptors are called in order when an error occurs.
+   * Adapter over `use()`: called when an inner layer throws.
    */
   addErrorInterceptor(interceptor: ErrorInterceptor): void {
-    this.errorInterceptors.push(interceptor);
+    this.use(async (_ctx, next) => {
+      try {
+        return await next();
+      } catch (error) {
+        throw await interceptor(toError(error));
+      }
+    });
   }
 
   /**
-   * Executes a request with all interceptors applied.
+   * Executes a request through the middleware pipeline.
    */
   async request<T = unknown>(config: RequestConfig): Promise<T> {
-    let processedConfig = config;
+    const context: MiddlewareContext = { request: config };
 
-    // Apply request interceptors
-    for (const interceptor of this.requestInterceptors) {
-      processedConfig = await interceptor(processedConfig);
-    }
+    const dispatch = (index: number): Promise<unknown> => {
+      const middleware = this.middleware[index];
+      if (!middleware) {
+        return this.executeRequest(context);
+      }
+      // next() may be called more than once (e.g. by retry middleware)
+      return middleware(context, () => dispatch(index + 1));
+    };
 
     try {
-      const response = await this.executeRequest(processedConfig);
-      return response as T;
+      return (await dispatch(0)) as T;
     } catch (error) {
-      // Apply error interceptors
-      let processedError = error instanceof Error ? error : new Error(String(error));
-      for (const interceptor of this.errorInterceptors) {
-        processedError = await interceptor(processedError);
-      }
-      throw processedError;
+      throw toError(error);
     }
   }
 
   /**
    * Executes the actual HTTP request.
+   * Terminal handler of the middleware pipeline.
    */
-  private async executeRequest(config: RequestConfig): Promise<unknown> {
+  private async executeRequest(context: MiddlewareContext): Promise<unknown> {
+    const config = context.request;
+    delete context.response;
     const timeout = config.timeout ?? this.config.timeout;
     const url = buildUrl(this.config.baseUrl, config.path, config.query);
 
@@ -176,7 +460,12 @@ export class HttpTransport {
       fetchOptions.body = JSON.stringify(config.body);
     }
 
-    // Create abort controller for timeout
+    // Create abort controller for timeout, linked to the caller's signal
+    const callerSignal = config.signal;
+    if (callerSignal?.aborted) {
+      throw new ParasutAbortError(callerSignal.reason);
+    }
+
     const controller = new AbortController();
     fetchOptions.signal = controller.signal;
 
@@ -184,17 +473,23 @@ export class HttpTransport {
       controller.abort();
     }, timeout);
 
+    const onCallerAbort = (): void => {
+      controller.abort();
+    };
+    callerSignal?.addEventListener('abort', onCallerAbort, { once: true });
+
     try {
-      const response = await fetch(url, fetchOptions);
-      clearTimeout(timeoutId);
+      const response = await fetchWithOptions(url, fetchOptions, this.config);
+      context.response = response;
 
       return await this.handleResponse(response);
     } catch (error) {
-      clearTimeout(timeoutId);
-
       if (error instanceof Error) {
         // Handle abort/timeout
         if (error.name === 'AbortError') {
+          if (callerSignal?.aborted) {
+            throw new ParasutAbortError(callerSignal.reason);
+          }
           throw new ParasutTimeoutError(timeout);
         }
 
@@ -209,6 +504,9 @@ export class HttpTransport {
       }
 
       throw error;
+    } finally {
+      clearTimeout(timeoutId);
+      callerSignal?.removeEventListener('abort', onCallerAbort);
     }
   }
 
@@ -242,16 +540,16 @@ export class HttpTransport {
 
     // Check for error status codes
     if (!response.ok) {
-      throw createApiError(response.status, body, requestId, rawBody);
-    }
-
-    // Apply response interceptors
-    let result = body;
-    for (const interceptor of this.responseInterceptors) {
-      result = await interceptor(response, result);
+      throw createApiError(
+        response.status,
+        body,
+        requestId,
+        rawBody,
+        parseRateLimitHeaders(response.headers).retryAfterMs
+      );
     }
 
-    return result;
+    return body;
   }
 
   /**
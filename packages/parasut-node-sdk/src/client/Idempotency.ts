@@ -0,0 +1,324 @@
+/**
+ * Idempotency Guard
+ *
+ * Protects non-idempotent writes (create, pay, debit, credit) from being
+ * recorded twice. Every write carries a client-generated key kept in a
+ * pluggable store. When a write fails ambiguously (network error, timeout,
+ * 5xx) the record is looked up by its natural keys before anything is
+ * re-posted.
+ */
+
+import { randomUUID } from 'node:crypto';
+import {
+  ParasutAbortError,
+  ParasutApiError,
+  ParasutIdempotencyError,
+  ParasutNetworkError,
+} from './errors.js';
+import type { JsonApiResource } from '../generated/types.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface IdempotencyRecord {
+  key: string;
+  /**
+   * Operation the key was used for, e.g. `sales_invoices.create`.
+   */
+  operation: string;
+  status: 'pending' | 'completed';
+  /**
+   * ISO timestamp of the first attempt.
+   */
+  startedAt: string;
+  /**
+   * Response of the completed write.
+   */
+  response?: unknown;
+}
+
+/**
+ * Persists idempotency records. Implement this to share keys across
+ * processes (Redis, database, ...).
+ */
+export interface IdempotencyStore {
+  get(key: string): Promise<IdempotencyRecord | null>;
+  set(record: IdempotencyRecord): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface IdempotencyConfig {
+  /**
+   * Whether writes go through the idempotency guard.
+   * @default true
+   */
+  enabled: boolean;
+
+  /**
+   * Store for idempotency records.
+   * Defaults to in-memory storage.
+   */
+  store?: IdempotencyStore;
+
+  /**
+   * Re-posts allowed after a lookup confirms the record was not created.
+   * @default 1
+   */
+  maxReposts: number;
+
+  /**
+   * Records kept by the default in-memory store. Completed records hold
+   * the write's response, so keep this small.
+   * @default 100
+   */
+  maxEntries: number;
+
+  /**
+   * Tolerance for clock skew when comparing server `created_at` values
+   * with the local attempt start, in milliseconds. Lookups accept any
+   * matching record created in this window, so keep it short.
+   * @default 5000
+   */
+  clockSkewMs: number;
+}
+
+export const DEFAULT_IDEMPOTENCY_CONFIG: IdempotencyConfig = {
+  enabled: true,
+  maxReposts: 1,
+  maxEntries: 100,
+  clockSkewMs: 5_000,
+};
+
+/**
+ * Per-call options for guarded writes.
+ */
+export interface IdempotencyOptions {
+  /**
+   * Key identifying this write. Reuse it when retrying the same logical
+   * write yourself. Generated when omitted.
+   */
+  idempotencyKey?: string;
+  signal?: AbortSignal;
+  /**
+   * Rate limiter lane for this request.
+   */
+  priority?: string;
+}
+
+export interface IdempotentOperation<T> {
+  operation: string;
+  key?: string;
+  /**
+   * Sends the write with the idempotency key attached.
+   */
+  send: (key: string) => Promise<T>;
+  /**
+   * Finds a record created at or after `since` by its natural keys.
+   * Resolves `null` when the record does not exist. Omit it when the
+   * payload has no natural keys; ambiguous failures are then rethrown
+   * instead of re-posted.
+   */
+  lookup?: (since: Date) => Promise<T | null>;
+}
+
+// ============================================================================
+// In-Memory Store
+// ============================================================================
+
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  private readonly records = new Map<string, IdempotencyRecord>();
+
+  constructor(private readonly maxEntries = DEFAULT_IDEMPOTENCY_CONFIG.maxEntries) {}
+
+  async get(key: string): Promise<IdempotencyRecord | null> {
+    return this.records.get(key) ?? null;
+  }
+
+  async set(record: IdempotencyRecord): Promise<void> {
+    this.records.delete(record.key);
+    this.records.set(record.key, record);
+
+    // Evict the oldest records first (Map keeps insertion order)
+    while (this.records.size > this.maxEntries) {
+      const oldest = this.records.keys().next().value;
+      if (oldest === undefined) break;
+      this.records.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Returns true when the server may or may not have recorded the write:
+ * network errors, timeouts, 408 and 5xx responses.
+ */
+export function isAmbiguousError(error: unknown): boolean {
+  if (error instanceof ParasutNetworkError) {
+    return true;
+  }
+  if (error instanceof ParasutApiError) {
+    return error.status === 408 || error.status >= 500;
+  }
+  return false;
+}
+
+/**
+ * Checks that every defined expected attribute equals the resource's value.
+ * Numbers are compared numerically since the API may return decimals as strings.
+ */
+export function matchesAttributes(
+  resource: JsonApiResource,
+  expected: Record<string, unknown>
+): boolean {
+  const attributes = resource.attributes as Record<string, unknown>;
+
+  return Object.entries(expected).every(([key, value]) => {
+    if (value === undefined) return true;
+    const actual = attributes[key];
+    if (typeof value === 'number') {
+      return actual !== null && actual !== undefined && Number(actual) === value;
+    }
+    return actual === value;
+  });
+}
+
+/**
+ * Checks that the resource was created at or after `since`.
+ * Resources without `created_at` are accepted.
+ */
+export function createdSince(resource: JsonApiResource, since: Date): boolean {
+  const createdAt = (resource.attributes as Record<string, unknown>)['created_at'];
+  if (typeof createdAt !== 'string') return true;
+  const time = Date.parse(createdAt);
+  return Number.isNaN(time) || time >= since.getTime();
+}
+
+// ============================================================================
+// Guard
+// ============================================================================
+
+export class IdempotencyGuard {
+  private readonly config: IdempotencyConfig;
+  private readonly store: IdempotencyStore;
+  private readonly inFlight = new Map<string, Promise<unknown>>();
+
+  constructor(config: Partial<IdempotencyConfig> = {}) {
+    this.config = { ...DEFAULT_IDEMPOTENCY_CONFIG, ...config };
+    this.store = config.store ?? new MemoryIdempotencyStore(this.config.maxEntries);
+  }
+
+  /**
+   * Whether writes should go through the guard.
+   */
+  get enabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /**
+   * Runs a write at most once per key.
+   * Concurrent calls with the same key share one execution.
+   */
+  async execute<T>(operation: IdempotentOperation<T>): Promise<T> {
+    const key = operation.key ?? randomUUID();
+
+    const running = this.inFlight.get(key);
+    if (running) {
+      return running as Promise<T>;
+    }
+
+    const promise = this.run(key, operation).finally(() => {
+      this.inFlight.delete(key);
+    });
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  private async run<T>(key: string, operation: IdempotentOperation<T>): Promise<T> {
+    const existing = await this.store.get(key);
+
+    if (existing && existing.operation !== operation.operation) {
+      throw new ParasutIdempotencyError(
+        `Idempotency key ${key} was already used for ${existing.operation}`,
+        key
+      );
+    }
+
+    if (existing?.status === 'completed') {
+      return existing.response as T;
+    }
+
+    const record: IdempotencyRecord = existing ?? {
+      key,
+      operation: operation.operation,
+      status: 'pending',
+      startedAt: new Date().toISOString(),
+    };
+    const since = new Date(Date.parse(record.startedAt) - this.config.clockSkewMs);
+
+    // A previous attempt with this key failed ambiguously; check before sending
+    if (existing && operation.lookup) {
+      const found = await operation.lookup(since);
+      if (found !== null) {
+        return this.complete(record, found);
+      }
+    }
+
+    await this.store.set(record);
+
+    let reposts = 0;
+    for (;;) {
+      try {
+        const response = await operation.send(key);
+        return await this.complete(record, response);
+      } catch (error) {
+        // The caller cancelled; keep the record pending so a retry with the
+        // same key checks for the record first
+        if (error instanceof ParasutAbortError) {
+          throw error;
+        }
+
+        if (!isAmbiguousError(error)) {
+          // Definitely not recorded, the key can be used again
+          await this.store.delete(key);
+          throw error;
+        }
+
+        // Without a way to verify, surface the original error; the record
+        // stays pending so a retry with the same key looks it up first
+        if (!operation.lookup) {
+          throw error;
+        }
+
+        let found: T | null;
+        try {
+          found = await operation.lookup(since);
+        } catch {
+          throw error;
+        }
+
+        if (found !== null) {
+          return this.complete(record, found);
+        }
+
+        if (reposts >= this.config.maxReposts) {
+          await this.store.delete(key);
+          throw error;
+        }
+        reposts++;
+      }
+    }
+  }
+
+  private async complete<T>(record: IdempotencyRecord, response: T): Promise<T> {
+    await this.store.set({ ...record, status: 'completed', response });
+    return response;
+  }
+}
@@ -0,0 +1,228 @@
+/**
+ * Structured Logging
+ *
+ * Emits structured events for requests, retries, rate limit waits, token
+ * refreshes, circuit breaker changes, invalid responses and cache failures. Secrets and
+ * sensitive attributes are redacted before events reach the logger. The
+ * default logger is silent.
+ */
+
+import type { Middleware } from './HttpTransport.js';
+import type { ValidationIssue } from './Validation.js';
+import { ParasutApiError } from './errors.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogEventName =
+  | 'request:start'
+  | 'request:end'
+  | 'request:retry'
+  | 'rateLimit:wait'
+  | 'token:refresh'
+  | 'circuit:change'
+  | 'response:invalid'
+  | 'cache:error';
+
+export interface LogEvent {
+  event: LogEventName;
+  level: LogLevel;
+  method?: string;
+  path?: string;
+  status?: number;
+  durationMs?: number;
+  attempt?: number;
+  requestId?: string;
+  /**
+   * Time spent waiting (rate limit queue) or scheduled before a retry.
+   */
+  waitMs?: number;
+  /**
+   * OAuth grant used for a token refresh.
+   */
+  grantType?: string;
+  /**
+   * Circuit breaker state after a change.
+   */
+  state?: string;
+  /**
+   * Spec operation of an invalid response.
+   */
+  operationId?: string;
+  /**
+   * Schema mismatches of an invalid response.
+   */
+  issues?: ValidationIssue[];
+  error?: string;
+  query?: unknown;
+  headers?: unknown;
+  body?: unknown;
+}
+
+/**
+ * Receives structured SDK events.
+ */
+export interface Logger {
+  log(event: LogEvent): void;
+}
+
+/**
+ * Sensitive attribute keys redacted by default.
+ */
+export const DEFAULT_REDACT_KEYS: readonly string[] = ['tax_number', 'iban', 'tckn'];
+
+/**
+ * Credential keys that are always redacted.
+ */
+const SECRET_KEYS: readonly string[] = [
+  'authorization',
+  'password',
+  'client_secret',
+  'clientsecret',
+  'access_token',
+  'accesstoken',
+  'refresh_token',
+  'refreshtoken',
+];
+
+const REDACTED = '[REDACTED]';
+
+// ============================================================================
+// Built-in Loggers
+// ============================================================================
+
+/**
+ * Logger that discards every event (default).
+ */
+export const silentLogger: Logger = {
+  log(): void {
+    // Intentionally empty
+  },
+};
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
+/**
+ * Creates a logger that writes events as JSON lines to the console.
+ */
+export function createConsoleLogger(minLevel: LogLevel = 'info'): Logger {
+  return {
+    log(event: LogEvent): void {
+      if (LEVEL_ORDER[event.level] < LEVEL_ORDER[minLevel]) {
+        return;
+      }
+      const line = JSON.stringify({ timestamp: new Date().toISOString(), ...event });
+      if (event.level === 'error') {
+        console.error(line);
+      } else if (event.level === 'warn') {
+        console.warn(line);
+      } else {
+        console.log(line);
+      }
+    },
+  };
+}
+
+// ============================================================================
+// Redaction
+// ============================================================================
+
+/**
+ * Returns a deep copy of the value with secrets and the given attribute keys
+ * replaced by `[REDACTED]`. Bearer tokens inside strings are masked as well.
+ */
+export function redact(value: unknown, keys: readonly string[] = DEFAULT_REDACT_KEYS): unknown {
+  const lowerKeys = new Set([...SECRET_KEYS, ...keys.map((k) => k.toLowerCase())]);
+
+  const walk = (input: unknown): unknown => {
+    if (typeof input === 'string') {
+      return input.replace(/Bearer\s+[^\s"',]+/gi, `Bearer ${REDACTED}`);
+    }
+    if (Array.isArray(input)) {
+      return input.map(walk);
+    }
+    if (typeof input === 'object' && input !== null) {
+      const result: Record<string, unknown> = {};
+      for (const [key, inner] of Object.entries(input)) {
+        // Match both `tax_number` and bracketed query keys like `filter[tax_number]`
+        const bare = key.replace(/^.*\[([^\]]+)\]$/, '$1').toLowerCase();
+        result[key] = lowerKeys.has(key.toLowerCase()) || lowerKeys.has(bare)
+          ? REDACTED
+          : walk(inner);
+      }
+      return result;
+    }
+    return input;
+  };
+
+  return walk(value);
+}
+
+// ============================================================================
+// Transport Middleware
+// ============================================================================
+
+/**
+ * Creates a transport middleware that emits `request:start` and
+ * `request:end` events for every attempt.
+ */
+export function createLoggingMiddleware(
+  logger: Logger,
+  redactKeys: readonly string[] = DEFAULT_REDACT_KEYS
+): Middleware {
+  return async (ctx, next) => {
+    const { method, path } = ctx.request;
+    const base = {
+      method,
+      path,
+      ...(ctx.attempt !== undefined && { attempt: ctx.attempt }),
+    };
+
+    logger.log({
+      event: 'request:start',
+      level: 'debug',
+      ...base,
+      ...(ctx.request.query !== undefined && { query: redact(ctx.request.query, redactKeys) }),
+      ...(ctx.request.headers !== undefined && { headers: redact(ctx.request.headers, redactKeys) }),
+      ...(ctx.request.body !== undefined && { body: redact(ctx.request.body, redactKeys) }),
+    });
+
+    const start = Date.now();
+    try {
+      const result = await next();
+      const requestId = ctx.response?.headers.get('x-request-id') ?? undefined;
+      logger.log({
+        event: 'request:end',
+        level: 'info',
+        ...base,
+        ...(ctx.response !== undefined && { status: ctx.response.status }),
+        durationMs: Date.now() - start,
+        ...(requestId !== undefined && { requestId }),
+      });
+      return result;
+    } catch (error) {
+      const status = error instanceof ParasutApiError ? error.status : ctx.response?.status;
+      const requestId = error instanceof ParasutApiError
+        ? error.requestId
+        : ctx.response?.headers.get('x-request-id') ?? undefined;
+      logger.log({
+        event: 'request:end',
+        level: 'error',
+        ...base,
+        ...(status !== undefined && { status }),
+        durationMs: Date.now() - start,
+        ...(requestId !== undefined && { requestId }),
+        error: String(redact(error instanceof Error ? error.message : String(error), redactKeys)),
+      });
+      throw error;
+    }
+  };
+}
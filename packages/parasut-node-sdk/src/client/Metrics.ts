@@ -0,0 +1,437 @@
+/**
+ * Metrics Collector
+ *
+ * In-process metrics for API usage: per-operation request counts, status
+ * codes, latency percentiles, retries, rate limiter wait time and token
+ * refreshes. Operations are keyed by the label a resource gives its request,
+ * else by the generated OPERATIONS metadata.
+ */
+
+import type { Middleware } from './HttpTransport.js';
+import {
+  ParasutAbortError,
+  ParasutApiError,
+  ParasutNetworkError,
+  ParasutTimeoutError,
+} from './errors.js';
+import { OPERATIONS, type OperationMeta } from '../generated/operations.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface LatencySummary {
+  count: number;
+  sum: number;
+  mean: number;
+  p50: number;
+  p90: number;
+  p95: number;
+  p99: number;
+  max: number;
+}
+
+export interface OperationMetrics {
+  /**
+   * Label set by the caller (e.g. `sales_invoices.share`), the operation ID
+   * from OPERATIONS, or `METHOD /path` when no single operation matches.
+   */
+  operation: string;
+  method: string;
+  path: string;
+  requests: number;
+  errors: number;
+  retries: number;
+  /**
+   * Response counts keyed by status code, or `network`, `timeout`, `aborted`.
+   */
+  statuses: Record<string, number>;
+  latencyMs: LatencySummary;
+}
+
+export interface MetricsSnapshot {
+  since: string;
+  totals: {
+    requests: number;
+    errors: number;
+    retries: number;
+  };
+  operations: OperationMetrics[];
+  rateLimit: {
+    waits: number;
+    totalWaitMs: number;
+    waitMs: LatencySummary;
+  };
+  tokenRefreshes: number;
+}
+
+export interface MetricsConfig {
+  /**
+   * Number of latency samples kept per operation for percentiles.
+   * @default 1000
+   */
+  maxSamples: number;
+}
+
+export const DEFAULT_METRICS_CONFIG: MetricsConfig = {
+  maxSamples: 1000,
+};
+
+// ============================================================================
+// Internal State
+// ============================================================================
+
+interface OperationState {
+  operation: string;
+  method: string;
+  path: string;
+  requests: number;
+  errors: number;
+  retries: number;
+  statuses: Map<string, number>;
+  latency: SampleWindow;
+}
+
+interface OperationMatcher {
+  meta: OperationMeta;
+  pattern: RegExp;
+  literalSegments: number;
+}
+
+/**
+ * Fixed-size ring buffer of samples with running totals.
+ */
+class SampleWindow {
+  private readonly samples: number[] = [];
+  private next = 0;
+  private total = 0;
+  private count = 0;
+  private maximum = 0;
+
+  constructor(private readonly capacity: number) {}
+
+  add(value: number): void {
+    this.total += value;
+    this.count++;
+    this.maximum = Math.max(this.maximum, value);
+
+    if (this.samples.length < this.capacity) {
+      this.samples.push(value);
+    } else {
+      this.samples[this.next] = value;
+      this.next = (this.next + 1) % this.capacity;
+    }
+  }
+
+  summarize(): LatencySummary {
+    const sorted = [...this.samples].sort((a, b) => a - b);
+    const percentile = (p: number): number => {
+      if (sorted.length === 0) return 0;
+      const index = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1);
+      return sorted[Math.max(0, index)] ?? 0;
+    };
+
+    return {
+      count: this.count,
+      sum: this.total,
+      mean: this.count === 0 ? 0 : Math.round(this.total / this.count),
+      p50: percentile(50),
+      p90: percentile(90),
+      p95: percentile(95),
+      p99: percentile(99),
+      max: this.maximum,
+    };
+  }
+}
+
+/**
+ * Builds path matchers from the generated operation metadata.
+ * More specific templates (more literal segments) are tried first.
+ */
+function buildMatchers(): OperationMatcher[] {
+  const matchers: OperationMatcher[] = [];
+
+  for (const meta of Object.values(OPERATIONS)) {
+    // Variants such as `purchase_bills#basic` share the plain path
+    const segments = meta.path.replace(/#.*$/, '').split('/').filter(Boolean);
+    const source = segments
+      .map((segment) =>
+        segment.startsWith('{')
+          ? '[^/]+'
+          : segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+      )
+      .join('/');
+
+    matchers.push({
+      meta,
+      pattern: new RegExp(`^/${source}$`),
+      literalSegments: segments.filter((s) => !s.startsWith('{')).length,
+    });
+  }
+
+  return matchers.sort((a, b) => b.literalSegments - a.literalSegments);
+}
+
+/**
+ * Maps an error to a status label.
+ */
+function statusLabel(error: unknown): string {
+  if (error instanceof ParasutApiError) return String(error.status);
+  if (error instanceof ParasutTimeoutError) return 'timeout';
+  if (error instanceof ParasutNetworkError) return 'network';
+  if (error instanceof ParasutAbortError) return 'aborted';
+  return 'error';
+}
+
+/**
+ * Escapes a Prometheus label value.
+ */
+function label(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+// ============================================================================
+// Collector
+// ============================================================================
+
+export class MetricsCollector {
+  private readonly config: MetricsConfig;
+  private readonly matchers = buildMatchers();
+  private operations = new Map<string, OperationState>();
+  private rateLimitWaits: SampleWindow;
+  private tokenRefreshes = 0;
+  private since = new Date();
+
+  constructor(config: Partial<MetricsConfig> = {}) {
+    this.config = { ...DEFAULT_METRICS_CONFIG, ...config };
+    this.rateLimitWaits = new SampleWindow(this.config.maxSamples);
+  }
+
+  /**
+   * Resolves the operation for a request path (without base URL).
+   * A caller-provided label wins. Otherwise prefers an operation with the
+   * same method, then any operation on the path; when several operations
+   * share the method and path (`purchase_bills#basic`, `#detailed`) the
+   * label is `METHOD /template`.
+   */
+  resolveOperation(
+    method: string,
+    path: string,
+    operation?: string
+  ): { operation: string; path: string } {
+    const pathname = path.split('?')[0] ?? path;
+    const upper = method.toUpperCase();
+    const candidates = this.matchers.filter((m) => m.pattern.test(pathname));
+    const sameMethod = candidates.filter((m) => m.meta.method === upper);
+    const match = sameMethod[0] ?? candidates[0];
+
+    if (match) {
+      const template = match.meta.path.replace(/#.*$/, '');
+      if (operation !== undefined) {
+        return { operation, path: template };
+      }
+      if (sameMethod.length > 1) {
+        return { operation: `${upper} ${template}`, path: template };
+      }
+      return { operation: match.meta.operationId, path: match.meta.path };
+    }
+    // Collapse numeric ids so unmatched paths don't explode cardinality
+    const normalized = pathname.replace(/\/\d+(?=\/|$)/g, '/{id}');
+    return { operation: operation ?? `${upper} ${normalized}`, path: normalized };
+  }
+
+  /**
+   * Records a completed attempt.
+   */
+  recordRequest(
+    method: string,
+    path: string,
+    status: string,
+    durationMs: number,
+    operation?: string
+  ): void {
+    const state = this.getState(method, path, operation);
+    state.requests++;
+    if (!/^[23]\d\d$/.test(status)) {
+      state.errors++;
+    }
+    state.statuses.set(status, (state.statuses.get(status) ?? 0) + 1);
+    state.latency.add(durationMs);
+  }
+
+  /**
+   * Records a scheduled retry.
+   */
+  recordRetry(method: string, path: string, operation?: string): void {
+    this.getState(method, path, operation).retries++;
+  }
+
+  /**
+   * Records time spent waiting in the rate limiter queue.
+   */
+  recordRateLimitWait(waitMs: number): void {
+    this.rateLimitWaits.add(waitMs);
+  }
+
+  /**
+   * Records a successful OAuth token request.
+   */
+  recordTokenRefresh(): void {
+    this.tokenRefreshes++;
+  }
+
+  /**
+   * Returns a point-in-time copy of all metrics.
+   */
+  snapshot(): MetricsSnapshot {
+    const operations: OperationMetrics[] = [...this.operations.values()]
+      .map((state) => ({
+        operation: state.operation,
+        method: state.method,
+        path: state.path,
+        requests: state.requests,
+        errors: state.errors,
+        retries: state.retries,
+        statuses: Object.fromEntries(state.statuses),
+        latencyMs: state.latency.summarize(),
+      }))
+      .sort((a, b) => a.operation.localeCompare(b.operation));
+
+    const waits = this.rateLimitWaits.summarize();
+
+    return {
+      since: this.since.toISOString(),
+      totals: {
+        requests: operations.reduce((sum, op) => sum + op.requests, 0),
+        errors: operations.reduce((sum, op) => sum + op.errors, 0),
+        retries: operations.reduce((sum, op) => sum + op.retries, 0),
+      },
+      operations,
+      rateLimit: {
+        waits: waits.count,
+        totalWaitMs: waits.sum,
+        waitMs: waits,
+      },
+      tokenRefreshes: this.tokenRefreshes,
+    };
+  }
+
+  /**
+   * Renders metrics in the Prometheus text exposition format.
+   */
+  toPrometheus(prefix = 'parasut'): string {
+    const lines: string[] = [];
+    const snapshot = this.snapshot();
+
+    lines.push(`# HELP ${prefix}_requests_total API requests sent, by operation and status.`);
+    lines.push(`# TYPE ${prefix}_requests_total counter`);
+    for (const op of snapshot.operations) {
+      for (const [status, count] of Object.entries(op.statuses)) {
+        lines.push(
+          `${prefix}_requests_total{operation="${label(op.operation)}",method="${op.method}",status="${label(status)}"} ${count}`
+        );
+      }
+    }
+
+    lines.push(`# HELP ${prefix}_request_duration_ms API request latency in milliseconds.`);
+    lines.push(`# TYPE ${prefix}_request_duration_ms summary`);
+    for (const op of snapshot.operations) {
+      const name = `${prefix}_request_duration_ms`;
+      const opLabel = `operation="${label(op.operation)}",method="${op.method}"`;
+      for (const [quantile, value] of [
+        ['0.5', op.latencyMs.p50],
+        ['0.9', op.latencyMs.p90],
+        ['0.95', op.latencyMs.p95],
+        ['0.99', op.latencyMs.p99],
+      ] as const) {
+        lines.push(`${name}{${opLabel},quantile="${quantile}"} ${value}`);
+      }
+      lines.push(`${name}_sum{${opLabel}} ${op.latencyMs.sum}`);
+      lines.push(`${name}_count{${opLabel}} ${op.latencyMs.count}`);
+    }
+
+    lines.push(`# HELP ${prefix}_retries_total Retries scheduled, by operation.`);
+    lines.push(`# TYPE ${prefix}_retries_total counter`);
+    for (const op of snapshot.operations) {
+      lines.push(
+        `${prefix}_retries_total{operation="${label(op.operation)}",method="${op.method}"} ${op.retries}`
+      );
+    }
+
+    lines.push(`# HELP ${prefix}_rate_limit_wait_ms Time spent waiting for a rate limiter token.`);
+    lines.push(`# TYPE ${prefix}_rate_limit_wait_ms summary`);
+    lines.push(`${prefix}_rate_limit_wait_ms{quantile="0.5"} ${snapshot.rateLimit.waitMs.p50}`);
+    lines.push(`${prefix}_rate_limit_wait_ms{quantile="0.95"} ${snapshot.rateLimit.waitMs.p95}`);
+    lines.push(`${prefix}_rate_limit_wait_ms_sum ${snapshot.rateLimit.totalWaitMs}`);
+    lines.push(`${prefix}_rate_limit_wait_ms_count ${snapshot.rateLimit.waits}`);
+
+    lines.push(`# HELP ${prefix}_token_refreshes_total OAuth token requests.`);
+    lines.push(`# TYPE ${prefix}_token_refreshes_total counter`);
+    lines.push(`${prefix}_token_refreshes_total ${snapshot.tokenRefreshes}`);
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Clears all collected metrics.
+   */
+  reset(): void {
+    this.operations = new Map();
+    this.rateLimitWaits = new SampleWindow(this.config.maxSamples);
+    this.tokenRefreshes = 0;
+    this.since = new Date();
+  }
+
+  private getState(method: string, path: string, operation?: string): OperationState {
+    const resolved = this.resolveOperation(method, path, operation);
+    const key = `${method.toUpperCase()} ${resolved.operation}`;
+    let state = this.operations.get(key);
+    if (!state) {
+      state = {
+        operation: resolved.operation,
+        method: method.toUpperCase(),
+        path: resolved.path,
+        requests: 0,
+        errors: 0,
+        retries: 0,
+        statuses: new Map(),
+        latency: new SampleWindow(this.config.maxSamples),
+      };
+      this.operations.set(key, state);
+    }
+    return state;
+  }
+}
+
+// ============================================================================
+// Transport Middleware
+// ============================================================================
+
+/**
+ * Creates a transport middleware that records every attempt.
+ */
+export function createMetricsMiddleware(collector: MetricsCollector): Middleware {
+  return async (ctx, next) => {
+    const start = Date.now();
+    try {
+      const result = await next();
+      collector.recordRequest(
+        ctx.request.method,
+        ctx.request.path,
+        String(ctx.response?.status ?? 200),
+        Date.now() - start,
+        ctx.request.operation
+      );
+      return result;
+    } catch (error) {
+      collector.recordRequest(
+        ctx.request.method,
+        ctx.request.path,
+        statusLabel(error),
+        Date.now() - start,
+        ctx.request.operation
+      );
+      throw error;
+    }
+  };
+}
@@ -6,6 +6,8 @@
  */
 
 import { ParasutAuthError, ParasutConfigError, ParasutNetworkError } from './errors.js';
+import { fetchWithOptions, type ConnectionOptions } from './HttpTransport.js';
+import { silentLogger, type Logger } from './Logger.js';
 
 // ============================================================================
 // Types
@@ -35,6 +37,19 @@ export interface TokenStorage {
   clear(): Promise<void>;
 }
 
+export interface TokenRefreshContext {
+  grantType: string;
+  durationMs: number;
+  /**
+   * The new token, for persisting rotated refresh tokens.
+   */
+  token: OAuthToken;
+}
+
+export interface TokenRefreshHook {
+  (context: TokenRefreshContext): void;
+}
+
 interface TokenResponse {
   access_token: string;
   refresh_token: string;
@@ -70,7 +85,11 @@ export class OAuthManager {
   private readonly tokenUrl: string;
   private readonly credentials: OAuthCredentials;
   private readonly storage: TokenStorage;
+  private readonly connection: ConnectionOptions;
+  private readonly logger: Logger;
+  private readonly refreshHooks: TokenRefreshHook[] = [];
   private refreshPromise: Promise<OAuthToken> | null = null;
+  private forcedRefresh: Promise<string> | null = null;
 
   /**
    * Buffer time before token expiry to trigger refresh (60 seconds)
@@ -82,11 +101,14 @@ export class OAuthManager {
     options?: {
       tokenUrl?: string;
       storage?: TokenStorage;
-    }
+      logger?: Logger;
+    } & ConnectionOptions
   ) {
     this.credentials = credentials;
     this.tokenUrl = options?.tokenUrl ?? 'https://api.parasut.com/oauth/token';
     this.storage = options?.storage ?? new MemoryTokenStorage();
+    this.connection = options ?? {};
+    this.logger = options?.logger ?? silentLogger;
 
     // Validate credentials
     if (!credentials.clientId || !credentials.clientSecret) {
@@ -97,6 +119,13 @@ export class OAuthManager {
     }
   }
 
+  /**
+   * Adds a hook that's called after each successful token request.
+   */
+  onTokenRefresh(hook: TokenRefreshHook): void {
+    this.refreshHooks.push(hook);
+  }
+
   /**
    * Returns a valid access token, refreshing if necessary.
    * Handles concurrent refresh requests to prevent multiple refreshes.
@@ -122,7 +151,14 @@ export class OAuthManager {
         return newToken.accessToken;
       } catch (error) {
         // If refresh fails, fall through to password grant
-        console.warn('Token refresh failed, attempting password grant');
+        this.logger.log({
+          event: 'token:refresh',
+          level: 'warn',
+          grantType: 'refresh_token',
+          error: `Token refresh failed, attempting password grant: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        });
       }
     }
 
@@ -131,6 +167,23 @@ export class OAuthManager {
     return newToken.accessToken;
   }
 
+  /**
+   * Discards the current token and obtains a new one, even if it has not expired.
+   * Used when the API rejects a token early (e.g. revoked on the server).
+   *
+   * Concurrent callers share one forced refresh, whichever token each saw
+   * rejected. Pass the rejected access token so a caller arriving after the
+   * refresh gets the new token instead of forcing another.
+   */
+  async forceRefresh(rejectedAccessToken?: string): Promise<string> {
+    if (!this.forcedRefresh) {
+      this.forcedRefresh = this.performForcedRefresh(rejectedAccessToken).finally(() => {
+        this.forcedRefresh = null;
+      });
+    }
+    return this.forcedRefresh;
+  }
+
   /**
    * Performs password grant authentication.
    */
@@ -183,6 +236,50 @@ export class OAuthManager {
     return Date.now() < token.expiresAt - this.expiryBuffer;
   }
 
+  /**
+   * Discards the stored token unless another caller already replaced the
+   * rejected one, then refreshes, falling back to the password grant.
+   */
+  private async performForcedRefresh(rejectedAccessToken: string | undefined): Promise<string> {
+    const token = await this.storage.get();
+
+    // Another caller already replaced the rejected token
+    if (
+      token &&
+      rejectedAccessToken !== undefined &&
+      token.accessToken !== rejectedAccessToken &&
+      this.isTokenValid(token)
+    ) {
+      return token.accessToken;
+    }
+
+    if (this.refreshPromise) {
+      const refreshedToken = await this.refreshPromise;
+      return refreshedToken.accessToken;
+    }
+
+    await this.storage.clear();
+
+    if (token?.refreshToken) {
+      try {
+        const newToken = await this.refreshToken(token.refreshToken);
+        return newToken.accessToken;
+      } catch (error) {
+        this.logger.log({
+          event: 'token:refresh',
+          level: 'warn',
+          grantType: 'refresh_token',
+          error: `Forced token refresh failed, attempting password grant: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        });
+      }
+    }
+
+    const newToken = await this.authenticate();
+    return newToken.accessToken;
+  }
+
   /**
    * Performs the password grant flow.
    */
@@ -217,14 +314,20 @@ export class OAuthManager {
    * Makes the token request to the OAuth server.
    */
   private async requestToken(body: URLSearchParams): Promise<OAuthToken> {
+    const grantType = body.get('grant_type') ?? 'unknown';
+    const start = Date.now();
     try {
-      const response = await fetch(this.tokenUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
+      const response = await fetchWithOptions(
+        this.tokenUrl,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+          },
+          body: body.toString(),
         },
-        body: body.toString(),
-      });
+        this.connection
+      );
 
       if (!response.ok) {
         const errorBody = await response.text();
@@ -255,8 +358,22 @@ export class OAuthManager {
       // Store the new token
       await this.storage.set(token);
 
+      const durationMs = Date.now() - start;
+      this.logger.log({ event: 'token:refresh', level: 'info', grantType, durationMs });
+      for (const hook of this.refreshHooks) {
+        hook({ grantType, durationMs, token });
+      }
+
       return token;
     } catch (error) {
+      this.logger.log({
+        event: 'token:refresh',
+        level: 'error',
+        grantType,
+        durationMs: Date.now() - start,
+        error: error instanceof Error ? error.message : String(error),
+      });
+
       if (error instanceof ParasutAuthError) {
         throw error;
       }
@@ -278,13 +395,14 @@ export class OAuthManager {
 // Authorization Code Flow (for web applications)
 // ============================================================================
 
-export interface AuthCodeConfig {
+export interface AuthCodeConfig extends ConnectionOptions {
   clientId: string;
   clientSecret: string;
   redirectUri: string;
   tokenUrl?: string;
   authorizeUrl?: string;
   storage?: TokenStorage;
+  logger?: Logger;
 }
 
 export class AuthCodeManager {
@@ -292,16 +410,26 @@ export class AuthCodeManager {
   private readonly tokenUrl: string;
   private readonly authorizeUrl: string;
   private readonly storage: TokenStorage;
+  private readonly logger: Logger;
+  private readonly refreshHooks: TokenRefreshHook[] = [];
   private refreshPromise: Promise<OAuthToken> | null = null;
   private readonly expiryBuffer = 60_000;
 
   constructor(config: AuthCodeConfig) {
     this.config = config;
+    this.logger = config.logger ?? silentLogger;
     this.tokenUrl = config.tokenUrl ?? 'https://api.parasut.com/oauth/token';
     this.authorizeUrl = config.authorizeUrl ?? 'https://api.parasut.com/oauth/authorize';
     this.storage = config.storage ?? new MemoryTokenStorage();
   }
 
+  /**
+   * Adds a hook that's called after each successful code exchange or refresh.
+   */
+  onTokenRefresh(hook: TokenRefreshHook): void {
+    this.refreshHooks.push(hook);
+  }
+
   /**
    * Generates the authorization URL for the user to visit.
    */
@@ -392,14 +520,20 @@ export class AuthCodeManager {
   }
 
   private async requestToken(body: URLSearchParams): Promise<OAuthToken> {
+    const grantType = body.get('grant_type') ?? 'unknown';
+    const start = Date.now();
     try {
-      const response = await fetch(this.tokenUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
+      const response = await fetchWithOptions(
+        this.tokenUrl,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+          },
+          body: body.toString(),
         },
-        body: body.toString(),
-      });
+        this.config
+      );
 
       if (!response.ok) {
         const errorBody = await response.text();
@@ -428,8 +562,23 @@ export class AuthCodeManager {
       };
 
       await this.storage.set(token);
+
+      const durationMs = Date.now() - start;
+      this.logger.log({ event: 'token:refresh', level: 'info', grantType, durationMs });
+      for (const hook of this.refreshHooks) {
+        hook({ grantType, durationMs, token });
+      }
+
       return token;
     } catch (error) {
+      this.logger.log({
+        event: 'token:refresh',
+        level: 'error',
+        grantType,
+        durationMs: Date.now() - start,
+        error: error instanceof Error ? error.message : String(error),
+      });
+
       if (error instanceof ParasutAuthError) {
         throw error;
       }
@@ -0,0 +1,119 @@
+/**
+ * Operation Executor
+ *
+ * Calls any spec operation by its operation ID, using the generated
+ * OPERATIONS metadata for the method, path template and success status.
+ * An escape hatch for endpoints without a resource method that always
+ * matches the swagger spec.
+ */
+
+import type { HttpTransport, RequestConfig } from './HttpTransport.js';
+import { ParasutConfigError } from './errors.js';
+import type { ResponseValidator } from './Validation.js';
+import {
+  OPERATIONS,
+  type OperationBodies,
+  type OperationId,
+  type OperationMeta,
+  type OperationPathParams,
+  type OperationQueryParams,
+} from '../generated/operations.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CallOptions<K extends OperationId = OperationId> {
+  /**
+   * Path parameters other than `company_id`, which the client fills in.
+   */
+  pathParams?: OperationPathParams[K];
+  query?: OperationQueryParams[K];
+  /**
+   * Request body, typed from the spec; operations without one take none.
+   */
+  body?: OperationBodies[K];
+  signal?: AbortSignal;
+  /**
+   * Rate limiter lane for this request.
+   */
+  priority?: string;
+}
+
+/**
+ * Options are required when the operation has path parameters.
+ */
+export type CallArgs<K extends OperationId> = OperationPathParams[K] extends Record<string, never>
+  ? [options?: CallOptions<K>]
+  : [options: CallOptions<K> & { pathParams: OperationPathParams[K] }];
+
+// ============================================================================
+// Executor
+// ============================================================================
+
+/**
+ * Fills in an operation's path template, validating every path parameter.
+ */
+export function buildOperationPath(
+  operationId: string,
+  companyId: number,
+  pathParams: Record<string, string | number> = {}
+): string {
+  const operation: OperationMeta | undefined = Object.hasOwn(OPERATIONS, operationId)
+    ? OPERATIONS[operationId as OperationId]
+    : undefined;
+  if (!operation) {
+    throw new ParasutConfigError(`Unknown operation: ${operationId}`);
+  }
+
+  // Variants like `/purchase_bills#detailed` share one URL
+  let path = operation.path.replace(/#.*$/, '');
+  if (operation.hasCompanyId) {
+    path = path.replace('{company_id}', String(companyId));
+  }
+
+  for (const name of operation.pathParams) {
+    const value = pathParams[name];
+    if (value === undefined || value === '') {
+      throw new ParasutConfigError(`Missing path parameter "${name}" for operation ${operationId}`);
+    }
+    path = path.replace(`{${name}}`, encodeURIComponent(String(value)));
+  }
+
+  return path;
+}
+
+/**
+ * Sends a spec operation through the transport. Operations that succeed
+ * with 204 No Content resolve to undefined. Pass `validator` to check the
+ * response against the operation's success schema.
+ */
+export async function callOperation<T = unknown>(
+  transport: HttpTransport,
+  companyId: number,
+  operationId: OperationId,
+  options: CallOptions = {},
+  validator?: ResponseValidator
+): Promise<T> {
+  const path = buildOperationPath(
+    operationId,
+    companyId,
+    options.pathParams as Record<string, string | number> | undefined
+  );
+  const operation: OperationMeta = OPERATIONS[operationId];
+
+  const result = await transport.request<T>({
+    method: operation.method as RequestConfig['method'],
+    path,
+    ...(options.query !== undefined && { query: options.query as Record<string, string | number | boolean> }),
+    ...(options.body !== undefined && { body: options.body }),
+    ...(options.signal !== undefined && { signal: options.signal }),
+    ...(options.priority !== undefined && { priority: options.priority }),
+  });
+
+  if (operation.successStatus === 204) {
+    return undefined as T;
+  }
+  validator?.validate(operationId, result);
+  return result;
+}
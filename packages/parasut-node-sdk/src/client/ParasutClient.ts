@@ -5,14 +5,46 @@
  * Provides a resource tree for accessing all API endpoints.
  */
 
-import { HttpTransport, type TransportConfig } from './HttpTransport.js';
+import { createHash } from 'node:crypto';
+import {
+  HttpTransport,
+  createCoalescingMiddleware,
+  type ConnectionOptions,
+  type FetchFunction,
+  type Middleware,
+  type TransportConfig,
+} from './HttpTransport.js';
 import { OAuthManager, type OAuthCredentials, type TokenStorage } from './OAuth.js';
-import { RateLimiter, type RateLimitConfig, DEFAULT_RATE_LIMIT_CONFIG } from './RateLimiter.js';
-import { RetryHandler, type RetryConfig, DEFAULT_RETRY_CONFIG } from './RetryHandler.js';
+import {
+  RateLimiter,
+  createRateLimitMiddleware,
+  type RateLimitConfig,
+  DEFAULT_RATE_LIMIT_CONFIG,
+} from './RateLimiter.js';
+import {
+  RetryHandler,
+  createRetryMiddleware,
+  type RetryConfig,
+  DEFAULT_RETRY_CONFIG,
+} from './RetryHandler.js';
 import { ParasutConfigError, ParasutAuthError } from './errors.js';
+import { throwIfAborted } from './abort.js';
+import { callOperation, type CallArgs } from './Operations.js';
+import type { OperationId } from '../generated/operations.js';
+import { createLoggingMiddleware, DEFAULT_REDACT_KEYS, type Logger } from './Logger.js';
+import { MetricsCollector, createMetricsMiddleware, type MetricsConfig } from './Metrics.js';
+import { IdempotencyGuard, type IdempotencyConfig } from './Idempotency.js';
+import { ResponseCache, createCacheMiddleware, type CacheConfig } from './Cache.js';
+import { ResponseValidator, type ValidationMode } from './Validation.js';
+import {
+  CircuitBreaker,
+  createCircuitBreakerMiddleware,
+  type CircuitBreakerConfig,
+} from './CircuitBreaker.js';
 
 // Resources
 import { TrackableJobsResource } from '../resources/trackableJobs.js';
+import { MeResource, type UserCompany } from '../resources/me.js';
 import { AccountsResource } from '../resources/accounts.js';
 import { ContactsResource } from '../resources/contacts.js';
 import { ProductsResource } from '../resources/products.js';
@@ -29,15 +61,21 @@ import { TaxesResource } from '../resources/taxes.js';
 import { EmployeesResource } from '../resources/employees.js';
 import { InventoryLevelsResource } from '../resources/inventoryLevels.js';
 import { StockMovementsResource } from '../resources/stockMovements.js';
+import { StockUpdatesResource } from '../resources/stockUpdates.js';
+import { WarehousesResource } from '../resources/warehouses.js';
 import { ShipmentDocumentsResource } from '../resources/shipmentDocuments.js';
 import { TagsResource } from '../resources/tags.js';
 import { ItemCategoriesResource } from '../resources/itemCategories.js';
 import { TransactionsResource } from '../resources/transactions.js';
+import { SharingsResource } from '../resources/sharings.js';
+import { WebhooksResource } from '../resources/webhooks.js';
 
 // ============================================================================
 // Configuration
 // ============================================================================
 
+const DEFAULT_BASE_URL = 'https://api.parasut.com/v4';
+
 export interface ParasutClientConfig {
   /**
    * Company ID (Firma ID) to use for API requests.
@@ -62,6 +100,12 @@ export interface ParasutClientConfig {
    */
   baseUrl?: string;
 
+  /**
+   * OAuth token endpoint.
+   * @default `/oauth/token` on the origin of `baseUrl`
+   */
+  tokenUrl?: string;
+
   /**
    * Request timeout in milliseconds.
    * @default 30000
@@ -83,6 +127,131 @@ export interface ParasutClientConfig {
    * Retry configuration.
    */
   retry?: Partial<RetryConfig>;
+
+  /**
+   * Custom fetch implementation used for API and OAuth token requests.
+   * @default globalThis.fetch
+   */
+  fetch?: FetchFunction;
+
+  /**
+   * undici Dispatcher (Agent, ProxyAgent, ...) passed to fetch for
+   * keep-alive, proxies or custom CA bundles.
+   */
+  dispatcher?: unknown;
+
+  /**
+   * Node `http.Agent` for fetch implementations that accept `agent`.
+   */
+  agent?: unknown;
+
+  /**
+   * Receives structured events for requests, retries, rate limit waits
+   * and token refreshes. Silent by default.
+   */
+  logger?: Logger;
+
+  /**
+   * Attribute keys redacted from logged requests in addition to credentials.
+   * @default ['tax_number', 'iban', 'tckn']
+   */
+  redactKeys?: string[];
+
+  /**
+   * Metrics collection configuration.
+   */
+  metrics?: Partial<MetricsConfig>;
+
+  /**
+   * Idempotency guard for create, pay, debit and credit.
+   * Provide a shared `store` to keep keys across processes.
+   */
+  idempotency?: Partial<IdempotencyConfig>;
+
+  /**
+   * Enables the GET response cache. Reference data (item categories, tags,
+   * accounts, taxes, e-invoice inboxes) is cached by default TTLs; writes
+   * invalidate the affected resource. Disabled when omitted.
+   */
+  cache?: Partial<CacheConfig>;
+
+  /**
+   * Circuit breaker configuration.
+   */
+  circuitBreaker?: Partial<CircuitBreakerConfig>;
+
+  /**
+   * Share one request between concurrent identical GETs.
+   * @default true
+   */
+  coalesceRequests?: boolean;
+
+  /**
+   * Checks `get`, `list` and `call` responses against schemas generated
+   * from the swagger spec. `warn` sends `response:invalid` events to
+   * `logger` (nowhere without one); `strict` throws
+   * `ParasutResponseValidationError`.
+   * @default 'off'
+   */
+  validateResponses?: ValidationMode;
+}
+
+/**
+ * Options for `ParasutClient.discoverCompanies`: network, token and logging
+ * settings, since no company is involved yet.
+ */
+export type DiscoverCompaniesConfig = Pick<
+  ParasutClientConfig,
+  | 'baseUrl'
+  | 'tokenUrl'
+  | 'timeout'
+  | 'retry'
+  | 'fetch'
+  | 'dispatcher'
+  | 'agent'
+  | 'logger'
+  | 'redactKeys'
+  | 'tokenStorage'
+>;
+
+export interface MapCompaniesOptions {
+  /**
+   * Maximum companies processed at once.
+   * @default 4
+   */
+  concurrency?: number;
+
+  /**
+   * Stops starting further companies when aborted. `mapCompanies` then
+   * rejects once the companies already running have settled.
+   */
+  signal?: AbortSignal;
+}
+
+export type CompanyResult<T> =
+  | { companyId: number; status: 'fulfilled'; value: T }
+  | { companyId: number; status: 'rejected'; reason: unknown };
+
+/**
+ * State shared by a client and its company views. Built once by the
+ * constructor and handed to each view by `forCompany`.
+ * @internal
+ */
+export interface ParasutClientState {
+  readonly transport: HttpTransport;
+  readonly rateLimiter: RateLimiter;
+  readonly retryHandler: RetryHandler;
+  readonly circuitBreaker: CircuitBreaker;
+  readonly metrics: MetricsCollector;
+  readonly cache: ResponseCache | undefined;
+  readonly idempotency: IdempotencyGuard;
+  readonly validator: ResponseValidator;
+  readonly oauth: OAuthManager | undefined;
+  readonly staticToken: string | undefined;
+  /**
+   * Views per company, shared by the client and every view.
+   */
+  readonly companies: Map<number, ParasutClient>;
 }
 
 // ============================================================================
@@ -99,12 +268,31 @@ export class ParasutClient {
    * Retry handler instance (exposed for advanced use cases).
    */
   readonly retryHandler: RetryHandler;
-  private readonly oauth?: OAuthManager;
-  private readonly staticToken?: string;
-  private readonly companyId: number;
+  /**
+   * Circuit breaker instance (exposed for state and alerting hooks).
+   */
+  readonly circuitBreaker: CircuitBreaker;
+  /**
+   * In-process API usage metrics.
+   */
+  readonly metrics: MetricsCollector;
+  /**
+   * GET response cache, when enabled.
+   */
+  readonly cache?: ResponseCache;
+  private readonly idempotency: IdempotencyGuard;
+  private readonly validator: ResponseValidator;
+  private readonly oauth: OAuthManager | undefined;
+  private readonly staticToken: string | undefined;
+  /**
+   * Company ID that resource paths are built with.
+   */
+  readonly companyId: number;
+  private readonly state: ParasutClientState;
 
   // Resources (lazy-initialized)
   private _trackableJobs?: TrackableJobsResource;
+  private _me?: MeResource;
   private _accounts?: AccountsResource;
   private _contacts?: ContactsResource;
   private _products?: ProductsResource;
@@ -121,31 +309,58 @@ export class ParasutClient {
   private _employees?: EmployeesResource;
   private _inventoryLevels?: InventoryLevelsResource;
   private _stockMovements?: StockMovementsResource;
+  private _stockUpdates?: StockUpdatesResource;
+  private _warehouses?: WarehousesResource;
   private _shipmentDocuments?: ShipmentDocumentsResource;
   private _tags?: TagsResource;
   private _itemCategories?: ItemCategoriesResource;
   private _transactions?: TransactionsResource;
+  private _sharings?: SharingsResource;
+  private _webhooks?: WebhooksResource;
 
-  constructor(config: ParasutClientConfig) {
+  constructor(config: ParasutClientConfig);
+  /**
+   * Builds a company view on existing shared state; used by `forCompany`.
+   * @internal
+   */
+  constructor(config: Pick<ParasutClientConfig, 'companyId'>, state: ParasutClientState);
+  constructor(config: ParasutClientConfig, state?: ParasutClientState) {
     // Validate configuration
     if (!config.companyId) {
       throw new ParasutConfigError('companyId is required');
     }
 
+    this.companyId = config.companyId;
+
+    if (state) {
+      this.state = state;
+      this.transport = state.transport;
+      this.rateLimiter = state.rateLimiter;
+      this.retryHandler = state.retryHandler;
+      this.circuitBreaker = state.circuitBreaker;
+      this.metrics = state.metrics;
+      if (state.cache) {
+        this.cache = state.cache;
+      }
+      this.idempotency = state.idempotency;
+      this.validator = state.validator;
+      this.oauth = state.oauth;
+      this.staticToken = state.staticToken;
+      return;
+    }
+
     if (!config.credentials && !config.accessToken) {
       throw new ParasutConfigError('Either credentials or accessToken is required');
     }
 
-    this.companyId = config.companyId;
+    // Network options shared by API and token requests
+    const connection = connectionOptions(config);
 
     // Set up authentication
-    if (config.credentials) {
-      this.oauth = new OAuthManager(config.credentials, {
-        ...(config.tokenStorage !== undefined && { storage: config.tokenStorage }),
-      });
-    } else if (config.accessToken !== undefined) {
-      this.staticToken = config.accessToken;
-    }
+    this.oauth = config.credentials
+      ? createOAuthManager(config.credentials, config, connection)
+      : undefined;
+    this.staticToken = config.credentials ? undefined : config.accessToken;
 
     // Set up rate limiter
     this.rateLimiter = new RateLimiter({
@@ -159,27 +374,180 @@ export class ParasutClient {
       ...config.retry,
     });
 
+    // Set up circuit breaker
+    this.circuitBreaker = new CircuitBreaker(config.circuitBreaker);
+
+    // Set up idempotency guard for non-idempotent writes
+    this.idempotency = new IdempotencyGuard(config.idempotency);
+
+    // Set up response validation against the spec's schemas
+    this.validator = new ResponseValidator({
+      mode: config.validateResponses ?? 'off',
+      ...(config.logger !== undefined && { logger: config.logger }),
+    });
+
     // Set up transport
-    const transportConfig: TransportConfig = {
-      baseUrl: config.baseUrl ?? 'https://api.parasut.com/v4',
-      timeout: config.timeout ?? 30_000,
+    this.transport = new HttpTransport(transportConfig(config, connection));
+
+    // Cache is outermost so hits skip authentication and rate limiting
+    if (config.cache) {
+      // Scope entries to the login so a shared store never serves another user's data
+      const scope = config.cache.scope ?? (config.credentials
+        ? `${config.credentials.clientId}:${config.credentials.username}`
+        : createHash('sha256').update(config.accessToken ?? '').digest('hex').slice(0, 16));
+      this.cache = new ResponseCache({ ...config.cache, scope });
+      this.transport.use(createCacheMiddleware(this.cache, config.logger));
+    }
+
+    // Auth is outermost so a 401 replay goes through retry and rate limiting again
+    this.transport.use(this.createAuthMiddleware());
+    // Coalesce after auth (the token is part of the key) and before rate limiting
+    if (config.coalesceRequests ?? true) {
+      this.transport.use(createCoalescingMiddleware());
+    }
+    this.transport.use(createRetryMiddleware(this.retryHandler));
+    // Inside retry so every attempt counts; an open circuit fails before taking a token
+    this.transport.use(createCircuitBreakerMiddleware(this.circuitBreaker));
+    this.transport.use(createRateLimitMiddleware(this.rateLimiter));
+
+    // Record metrics for every attempt
+    this.metrics = new MetricsCollector(config.metrics);
+    this.setupMetrics();
+
+    if (config.logger) {
+      this.setupLogging(config.logger, config.redactKeys ?? DEFAULT_REDACT_KEYS);
+    }
+
+    this.state = {
+      transport: this.transport,
+      rateLimiter: this.rateLimiter,
+      retryHandler: this.retryHandler,
+      circuitBreaker: this.circuitBreaker,
+      metrics: this.metrics,
+      cache: this.cache,
+      idempotency: this.idempotency,
+      validator: this.validator,
+      oauth: this.oauth,
+      staticToken: this.staticToken,
+      companies: new Map([[config.companyId, this]]),
     };
+  }
 
-    this.transport = new HttpTransport(transportConfig);
+  /**
+   * Feeds transport, retry, rate limit and token events into the metrics collector.
+   */
+  private setupMetrics(): void {
+    this.transport.use(createMetricsMiddleware(this.metrics));
+    this.retryHandler.onRetry((ctx) => {
+      this.metrics.recordRetry(ctx.method, ctx.path, ctx.operation);
+    });
+    this.rateLimiter.onWait((ctx) => {
+      this.metrics.recordRateLimitWait(ctx.waitMs);
+    });
+    this.oauth?.onTokenRefresh(() => {
+      this.metrics.recordTokenRefresh();
+    });
+  }
 
-    // Add auth interceptor
-    this.transport.addRequestInterceptor(async (requestConfig) => {
-      const token = await this.getToken();
-      return {
-        ...requestConfig,
-        headers: {
-          ...requestConfig.headers,
-          Authorization: `Bearer ${token}`,
-        },
-      };
+  /**
+   * Routes request, retry, rate limit and circuit breaker events to the logger.
+   */
+  private setupLogging(logger: Logger, redactKeys: readonly string[]): void {
+    this.transport.use(createLoggingMiddleware(logger, redactKeys));
+
+    this.retryHandler.onRetry((ctx) => {
+      logger.log({
+        event: 'request:retry',
+        level: 'warn',
+        method: ctx.method,
+        path: ctx.path,
+        attempt: ctx.attempt + 1,
+        ...(ctx.delayMs !== undefined && { waitMs: ctx.delayMs }),
+        ...(ctx.error !== undefined && { error: ctx.error.message }),
+      });
+    });
+
+    this.rateLimiter.onWait((ctx) => {
+      logger.log({
+        event: 'rateLimit:wait',
+        level: 'debug',
+        waitMs: ctx.waitMs,
+        ...(ctx.method !== undefined && { method: ctx.method }),
+        ...(ctx.path !== undefined && { path: ctx.path }),
+      });
+    });
+
+    this.circuitBreaker.onStateChange((ctx) => {
+      logger.log({
+        event: 'circuit:change',
+        level: ctx.to === 'open' ? 'error' : 'warn',
+        state: ctx.to,
+        ...(ctx.error !== undefined && { error: ctx.error.message }),
+      });
     });
   }
 
+  /**
+   * Adds a middleware to the transport pipeline.
+   * Runs inside retry, rate limiting and authentication, once per attempt.
+   */
+  use(middleware: Middleware): this {
+    this.transport.use(middleware);
+    return this;
+  }
+
+  /**
+   * Calls any spec operation by ID, for endpoints without a resource method.
+   * Path and query parameters are typed per operation; `{company_id}` is
+   * filled in from the client.
+   *
+   * @example
+   * ```typescript
+   * const transactions = await client.call('listAccountTransactions', {
+   *   pathParams: { id: accountId },
+   *   query: { 'filter[date]': '2024-01-15' },
+   * });
+   * ```
+   */
+  async call<K extends OperationId, T = unknown>(
+    operationId: K,
+    ...[options]: CallArgs<K>
+  ): Promise<T> {
+    return callOperation<T>(this.transport, this.companyId, operationId, options, this.validator);
+  }
+
+  /**
+   * Creates the middleware that attaches the bearer token.
+   * On a 401 it forces a token refresh and replays the request exactly once.
+   */
+  private createAuthMiddleware(): Middleware {
+    return async (ctx, next) => {
+      const original = ctx.request;
+      const send = (token: string): Promise<unknown> => {
+        ctx.request = {
+          ...original,
+          headers: {
+            ...original.headers,
+            Authorization: `Bearer ${token}`,
+          },
+        };
+        return next();
+      };
+
+      const token = await this.getToken();
+      try {
+        return await send(token);
+      } catch (error) {
+        // Static tokens cannot be refreshed; surface the original error
+        if (!(error instanceof ParasutAuthError) || !this.oauth) {
+          throw error;
+        }
+        const refreshed = await this.oauth.forceRefresh(token);
+        return send(refreshed);
+      }
+    };
+  }
+
   /**
    * Gets a valid access token.
    */
@@ -197,6 +565,111 @@ export class ParasutClient {
     ]);
   }
 
+  // ============================================================================
+  // Companies
+  // ============================================================================
+
+  /**
+   * Lists the companies a login can access, for onboarding flows that let
+   * users pick a company instead of entering its ID.
+   * Pass `tokenStorage` to reuse the token in the client created afterwards.
+   *
+   * @example
+   * ```typescript
+   * const companies = await ParasutClient.discoverCompanies(credentials);
+   * const client = new ParasutClient({ companyId: Number(companies[0]!.id), credentials });
+   * ```
+   */
+  static async discoverCompanies(
+    credentials: OAuthCredentials,
+    config: DiscoverCompaniesConfig = {}
+  ): Promise<UserCompany[]> {
+    // /me is not company-scoped, so a bare authenticated transport is enough
+    const connection = connectionOptions(config);
+    const oauth = createOAuthManager(credentials, config, connection);
+    const transport = new HttpTransport(transportConfig(config, connection));
+
+    transport.use(async (ctx, next) => {
+      const token = await oauth.getValidToken();
+      ctx.request = {
+        ...ctx.request,
+        headers: { ...ctx.request.headers, Authorization: `Bearer ${token}` },
+      };
+      return next();
+    });
+    transport.use(createRetryMiddleware(new RetryHandler({ ...DEFAULT_RETRY_CONFIG, ...config.retry })));
+    if (config.logger) {
+      transport.use(createLoggingMiddleware(config.logger, config.redactKeys ?? DEFAULT_REDACT_KEYS));
+    }
+
+    return new MeResource(transport).companies();
+  }
+
+  /**
+   * Returns a view of the client scoped to another company. The view shares
+   * the transport, token, rate limiter, circuit breaker, cache and metrics,
+   * so all companies of one login stay within a single quota.
+   *
+   * @example
+   * ```typescript
+   * const invoices = await client.forCompany(654321).salesInvoices.list();
+   * ```
+   */
+  forCompany(companyId: number): ParasutClient {
+    if (!companyId) {
+      throw new ParasutConfigError('companyId is required');
+    }
+
+    let scoped = this.state.companies.get(companyId);
+    if (!scoped) {
+      // Resources are built lazily per company
+      scoped = new ParasutClient({ companyId }, this.state);
+      this.state.companies.set(companyId, scoped);
+    }
+    return scoped;
+  }
+
+  /**
+   * Runs a function for each company with at most `concurrency` running at
+   * once. Failures don't stop the other companies; results are returned in
+   * input order, settled like `Promise.allSettled`.
+   *
+   * @example
+   * ```typescript
+   * const results = await client.mapCompanies(companyIds, (company) =>
+   *   company.salesInvoices.count({ filter: { payment_status: 'overdue' } })
+   * );
+   * ```
+   */
+  async mapCompanies<T>(
+    companyIds: readonly number[],
+    fn: (client: ParasutClient, companyId: number) => Promise<T>,
+    options: MapCompaniesOptions = {}
+  ): Promise<CompanyResult<T>[]> {
+    const { concurrency = 4, signal } = options;
+    const results: CompanyResult<T>[] = new Array(companyIds.length);
+    let next = 0;
+
+    // Workers stop taking companies once aborted; the abort is thrown after they settle
+    const worker = async (): Promise<void> => {
+      while (next < companyIds.length && !signal?.aborted) {
+        const index = next++;
+        const companyId = companyIds[index]!;
+        try {
+          const value = await fn(this.forCompany(companyId), companyId);
+          results[index] = { companyId, status: 'fulfilled', value };
+        } catch (reason) {
+          results[index] = { companyId, status: 'rejected', reason };
+        }
+      }
+    };
+
+    const workers = Math.max(1, Math.min(concurrency, companyIds.length));
+    await Promise.all(Array.from({ length: workers }, worker));
+    throwIfAborted(signal);
+    return results;
+  }
+
   /**
    * Creates a resource config.
    */
@@ -204,6 +677,8 @@ export class ParasutClient {
     return {
       transport: this.transport,
       companyId: this.companyId,
+      idempotency: this.idempotency,
+      validator: this.validator,
     };
   }
 
@@ -221,6 +696,16 @@ export class ParasutClient {
     return this._trackableJobs;
   }
 
+  /**
+   * Me - the authenticated user and the companies they can access.
+   */
+  get me(): MeResource {
+    if (!this._me) {
+      this._me = new MeResource(this.transport);
+    }
+    return this._me;
+  }
+
   /**
    * Accounts - cash and bank accounts.
    */
@@ -256,7 +741,7 @@ export class ParasutClient {
    */
   get salesInvoices(): SalesInvoicesResource {
     if (!this._salesInvoices) {
-      this._salesInvoices = new SalesInvoicesResource(this.getResourceConfig());
+      this._salesInvoices = new SalesInvoicesResource(this.getResourceConfig(), this.sharings);
     }
     return this._salesInvoices;
   }
@@ -266,7 +751,7 @@ export class ParasutClient {
    */
   get salesOffers(): SalesOffersResource {
     if (!this._salesOffers) {
-      this._salesOffers = new SalesOffersResource(this.getResourceConfig());
+      this._salesOffers = new SalesOffersResource(this.getResourceConfig(), this.trackableJobs, this.sharings);
     }
     return this._salesOffers;
   }
@@ -366,7 +851,7 @@ export class ParasutClient {
    */
   get inventoryLevels(): InventoryLevelsResource {
     if (!this._inventoryLevels) {
-      this._inventoryLevels = new InventoryLevelsResource(this.getResourceConfig());
+      this._inventoryLevels = new InventoryLevelsResource(this.getResourceConfig(), this.warehouses);
     }
     return this._inventoryLevels;
   }
@@ -376,11 +861,31 @@ export class ParasutClient {
    */
   get stockMovements(): StockMovementsResource {
     if (!this._stockMovements) {
-      this._stockMovements = new StockMovementsResource(this.getResourceConfig());
+      this._stockMovements = new StockMovementsResource(this.getResourceConfig(), this.warehouses);
     }
     return this._stockMovements;
   }
 
+  /**
+   * Stock Updates - new inventory totals per warehouse.
+   */
+  get stockUpdates(): StockUpdatesResource {
+    if (!this._stockUpdates) {
+      this._stockUpdates = new StockUpdatesResource(this.getResourceConfig());
+    }
+    return this._stockUpdates;
+  }
+
+  /**
+   * Warehouses - stock locations for inventory levels and movements.
+   */
+  get warehouses(): WarehousesResource {
+    if (!this._warehouses) {
+      this._warehouses = new WarehousesResource(this.getResourceConfig());
+    }
+    return this._warehouses;
+  }
+
   /**
    * Shipment Documents - delivery notes.
    */
@@ -420,4 +925,57 @@ export class ParasutClient {
     }
     return this._transactions;
   }
+
+  /**
+   * Sharings - e-mail and portal sharing of documents.
+   */
+  get sharings(): SharingsResource {
+    if (!this._sharings) {
+      this._sharings = new SharingsResource(this.getResourceConfig());
+    }
+    return this._sharings;
+  }
+
+  /**
+   * Webhooks - subscriptions for record change notifications.
+   */
+  get webhooks(): WebhooksResource {
+    if (!this._webhooks) {
+      this._webhooks = new WebhooksResource(this.getResourceConfig());
+    }
+    return this._webhooks;
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function connectionOptions(config: DiscoverCompaniesConfig): ConnectionOptions {
+  return {
+    ...(config.fetch !== undefined && { fetch: config.fetch }),
+    ...(config.dispatcher !== undefined && { dispatcher: config.dispatcher }),
+    ...(config.agent !== undefined && { agent: config.agent }),
+  };
+}
+
+function transportConfig(config: DiscoverCompaniesConfig, connection: ConnectionOptions): TransportConfig {
+  return {
+    ...connection,
+    baseUrl: config.baseUrl ?? DEFAULT_BASE_URL,
+    timeout: config.timeout ?? 30_000,
+  };
+}
+
+function createOAuthManager(
+  credentials: OAuthCredentials,
+  config: DiscoverCompaniesConfig,
+  connection: ConnectionOptions
+): OAuthManager {
+  return new OAuthManager(credentials, {
+    ...connection,
+    tokenUrl: config.tokenUrl ?? new URL('/oauth/token', config.baseUrl ?? DEFAULT_BASE_URL).toString(),
+    ...(config.logger !== undefined && { logger: config.logger }),
+    ...(config.tokenStorage !== undefined && { storage: config.tokenStorage }),
+  });
 }
@@ -48,6 +48,17 @@ export interface ListQueryParams<TFilters = object> {
    * Can be a string or array.
    */
   sort?: string | string[];
+
+  /**
+   * Cancels the request (and, for iterators, any remaining pages).
+   * Not serialized into the query string.
+   */
+  signal?: AbortSignal;
+  /**
+   * Rate limiter lane, e.g. `'low'` for background exports.
+   * Not serialized into the query string.
+   */
+  priority?: string;
 }
 
 export interface ShowQueryParams {
@@ -55,6 +66,17 @@ export interface ShowQueryParams {
    * Related resources to include.
    */
   include?: string | string[];
+
+  /**
+   * Cancels the request.
+   * Not serialized into the query string.
+   */
+  signal?: AbortSignal;
+  /**
+   * Rate limiter lane.
+   * Not serialized into the query string.
+   */
+  priority?: string;
 }
 
 // ============================================================================
@@ -0,0 +1,363 @@
+/**
+ * Rate Limit Stores
+ *
+ * Shared token buckets for RateLimiter. Paraşüt enforces its limit per user
+ * or application, so processes sharing credentials should share one bucket.
+ * Stores refill, take and pause atomically; the file store uses a lock file
+ * to coordinate processes on the same machine.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { link, readFile, rename, stat, unlink, writeFile } from 'node:fs/promises';
+import { sleep } from './abort.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Bucket dimensions, passed on every call so limits learned from response
+ * headers apply immediately.
+ */
+export interface RateLimitBucket {
+  capacity: number;
+  windowMs: number;
+}
+
+export interface RateLimitBucketState {
+  tokens: number;
+  lastRefill: number;
+  pausedUntil: number;
+}
+
+export interface RateLimitTakeResult {
+  /**
+   * 0 when a token was taken, otherwise milliseconds to wait before trying again.
+   */
+  waitMs: number;
+  /**
+   * Tokens left in the bucket after the call.
+   */
+  remaining: number;
+}
+
+export interface RateLimitAdjustment {
+  /**
+   * Caps the bucket at the server-reported remaining requests.
+   */
+  remaining?: number;
+  /**
+   * Pauses every consumer until this Unix timestamp in milliseconds.
+   */
+  pauseUntil?: number;
+}
+
+/**
+ * Shared token bucket. Every method must be atomic across all consumers.
+ */
+export interface RateLimitStore {
+  /**
+   * Refills the bucket for elapsed time and takes one token if available.
+   */
+  take(bucket: RateLimitBucket): Promise<RateLimitTakeResult>;
+  /**
+   * Applies limits reported by the server.
+   */
+  adjust(bucket: RateLimitBucket, adjustment: RateLimitAdjustment): Promise<void>;
+  /**
+   * Refills the bucket completely and clears any pause.
+   */
+  reset(bucket: RateLimitBucket): Promise<void>;
+}
+
+// ============================================================================
+// Bucket Arithmetic
+// ============================================================================
+
+function initialState(bucket: RateLimitBucket, now: number): RateLimitBucketState {
+  return { tokens: bucket.capacity, lastRefill: now, pausedUntil: 0 };
+}
+
+function refill(state: RateLimitBucketState, bucket: RateLimitBucket, now: number): void {
+  const elapsed = now - state.lastRefill;
+
+  if (elapsed >= bucket.windowMs) {
+    state.tokens = bucket.capacity;
+    state.lastRefill = now;
+  } else if (elapsed > 0) {
+    const tokensToAdd = Math.floor((elapsed / bucket.windowMs) * bucket.capacity);
+    if (tokensToAdd > 0) {
+      state.tokens = Math.min(state.tokens + tokensToAdd, bucket.capacity);
+      state.lastRefill = now;
+    }
+  }
+}
+
+function take(
+  state: RateLimitBucketState,
+  bucket: RateLimitBucket,
+  now: number
+): RateLimitTakeResult {
+  if (now < state.pausedUntil) {
+    return { waitMs: state.pausedUntil - now, remaining: 0 };
+  }
+
+  refill(state, bucket, now);
+
+  if (state.tokens > 0) {
+    state.tokens--;
+    return { waitMs: 0, remaining: state.tokens };
+  }
+  return { waitMs: Math.ceil(bucket.windowMs / bucket.capacity), remaining: 0 };
+}
+
+function adjust(
+  state: RateLimitBucketState,
+  bucket: RateLimitBucket,
+  adjustment: RateLimitAdjustment,
+  now: number
+): void {
+  state.tokens = Math.min(state.tokens, bucket.capacity);
+
+  if (adjustment.remaining !== undefined) {
+    refill(state, bucket, now);
+    state.tokens = Math.min(state.tokens, adjustment.remaining);
+  }
+
+  if (adjustment.pauseUntil !== undefined && adjustment.pauseUntil > state.pausedUntil) {
+    state.pausedUntil = adjustment.pauseUntil;
+    state.tokens = 0;
+    // Start refilling only once the pause is over
+    state.lastRefill = adjustment.pauseUntil;
+  }
+}
+
+// ============================================================================
+// In-Memory Store
+// ============================================================================
+
+/**
+ * Bucket shared by every RateLimiter in the same process.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private state: RateLimitBucketState | null = null;
+
+  async take(bucket: RateLimitBucket): Promise<RateLimitTakeResult> {
+    const now = Date.now();
+    this.state ??= initialState(bucket, now);
+    return take(this.state, bucket, now);
+  }
+
+  async adjust(bucket: RateLimitBucket, adjustment: RateLimitAdjustment): Promise<void> {
+    const now = Date.now();
+    this.state ??= initialState(bucket, now);
+    adjust(this.state, bucket, adjustment, now);
+  }
+
+  async reset(bucket: RateLimitBucket): Promise<void> {
+    this.state = initialState(bucket, Date.now());
+  }
+}
+
+// ============================================================================
+// File Store
+// ============================================================================
+
+export interface FileRateLimitStoreOptions {
+  /**
+   * Age after which a lock file is considered abandoned by a crashed process.
+   * @default 5000
+   */
+  staleLockMs?: number;
+
+  /**
+   * Delay between attempts to take the lock.
+   * @default 5
+   */
+  retryDelayMs?: number;
+}
+
+/**
+ * Bucket persisted as JSON in a file and guarded by `<path>.lock`, shared by
+ * every process on the machine that points at the same path. The lock file
+ * holds its owner's token (pid plus a random value); a process only removes
+ * a lock carrying its own token or one older than `staleLockMs`.
+ *
+ * @example
+ * ```typescript
+ * const client = new ParasutClient({
+ *   companyId: 123456,
+ *   credentials,
+ *   rateLimit: { store: new FileRateLimitStore('/tmp/parasut-rate-limit.json') },
+ * });
+ * ```
+ */
+export class FileRateLimitStore implements RateLimitStore {
+  private readonly lockPath: string;
+  private readonly staleLockMs: number;
+  private readonly retryDelayMs: number;
+
+  constructor(
+    private readonly filePath: string,
+    options: FileRateLimitStoreOptions = {}
+  ) {
+    this.lockPath = `${filePath}.lock`;
+    this.staleLockMs = options.staleLockMs ?? 5_000;
+    this.retryDelayMs = options.retryDelayMs ?? 5;
+  }
+
+  async take(bucket: RateLimitBucket): Promise<RateLimitTakeResult> {
+    return this.update(bucket, (state, now) => take(state, bucket, now));
+  }
+
+  async adjust(bucket: RateLimitBucket, adjustment: RateLimitAdjustment): Promise<void> {
+    await this.update(bucket, (state, now) => adjust(state, bucket, adjustment, now));
+  }
+
+  async reset(bucket: RateLimitBucket): Promise<void> {
+    await this.update(bucket, (state, now) => {
+      Object.assign(state, initialState(bucket, now));
+    });
+  }
+
+  /**
+   * Reads, modifies and writes the bucket while holding the lock.
+   */
+  private async update<T>(
+    bucket: RateLimitBucket,
+    fn: (state: RateLimitBucketState, now: number) => T
+  ): Promise<T> {
+    const token = await this.lock();
+    try {
+      const now = Date.now();
+      const state = (await this.read()) ?? initialState(bucket, now);
+      const result = fn(state, now);
+      await this.write(state);
+      return result;
+    } finally {
+      await this.unlock(token);
+    }
+  }
+
+  /**
+   * Creates the lock file exclusively with a fresh owner token, waiting
+   * while another process holds it. Returns the token.
+   */
+  private async lock(): Promise<string> {
+    const token = `${process.pid}:${randomUUID()}`;
+
+    for (;;) {
+      try {
+        await writeFile(this.lockPath, token, { flag: 'wx' });
+        return token;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      // Break locks left behind by crashed processes
+      if ((await this.isStale(this.lockPath)) && (await this.breakStaleLock(token))) {
+        continue;
+      }
+
+      await sleep(this.retryDelayMs);
+    }
+  }
+
+  /**
+   * Removes an abandoned lock. Breakers take `<path>.lock.break` first and
+   * re-check staleness under it, so two processes cannot both break the lock
+   * and then each take a new one. The lock is moved aside by rename and
+   * checked again; a lock that turns out fresh is linked back (link never
+   * overwrites a lock taken in the meantime). Returns whether it broke one.
+   */
+  private async breakStaleLock(token: string): Promise<boolean> {
+    const guardPath = `${this.lockPath}.break`;
+    try {
+      await writeFile(guardPath, token, { flag: 'wx' });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+      // A breaker that crashed while holding the guard
+      if (await this.isStale(guardPath)) {
+        await unlink(guardPath).catch(() => undefined);
+      }
+      return false;
+    }
+
+    try {
+      if (!(await this.isStale(this.lockPath))) {
+        return false;
+      }
+
+      const asidePath = `${this.lockPath}.${randomUUID()}.stale`;
+      try {
+        await rename(this.lockPath, asidePath);
+      } catch {
+        // Released by its owner first
+        return true;
+      }
+
+      if (!(await this.isStale(asidePath))) {
+        await link(asidePath, this.lockPath).catch(() => undefined);
+      }
+      await unlink(asidePath).catch(() => undefined);
+      return true;
+    } finally {
+      await this.unlock(token, guardPath);
+    }
+  }
+
+  private async isStale(path: string): Promise<boolean> {
+    const info = await stat(path).catch(() => null);
+    return info !== null && Date.now() - info.mtimeMs > this.staleLockMs;
+  }
+
+  /**
+   * Removes a lock file only if it still carries this token. The lock is
+   * moved aside by rename before its token is read, so a lock another
+   * process took in between is never removed; one that isn't ours is linked
+   * back, as in `breakStaleLock`.
+   */
+  private async unlock(token: string, path = this.lockPath): Promise<void> {
+    const asidePath = `${path}.${randomUUID()}.release`;
+    try {
+      await rename(path, asidePath);
+    } catch {
+      // Already removed by a breaker
+      return;
+    }
+
+    const owner = await readFile(asidePath, 'utf8').catch(() => null);
+    if (owner !== token) {
+      await link(asidePath, path).catch(() => undefined);
+    }
+    await unlink(asidePath).catch(() => undefined);
+  }
+
+  private async read(): Promise<RateLimitBucketState | null> {
+    try {
+      const parsed = JSON.parse(await readFile(this.filePath, 'utf8')) as Partial<RateLimitBucketState>;
+      if (
+        typeof parsed.tokens === 'number' &&
+        typeof parsed.lastRefill === 'number' &&
+        typeof parsed.pausedUntil === 'number'
+      ) {
+        return { tokens: parsed.tokens, lastRefill: parsed.lastRefill, pausedUntil: parsed.pausedUntil };
+      }
+      return null;
+    } catch {
+      // Missing or unreadable state starts a fresh bucket
+      return null;
+    }
+  }
+
+  private async write(state: RateLimitBucketState): Promise<void> {
+    // Write then rename so readers never see a partial file
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await writeFile(tempPath, JSON.stringify(state));
+    await rename(tempPath, this.filePath);
+  }
+}
@@ -2,9 +2,15 @@
  * Rate Limiter
  *
  * Implements token bucket algorithm for rate limiting requests.
- * Paraşüt API allows 10 requests per 10 seconds.
+ * Paraşüt API allows 10 requests per 10 seconds. Tokens are counted locally
+ * or in a shared RateLimitStore.
  */
 
+import { throwIfAborted } from './abort.js';
+import { ParasutAbortError, ParasutConfigError } from './errors.js';
+import type { Middleware } from './HttpTransport.js';
+import type { RateLimitBucket, RateLimitStore } from './RateLimitStore.js';
+
 export interface RateLimitConfig {
   /**
    * Whether rate limiting is enabled.
@@ -23,14 +29,178 @@ export interface RateLimitConfig {
    * @default 10000 (10 seconds)
    */
   windowMs: number;
+
+  /**
+   * Whether to adapt tokens and pauses from server response headers
+   * (Retry-After and X-RateLimit-*). Learned limits only apply until the
+   * reported window resets.
+   * @default true
+   */
+  adaptive: boolean;
+
+  /**
+   * Upper bound for the time until reset taken from X-RateLimit-Reset,
+   * so a skewed clock can't stall the limiter.
+   * @default 60000 (1 minute)
+   */
+  maxResetMs: number;
+
+  /**
+   * Priority lanes and their weights. Waiting requests are served by
+   * weighted round robin, so a lane with weight 4 gets four tokens for every
+   * one given to a lane with weight 1, and no lane is starved. Merged with
+   * the default lanes.
+   * @default { high: 4, normal: 2, low: 1 }
+   */
+  lanes: Record<string, number>;
+
+  /**
+   * Lane used by requests without a priority.
+   * @default 'normal'
+   */
+  defaultLane: string;
+
+  /**
+   * Shared bucket used in place of the local token counters, so several
+   * limiters (or processes) stay within one quota together.
+   */
+  store?: RateLimitStore;
 }
 
 export const DEFAULT_RATE_LIMIT_CONFIG: RateLimitConfig = {
   enabled: true,
   requestsPerWindow: 10,
   windowMs: 10_000,
+  adaptive: true,
+  maxResetMs: 60_000,
+  lanes: { high: 4, normal: 2, low: 1 },
+  defaultLane: 'normal',
 };
 
+/**
+ * Rate limit information reported by the server.
+ */
+export interface RateLimitInfo {
+  /**
+   * Maximum requests per window (X-RateLimit-Limit).
+   */
+  limit?: number;
+
+  /**
+   * Requests left in the current window (X-RateLimit-Remaining).
+   */
+  remaining?: number;
+
+  /**
+   * Milliseconds until the current window resets (X-RateLimit-Reset).
+   */
+  resetMs?: number;
+
+  /**
+   * Milliseconds to wait before retrying (Retry-After).
+   */
+  retryAfterMs?: number;
+}
+
+/**
+ * Parses a header value as a non-negative number.
+ */
+function parseNumberHeader(value: string | null): number | undefined {
+  if (value === null || value.trim() === '') {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+/**
+ * Parses Retry-After and X-RateLimit-* response headers.
+ *
+ * Retry-After may be delta-seconds or an HTTP date. X-RateLimit-Reset is
+ * when the current window resets: delta-seconds, or a Unix timestamp in
+ * seconds or milliseconds.
+ */
+export function parseRateLimitHeaders(headers: Headers): RateLimitInfo {
+  const info: RateLimitInfo = {};
+  const now = Date.now();
+
+  const retryAfter = headers.get('retry-after');
+  if (retryAfter !== null) {
+    const seconds = parseNumberHeader(retryAfter);
+    if (seconds !== undefined) {
+      info.retryAfterMs = Math.ceil(seconds * 1000);
+    } else {
+      const date = Date.parse(retryAfter);
+      if (!Number.isNaN(date)) {
+        info.retryAfterMs = Math.max(0, date - now);
+      }
+    }
+  }
+
+  const limit = parseNumberHeader(headers.get('x-ratelimit-limit'));
+  if (limit !== undefined) {
+    info.limit = limit;
+  }
+
+  const remaining = parseNumberHeader(headers.get('x-ratelimit-remaining'));
+  if (remaining !== undefined) {
+    info.remaining = remaining;
+  }
+
+  const reset = parseNumberHeader(headers.get('x-ratelimit-reset'));
+  if (reset !== undefined) {
+    // Values this large can only be timestamps, not a delta
+    if (reset > 1_000_000_000_000) {
+      info.resetMs = Math.max(0, Math.ceil(reset - now));
+    } else if (reset > 1_000_000_000) {
+      info.resetMs = Math.max(0, Math.ceil(reset * 1000 - now));
+    } else {
+      info.resetMs = Math.ceil(reset * 1000);
+    }
+  }
+
+  return info;
+}
+
+export interface RateLimitWaitContext {
+  /**
+   * Time spent waiting for a token in milliseconds.
+   */
+  waitMs: number;
+  /**
+   * Lane the caller waited in.
+   */
+  lane: string;
+  method?: string;
+  path?: string;
+}
+
+export interface RateLimitWaitHook {
+  (context: RateLimitWaitContext): void;
+}
+
+interface Waiter {
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Limit learned from response headers, valid until `expiresAt`.
+ */
+interface LearnedLimits {
+  requestsPerWindow: number;
+  expiresAt: number;
+}
+
+interface Lane {
+  weight: number;
+  /**
+   * Smooth weighted round robin credit.
+   */
+  credit: number;
+  waiters: Waiter[];
+}
+
 /**
  * Token Bucket Rate Limiter
  *
@@ -42,65 +212,254 @@ export class RateLimiter {
   private tokens: number;
   private lastRefill: number;
   private readonly config: RateLimitConfig;
-  private waitQueue: Array<{
-    resolve: () => void;
-    reject: (error: Error) => void;
-  }> = [];
+  private readonly lanes = new Map<string, Lane>();
   private processing = false;
+  private pausedUntil = 0;
+  private learned: LearnedLimits | undefined;
+  private readonly waitHooks: RateLimitWaitHook[] = [];
 
   constructor(config: Partial<RateLimitConfig> = {}) {
-    this.config = { ...DEFAULT_RATE_LIMIT_CONFIG, ...config };
+    this.config = {
+      ...DEFAULT_RATE_LIMIT_CONFIG,
+      ...config,
+      lanes: { ...DEFAULT_RATE_LIMIT_CONFIG.lanes, ...config.lanes },
+    };
     this.tokens = this.config.requestsPerWindow;
     this.lastRefill = Date.now();
+
+    for (const [name, weight] of Object.entries(this.config.lanes)) {
+      if (!(weight > 0)) {
+        throw new ParasutConfigError(`Rate limit lane "${name}" must have a positive weight`);
+      }
+      this.lanes.set(name, { weight, credit: 0, waiters: [] });
+    }
+    if (!this.lanes.has(this.config.defaultLane)) {
+      throw new ParasutConfigError(`Unknown default rate limit lane "${this.config.defaultLane}"`);
+    }
+  }
+
+  /**
+   * Adds a hook that's called after a caller had to wait for a token.
+   */
+  onWait(hook: RateLimitWaitHook): void {
+    this.waitHooks.push(hook);
   }
 
   /**
    * Acquires a token, waiting if necessary.
    * Returns a promise that resolves when a token is available.
+   * Waiting callers are served by lane weight; `context.lane` picks the lane.
+   * Aborting the signal removes the caller from the wait queue.
    */
-  async acquire(): Promise<void> {
+  async acquire(
+    signal?: AbortSignal,
+    context: { method?: string; path?: string; lane?: string } = {}
+  ): Promise<void> {
     if (!this.config.enabled) {
       return;
     }
 
-    // Refill tokens based on elapsed time
-    this.refillTokens();
+    throwIfAborted(signal);
 
-    // If we have tokens, consume one immediately
-    if (this.tokens > 0) {
-      this.tokens--;
+    const { lane: laneName = this.config.defaultLane, ...request } = context;
+    const lane = this.lanes.get(laneName);
+    if (!lane) {
+      throw new ParasutConfigError(`Unknown rate limit lane "${laneName}"`);
+    }
+
+    // If nobody is waiting and a token is available, consume it immediately
+    if (this.getQueueLength() === 0 && (await this.takeToken()) === 0) {
       return;
     }
 
-    // Otherwise, wait in the queue
+    // Otherwise, wait in the lane's queue
+    const queuedAt = Date.now();
+    await this.enqueue(lane, signal);
+
+    const waitContext: RateLimitWaitContext = {
+      ...request,
+      lane: laneName,
+      waitMs: Date.now() - queuedAt,
+    };
+    for (const hook of this.waitHooks) {
+      hook(waitContext);
+    }
+  }
+
+  /**
+   * Adds a waiter to the lane and resolves once it has been given a token.
+   */
+  private enqueue(lane: Lane, signal?: AbortSignal): Promise<void> {
     return new Promise<void>((resolve, reject) => {
-      this.waitQueue.push({ resolve, reject });
+      if (!signal) {
+        lane.waiters.push({ resolve, reject });
+        this.processQueue();
+        return;
+      }
+
+      const onAbort = (): void => {
+        const index = lane.waiters.indexOf(waiter);
+        if (index !== -1) {
+          lane.waiters.splice(index, 1);
+        }
+        reject(new ParasutAbortError(signal.reason));
+      };
+
+      const waiter: Waiter = {
+        resolve: (): void => {
+          signal.removeEventListener('abort', onAbort);
+          resolve();
+        },
+        reject: (error: Error): void => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      };
+
+      signal.addEventListener('abort', onAbort, { once: true });
+      lane.waiters.push(waiter);
       this.processQueue();
     });
   }
 
+  /**
+   * Pauses token hand-out for the given duration.
+   * All callers sharing this limiter wait until the pause ends.
+   */
+  pause(ms: number): void {
+    if (ms <= 0) {
+      return;
+    }
+    const until = Date.now() + ms;
+    if (until <= this.pausedUntil) {
+      return;
+    }
+    this.pausedUntil = until;
+    this.tokens = 0;
+    // Start refilling only once the pause is over
+    this.lastRefill = until;
+
+    if (this.config.store) {
+      this.syncStore(this.config.store.adjust(this.bucket(), { pauseUntil: until }));
+    }
+  }
+
+  /**
+   * Adjusts the limiter from rate limit information reported by the server.
+   * A Retry-After or an exhausted window pauses every waiting caller.
+   */
+  updateFromHeaders(info: RateLimitInfo): void {
+    if (!this.config.enabled || !this.config.adaptive) {
+      return;
+    }
+
+    this.learnLimits(info);
+
+    if (info.remaining !== undefined) {
+      this.refillTokens();
+      this.tokens = Math.min(this.tokens, info.remaining);
+      if (this.config.store) {
+        this.syncStore(this.config.store.adjust(this.bucket(), { remaining: info.remaining }));
+      }
+    }
+
+    if (info.retryAfterMs !== undefined) {
+      this.pause(info.retryAfterMs);
+    } else if (info.remaining === 0 && info.resetMs !== undefined) {
+      this.pause(Math.min(info.resetMs, this.config.maxResetMs));
+    }
+  }
+
+  /**
+   * Records the server's limit, capped at `requestsPerWindow`.
+   * X-RateLimit-Reset is the time left in the server's current window, not
+   * the window's length, so it only sets when the learned limit expires
+   * (at most `maxResetMs` away; one configured window without it). One
+   * odd header can't slow the limiter for good.
+   */
+  private learnLimits(info: RateLimitInfo): void {
+    if (info.limit === undefined || !(info.limit > 0)) {
+      return;
+    }
+
+    const requestsPerWindow = Math.max(1, Math.min(Math.floor(info.limit), this.config.requestsPerWindow));
+    const expiresInMs = Math.min(info.resetMs ?? this.config.windowMs, this.config.maxResetMs);
+    this.learned = { requestsPerWindow, expiresAt: Date.now() + expiresInMs };
+    this.tokens = Math.min(this.tokens, requestsPerWindow);
+  }
+
+  /**
+   * Limits in effect: learned ones while they last, otherwise the config.
+   */
+  private limits(): { requestsPerWindow: number; windowMs: number } {
+    if (this.learned && this.learned.expiresAt <= Date.now()) {
+      this.learned = undefined;
+    }
+    return {
+      requestsPerWindow: this.learned?.requestsPerWindow ?? this.config.requestsPerWindow,
+      windowMs: this.config.windowMs,
+    };
+  }
+
+  /**
+   * Takes a token from the store or the local bucket.
+   * Resolves 0 when a token was taken, otherwise the time to wait.
+   */
+  private async takeToken(): Promise<number> {
+    if (this.config.store) {
+      const result = await this.config.store.take(this.bucket());
+      this.tokens = result.remaining;
+      return result.waitMs;
+    }
+
+    const pauseRemaining = this.pausedUntil - Date.now();
+    if (pauseRemaining > 0) {
+      return pauseRemaining;
+    }
+
+    this.refillTokens();
+
+    if (this.tokens > 0) {
+      this.tokens--;
+      return 0;
+    }
+    return this.timeUntilNextToken();
+  }
+
+  /**
+   * Current bucket dimensions, including limits learned from headers.
+   */
+  private bucket(): RateLimitBucket {
+    const { requestsPerWindow, windowMs } = this.limits();
+    return { capacity: requestsPerWindow, windowMs };
+  }
+
+  /**
+   * Runs a store update in the background. A failing store surfaces on the
+   * next `take`, so errors here are ignored.
+   */
+  private syncStore(update: Promise<void>): void {
+    update.catch(() => undefined);
+  }
+
   /**
    * Refills tokens based on elapsed time since last refill.
    */
   private refillTokens(): void {
     const now = Date.now();
     const elapsed = now - this.lastRefill;
+    const { requestsPerWindow, windowMs } = this.limits();
 
-    if (elapsed >= this.config.windowMs) {
+    if (elapsed >= windowMs) {
       // Full window has passed, refill all tokens
-      this.tokens = this.config.requestsPerWindow;
+      this.tokens = requestsPerWindow;
       this.lastRefill = now;
     } else if (elapsed > 0) {
       // Partial refill based on time elapsed
-      const tokensToAdd = Math.floor(
-        (elapsed / this.config.windowMs) * this.config.requestsPerWindow
-      );
+      const tokensToAdd = Math.floor((elapsed / windowMs) * requestsPerWindow);
 
       if (tokensToAdd > 0) {
-        this.tokens = Math.min(
-          this.tokens + tokensToAdd,
-          this.config.requestsPerWindow
-        );
+        this.tokens = Math.min(this.tokens + tokensToAdd, requestsPerWindow);
         this.lastRefill = now;
       }
     }
@@ -110,34 +469,77 @@ export class RateLimiter {
    * Processes the wait queue, releasing waiters as tokens become available.
    */
   private async processQueue(): Promise<void> {
-    if (this.processing || this.waitQueue.length === 0) {
+    if (this.processing || this.getQueueLength() === 0) {
       return;
     }
 
     this.processing = true;
 
-    while (this.waitQueue.length > 0) {
-      this.refillTokens();
+    while (this.getQueueLength() > 0) {
+      let waitMs: number;
+      try {
+        waitMs = await this.takeToken();
+      } catch (error) {
+        // The store is unavailable; fail the waiters instead of hanging them
+        this.rejectAll(error instanceof Error ? error : new Error(String(error)));
+        break;
+      }
+
+      if (waitMs > 0) {
+        // Wait until the pause ends or the next token is available
+        await this.sleep(waitMs);
+        continue;
+      }
 
-      if (this.tokens > 0) {
-        this.tokens--;
-        const waiter = this.waitQueue.shift();
-        waiter?.resolve();
-      } else {
-        // Wait until next token is available
-        const waitTime = this.timeUntilNextToken();
-        await this.sleep(waitTime);
+      const waiter = this.nextWaiter();
+      if (waiter) {
+        waiter.resolve();
+      } else if (!this.config.store) {
+        // The waiter aborted while the token was taken; give it back
+        this.tokens++;
       }
     }
 
     this.processing = false;
   }
 
+  /**
+   * Picks the next waiter by smooth weighted round robin across non-empty
+   * lanes: every lane gains its weight in credit, the richest lane is served
+   * and pays back the total weight.
+   */
+  private nextWaiter(): Waiter | undefined {
+    let selected: Lane | undefined;
+    let totalWeight = 0;
+
+    for (const lane of this.lanes.values()) {
+      if (lane.waiters.length === 0) continue;
+      lane.credit += lane.weight;
+      totalWeight += lane.weight;
+      if (!selected || lane.credit > selected.credit) {
+        selected = lane;
+      }
+    }
+
+    if (!selected) {
+      return undefined;
+    }
+    selected.credit -= totalWeight;
+    const waiter = selected.waiters.shift();
+
+    // Idle lanes don't bank credit for later bursts
+    if (selected.waiters.length === 0) {
+      selected.credit = 0;
+    }
+    return waiter;
+  }
+
   /**
    * Calculates time until the next token becomes available.
    */
   private timeUntilNextToken(): number {
-    const tokensPerMs = this.config.requestsPerWindow / this.config.windowMs;
+    const { requestsPerWindow, windowMs } = this.limits();
+    const tokensPerMs = requestsPerWindow / windowMs;
     return Math.ceil(1 / tokensPerMs);
   }
 
@@ -152,15 +554,36 @@ export class RateLimiter {
    * Returns the current number of available tokens.
    */
   getAvailableTokens(): number {
-    this.refillTokens();
+    // With a store this is the count seen by the latest take
+    if (!this.config.store) {
+      this.refillTokens();
+    }
     return this.tokens;
   }
 
   /**
-   * Returns the current queue length.
+   * Returns the number of waiting callers, in one lane or across all lanes.
+   */
+  getQueueLength(lane?: string): number {
+    if (lane !== undefined) {
+      return this.lanes.get(lane)?.waiters.length ?? 0;
+    }
+    let total = 0;
+    for (const { waiters } of this.lanes.values()) {
+      total += waiters.length;
+    }
+    return total;
+  }
+
+  /**
+   * Returns the number of waiting callers per lane.
    */
-  getQueueLength(): number {
-    return this.waitQueue.length;
+  getQueueLengths(): Record<string, number> {
+    const lengths: Record<string, number> = {};
+    for (const [name, { waiters }] of this.lanes) {
+      lengths[name] = waiters.length;
+    }
+    return lengths;
   }
 
   /**
@@ -169,16 +592,52 @@ export class RateLimiter {
   reset(): void {
     this.tokens = this.config.requestsPerWindow;
     this.lastRefill = Date.now();
+    this.pausedUntil = 0;
+    this.learned = undefined;
+    if (this.config.store) {
+      this.syncStore(this.config.store.reset(this.bucket()));
+    }
     // Reject all waiting requests
-    while (this.waitQueue.length > 0) {
-      const waiter = this.waitQueue.shift();
-      waiter?.reject(new Error('Rate limiter reset'));
+    this.rejectAll(new Error('Rate limiter reset'));
+  }
+
+  /**
+   * Rejects every waiting caller in every lane.
+   */
+  private rejectAll(error: Error): void {
+    for (const lane of this.lanes.values()) {
+      lane.credit = 0;
+      for (const waiter of lane.waiters.splice(0)) {
+        waiter.reject(error);
+      }
     }
   }
 }
 
 /**
- * Creates a rate limiter middleware for the HTTP transport.
+ * Creates a transport middleware that acquires a token before each attempt
+ * and adapts the limiter from the response headers.
+ */
+export function createRateLimitMiddleware(limiter: RateLimiter): Middleware {
+  return async (ctx, next) => {
+    await limiter.acquire(ctx.request.signal, {
+      method: ctx.request.method,
+      path: ctx.request.path,
+      ...(ctx.request.priority !== undefined && { lane: ctx.request.priority }),
+    });
+    try {
+      return await next();
+    } finally {
+      // Let the limiter adapt so every caller sharing it backs off together
+      if (ctx.response) {
+        limiter.updateFromHeaders(parseRateLimitHeaders(ctx.response.headers));
+      }
+    }
+  };
+}
+
+/**
+ * Creates a rate limiter wrapper for arbitrary async functions.
  */
 export function createRateLimitInterceptor(
   limiter: RateLimiter
@@ -4,6 +4,8 @@
  * Implements exponential backoff with jitter for transient errors.
  */
 
+import { sleep, throwIfAborted } from './abort.js';
+import type { Middleware } from './HttpTransport.js';
 import {
   ParasutApiError,
   ParasutNetworkError,
@@ -69,7 +71,15 @@ export interface RetryContext {
   attempt: number;
   method: string;
   path: string;
+  /**
+   * Operation label of the request, when the caller set one.
+   */
+  operation?: string;
   error?: Error;
+  /**
+   * Delay before the next attempt in milliseconds.
+   */
+  delayMs?: number;
 }
 
 export interface RetryHook {
@@ -96,21 +106,24 @@ export class RetryHandler {
 
   /**
    * Executes a function with retry logic.
+   * The function receives the zero-based attempt number.
    */
   async execute<T>(
-    fn: () => Promise<T>,
-    context: { method: string; path: string }
+    fn: (attempt: number) => Promise<T>,
+    context: { method: string; path: string; operation?: string; signal?: AbortSignal }
   ): Promise<T> {
     if (!this.config.enabled) {
-      return fn();
+      return fn(0);
     }
 
     let lastError: Error | undefined;
     let attempt = 0;
 
     while (attempt <= this.config.maxRetries) {
+      throwIfAborted(context.signal);
+
       try {
-        return await fn();
+        return await fn(attempt);
       } catch (error) {
         lastError = error instanceof Error ? error : new Error(String(error));
 
@@ -126,15 +139,17 @@ export class RetryHandler {
           attempt,
           method: context.method,
           path: context.path,
+          ...(context.operation !== undefined && { operation: context.operation }),
           error: lastError,
+          delayMs: delay,
         };
 
         for (const hook of this.hooks) {
           await hook(retryContext);
         }
 
-        // Wait before retrying
-        await this.sleep(delay);
+        // Wait before retrying (aborts immediately if the signal fires)
+        await sleep(delay, context.signal);
         attempt++;
       }
     }
@@ -153,7 +168,9 @@ export class RetryHandler {
 
     // Check if the method is retryable
     if (!this.config.retryableMethods.includes(method.toUpperCase())) {
-      // Special case: always retry rate limit errors regardless of method
+      // Special case: a 429 is rejected before processing, so retrying is
+      // safe regardless of method. Ambiguous POST failures are handled by
+      // the idempotency guard instead.
       if (error instanceof ParasutRateLimitError) {
         return true;
       }
@@ -195,13 +212,22 @@ export class RetryHandler {
 
     return Math.round(cappedDelay + jitter);
   }
+}
 
-  /**
-   * Sleeps for the specified duration.
-   */
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-  }
+/**
+ * Creates a transport middleware that retries the rest of the pipeline.
+ */
+export function createRetryMiddleware(handler: RetryHandler): Middleware {
+  return (ctx, next) =>
+    handler.execute((attempt) => {
+      ctx.attempt = attempt + 1;
+      return next();
+    }, {
+      method: ctx.request.method,
+      path: ctx.request.path,
+      ...(ctx.request.operation !== undefined && { operation: ctx.request.operation }),
+      ...(ctx.request.signal !== undefined && { signal: ctx.request.signal }),
+    });
 }
 
 /**
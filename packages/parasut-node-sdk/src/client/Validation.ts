@@ -0,0 +1,219 @@
+/**
+ * Response Validation
+ *
+ * Checks response payloads against schemas generated from the swagger spec,
+ * catching drift such as numbers returned as strings or unexpected nulls.
+ * Mismatches are reported with their JSON pointer and the operation ID,
+ * either as log warnings or as a thrown error.
+ */
+
+import { ParasutResponseValidationError } from './errors.js';
+import { silentLogger, type Logger } from './Logger.js';
+import { OPERATIONS } from '../generated/operations.js';
+import { RESPONSE_SCHEMAS, SCHEMAS } from '../generated/schemas.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * - `off`: responses are not checked
+ * - `warn`: mismatches are logged as `response:invalid` events
+ * - `strict`: mismatches throw `ParasutResponseValidationError`
+ */
+export type ValidationMode = 'off' | 'warn' | 'strict';
+
+/**
+ * Runtime schema generated from a swagger definition.
+ */
+export interface SchemaNode {
+  type?: string;
+  enum?: readonly (string | number)[];
+  required?: readonly string[];
+  items?: SchemaNode;
+  properties?: Record<string, SchemaNode>;
+  allOf?: readonly SchemaNode[];
+  /**
+   * Name of a definition in the generated `SCHEMAS`.
+   */
+  ref?: string;
+}
+
+export interface ValidationIssue {
+  /**
+   * JSON pointer (RFC 6901) to the mismatching value, e.g. `/data/attributes/net_total`.
+   */
+  pointer: string;
+  expected: string;
+  received: string;
+}
+
+export interface ResponseValidatorConfig {
+  mode: ValidationMode;
+  /**
+   * Receives `response:invalid` events in `warn` mode.
+   * Silent by default; `ParasutClient` passes its `logger`.
+   */
+  logger?: Logger;
+}
+
+// ============================================================================
+// Schema Checks
+// ============================================================================
+
+function escapePointer(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Type of a received value; values themselves are left out of reports so
+ * attributes like `tax_number` never reach logs.
+ */
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Checks a value against a schema and returns every mismatch.
+ * Optional properties may be null; unknown properties are allowed.
+ */
+export function validateSchema(
+  value: unknown,
+  schema: SchemaNode,
+  pointer = ''
+): ValidationIssue[] {
+  if (schema.ref !== undefined) {
+    const target = SCHEMAS[schema.ref];
+    return target ? validateSchema(value, target, pointer) : [];
+  }
+
+  const issues: ValidationIssue[] = [];
+  for (const part of schema.allOf ?? []) {
+    issues.push(...validateSchema(value, part, pointer));
+  }
+
+  if (schema.type !== undefined && !matchesType(value, schema.type)) {
+    issues.push({ pointer, expected: schema.type, received: describe(value) });
+    return issues;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    issues.push({
+      pointer,
+      expected: schema.enum.map((v) => JSON.stringify(v)).join(' | '),
+      received: describe(value),
+    });
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => {
+      issues.push(...validateSchema(item, schema.items!, `${pointer}/${index}`));
+    });
+  }
+
+  if (schema.properties && typeof value === 'object' && value !== null && !Array.isArray(value)) {
+    const record = value as Record<string, unknown>;
+    for (const [key, propSchema] of Object.entries(schema.properties)) {
+      const required = schema.required?.includes(key) ?? false;
+      const propValue = record[key];
+      const propPointer = `${pointer}/${escapePointer(key)}`;
+
+      if (propValue === undefined) {
+        if (required) {
+          issues.push({ pointer: propPointer, expected: 'required', received: 'undefined' });
+        }
+        continue;
+      }
+      if (propValue === null && !required) {
+        continue;
+      }
+      issues.push(...validateSchema(propValue, propSchema, propPointer));
+    }
+  }
+
+  return issues;
+}
+
+// ============================================================================
+// Response Validator
+// ============================================================================
+
+export class ResponseValidator {
+  readonly mode: ValidationMode;
+  private readonly logger: Logger;
+  private readonly operationIds = new Map<string, string | null>();
+
+  constructor(config: ResponseValidatorConfig) {
+    this.mode = config.mode;
+    this.logger = config.logger ?? silentLogger;
+  }
+
+  get enabled(): boolean {
+    return this.mode !== 'off';
+  }
+
+  /**
+   * Finds the operation ID for a method and path template such as
+   * `/{company_id}/sales_invoices/{id}`.
+   */
+  operationId(method: string, template: string): string | undefined {
+    const cacheKey = `${method} ${template}`;
+    let id = this.operationIds.get(cacheKey);
+    if (id === undefined) {
+      const operation = Object.values(OPERATIONS).find(
+        (op) => op.method === method && op.path.replace(/#.*$/, '') === template
+      );
+      id = operation?.operationId ?? null;
+      this.operationIds.set(cacheKey, id);
+    }
+    return id ?? undefined;
+  }
+
+  /**
+   * Checks a response payload against the operation's success schema.
+   * Logs or throws per `mode`; operations without a schema are skipped.
+   */
+  validate(operationId: string, payload: unknown): void {
+    const schema = RESPONSE_SCHEMAS[operationId];
+    if (!this.enabled || !schema) {
+      return;
+    }
+
+    const issues = validateSchema(payload, schema);
+    if (issues.length === 0) {
+      return;
+    }
+
+    if (this.mode === 'strict') {
+      throw new ParasutResponseValidationError(operationId, issues);
+    }
+
+    this.logger.log({
+      event: 'response:invalid',
+      level: 'warn',
+      operationId,
+      issues,
+    });
+  }
+}
@@ -0,0 +1,597 @@
+/**
+ * Webhook Receiver
+ *
+ * Turns webhook deliveries into typed events. `parseWebhook` is a pure
+ * function usable from any framework; `WebhookReceiver` adds signature
+ * checks, dedup by delivery ID, an in-memory replay buffer and a Node
+ * `http` handler.
+ *
+ * Deliveries carry the model name, action, event date and the record in
+ * the same format the API returns, serialized as a string:
+ *
+ * ```json
+ * {
+ *   "company_id": "1",
+ *   "resource": "sales_invoice",
+ *   "action": "update",
+ *   "event_date": "2023-01-02T01:01:00.000Z",
+ *   "data": { "id": 1, "included": [], "data": "{\"data\":{...}}" }
+ * }
+ * ```
+ *
+ * The spec's webhook models don't include e-documents; an e-invoice,
+ * e-archive or e-SMM status change arrives as a `sales_invoice.update`,
+ * which `getEDocumentStatus` reads through `active_e_document`.
+ *
+ * Per the API documentation, the `Signature` header is the SHA256 hash of
+ * the event data and the webhook's encryption key. `signWebhook` hashes the
+ * raw body followed by the key, hex-encoded; pass `sign` if deliveries
+ * combine or encode them differently.
+ */
+
+import { createHash, timingSafeEqual } from 'node:crypto';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { ParasutWebhookError } from './errors.js';
+import type { JsonApiResource, Relationship } from '../generated/types.js';
+import type { Contact } from '../resources/contacts.js';
+import type { EArchive } from '../resources/eArchives.js';
+import type { EInvoice } from '../resources/eInvoices.js';
+import type { ESmm } from '../resources/eSmms.js';
+import type { Employee } from '../resources/employees.js';
+import type { Product } from '../resources/products.js';
+import type { SalesInvoice } from '../resources/salesInvoices.js';
+import type { ShipmentDocument } from '../resources/shipmentDocuments.js';
+import type { StockMovement } from '../resources/stockMovements.js';
+import type { WebhookAction, WebhookModel } from '../resources/webhooks.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Record type delivered for each model in the spec's webhook `model` enum.
+ */
+export interface WebhookRecordMap extends Record<WebhookModel, JsonApiResource> {
+  sales_invoice: SalesInvoice;
+  contact: Contact;
+  product: Product;
+  employee: Employee;
+  shipment_document: ShipmentDocument;
+  stock_movement: StockMovement;
+}
+
+export type WebhookResource = keyof WebhookRecordMap;
+
+export interface WebhookEventOf<R extends WebhookResource, A extends WebhookAction> {
+  /**
+   * Discriminant, e.g. `sales_invoice.update`.
+   */
+  type: `${R}.${A}`;
+  resource: R;
+  action: A;
+  /**
+   * Delivery ID used for dedup. Taken from `deliveryIdHeader` when set,
+   * otherwise derived from the resource, action, record ID and event date.
+   */
+  deliveryId: string;
+  companyId: number;
+  /**
+   * ID of the record the event is about.
+   */
+  id: string;
+  eventDate: string;
+  operatedBy: { type: string; id: string } | null;
+  /**
+   * The record as the API returns it; null when the delivery carries none
+   * (typically `delete`).
+   */
+  record: WebhookRecordMap[R] | null;
+  included: JsonApiResource[];
+}
+
+export type WebhookEvent = {
+  [R in WebhookResource]: { [A in WebhookAction]: WebhookEventOf<R, A> }[WebhookAction];
+}[WebhookResource];
+
+export type WebhookEventType = WebhookEvent['type'];
+
+export type WebhookEventFor<T extends WebhookEventType> = Extract<WebhookEvent, { type: T }>;
+
+/**
+ * A sales invoice's active e-document, as a `sales_invoice` event reports it.
+ */
+export interface EDocumentStatus {
+  type: 'e_invoices' | 'e_archives' | 'e_smms';
+  id: string;
+  /**
+   * The e-document's `status`; undefined when the delivery doesn't include
+   * the e-document record.
+   */
+  status: string | undefined;
+  record: EInvoice | EArchive | ESmm | null;
+}
+
+/**
+ * Request headers as Node (`req.headers`) or fetch (`Headers`) exposes them.
+ */
+export type WebhookHeaders = Headers | Record<string, string | string[] | undefined>;
+
+/**
+ * Raw body, or an already-parsed object when a framework parsed it.
+ */
+export type WebhookBody = string | Uint8Array | Record<string, unknown>;
+
+/**
+ * Computes the expected `Signature` header for a raw body.
+ */
+export type WebhookSigner = (body: string | Uint8Array, secret: string) => string;
+
+export interface ParseWebhookOptions {
+  /**
+   * Key used to verify the `Signature` header. Unsigned or mismatching
+   * deliveries are rejected when set.
+   */
+  secret?: string;
+
+  /**
+   * Computes the expected signature.
+   * @default signWebhook (SHA256 of body and key, hex)
+   */
+  sign?: WebhookSigner;
+
+  /**
+   * Header carrying a delivery ID, if your setup provides one.
+   */
+  deliveryIdHeader?: string;
+}
+
+export type WebhookHandler<E extends WebhookEvent = WebhookEvent> = (event: E) => void | Promise<void>;
+
+export interface WebhookReceiverConfig extends ParseWebhookOptions {
+  /**
+   * Delivery IDs remembered for dedup.
+   * @default 1000
+   */
+  dedupSize: number;
+
+  /**
+   * Events kept for `replay`.
+   * @default 100
+   */
+  replaySize: number;
+
+  /**
+   * Largest request body `nodeHandler` reads; larger deliveries get 413.
+   * @default 1048576 (1 MiB)
+   */
+  maxBodyBytes: number;
+}
+
+export const DEFAULT_WEBHOOK_RECEIVER_CONFIG: WebhookReceiverConfig = {
+  dedupSize: 1000,
+  replaySize: 100,
+  maxBodyBytes: 1_048_576,
+};
+
+export interface WebhookReceiveResult {
+  event: WebhookEvent;
+  /**
+   * True when the delivery ID was already seen; handlers were not called.
+   */
+  duplicate: boolean;
+}
+
+const WEBHOOK_RESOURCES: readonly WebhookResource[] = [
+  'sales_invoice',
+  'contact',
+  'product',
+  'employee',
+  'shipment_document',
+  'stock_movement',
+];
+
+const WEBHOOK_ACTIONS: readonly WebhookAction[] = ['create', 'update', 'delete'];
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+function getHeader(headers: WebhookHeaders, name: string): string | undefined {
+  if (headers instanceof Headers) {
+    return headers.get(name) ?? undefined;
+  }
+  const lower = name.toLowerCase();
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() === lower) {
+      return Array.isArray(value) ? value[0] : value;
+    }
+  }
+  return undefined;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parses `a[b][c]=1` style form fields into nested objects.
+ */
+function parseForm(text: string): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [name, value] of new URLSearchParams(text)) {
+    const keys = name.replace(/\]/g, '').split('[');
+    let target = result;
+    keys.forEach((key, index) => {
+      if (index === keys.length - 1) {
+        target[key] = value;
+        return;
+      }
+      const next = target[key];
+      if (!isObject(next)) {
+        target[key] = {};
+      }
+      target = target[key] as Record<string, unknown>;
+    });
+  }
+  return result;
+}
+
+function decodeBody(headers: WebhookHeaders, text: string): Record<string, unknown> {
+  const contentType = getHeader(headers, 'content-type') ?? '';
+  if (contentType.includes('json') || text.trimStart().startsWith('{')) {
+    try {
+      const parsed: unknown = JSON.parse(text);
+      if (isObject(parsed)) {
+        return parsed;
+      }
+    } catch {
+      // Reported below
+    }
+    throw new ParasutWebhookError('payload', 'Webhook body is not a JSON object');
+  }
+  return parseForm(text);
+}
+
+/**
+ * Default signer: SHA256 of the raw body followed by the webhook's
+ * encryption key, hex-encoded, as the API documentation describes.
+ */
+export function signWebhook(body: string | Uint8Array, secret: string): string {
+  return createHash('sha256').update(body).update(secret).digest('hex');
+}
+
+/**
+ * Checks a `Signature` header against a raw body in constant time.
+ */
+export function verifyWebhookSignature(
+  body: string | Uint8Array,
+  signature: string,
+  secret: string,
+  sign: WebhookSigner = signWebhook
+): boolean {
+  const expected = Buffer.from(sign(body, secret));
+  const received = Buffer.from(signature.trim());
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+/**
+ * Turns a delivery into a typed event.
+ * Throws `ParasutWebhookError` for bad signatures, malformed payloads and
+ * resources or actions the SDK does not know.
+ *
+ * @example
+ * ```typescript
+ * const event = parseWebhook(req.headers, rawBody, { secret });
+ * if (event.type === 'sales_invoice.update') {
+ *   console.log(event.record?.attributes.net_total);
+ * }
+ * ```
+ */
+export function parseWebhook(
+  headers: WebhookHeaders,
+  body: WebhookBody,
+  options: ParseWebhookOptions = {}
+): WebhookEvent {
+  const raw = isObject(body) && !(body instanceof Uint8Array) ? null : body;
+
+  if (options.secret !== undefined) {
+    const signature = getHeader(headers, 'signature');
+    if (raw === null) {
+      throw new ParasutWebhookError('signature', 'Signature checks need the raw request body');
+    }
+    if (!signature || !verifyWebhookSignature(raw, signature, options.secret, options.sign)) {
+      throw new ParasutWebhookError('signature', 'Webhook signature does not match');
+    }
+  }
+
+  let payload =
+    raw === null
+      ? (body as Record<string, unknown>)
+      : decodeBody(headers, typeof raw === 'string' ? raw : Buffer.from(raw).toString('utf8'));
+  if (payload['resource'] === undefined && isObject(payload['body'])) {
+    payload = payload['body'];
+  }
+
+  const resource = payload['resource'] as WebhookResource;
+  const action = payload['action'] as WebhookAction;
+  if (!WEBHOOK_RESOURCES.includes(resource) || !WEBHOOK_ACTIONS.includes(action)) {
+    throw new ParasutWebhookError(
+      'unsupported',
+      `Unsupported webhook event: ${String(payload['resource'])}.${String(payload['action'])}`
+    );
+  }
+
+  const data = isObject(payload['data']) ? payload['data'] : {};
+  if (data['id'] === undefined || data['id'] === null) {
+    throw new ParasutWebhookError('payload', 'Webhook data has no record ID');
+  }
+  const id = String(data['id']);
+  const eventDate = String(payload['event_date'] ?? data['updated_at'] ?? '');
+
+  let document: unknown = data['data'];
+  if (typeof document === 'string') {
+    try {
+      document = document === '' ? null : JSON.parse(document);
+    } catch {
+      throw new ParasutWebhookError('payload', 'Webhook record is not valid JSON');
+    }
+  }
+  const record = isObject(document) ? (isObject(document['data']) ? document['data'] : document) : null;
+  const included = Array.isArray(data['included'])
+    ? data['included']
+    : isObject(document) && Array.isArray(document['included'])
+      ? document['included']
+      : [];
+
+  const operatedById = data['operated_by_id'];
+  const operatedByType = data['operated_by_type'];
+
+  const headerId =
+    options.deliveryIdHeader !== undefined ? getHeader(headers, options.deliveryIdHeader) : undefined;
+
+  return {
+    type: `${resource}.${action}`,
+    resource,
+    action,
+    deliveryId: headerId ?? `${resource}:${action}:${id}:${eventDate}`,
+    companyId: Number(payload['company_id'] ?? data['company_id']),
+    id,
+    eventDate,
+    operatedBy:
+      operatedById !== undefined && operatedById !== null
+        ? { type: String(operatedByType), id: String(operatedById) }
+        : null,
+    record,
+    included,
+  } as WebhookEvent;
+}
+
+/**
+ * Returns the active e-document of a `sales_invoice` event, or null for
+ * other events and invoices without one. Use it to follow e-document status
+ * changes, which Paraşüt delivers as sales invoice updates.
+ *
+ * @example
+ * ```typescript
+ * receiver.on('sales_invoice.update', (event) => {
+ *   const eDocument = getEDocumentStatus(event);
+ *   if (eDocument?.status === 'error') alert(eDocument.id);
+ * });
+ * ```
+ */
+export function getEDocumentStatus(event: WebhookEvent): EDocumentStatus | null {
+  if (event.resource !== 'sales_invoice' || event.record === null) {
+    return null;
+  }
+
+  const relationships = event.record.relationships as { active_e_document?: Relationship } | undefined;
+  const ref = relationships?.active_e_document?.data;
+  if (!ref || !['e_invoices', 'e_archives', 'e_smms'].includes(ref.type)) {
+    return null;
+  }
+
+  const record =
+    (event.included.find((resource) => resource.type === ref.type && resource.id === ref.id) as
+      | EInvoice
+      | EArchive
+      | ESmm
+      | undefined) ?? null;
+  const status = record?.attributes.status;
+  return {
+    type: ref.type as EDocumentStatus['type'],
+    id: ref.id,
+    status: typeof status === 'string' ? status : undefined,
+    record,
+  };
+}
+
+// ============================================================================
+// Receiver
+// ============================================================================
+
+/**
+ * Dispatches deliveries to handlers, skipping ones already seen.
+ *
+ * @example
+ * ```typescript
+ * const receiver = new WebhookReceiver({ secret: process.env.PARASUT_WEBHOOK_KEY });
+ * receiver.on('sales_invoice.create', async (event) => {
+ *   await sync(event.record);
+ * });
+ * http.createServer(receiver.nodeHandler()).listen(3000);
+ * ```
+ */
+export class WebhookReceiver {
+  private readonly config: WebhookReceiverConfig;
+  private readonly handlers = new Map<string, Set<WebhookHandler>>();
+  // Sets keep insertion order, so the first entry is the oldest
+  private readonly seen = new Set<string>();
+  private readonly buffer: WebhookEvent[] = [];
+
+  constructor(config: Partial<WebhookReceiverConfig> = {}) {
+    this.config = { ...DEFAULT_WEBHOOK_RECEIVER_CONFIG, ...config };
+  }
+
+  /**
+   * Registers a handler for one event type. Returns an unsubscribe function.
+   */
+  on<T extends WebhookEventType>(type: T, handler: WebhookHandler<WebhookEventFor<T>>): () => void {
+    return this.addHandler(type, handler as WebhookHandler);
+  }
+
+  /**
+   * Registers a handler for every event. Returns an unsubscribe function.
+   */
+  onAny(handler: WebhookHandler): () => void {
+    return this.addHandler('*', handler);
+  }
+
+  /**
+   * Parses a delivery and runs its handlers unless it is a duplicate.
+   * The event joins the replay buffer once its handlers succeed; when one
+   * throws, the delivery ID is forgotten so a redelivery is processed again.
+   */
+  async receive(headers: WebhookHeaders, body: WebhookBody): Promise<WebhookReceiveResult> {
+    const event = parseWebhook(headers, body, this.config);
+    if (this.seen.has(event.deliveryId)) {
+      return { event, duplicate: true };
+    }
+
+    // Marked before dispatch so a concurrent redelivery is a duplicate
+    this.markSeen(event.deliveryId);
+    try {
+      await this.dispatch(event);
+    } catch (error) {
+      this.seen.delete(event.deliveryId);
+      throw error;
+    }
+    this.buffer.push(event);
+    if (this.buffer.length > this.config.replaySize) {
+      this.buffer.splice(0, this.buffer.length - this.config.replaySize);
+    }
+    return { event, duplicate: false };
+  }
+
+  /**
+   * Successfully handled events, oldest first.
+   */
+  events(): readonly WebhookEvent[] {
+    return [...this.buffer];
+  }
+
+  /**
+   * Runs buffered events through the current handlers again.
+   * Returns how many events were replayed.
+   */
+  async replay(filter: (event: WebhookEvent) => boolean = () => true): Promise<number> {
+    const events = this.buffer.filter(filter);
+    for (const event of events) {
+      await this.dispatch(event);
+    }
+    return events.length;
+  }
+
+  /**
+   * Forgets seen delivery IDs and buffered events.
+   */
+  clear(): void {
+    this.seen.clear();
+    this.buffer.length = 0;
+  }
+
+  /**
+   * Returns a Node `http` request listener. Uses `req.body` when a
+   * framework already read it; pass the raw body for signature checks.
+   *
+   * Responds 200 for processed, duplicate and unsupported deliveries,
+   * 400 for malformed payloads, 401 for bad signatures, 413 for bodies over
+   * `maxBodyBytes` and 500 when a handler throws (so Paraşüt redelivers).
+   */
+  nodeHandler(): (req: IncomingMessage & { body?: unknown }, res: ServerResponse) => Promise<void> {
+    return async (req, res) => {
+      if (req.method !== 'POST') {
+        res.writeHead(405, { Allow: 'POST' }).end();
+        return;
+      }
+
+      try {
+        const body = await readBody(req, this.config.maxBodyBytes);
+        const { duplicate } = await this.receive(req.headers, body);
+        res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({ duplicate }));
+      } catch (error) {
+        const status =
+          error instanceof ParasutWebhookError
+            ? { signature: 401, payload: 400, unsupported: 200, too_large: 413 }[error.reason]
+            : 500;
+        res.writeHead(status, {
+          'Content-Type': 'application/json',
+          // The rest of an oversized body is not read
+          ...(status === 413 && { Connection: 'close' }),
+        }).end(
+          JSON.stringify({ error: error instanceof Error ? error.message : String(error) })
+        );
+      }
+    };
+  }
+
+  private addHandler(key: string, handler: WebhookHandler): () => void {
+    let handlers = this.handlers.get(key);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(key, handlers);
+    }
+    handlers.add(handler);
+    return () => {
+      handlers.delete(handler);
+    };
+  }
+
+  private async dispatch(event: WebhookEvent): Promise<void> {
+    for (const key of [event.type, '*']) {
+      for (const handler of this.handlers.get(key) ?? []) {
+        await handler(event);
+      }
+    }
+  }
+
+  private markSeen(deliveryId: string): void {
+    this.seen.add(deliveryId);
+    while (this.seen.size > this.config.dedupSize) {
+      this.seen.delete(this.seen.values().next().value as string);
+    }
+  }
+}
+
+/**
+ * Reads the request body, rejecting with `too_large` as soon as it is
+ * declared or read past `maxBytes`.
+ */
+async function readBody(req: IncomingMessage & { body?: unknown }, maxBytes: number): Promise<WebhookBody> {
+  if (typeof req.body === 'string' || req.body instanceof Uint8Array || isObject(req.body)) {
+    return req.body;
+  }
+
+  const tooLarge = () =>
+    new ParasutWebhookError('too_large', `Webhook body is larger than ${maxBytes} bytes`);
+  if (Number(req.headers['content-length']) > maxBytes) {
+    throw tooLarge();
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        req.off('data', onData);
+        req.pause();
+        reject(tooLarge());
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on('data', onData);
+    req.once('end', () => resolve(Buffer.concat(chunks)));
+    req.once('error', reject);
+  });
+}
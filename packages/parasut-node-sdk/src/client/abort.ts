@@ -0,0 +1,46 @@
+/**
+ * Abort Helpers
+ *
+ * Shared utilities for honouring caller-provided AbortSignals
+ * in requests, retry backoff and polling loops.
+ */
+
+import { ParasutAbortError } from './errors.js';
+
+/**
+ * Throws a ParasutAbortError if the signal has already been aborted.
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new ParasutAbortError(signal.reason);
+  }
+}
+
+/**
+ * Sleeps for the specified duration.
+ * Rejects with ParasutAbortError as soon as the signal is aborted.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (!signal) {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new ParasutAbortError(signal.reason));
+      return;
+    }
+
+    const onAbort = (): void => {
+      clearTimeout(timeoutId);
+      reject(new ParasutAbortError(signal.reason));
+    };
+
+    const timeoutId = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -1,3 +1,5 @@
+import type { ValidationIssue } from './Validation.js';
+
 /**
  * Base error class for all Paraşüt SDK errors.
  */
@@ -141,6 +143,85 @@ export class ParasutTimeoutError extends ParasutNetworkError {
   }
 }
 
+/**
+ * Error thrown when a request or wait is cancelled through an AbortSignal.
+ */
+export class ParasutAbortError extends ParasutError {
+  constructor(cause?: unknown) {
+    super('Request was aborted', cause);
+    this.name = 'ParasutAbortError';
+  }
+}
+
+/**
+ * Error thrown without sending the request while the circuit breaker is open.
+ */
+export class ParasutCircuitOpenError extends ParasutError {
+  constructor(public readonly retryAfterMs: number) {
+    super('Circuit breaker is open; the Paraşüt API is failing');
+    this.name = 'ParasutCircuitOpenError';
+  }
+}
+
+/**
+ * Error thrown when an idempotency key is reused for a different operation.
+ * Ambiguous failures of a guarded write rethrow the original error instead
+ * and keep the key pending, so a retry with the same key looks it up first.
+ */
+export class ParasutIdempotencyError extends ParasutError {
+  constructor(
+    message: string,
+    public readonly key: string,
+    cause?: unknown
+  ) {
+    super(message, cause);
+    this.name = 'ParasutIdempotencyError';
+  }
+}
+
+/**
+ * Error thrown in cassette replay mode when no recorded interaction matches
+ * a request.
+ */
+export class ParasutCassetteError extends ParasutError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ParasutCassetteError';
+  }
+}
+
+/**
+ * Error thrown in strict validation mode when a response does not match
+ * the spec's schema.
+ */
+export class ParasutResponseValidationError extends ParasutError {
+  constructor(
+    public readonly operationId: string,
+    public readonly issues: ValidationIssue[]
+  ) {
+    const summary = issues
+      .slice(0, 3)
+      .map((issue) => `${issue.pointer || '/'}: expected ${issue.expected}, received ${issue.received}`)
+      .join('; ');
+    const more = issues.length > 3 ? ` (and ${issues.length - 3} more)` : '';
+    super(`Response for ${operationId} does not match the spec: ${summary}${more}`);
+    this.name = 'ParasutResponseValidationError';
+  }
+}
+
+/**
+ * Error thrown when a webhook delivery cannot be turned into an event.
+ */
+export class ParasutWebhookError extends ParasutError {
+  constructor(
+    public readonly reason: 'signature' | 'payload' | 'unsupported' | 'too_large',
+    message: string
+  ) {
+    super(message);
+    this.name = 'ParasutWebhookError';
+  }
+}
+
 /**
  * Error thrown when there's an issue with the SDK configuration.
  */
@@ -182,7 +263,8 @@ export function createApiError(
   status: number,
   body: unknown,
   requestId?: string,
-  rawBody?: string
+  rawBody?: string,
+  retryAfterMs?: number
 ): ParasutApiError {
   const errors = parseApiErrors(body);
 
@@ -196,7 +278,7 @@ export function createApiError(
     case 422:
       return new ParasutValidationError(errors, requestId, rawBody);
     case 429:
-      return new ParasutRateLimitError(undefined, errors, requestId, rawBody);
+      return new ParasutRateLimitError(retryAfterMs, errors, requestId, rawBody);
     default:
       return new ParasutApiError(
         `API request failed with status ${status}`,
@@ -0,0 +1,1072 @@
+/**
+ * Fake Paraşüt API Server
+ *
+ * In-memory stand-in for the Paraşüt API v4, routed from the operations in
+ * the generated spec. It issues OAuth tokens, serves company-scoped JSON:API
+ * CRUD with pagination, filters, sorting and `include`, runs the archive,
+ * cancel, recover and payment actions, and advances trackable jobs from
+ * pending to running to done. Errors use the real `errors[]` format.
+ *
+ * Use `server.fetch` to serve requests in-process, or `server.listen()` to
+ * point any HTTP client (such as the MCP server) at it.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { FetchFunction } from '../client/HttpTransport.js';
+import { OPERATIONS } from '../generated/operations.js';
+import {
+  FakeStore,
+  refsOf,
+  type FakeRecord,
+  type FakeRef,
+  type FakeRelationship,
+} from './FakeStore.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface FakeCompany {
+  id: number;
+  name: string;
+}
+
+export interface FakeCredentials {
+  clientId: string;
+  clientSecret: string;
+  username: string;
+  password: string;
+}
+
+export interface FakeParasutServerConfig {
+  /**
+   * Credentials accepted by the password grant.
+   * When omitted, any client and user credentials are accepted.
+   */
+  credentials?: FakeCredentials;
+
+  /**
+   * Static access tokens accepted in addition to issued ones.
+   * @default []
+   */
+  accessTokens: string[];
+
+  /**
+   * Lifetime of issued access tokens in seconds.
+   * @default 7200
+   */
+  tokenTtlSeconds: number;
+
+  /**
+   * Companies the user can access. Requests for other companies get 403.
+   * @default [{ id: 123456, name: 'Demo Company' }]
+   */
+  companies: FakeCompany[];
+}
+
+export const DEFAULT_FAKE_SERVER_CONFIG: FakeParasutServerConfig = {
+  accessTokens: [],
+  tokenTtlSeconds: 7200,
+  companies: [{ id: 123456, name: 'Demo Company' }],
+};
+
+interface Route {
+  method: string;
+  template: string;
+  pattern: RegExp;
+  params: string[];
+  successStatus: number;
+}
+
+interface RequestContext {
+  route: Route;
+  params: Record<string, string>;
+  companyId: number;
+  query: URLSearchParams;
+  body: unknown;
+  origin: string;
+}
+
+interface FakeResponse {
+  status?: number;
+  body?: unknown;
+}
+
+interface ResourceBody {
+  type?: string;
+  attributes: Record<string, unknown>;
+  relationships: Record<string, FakeRelationship>;
+}
+
+interface IssuedToken {
+  expiresAt: number;
+  refreshToken: string;
+}
+
+interface PendingDocument {
+  type: string;
+  body: ResourceBody;
+}
+
+/**
+ * Error answered with a JSON:API `errors[]` body.
+ */
+class FakeApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly title: string,
+    public readonly detail: string,
+    public readonly pointer?: string
+  ) {
+    super(detail);
+  }
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_PAGE_SIZE = 15;
+const MAX_PAGE_SIZE = 25;
+
+/**
+ * Attributes the API rejects a create without.
+ */
+const REQUIRED_ATTRIBUTES: Record<string, string[]> = {
+  accounts: ['name'],
+  contacts: ['name', 'account_type'],
+  employees: ['name'],
+  item_categories: ['name'],
+  products: ['name'],
+  purchase_bills: ['issue_date'],
+  sales_invoices: ['issue_date'],
+  sales_offers: ['issue_date'],
+  tags: ['name'],
+  warehouses: ['name'],
+  webhook: ['model', 'action', 'uri'],
+};
+
+/**
+ * Collections whose spec resource type differs from the path segment.
+ */
+const COLLECTION_TYPES: Record<string, string> = {
+  webhooks: 'webhook',
+};
+
+/**
+ * Types with a payable balance and a `payments` relationship.
+ */
+const PAYABLE_TYPES = new Set(['bank_fees', 'purchase_bills', 'salaries', 'sales_invoices', 'taxes']);
+
+/**
+ * Types created asynchronously through a trackable job.
+ */
+const JOB_TYPES = new Set(['e_archives', 'e_invoices', 'e_smms']);
+
+// ============================================================================
+// Server
+// ============================================================================
+
+/**
+ * @example
+ * ```typescript
+ * import { FakeParasutServer } from '@yigitkonur/parasut-node-sdk/fake';
+ *
+ * const fake = new FakeParasutServer();
+ * fake.store.insert(123456, 'contacts', { name: 'Acme', account_type: 'customer' });
+ *
+ * const client = new ParasutClient({
+ *   companyId: 123456,
+ *   credentials: { clientId: 'id', clientSecret: 'secret', username: 'u', password: 'p' },
+ *   fetch: fake.fetch,
+ * });
+ * ```
+ */
+export class FakeParasutServer {
+  /**
+   * Records served by the API, exposed for seeding and assertions.
+   */
+  readonly store = new FakeStore();
+
+  /**
+   * Fetch function that serves requests in-process, for any base URL.
+   */
+  readonly fetch: FetchFunction;
+
+  private readonly config: FakeParasutServerConfig;
+  private readonly routes: Route[];
+  private readonly tokens = new Map<string, IssuedToken>();
+  private readonly refreshTokens = new Map<string, string>();
+  private readonly jobs = new Map<string, PendingDocument>();
+  private readonly cancelledItemTypes = new Map<FakeRecord, unknown>();
+  private server: Server | null = null;
+
+  constructor(config: Partial<FakeParasutServerConfig> = {}) {
+    this.config = { ...DEFAULT_FAKE_SERVER_CONFIG, ...config };
+    this.routes = compileRoutes();
+    this.fetch = (input, init) => this.handle(new Request(input, init));
+  }
+
+  /**
+   * Starts an HTTP server and returns its API base URL, e.g.
+   * `http://127.0.0.1:4010/v4`. Port 0 picks a free port.
+   */
+  async listen(port = 0, host = '127.0.0.1'): Promise<string> {
+    const server = createServer((req, res) => {
+      void this.handleNode(req, res);
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => resolve());
+    });
+    this.server = server;
+
+    const { port: boundPort } = server.address() as AddressInfo;
+    return `http://${host}:${boundPort}/v4`;
+  }
+
+  /**
+   * Stops the HTTP server started by `listen()`.
+   */
+  async close(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = null;
+    server.closeAllConnections();
+    await new Promise<void>((resolve, reject) => {
+      server.close((error) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  /**
+   * Expires every issued access token, so the next request gets a 401.
+   */
+  expireTokens(): void {
+    for (const token of this.tokens.values()) {
+      token.expiresAt = 0;
+    }
+  }
+
+  /**
+   * Answers a request the way the Paraşüt API would.
+   */
+  async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    try {
+      if (url.pathname === '/oauth/token') {
+        return await this.handleToken(request);
+      }
+
+      this.authenticate(request);
+
+      const path = url.pathname.replace(/^\/v4(?=\/)/, '');
+      const method = request.method.toUpperCase();
+      const match = this.match(method, path);
+      if (!match) {
+        throw new FakeApiError(404, 'Not Found', `No route matches ${method} ${url.pathname}`);
+      }
+
+      const companyId = Number(match.params['company_id'] ?? 0);
+      if (match.params['company_id'] !== undefined && !this.hasCompany(companyId)) {
+        throw new FakeApiError(403, 'Forbidden', `You don't have access to company ${companyId}`);
+      }
+
+      const result = await this.dispatch({
+        ...match,
+        companyId,
+        query: url.searchParams,
+        body: await readJson(request),
+        origin: url.origin,
+      });
+      const status = result.status ?? match.route.successStatus;
+      return status === 204 ? new Response(null, { status }) : json(result.body ?? {}, status);
+    } catch (error) {
+      if (error instanceof FakeApiError) {
+        return json(
+          {
+            errors: [
+              {
+                title: error.title,
+                detail: error.detail,
+                ...(error.pointer !== undefined && { source: { pointer: error.pointer } }),
+              },
+            ],
+          },
+          error.status
+        );
+      }
+      return json({ errors: [{ title: 'Internal Server Error', detail: String(error) }] }, 500);
+    }
+  }
+
+  // ==========================================================================
+  // OAuth
+  // ==========================================================================
+
+  private async handleToken(request: Request): Promise<Response> {
+    if (request.method.toUpperCase() !== 'POST') {
+      return json({ error: 'invalid_request', error_description: 'Use POST' }, 405);
+    }
+
+    const text = await request.text();
+    const params = (request.headers.get('content-type') ?? '').includes('json')
+      ? new URLSearchParams(JSON.parse(text) as Record<string, string>)
+      : new URLSearchParams(text);
+    const expected = this.config.credentials;
+
+    if (expected && (params.get('client_id') !== expected.clientId || params.get('client_secret') !== expected.clientSecret)) {
+      return json({ error: 'invalid_client', error_description: 'Client authentication failed' }, 401);
+    }
+
+    switch (params.get('grant_type')) {
+      case 'password':
+        if (expected && (params.get('username') !== expected.username || params.get('password') !== expected.password)) {
+          return json({ error: 'invalid_grant', error_description: 'Invalid username or password' }, 400);
+        }
+        return json(this.issueToken());
+
+      case 'refresh_token': {
+        const refreshToken = params.get('refresh_token') ?? '';
+        const accessToken = this.refreshTokens.get(refreshToken);
+        if (accessToken === undefined) {
+          return json({ error: 'invalid_grant', error_description: 'Invalid refresh token' }, 400);
+        }
+        // Refresh tokens rotate: the old pair stops working
+        this.refreshTokens.delete(refreshToken);
+        this.tokens.delete(accessToken);
+        return json(this.issueToken());
+      }
+
+      default:
+        return json({ error: 'unsupported_grant_type', error_description: 'Unsupported grant type' }, 400);
+    }
+  }
+
+  private issueToken(): Record<string, unknown> {
+    const accessToken = randomUUID();
+    const refreshToken = randomUUID();
+    this.tokens.set(accessToken, {
+      expiresAt: Date.now() + this.config.tokenTtlSeconds * 1000,
+      refreshToken,
+    });
+    this.refreshTokens.set(refreshToken, accessToken);
+
+    return {
+      access_token: accessToken,
+      token_type: 'bearer',
+      expires_in: this.config.tokenTtlSeconds,
+      refresh_token: refreshToken,
+      created_at: Math.floor(Date.now() / 1000),
+    };
+  }
+
+  private authenticate(request: Request): void {
+    const token = /^Bearer\s+(.+)$/i.exec(request.headers.get('authorization') ?? '')?.[1];
+    if (token === undefined) {
+      throw new FakeApiError(401, 'Unauthorized', 'Missing access token');
+    }
+    if (this.config.accessTokens.includes(token)) {
+      return;
+    }
+    const issued = this.tokens.get(token);
+    if (!issued || issued.expiresAt <= Date.now()) {
+      throw new FakeApiError(401, 'Unauthorized', 'The access token is invalid or expired');
+    }
+  }
+
+  private hasCompany(companyId: number): boolean {
+    return this.config.companies.some((company) => company.id === companyId);
+  }
+
+  // ==========================================================================
+  // Routing
+  // ==========================================================================
+
+  private match(method: string, path: string): { route: Route; params: Record<string, string> } | null {
+    for (const route of this.routes) {
+      if (route.method !== method) {
+        continue;
+      }
+      const values = route.pattern.exec(path);
+      if (values) {
+        const params: Record<string, string> = {};
+        route.params.forEach((name, index) => {
+          params[name] = decodeURIComponent(values[index + 1] ?? '');
+        });
+        return { route, params };
+      }
+    }
+    return null;
+  }
+
+  private async dispatch(ctx: RequestContext): Promise<FakeResponse> {
+    const { route, params } = ctx;
+
+    if (route.template === '/me') {
+      return this.me(ctx);
+    }
+
+    // '/{company_id}/sales_invoices/{id}/archive' -> ['sales_invoices', '{id}', 'archive']
+    const [segment = '', member, action] = route.template.split('/').slice(2);
+    const collection = COLLECTION_TYPES[segment] ?? segment;
+    const id = params['id'] ?? '';
+
+    if (collection === 'trackable_jobs') {
+      return this.advanceJob(ctx, id);
+    }
+    if (collection === 'product' && action === 'inventory_levels') {
+      const productId = params['product_id'] ?? '';
+      this.find(ctx, 'products', productId);
+      return this.list(ctx, 'inventory_levels', (record) =>
+        refsOf(record.relationships['product']).some((ref) => ref.id === productId)
+      );
+    }
+
+    if (collection === 'sharings' && route.method === 'POST') {
+      return this.share(ctx);
+    }
+
+    // Collection routes
+    if (member === undefined) {
+      switch (route.method) {
+        case 'GET':
+          return this.list(ctx, collection);
+        case 'POST':
+          return JOB_TYPES.has(collection)
+            ? this.startJob(ctx, collection)
+            : this.create(ctx, collection);
+      }
+    }
+
+    // e_smms/{id}.pdf
+    if (member === '{id}.pdf') {
+      return this.pdf(ctx, collection, id);
+    }
+
+    // Member routes
+    if (action === undefined) {
+      switch (route.method) {
+        case 'GET':
+          return this.show(ctx, this.find(ctx, collection, id));
+        case 'PUT':
+        case 'PATCH':
+          return this.update(ctx, collection, id);
+        case 'DELETE':
+          if (!this.store.delete(ctx.companyId, collection, id)) {
+            throw notFound(collection, id);
+          }
+          return {};
+      }
+    }
+
+    const record = this.find(ctx, collection, id);
+
+    switch (action) {
+      case 'archive':
+      case 'unarchive':
+        this.store.update(record, { archived: action === 'archive' });
+        return this.show(ctx, record);
+
+      case 'cancel':
+        return this.cancel(ctx, record);
+
+      case 'recover':
+        return this.recover(ctx, record);
+
+      case 'payments':
+        return this.pay(ctx, record);
+
+      case 'pdf':
+        return this.pdf(ctx, collection, id);
+
+      case 'debit_transactions':
+      case 'credit_transactions':
+      case 'contact_debit_transactions':
+      case 'contact_credit_transactions':
+        return this.transaction(ctx, record, action.includes('debit') ? 'debit' : 'credit');
+
+      case 'transactions':
+        return this.list(ctx, 'transactions', (transaction) =>
+          refsOf(transaction.relationships['account']).some((ref) => ref.id === record.id)
+        );
+
+      case 'details':
+        return {
+          body: {
+            data: refsOf(record.relationships['details'])
+              .map((ref) => this.store.find(ctx.companyId, ref.type, ref.id))
+              .filter((detail): detail is FakeRecord => detail !== undefined)
+              .map(serialize),
+          },
+        };
+
+      case 'convert_to_invoice':
+        if (record.attributes['item_type'] !== 'estimate') {
+          throw new FakeApiError(422, 'Validation failed', 'Only estimates can be converted to invoices');
+        }
+        this.store.update(record, { ...parseResource(ctx.body).attributes, item_type: 'invoice' });
+        return this.show(ctx, record);
+
+      default: {
+        // Status updates and other member actions merge the payload into the record
+        const body = parseResource(ctx.body);
+        this.store.update(record, body.attributes, body.relationships);
+        return this.show(ctx, record);
+      }
+    }
+  }
+
+  // ==========================================================================
+  // CRUD
+  // ==========================================================================
+
+  private list(
+    ctx: RequestContext,
+    type: string,
+    scope: (record: FakeRecord) => boolean = () => true
+  ): FakeResponse {
+    const records = sortRecords(
+      this.store.all(ctx.companyId, type).filter((record) => scope(record) && matchesFilters(record, ctx.query)),
+      ctx.query.get('sort')
+    );
+
+    const size = clamp(Number(ctx.query.get('page[size]') ?? DEFAULT_PAGE_SIZE), 1, MAX_PAGE_SIZE);
+    const totalPages = Math.max(1, Math.ceil(records.length / size));
+    const number = Math.max(1, Number(ctx.query.get('page[number]') ?? 1) || 1);
+    const page = records.slice((number - 1) * size, number * size);
+
+    return {
+      body: {
+        data: page.map(serialize),
+        ...this.included(ctx, page),
+        meta: {
+          current_page: number,
+          total_pages: totalPages,
+          total_count: records.length,
+          per_page: size,
+        },
+      },
+    };
+  }
+
+  private show(ctx: RequestContext, record: FakeRecord): FakeResponse {
+    return { body: { data: serialize(record), ...this.included(ctx, [record]) } };
+  }
+
+  private create(ctx: RequestContext, type: string): FakeResponse {
+    const body = parseResource(ctx.body, type);
+
+    for (const name of REQUIRED_ATTRIBUTES[type] ?? []) {
+      const value = body.attributes[name];
+      if (value === undefined || value === null || value === '') {
+        throw new FakeApiError(422, 'Validation failed', `${name} can't be blank`, `/data/attributes/${name}`);
+      }
+    }
+
+    const record = this.store.insert(
+      ctx.companyId,
+      type,
+      body.attributes,
+      this.createNested(ctx, body.relationships)
+    );
+    if (PAYABLE_TYPES.has(type)) {
+      this.initBalance(ctx, record);
+    }
+    return this.show(ctx, record);
+  }
+
+  private update(ctx: RequestContext, type: string, id: string): FakeResponse {
+    const record = this.find(ctx, type, id);
+    const body = parseResource(ctx.body, type);
+    this.store.update(record, body.attributes, this.createNested(ctx, body.relationships));
+    return this.show(ctx, record);
+  }
+
+  private find(ctx: RequestContext, type: string, id: string): FakeRecord {
+    const record = this.store.find(ctx.companyId, type, id);
+    if (!record) {
+      throw notFound(type, id);
+    }
+    return record;
+  }
+
+  /**
+   * Creates records for relationship entries sent inline with attributes,
+   * such as invoice details, and replaces them with references.
+   */
+  private createNested(
+    ctx: RequestContext,
+    relationships: Record<string, FakeRelationship>
+  ): Record<string, FakeRelationship> {
+    const result: Record<string, FakeRelationship> = {};
+
+    for (const [name, relationship] of Object.entries(relationships)) {
+      const toRef = (entry: Partial<FakeRef> & { attributes?: Record<string, unknown> }): FakeRef => {
+        const type = entry.type ?? name;
+        if (entry.id !== undefined || entry.attributes === undefined) {
+          return { id: String(entry.id), type };
+        }
+        const nested = this.store.insert(ctx.companyId, type, entry.attributes);
+        return { id: nested.id, type: nested.type };
+      };
+
+      const data = relationship.data;
+      result[name] = {
+        data: data === null ? null : Array.isArray(data) ? data.map(toRef) : toRef(data),
+      };
+    }
+
+    return result;
+  }
+
+  /**
+   * Collects related records named by the `include` query parameter.
+   * Nested paths like `details.product` are followed level by level.
+   */
+  private included(ctx: RequestContext, records: FakeRecord[]): { included?: unknown[] } {
+    const include = ctx.query.get('include');
+    if (!include) {
+      return {};
+    }
+
+    const primary = new Set(records.map((record) => `${record.type}:${record.id}`));
+    const found = new Map<string, FakeRecord>();
+
+    for (const path of include.split(',')) {
+      let level = records;
+      for (const name of path.trim().split('.')) {
+        level = level.flatMap((record) =>
+          refsOf(record.relationships[name])
+            .map((ref) => this.store.find(ctx.companyId, ref.type, ref.id))
+            .filter((related): related is FakeRecord => related !== undefined)
+        );
+        for (const related of level) {
+          const key = `${related.type}:${related.id}`;
+          if (!primary.has(key)) {
+            found.set(key, related);
+          }
+        }
+      }
+    }
+
+    return { included: [...found.values()].map(serialize) };
+  }
+
+  // ==========================================================================
+  // Actions
+  // ==========================================================================
+
+  private cancel(ctx: RequestContext, record: FakeRecord): FakeResponse {
+    if (record.attributes['item_type'] === 'cancelled') {
+      throw new FakeApiError(422, 'Validation failed', 'The record is already cancelled');
+    }
+    this.cancelledItemTypes.set(record, record.attributes['item_type']);
+    this.store.update(record, { item_type: 'cancelled' });
+    return this.show(ctx, record);
+  }
+
+  private recover(ctx: RequestContext, record: FakeRecord): FakeResponse {
+    if (record.attributes['item_type'] !== 'cancelled') {
+      throw new FakeApiError(422, 'Validation failed', 'Only cancelled records can be recovered');
+    }
+    this.store.update(record, { item_type: this.cancelledItemTypes.get(record) ?? 'invoice' });
+    this.cancelledItemTypes.delete(record);
+    return this.show(ctx, record);
+  }
+
+  private initBalance(ctx: RequestContext, record: FakeRecord): void {
+    const attributes = record.attributes;
+    const details = refsOf(record.relationships['details'])
+      .map((ref) => this.store.find(ctx.companyId, ref.type, ref.id))
+      .filter((detail): detail is FakeRecord => detail !== undefined);
+
+    if (attributes['net_total'] === undefined && details.length > 0) {
+      let net = 0;
+      let vat = 0;
+      for (const detail of details) {
+        const line = Number(detail.attributes['quantity'] ?? 0) * Number(detail.attributes['unit_price'] ?? 0);
+        net += line;
+        vat += (line * Number(detail.attributes['vat_rate'] ?? 0)) / 100;
+      }
+      Object.assign(attributes, { net_total: net, total_vat: vat, gross_total: net + vat });
+    }
+
+    const total = Number(attributes['gross_total'] ?? attributes['net_total'] ?? 0);
+    attributes['remaining'] ??= total;
+    attributes['payment_status'] ??= total > 0 ? 'unpaid' : 'paid';
+  }
+
+  private pay(ctx: RequestContext, record: FakeRecord): FakeResponse {
+    if (!PAYABLE_TYPES.has(record.type)) {
+      throw new FakeApiError(404, 'Not Found', `${record.type} can't be paid`);
+    }
+
+    const body = parseResource(ctx.body, 'payments');
+    const amount = Number(body.attributes['amount']);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new FakeApiError(422, 'Validation failed', 'amount must be greater than 0', '/data/attributes/amount');
+    }
+    if (body.attributes['date'] === undefined) {
+      throw new FakeApiError(422, 'Validation failed', "date can't be blank", '/data/attributes/date');
+    }
+
+    const payment = this.store.insert(ctx.companyId, 'payments', body.attributes, {
+      ...body.relationships,
+      payable: { data: { id: record.id, type: record.type } },
+    });
+
+    const remaining = Math.max(0, Number(record.attributes['remaining'] ?? 0) - amount);
+    this.store.update(
+      record,
+      { remaining, payment_status: remaining === 0 ? 'paid' : 'partially_paid' },
+      { payments: { data: [...refsOf(record.relationships['payments']), { id: payment.id, type: payment.type }] } }
+    );
+
+    return this.show(ctx, payment);
+  }
+
+  private share(ctx: RequestContext): FakeResponse {
+    const body = parseResource(ctx.body, 'sharing_forms');
+    const [ref] = refsOf(body.relationships['shareable']);
+    if (!ref) {
+      throw new FakeApiError(422, 'Validation failed', "shareable can't be blank", '/data/relationships/shareable');
+    }
+    const record = this.find(ctx, ref.type, ref.id);
+
+    const email = (body.attributes['email'] ?? {}) as Record<string, unknown>;
+    const addresses = String(email['addresses'] ?? '')
+      .split(',')
+      .map((address) => address.trim())
+      .filter((address) => address !== '');
+    if (addresses.length === 0 && body.attributes['portal'] === undefined) {
+      throw new FakeApiError(422, 'Validation failed', "email addresses can't be blank", '/data/attributes/email/addresses');
+    }
+
+    // One sharing per recipient; a portal-only sharing has no recipient
+    const sharings = (addresses.length > 0 ? addresses : [null]).map((address) =>
+      this.store.insert(
+        ctx.companyId,
+        'sharings',
+        {
+          email: address,
+          email_status: address !== null ? 'sent' : null,
+          subject: email['subject'] ?? null,
+          message: email['body'] ?? null,
+          properties: body.attributes['properties'] ?? {},
+        },
+        { shareable: { data: { id: record.id, type: record.type } } }
+      )
+    );
+
+    const existing = refsOf(record.relationships['sharings']);
+    this.store.update(
+      record,
+      { sharings_count: existing.length + sharings.length },
+      { sharings: { data: [...existing, ...sharings.map((sharing) => ({ id: sharing.id, type: sharing.type }))] } }
+    );
+
+    return { body: { data: sharings.map(serialize) } };
+  }
+
+  private transaction(ctx: RequestContext, record: FakeRecord, side: 'debit' | 'credit'): FakeResponse {
+    const body = parseResource(ctx.body, 'transactions');
+    const amount = Number(body.attributes['amount'] ?? 0);
+    const owner = record.type === 'accounts' ? 'account' : 'contact';
+
+    const transaction = this.store.insert(
+      ctx.companyId,
+      'transactions',
+      { ...body.attributes, [`${side}_amount`]: amount },
+      { ...body.relationships, [owner]: { data: { id: record.id, type: record.type } } }
+    );
+
+    // Debits withdraw from accounts; credits deposit into them
+    const balance = Number(record.attributes['balance'] ?? 0);
+    this.store.update(record, { balance: side === 'debit' ? balance - amount : balance + amount });
+
+    return this.show(ctx, transaction);
+  }
+
+  private pdf(ctx: RequestContext, type: string, id: string): FakeResponse {
+    this.find(ctx, type, id);
+    return {
+      body: {
+        data: {
+          id,
+          type: 'e_document_pdfs',
+          attributes: {
+            url: `${ctx.origin}/pdfs/${ctx.companyId}/${type}/${id}.pdf`,
+            expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+          },
+        },
+      },
+    };
+  }
+
+  private me(ctx: RequestContext): FakeResponse {
+    const companies = this.config.companies.map((company) => ({
+      id: String(company.id),
+      type: 'companies',
+      attributes: { name: company.name },
+    }));
+    const wantsCompanies = (ctx.query.get('include') ?? '').split(',').includes('companies');
+
+    return {
+      body: {
+        data: {
+          id: '1',
+          type: 'users',
+          attributes: {
+            name: 'Demo User',
+            email: this.config.credentials?.username ?? 'demo@example.com',
+          },
+          relationships: {
+            companies: { data: companies.map(({ id, type }) => ({ id, type })) },
+          },
+        },
+        ...(wantsCompanies && { included: companies }),
+      },
+    };
+  }
+
+  // ==========================================================================
+  // Trackable Jobs
+  // ==========================================================================
+
+  private startJob(ctx: RequestContext, type: string): FakeResponse {
+    const body = parseResource(ctx.body, type);
+    const job = this.store.insert(ctx.companyId, 'trackable_jobs', { status: 'pending', errors: [] });
+    this.jobs.set(job.id, { type, body });
+    return this.show(ctx, job);
+  }
+
+  /**
+   * Moves a job one step forward on every poll: pending, running, done.
+   * The document is created when the job finishes.
+   */
+  private advanceJob(ctx: RequestContext, id: string): FakeResponse {
+    const job = this.find(ctx, 'trackable_jobs', id);
+    const pending = this.jobs.get(id);
+
+    if (job.attributes['status'] === 'pending') {
+      this.store.update(job, { status: 'running' });
+    } else if (job.attributes['status'] === 'running' && pending) {
+      this.jobs.delete(id);
+      this.finishJob(ctx, job, pending);
+    }
+
+    return this.show(ctx, job);
+  }
+
+  private finishJob(ctx: RequestContext, job: FakeRecord, pending: PendingDocument): void {
+    const invoiceRef = refsOf(pending.body.relationships['invoice'] ?? pending.body.relationships['sales_invoice'])[0];
+    const invoice = invoiceRef && this.store.find(ctx.companyId, 'sales_invoices', invoiceRef.id);
+
+    if (!invoice) {
+      this.store.update(job, { status: 'error', errors: ['Sales invoice not found'] });
+      return;
+    }
+
+    const document = this.store.insert(
+      ctx.companyId,
+      pending.type,
+      { ...pending.body.attributes, uuid: randomUUID(), status: 'approved' },
+      { sales_invoice: { data: { id: invoice.id, type: invoice.type } } }
+    );
+    this.store.update(invoice, {}, { active_e_document: { data: { id: document.id, type: document.type } } });
+    this.store.update(job, { status: 'done' });
+  }
+
+  // ==========================================================================
+  // Node HTTP
+  // ==========================================================================
+
+  private async handleNode(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+
+    const headers = new Headers();
+    for (const [name, value] of Object.entries(req.headers)) {
+      if (value !== undefined) {
+        headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+      }
+    }
+
+    const method = req.method ?? 'GET';
+    const response = await this.handle(
+      new Request(`http://${req.headers.host ?? 'localhost'}${req.url ?? '/'}`, {
+        method,
+        headers,
+        ...(method !== 'GET' && method !== 'HEAD' && { body: Buffer.concat(chunks) }),
+      })
+    );
+
+    res.writeHead(response.status, Object.fromEntries(response.headers.entries()));
+    res.end(Buffer.from(await response.arrayBuffer()));
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Compiles the spec operations into routes. Variants of the same endpoint
+ * (`purchase_bills#basic`, `#detailed`) collapse into one.
+ */
+function compileRoutes(): Route[] {
+  const routes: Route[] = [];
+  const seen = new Set<string>();
+
+  for (const operation of Object.values(OPERATIONS)) {
+    const template = operation.path.replace(/#.*$/, '');
+    const key = `${operation.method} ${template}`;
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+
+    const params: string[] = [];
+    const source = template
+      .split(/(\{[^}]+\})/)
+      .map((part) => {
+        const name = /^\{(.+)\}$/.exec(part)?.[1];
+        if (name !== undefined) {
+          params.push(name);
+          return '([^/.]+)';
+        }
+        return part.replace(/[.*+?^$()|[\]\\]/g, '\\$&');
+      })
+      .join('');
+
+    routes.push({
+      method: operation.method,
+      template,
+      pattern: new RegExp(`^${source}$`),
+      params,
+      successStatus: operation.successStatus,
+    });
+  }
+
+  return routes;
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/vnd.api+json; charset=utf-8' },
+  });
+}
+
+async function readJson(request: Request): Promise<unknown> {
+  const text = await request.text();
+  if (text === '') {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    throw new FakeApiError(400, 'Bad Request', 'The request body is not valid JSON');
+  }
+}
+
+/**
+ * Reads a JSON:API `data` object, checking its type when one is expected.
+ */
+function parseResource(body: unknown, expectedType?: string): ResourceBody {
+  const data = typeof body === 'object' && body !== null
+    ? (body as { data?: unknown }).data
+    : undefined;
+
+  if (data === undefined) {
+    return { attributes: {}, relationships: {} };
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new FakeApiError(400, 'Bad Request', 'data must be a resource object', '/data');
+  }
+
+  const resource = data as Partial<ResourceBody>;
+  if (expectedType !== undefined && resource.type !== undefined && resource.type !== expectedType) {
+    throw new FakeApiError(409, 'Conflict', `Expected type ${expectedType}, got ${resource.type}`, '/data/type');
+  }
+
+  return {
+    ...(resource.type !== undefined && { type: resource.type }),
+    attributes: { ...resource.attributes },
+    relationships: { ...resource.relationships },
+  };
+}
+
+function serialize(record: FakeRecord): unknown {
+  return structuredClone({
+    id: record.id,
+    type: record.type,
+    attributes: record.attributes,
+    ...(Object.keys(record.relationships).length > 0 && { relationships: record.relationships }),
+  });
+}
+
+/**
+ * Applies `filter[key]` parameters: the attribute must equal the value, or
+ * one of several comma-separated values.
+ */
+function matchesFilters(record: FakeRecord, query: URLSearchParams): boolean {
+  for (const [param, value] of query.entries()) {
+    const key = /^filter\[(.+)\]$/.exec(param)?.[1];
+    if (key === undefined) {
+      continue;
+    }
+    const actual = record.attributes[key];
+    if (actual === undefined || actual === null || !value.split(',').includes(String(actual))) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Sorts by comma-separated fields; a leading `-` sorts descending.
+ */
+function sortRecords(records: FakeRecord[], sort: string | null): FakeRecord[] {
+  if (!sort) {
+    return records;
+  }
+
+  const fields = sort.split(',').map((field) => ({
+    name: field.replace(/^-/, ''),
+    direction: field.startsWith('-') ? -1 : 1,
+  }));
+
+  const valueOf = (record: FakeRecord, name: string): unknown =>
+    name === 'id' ? Number(record.id) : record.attributes[name];
+
+  return [...records].sort((a, b) => {
+    for (const { name, direction } of fields) {
+      const left = valueOf(a, name);
+      const right = valueOf(b, name);
+      const order = typeof left === 'number' && typeof right === 'number'
+        ? left - right
+        : String(left ?? '').localeCompare(String(right ?? ''));
+      if (order !== 0) {
+        return order * direction;
+      }
+    }
+    return 0;
+  });
+}
+
+function notFound(type: string, id: string): FakeApiError {
+  return new FakeApiError(404, 'Not Found', `Couldn't find ${type} with id=${id}`);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Number.isFinite(value) ? Math.min(Math.max(value, min), max) : min;
+}
@@ -0,0 +1,122 @@
+/**
+ * Fake Store
+ *
+ * In-memory records behind FakeParasutServer, partitioned by company and
+ * JSON:API type. Seed it before a test and inspect it afterwards.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface FakeRef {
+  id: string;
+  type: string;
+}
+
+export interface FakeRelationship {
+  data: FakeRef | FakeRef[] | null;
+}
+
+export interface FakeRecord {
+  id: string;
+  type: string;
+  attributes: Record<string, unknown>;
+  relationships: Record<string, FakeRelationship>;
+}
+
+// ============================================================================
+// Store
+// ============================================================================
+
+export class FakeStore {
+  private readonly companies = new Map<number, Map<string, Map<string, FakeRecord>>>();
+  private nextId = 1;
+
+  /**
+   * Adds a record with the next free id and `created_at`/`updated_at` set.
+   */
+  insert(
+    companyId: number,
+    type: string,
+    attributes: Record<string, unknown> = {},
+    relationships: Record<string, FakeRelationship> = {}
+  ): FakeRecord {
+    const now = new Date().toISOString();
+    const record: FakeRecord = {
+      id: String(this.nextId++),
+      type,
+      attributes: { ...attributes, created_at: now, updated_at: now },
+      relationships: { ...relationships },
+    };
+    this.table(companyId, type).set(record.id, record);
+    return record;
+  }
+
+  /**
+   * Finds a record by type and id.
+   */
+  find(companyId: number, type: string, id: string): FakeRecord | undefined {
+    return this.table(companyId, type).get(id);
+  }
+
+  /**
+   * Lists every record of a type in insertion order.
+   */
+  all(companyId: number, type: string): FakeRecord[] {
+    return [...this.table(companyId, type).values()];
+  }
+
+  /**
+   * Merges attributes and relationships into an existing record.
+   */
+  update(
+    record: FakeRecord,
+    attributes: Record<string, unknown> = {},
+    relationships: Record<string, FakeRelationship> = {}
+  ): FakeRecord {
+    Object.assign(record.attributes, attributes, { updated_at: new Date().toISOString() });
+    Object.assign(record.relationships, relationships);
+    return record;
+  }
+
+  /**
+   * Removes a record. Returns false if it did not exist.
+   */
+  delete(companyId: number, type: string, id: string): boolean {
+    return this.table(companyId, type).delete(id);
+  }
+
+  /**
+   * Removes every record of every company.
+   */
+  clear(): void {
+    this.companies.clear();
+    this.nextId = 1;
+  }
+
+  private table(companyId: number, type: string): Map<string, FakeRecord> {
+    let types = this.companies.get(companyId);
+    if (!types) {
+      types = new Map();
+      this.companies.set(companyId, types);
+    }
+    let records = types.get(type);
+    if (!records) {
+      records = new Map();
+      types.set(type, records);
+    }
+    return records;
+  }
+}
+
+/**
+ * Returns the references held by a relationship, whether to-one or to-many.
+ */
+export function refsOf(relationship: FakeRelationship | undefined): FakeRef[] {
+  const data = relationship?.data;
+  if (!data) {
+    return [];
+  }
+  return Array.isArray(data) ? data : [data];
+}
@@ -0,0 +1,22 @@
+/**
+ * Fake Paraşüt API
+ *
+ * In-memory stand-in for the Paraşüt API for demos and end-to-end tests.
+ * Shipped as the `@yigitkonur/parasut-node-sdk/fake` entry point so it
+ * stays out of production bundles.
+ */
+
+export {
+  FakeParasutServer,
+  DEFAULT_FAKE_SERVER_CONFIG,
+  type FakeCompany,
+  type FakeCredentials,
+  type FakeParasutServerConfig,
+} from './FakeParasutServer.js';
+
+export {
+  FakeStore,
+  type FakeRecord,
+  type FakeRef,
+  type FakeRelationship,
+} from './FakeStore.js';
@@ -3,6 +3,57 @@
  * DO NOT EDIT MANUALLY - run `npm run generate` instead.
  */
 
+import type {
+  CollectFromContactBody,
+  ConvertEstimateToInvoiceBody,
+  CreateAccountBody,
+  CreateBankFeeBody,
+  CreateContactBody,
+  CreateCreditTransactionBody,
+  CreateDebitTransactionBody,
+  CreateEArchiveBody,
+  CreateEInvoiceBody,
+  CreateESmmBody,
+  CreateEmployeeBody,
+  CreateItemCategoryBody,
+  CreateProductBody,
+  CreatePurchaseBillBasicBody,
+  CreatePurchaseBillDetailedBody,
+  CreateSalaryBody,
+  CreateSalesInvoiceBody,
+  CreateSalesOffersBody,
+  CreateShipmentDocumentBody,
+  CreateStockUpdateBody,
+  CreateTagBody,
+  CreateTaxBody,
+  CreateWarehouseBody,
+  CreateWebhookBody,
+  EMailSalesOffersBody,
+  PayBankFeeBody,
+  PayPurchaseBillBody,
+  PaySalaryBody,
+  PaySalesInvoiceBody,
+  PayTaxBody,
+  PayToContactBody,
+  SalesOffersUpdateStatusBody,
+  UpdateAccountBody,
+  UpdateBankFeeBody,
+  UpdateContactBody,
+  UpdateEmployeeBody,
+  UpdateItemCategoryBody,
+  UpdateProductBody,
+  UpdatePurchaseBillBasicBody,
+  UpdatePurchaseBillDetailedBody,
+  UpdateSalaryBody,
+  UpdateSalesInvoiceBody,
+  UpdateSalesOffersBody,
+  UpdateShipmentDocumentBody,
+  UpdateTagBody,
+  UpdateTaxBody,
+  UpdateWarehouseBody,
+  UpdateWebhookBody,
+} from './types.js';
+
 export interface OperationMeta {
   operationId: string;
   method: string;
@@ -10,11 +61,11 @@ export interface OperationMeta {
   tag: string;
   summary: string;
   hasCompanyId: boolean;
-  pathParams: string[];
+  pathParams: readonly string[];
   successStatus: number;
 }
 
-export const OPERATIONS: Record<string, OperationMeta> = {
+export const OPERATIONS = {
   listAccounts: {
     operationId: 'listAccounts',
     method: 'GET',
@@ -1265,7 +1316,7 @@ export const OPERATIONS: Record<string, OperationMeta> = {
     pathParams: ['id'],
     successStatus: 200,
   },
-};
+} as const satisfies Record<string, OperationMeta>;
 
 /** Operations grouped by resource tag */
 export const OPERATIONS_BY_TAG: Record<string, string[]> = {
@@ -1296,6 +1347,678 @@ export const OPERATIONS_BY_TAG: Record<string, string[]> = {
   'Webhooks': ['getWebhook', 'createWebhook', 'updateWebhook', 'deleteWebhook'],
 };
 
+// ============================================================================
+// Parameter Types per Operation
+// ============================================================================
+
+export type OperationId = keyof typeof OPERATIONS;
+
+/** Path parameters per operation (company_id is filled in by the client) */
+export interface OperationPathParams {
+  listAccounts: Record<string, never>;
+  createAccount: Record<string, never>;
+  showAccount: { id: string | number };
+  updateAccount: { id: string | number };
+  deleteAccount: { id: string | number };
+  listAccountTransactions: { id: string | number };
+  createDebitTransaction: { id: string | number };
+  createCreditTransaction: { id: string | number };
+  showMe: Record<string, never>;
+  createBankFee: Record<string, never>;
+  showBankFee: { id: string | number };
+  updateBankFee: { id: string | number };
+  deleteBankFee: { id: string | number };
+  archiveBankFee: { id: string | number };
+  unarchiveBankFee: { id: string | number };
+  payBankFee: { id: string | number };
+  listContacts: Record<string, never>;
+  createContact: Record<string, never>;
+  showContact: { id: string | number };
+  updateContact: { id: string | number };
+  deleteContact: { id: string | number };
+  collectFromContact: { id: string | number };
+  payToContact: { id: string | number };
+  createEArchive: Record<string, never>;
+  showEArchive: { id: string | number };
+  showEArchivePdf: { id: string | number };
+  listEInvoiceInboxes: Record<string, never>;
+  createEInvoice: Record<string, never>;
+  showEInvoice: { id: string | number };
+  showEInvoicePdf: { id: string | number };
+  createESmm: Record<string, never>;
+  showESmm: { id: string | number };
+  showESmmPdf: { id: string | number };
+  listEmployees: Record<string, never>;
+  createEmployee: Record<string, never>;
+  showEmployee: { id: string | number };
+  updateEmployee: { id: string | number };
+  deleteEmployee: { id: string | number };
+  archiveEmployee: { id: string | number };
+  unarchiveEmployee: { id: string | number };
+  listInventoryLevels: { product_id: string | number };
+  listItemCategories: Record<string, never>;
+  createItemCategory: Record<string, never>;
+  showItemCategory: { id: string | number };
+  updateItemCategory: { id: string | number };
+  deleteItemCategory: { id: string | number };
+  listProducts: Record<string, never>;
+  createProduct: Record<string, never>;
+  showProduct: { id: string | number };
+  updateProduct: { id: string | number };
+  deleteProduct: { id: string | number };
+  listPurchaseBills: Record<string, never>;
+  createPurchaseBillBasic: Record<string, never>;
+  createPurchaseBillDetailed: Record<string, never>;
+  showPurchaseBill: { id: string | number };
+  deletePurchaseBill: { id: string | number };
+  updatePurchaseBillBasic: { id: string | number };
+  updatePurchaseBillDetailed: { id: string | number };
+  payPurchaseBill: { id: string | number };
+  cancelPurchaseBill: { id: string | number };
+  recoverPurchaseBill: { id: string | number };
+  archivePurchaseBill: { id: string | number };
+  unarchivePurchaseBill: { id: string | number };
+  listSalaries: Record<string, never>;
+  createSalary: Record<string, never>;
+  showSalary: { id: string | number };
+  updateSalary: { id: string | number };
+  deleteSalary: { id: string | number };
+  archiveSalary: { id: string | number };
+  unarchiveSalary: { id: string | number };
+  paySalary: { id: string | number };
+  listSalesInvoices: Record<string, never>;
+  createSalesInvoice: Record<string, never>;
+  showSalesInvoice: { id: string | number };
+  updateSalesInvoice: { id: string | number };
+  deleteSalesInvoice: { id: string | number };
+  paySalesInvoice: { id: string | number };
+  cancelSalesInvoice: { id: string | number };
+  recoverSalesInvoice: { id: string | number };
+  archiveSalesInvoice: { id: string | number };
+  unarchiveSalesInvoice: { id: string | number };
+  convertEstimateToInvoice: { id: string | number };
+  listSalesOffers: Record<string, never>;
+  createSalesOffers: Record<string, never>;
+  showSalesOffers: { id: string | number };
+  updateSalesOffers: { id: string | number };
+  deleteSalesOffers: { id: string | number };
+  showSalesOffersPdf: { id: string | number };
+  archiveSalesOffers: { id: string | number };
+  unarchiveSalesOffers: { id: string | number };
+  showSalesOffersDetails: { id: string | number };
+  updateSalesOffersStatus: { id: string | number };
+  'e-mailSalesOffers': Record<string, never>;
+  listShipmentDocuments: Record<string, never>;
+  createShipmentDocument: Record<string, never>;
+  showShipmentDocument: { id: string | number };
+  updateShipmentDocument: { id: string | number };
+  deleteShipmentDocument: { id: string | number };
+  listStockMovements: Record<string, never>;
+  createStockUpdate: Record<string, never>;
+  listTags: Record<string, never>;
+  createTag: Record<string, never>;
+  showTag: { id: string | number };
+  updateTag: { id: string | number };
+  deleteTag: { id: string | number };
+  listTaxes: Record<string, never>;
+  createTax: Record<string, never>;
+  showTax: { id: string | number };
+  updateTax: { id: string | number };
+  deleteTax: { id: string | number };
+  archiveTax: { id: string | number };
+  unarchiveTax: { id: string | number };
+  payTax: { id: string | number };
+  showTrackableJob: { id: string | number };
+  showTransaction: { id: string | number };
+  deleteTransaction: { id: string | number };
+  listWarehouses: Record<string, never>;
+  createWarehouse: Record<string, never>;
+  showWarehouse: { id: string | number };
+  updateWarehouse: { id: string | number };
+  deleteWarehouse: { id: string | number };
+  getWebhook: Record<string, never>;
+  createWebhook: Record<string, never>;
+  updateWebhook: { id: string | number };
+  deleteWebhook: { id: string | number };
+}
+
+/** Request body per operation (never for operations without one) */
+export interface OperationBodies {
+  listAccounts: never;
+  createAccount: CreateAccountBody;
+  showAccount: never;
+  updateAccount: UpdateAccountBody;
+  deleteAccount: never;
+  listAccountTransactions: never;
+  createDebitTransaction: CreateDebitTransactionBody;
+  createCreditTransaction: CreateCreditTransactionBody;
+  showMe: never;
+  createBankFee: CreateBankFeeBody;
+  showBankFee: never;
+  updateBankFee: UpdateBankFeeBody;
+  deleteBankFee: never;
+  archiveBankFee: never;
+  unarchiveBankFee: never;
+  payBankFee: PayBankFeeBody;
+  listContacts: never;
+  createContact: CreateContactBody;
+  showContact: never;
+  updateContact: UpdateContactBody;
+  deleteContact: never;
+  collectFromContact: CollectFromContactBody;
+  payToContact: PayToContactBody;
+  createEArchive: CreateEArchiveBody;
+  showEArchive: never;
+  showEArchivePdf: never;
+  listEInvoiceInboxes: never;
+  createEInvoice: CreateEInvoiceBody;
+  showEInvoice: never;
+  showEInvoicePdf: never;
+  createESmm: CreateESmmBody;
+  showESmm: never;
+  showESmmPdf: never;
+  listEmployees: never;
+  createEmployee: CreateEmployeeBody;
+  showEmployee: never;
+  updateEmployee: UpdateEmployeeBody;
+  deleteEmployee: never;
+  archiveEmployee: never;
+  unarchiveEmployee: never;
+  listInventoryLevels: never;
+  listItemCategories: never;
+  createItemCategory: CreateItemCategoryBody;
+  showItemCategory: never;
+  updateItemCategory: UpdateItemCategoryBody;
+  deleteItemCategory: never;
+  listProducts: never;
+  createProduct: CreateProductBody;
+  showProduct: never;
+  updateProduct: UpdateProductBody;
+  deleteProduct: never;
+  listPurchaseBills: never;
+  createPurchaseBillBasic: CreatePurchaseBillBasicBody;
+  createPurchaseBillDetailed: CreatePurchaseBillDetailedBody;
+  showPurchaseBill: never;
+  deletePurchaseBill: never;
+  updatePurchaseBillBasic: UpdatePurchaseBillBasicBody;
+  updatePurchaseBillDetailed: UpdatePurchaseBillDetailedBody;
+  payPurchaseBill: PayPurchaseBillBody;
+  cancelPurchaseBill: never;
+  recoverPurchaseBill: never;
+  archivePurchaseBill: never;
+  unarchivePurchaseBill: never;
+  listSalaries: never;
+  createSalary: CreateSalaryBody;
+  showSalary: never;
+  updateSalary: UpdateSalaryBody;
+  deleteSalary: never;
+  archiveSalary: never;
+  unarchiveSalary: never;
+  paySalary: PaySalaryBody;
+  listSalesInvoices: never;
+  createSalesInvoice: CreateSalesInvoiceBody;
+  showSalesInvoice: never;
+  updateSalesInvoice: UpdateSalesInvoiceBody;
+  deleteSalesInvoice: never;
+  paySalesInvoice: PaySalesInvoiceBody;
+  cancelSalesInvoice: never;
+  recoverSalesInvoice: never;
+  archiveSalesInvoice: never;
+  unarchiveSalesInvoice: never;
+  convertEstimateToInvoice: ConvertEstimateToInvoiceBody;
+  listSalesOffers: never;
+  createSalesOffers: CreateSalesOffersBody;
+  showSalesOffers: never;
+  updateSalesOffers: UpdateSalesOffersBody;
+  deleteSalesOffers: never;
+  showSalesOffersPdf: never;
+  archiveSalesOffers: never;
+  unarchiveSalesOffers: never;
+  showSalesOffersDetails: never;
+  updateSalesOffersStatus: SalesOffersUpdateStatusBody;
+  'e-mailSalesOffers': EMailSalesOffersBody;
+  listShipmentDocuments: never;
+  createShipmentDocument: CreateShipmentDocumentBody;
+  showShipmentDocument: never;
+  updateShipmentDocument: UpdateShipmentDocumentBody;
+  deleteShipmentDocument: never;
+  listStockMovements: never;
+  createStockUpdate: CreateStockUpdateBody;
+  listTags: never;
+  createTag: CreateTagBody;
+  showTag: never;
+  updateTag: UpdateTagBody;
+  deleteTag: never;
+  listTaxes: never;
+  createTax: CreateTaxBody;
+  showTax: never;
+  updateTax: UpdateTaxBody;
+  deleteTax: never;
+  archiveTax: never;
+  unarchiveTax: never;
+  payTax: PayTaxBody;
+  showTrackableJob: never;
+  showTransaction: never;
+  deleteTransaction: never;
+  listWarehouses: never;
+  createWarehouse: CreateWarehouseBody;
+  showWarehouse: never;
+  updateWarehouse: UpdateWarehouseBody;
+  deleteWarehouse: never;
+  getWebhook: never;
+  createWebhook: CreateWebhookBody;
+  updateWebhook: UpdateWebhookBody;
+  deleteWebhook: never;
+}
+
+/** Query parameters per operation */
+export interface OperationQueryParams {
+  listAccounts: {
+    'filter[name]'?: string;
+    'filter[currency]'?: string;
+    'filter[bank_name]'?: string;
+    'filter[bank_branch]'?: string;
+    'filter[account_type]'?: string;
+    'filter[iban]'?: string;
+    sort?: string;
+    'page[number]'?: number;
+    'page[size]'?: number;
+  };
+  createAccount: Record<string, never>;
+  showAccount: Record<string, never>;
+  updateAccount: Record<string, never>;
+  deleteAccount: Record<string, never>;
+  listAccountTransactions: {
+    'filter[date]'?: string;
+    sort?: string;
+    'page[number]'?: number;
+    'page[size]'?: number;
+    include?: string;
+  };
+  createDebitTransaction: {
+    include?: string;
+  };
+  createCreditTransaction: {
+    include?: string;
+  };
+  showMe: {
+    include?: string;
+  };
+  createBankFee: {
+    include?: string;
+  };
+  showBankFee: {
+    include?: string;
+  };
+  updateBankFee: {
+    include?: string;
+  };
+  deleteBankFee: Record<string, never>;
+  archiveBankFee: {
+    include?: string;
+  };
+  unarchiveBankFee: {
+    include?: string;
+  };
+  payBankFee: {
+    include?: string;
+  };
+  listContacts: {
+    'filter[name]'?: string;
+    'filter[email]'?: string;
+    'filter[tax_number]'?: string;
+    'filter[tax_office]'?: string;
+    'filter[city]'?: string;
+    'filter[account_type]'?: string;
+    sort?: string;
+    'page[number]'?: number;
+    'page[size]'?: number;
+    include?: string;
+  };
+  createContact: {
+    include?: string;
+  };
+  showContact: {
+    include?: string;
+  };
+  updateContact: {
+    include?: string;
+  };
+  deleteContact: Record<string, never>;
+  collectFromContact: {
+    include?: string;
+  };
+  payToContact: {
+    include?: string;
+  };
+  createEArchive: Record<string, never>;
+  showEArchive: {
+    include?: string;
+  };
+  showEArchivePdf: Record<string, never>;
+  listEInvoiceInboxes: {
+    'filter[vkn]'?: number;
+    'page[number]'?: number;
+    'page[size]'?: number;
+  };
+  createEInvoice: Record<string, never>;
+  showEInvoice: {
+    include?: string;
+  };
+  showEInvoicePdf: Record<string, never>;
+  createESmm: Record<string, never>;
+  showESmm: {
+    include?: string;
+  };
+  showESmmPdf: Record<string, never>;
+  listEmployees: {
+    'filter[name]'?: string;
+    'filter[email]'?: string;
+    sort?: string;
+    'page[number]'?: number;
+    'page[size]'?: number;
+    include?: string;
+  };
+  createEmployee: {
+    include?: string;
+  };
+  showEmployee: {
+    include?: string;
+  };
+  updateEmployee: {
+    include?: string;
+  };
+  deleteEmployee: Record<string, never>;
+  archiveEmployee: {
+    include?: string;
+  };
+  unarchiveEmployee: {
+    include?: string;
+  };
+  listInventoryLevels: {
+    'filter[warehouses.name]'?: string;
+    'filter[archived]'?: boolean;
+    'filter[has_stock]'?: boolean;
+    'filter[stock_count]'?: number;
+    sort?: string;
+    'page[number]'?: number;
+    'page[size]'?: number;
+    include?: string;
+  };
+  listItemCategories: {
+    'filter[name]'?: string;
+    'filter[category_type]'?: string;
+    sort?: string;
+    'page[number]'?: number;
+    'page[size]'?: number;
+    include?: string;
+  };
+  createItemCategory: {
+    include?: string;
+  };
+  showItemCategory: {
+    include?: string;
+  };
+  updateItemCategory: {
+    include?: string;
+  };
+  deleteItemCategory: Record<string, never>;
+  listProducts: {
+    'filter[name]'?: string;
+    'filter[code]'?: string;
+    sort?: string;
+    'page[number]'?: number;
+    'page[size]'?: number;
+    include?: string;
+  };
+  createProduct: {
+    include?: string;
+  };
+  showProduct: {
+    include?: string;
+  };
+  updateProduct: {
+    include?: string;
+  };
+  deleteProduct: Record<string, never>;
+  listPurchaseBills: {
+    'filter[issue_date]'?: string;
+    'filter[due_date]'?: string;
+    'filter[supplier_id]'?: number;
+    'filter[item_type]'?: string;
+    'filter[spender_id]'?: number;
+    sort?: string;
+    'page[number]'?: number;
+    'page[size]'?: number;
+    include?: string;
+  };
+  createPurchaseBillBasic: {
+    include?: string;
+  };
+  createPurchaseBillDetailed: {
+    include?: string;
+  };
+  showPurchaseBill: {
+    include?: string;
+  };
+  deletePurchaseBill: Record<string, never>;
+  updatePurchaseBillBasic: {
+    include?: string;
+  };
+  updatePurchaseBillDetailed: {
+    include?: string;
+  };
+  payPurchaseBill: {
+    include?: string;
+  };
+  cancelPurchaseBill: {
+    include?: string;
+  };
+  recoverPurchaseBill: {
+    include?: string;
+  };
+  archivePurchaseBill: {
+    include?: string;
+  };
+  unarchivePurchaseBill: {
+    include?: string;
+  };
+  listSalaries: {
+    'filter[due_date]'?: string;
+    'filter[issue_date]'?: string;
+    'filter[currency]'?: string;
+    'filter[remaining]'?: number;
+    sort?: string;
+    'page[number]'?: number;
+    'page[size]'?: number;
+    include?: string;
+  };
+  createSalary: {
+    include?: string;
+  };
+  showSalary: {
+    include?: string;
+  };
+  updateSalary: {
+    include?: string;
+  };
+  deleteSalary: Record<string, never>;
+  archiveSalary: {
+    include?: string;
+  };
+  unarchiveSalary: {
+    include?: string;
+  };
+  paySalary: {
+    include?: string;
+  };
+  listSalesInvoices: {
+    'filter[issue_date]'?: string;
+    'filter[due_date]'?: string;
+    'filter[contact_id]'?: number;
+    'filter[invoice_id]'?: number;
+    'filter[invoice_series]'?: string;
+    'filter[item_type]'?: string;
+    'filter[print_status]'?: string;
+    'filter[payment_status]'?: string;
+    sort?: string;
+    'page[number]'?: number;
+    'page[size]'?: number;
+    include?: string;
+  };
+  createSalesInvoice: {
+    include?: string;
+  };
+  showSalesInvoice: {
+    include?: string;
+  };
+  updateSalesInvoice: {
+    include?: string;
+  };
+  deleteSalesInvoice: Record<string, never>;
+  paySalesInvoice: {
+    include?: string;
+  };
+  cancelSalesInvoice: {
+    include?: string;
+  };
+  recoverSalesInvoice: {
+    include?: string;
+  };
+  archiveSalesInvoice: {
+    include?: string;
+  };
+  unarchiveSalesInvoice: {
+    include?: string;
+  };
+  convertEstimateToInvoice: {
+    include?: string;
+  };
+  listSalesOffers: {
+    'filter[archived]'?: boolean;
+    'filter[query]'?: string;
+    'filter[invoice_status]'?: string;
+    'filter[status]'?: string;
+    sort?: string;
+    'page[number]'?: number;
+    include?: string;
+  };
+  createSalesOffers: {
+    include?: string;
+  };
+  showSalesOffers: {
+    include?: string;
+  };
+  updateSalesOffers: {
+    include?: string;
+  };
+  deleteSalesOffers: Record<string, never>;
+  showSalesOffersPdf: Record<string, never>;
+  archiveSalesOffers: Record<string, never>;
+  unarchiveSalesOffers: Record<string, never>;
+  showSalesOffersDetails: {
+    'page[size]'?: number;
+    include?: string;
+  };
+  updateSalesOffersStatus: Record<string, never>;
+  'e-mailSalesOffers': {
+    include?: string;
+  };
+  listShipmentDocuments: {
+    'filter[flow_type]'?: string;
+    'filter[invoice_status]'?: string;
+    'filter[archived]'?: boolean;
+    sort?: string;
+    'page[number]'?: number;
+    'page[size]'?: number;
+    include?: string;
+  };
+  createShipmentDocument: {
+    include?: string;
+  };
+  showShipmentDocument: {
+    include?: string;
+  };
+  updateShipmentDocument: {
+    include?: string;
+  };
+  deleteShipmentDocument: Record<string, never>;
+  listStockMovements: {
+    sort?: string;
+    'page[number]'?: number;
+    'page[size]'?: number;
+    include?: string;
+  };
+  createStockUpdate: {
+    include?: string;
+  };
+  listTags: {
+    sort?: string;
+    'page[number]'?: number;
+    'page[size]'?: number;
+  };
+  createTag: Record<string, never>;
+  showTag: Record<string, never>;
+  updateTag: Record<string, never>;
+  deleteTag: Record<string, never>;
+  listTaxes: {
+    'filter[due_date]'?: string;
+    'filter[issue_date]'?: string;
+    'filter[currency]'?: string;
+    'filter[remaining]'?: number;
+    sort?: string;
+    'page[number]'?: number;
+    'page[size]'?: number;
+    include?: string;
+  };
+  createTax: {
+    include?: string;
+  };
+  showTax: {
+    include?: string;
+  };
+  updateTax: {
+    include?: string;
+  };
+  deleteTax: Record<string, never>;
+  archiveTax: {
+    include?: string;
+  };
+  unarchiveTax: {
+    include?: string;
+  };
+  payTax: {
+    include?: string;
+  };
+  showTrackableJob: Record<string, never>;
+  showTransaction: {
+    include?: string;
+  };
+  deleteTransaction: Record<string, never>;
+  listWarehouses: {
+    'filter[name]'?: string;
+    'filter[archived]'?: boolean;
+    sort?: string;
+    'page[number]'?: number;
+    'page[size]'?: number;
+    include?: string;
+  };
+  createWarehouse: {
+    include?: string;
+  };
+  showWarehouse: {
+    include?: string;
+  };
+  updateWarehouse: {
+    include?: string;
+  };
+  deleteWarehouse: Record<string, never>;
+  getWebhook: Record<string, never>;
+  createWebhook: Record<string, never>;
+  updateWebhook: Record<string, never>;
+  deleteWebhook: Record<string, never>;
+}
+
 // ============================================================================
 // Filter Types per Resource
 // ============================================================================
@@ -1345,7 +2068,7 @@ export interface EmployeesFilters {
 
 export interface InventoryLevelsFilters {
   /** Sonuçların filtrelenmesini istediğiniz depo ismi. */
-  'warehouses.name': string;
+  'warehouses.name'?: string;
   /**  */
   archived?: boolean;
   /**  */
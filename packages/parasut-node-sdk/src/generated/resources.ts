@@ -0,0 +1,2427 @@
+/**
+ * Auto-generated resource classes from Paraşüt Swagger spec.
+ * DO NOT EDIT MANUALLY - run `npm run generate` instead.
+ *
+ * One class per collection with the spec's HTTP verbs, action endpoints
+ * and filters. Hand-written resources extend these with conveniences.
+ */
+
+import {
+  BaseResource,
+  type ActionOptions,
+  type IterateOptions,
+  type PaginatedResponse,
+  type PartialPayload,
+  type ResourceConfig,
+  type ResourcePayload,
+} from '../resources/BaseResource.js';
+import type { IdempotencyOptions } from '../client/Idempotency.js';
+import { buildShowQuery, type ListQueryParams, type ShowQueryParams } from '../client/QueryBuilder.js';
+import type {
+  AccountAttributes,
+  BankFeeAttributes,
+  CollectFromContactBody,
+  ContactAttributes,
+  ConvertEstimateToInvoiceBody,
+  CreateAccountBody,
+  CreateBankFeeBody,
+  CreateContactBody,
+  CreateCreditTransactionBody,
+  CreateDebitTransactionBody,
+  CreateEArchiveBody,
+  CreateEInvoiceBody,
+  CreateESmmBody,
+  CreateEmployeeBody,
+  CreateItemCategoryBody,
+  CreateProductBody,
+  CreatePurchaseBillBasicBody,
+  CreatePurchaseBillDetailedBody,
+  CreateSalaryBody,
+  CreateSalesInvoiceBody,
+  CreateSalesOffersBody,
+  CreateShipmentDocumentBody,
+  CreateStockUpdateBody,
+  CreateTagBody,
+  CreateTaxBody,
+  CreateWarehouseBody,
+  CreateWebhookBody,
+  EArchiveAttributes,
+  EDocumentPdfAttributes,
+  EInvoiceAttributes,
+  EInvoiceInboxAttributes,
+  EMailSalesOffersBody,
+  ESmmAttributes,
+  EmployeeAttributes,
+  InventoryLevelAttributes,
+  ItemCategoryAttributes,
+  JsonApiResource,
+  JsonApiResponse,
+  PayBankFeeBody,
+  PayPurchaseBillBody,
+  PaySalaryBody,
+  PaySalesInvoiceBody,
+  PayTaxBody,
+  PayToContactBody,
+  PaymentAttributes,
+  ProductAttributes,
+  PurchaseBillAttributes,
+  SalaryAttributes,
+  SalesInvoiceAttributes,
+  SalesOfferAttributes,
+  SalesOffersDetailAttributes,
+  SalesOffersUpdateStatusBody,
+  ShipmentDocumentAttributes,
+  StockMovementAttributes,
+  StockUpdateAttributes,
+  TagAttributes,
+  TaxAttributes,
+  TransactionAttributes,
+  UpdateAccountBody,
+  UpdateBankFeeBody,
+  UpdateContactBody,
+  UpdateEmployeeBody,
+  UpdateItemCategoryBody,
+  UpdateProductBody,
+  UpdatePurchaseBillBasicBody,
+  UpdatePurchaseBillDetailedBody,
+  UpdateSalaryBody,
+  UpdateSalesInvoiceBody,
+  UpdateSalesOffersBody,
+  UpdateShipmentDocumentBody,
+  UpdateTagBody,
+  UpdateTaxBody,
+  UpdateWarehouseBody,
+  UpdateWebhookBody,
+  WarehouseAttributes,
+  WebhookAttributes,
+} from './types.js';
+import type {
+  AccountsFilters,
+  ContactsFilters,
+  EInvoiceInboxesFilters,
+  EmployeesFilters,
+  InventoryLevelsFilters,
+  ItemCategoriesFilters,
+  ProductsFilters,
+  PurchaseBillsFilters,
+  SalariesFilters,
+  SalesInvoicesFilters,
+  SalesOffersFilters,
+  ShipmentDocumentsFilters,
+  TaxesFilters,
+  WarehousesFilters,
+} from './operations.js';
+
+// ============================================================================
+// Accounts
+// ============================================================================
+
+/**
+ * Spec operations for `/accounts`:
+ * listAccounts, createAccount, showAccount, updateAccount, deleteAccount,
+ * listAccountTransactions, createDebitTransaction, createCreditTransaction.
+ */
+export class GeneratedAccountsResource<
+  TResource extends JsonApiResource = JsonApiResource<AccountAttributes>,
+  TAttributes = AccountAttributes,
+  TFilters extends object = AccountsFilters
+> extends BaseResource<
+  TResource,
+  TAttributes,
+  TFilters,
+  CreateAccountBody,
+  UpdateAccountBody
+> {
+  constructor(config: Omit<ResourceConfig, 'basePath' | 'resourceType'>) {
+    super({
+      ...config,
+      basePath: '/accounts',
+      resourceType: 'accounts',
+    });
+  }
+
+  /**
+   * Index (`GET /accounts`).
+   */
+  override async list(params: ListQueryParams<TFilters> = {}): Promise<PaginatedResponse<TResource>> {
+    return super.list(params);
+  }
+
+  override iterate(
+    params: ListQueryParams<TFilters> & IterateOptions = {}
+  ): AsyncGenerator<TResource, void, undefined> {
+    return super.iterate(params);
+  }
+
+  override async listAll(params: ListQueryParams<TFilters> & IterateOptions = {}): Promise<TResource[]> {
+    return super.listAll(params);
+  }
+
+  override async count(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<number> {
+    return super.count(params);
+  }
+
+  override async exists(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<boolean> {
+    return super.exists(params);
+  }
+
+  override async first(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<TResource | null> {
+    return super.first(params);
+  }
+
+  /**
+   * Show (`GET /accounts/{id}`).
+   */
+  override async get(
+    id: string | number,
+    params: ShowQueryParams = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.get(id, params);
+  }
+
+  /**
+   * Create (`POST /accounts`).
+   */
+  override async create(
+    payload: CreateAccountBody,
+    options: IdempotencyOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.create(payload, options);
+  }
+
+  /**
+   * Edit (`PUT /accounts/{id}`).
+   */
+  override async update(
+    id: string | number,
+    payload: PartialPayload<UpdateAccountBody>,
+    options: ActionOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.update(id, payload, options);
+  }
+
+  /**
+   * Delete (`DELETE /accounts/{id}`).
+   */
+  override async delete(id: string | number, options: ActionOptions = {}): Promise<void> {
+    return super.delete(id, options);
+  }
+
+  /**
+   * Transactions (`GET /accounts/{id}/transactions`).
+   */
+  async transactions(
+    id: string | number,
+    params: ListQueryParams = {}
+  ): Promise<PaginatedResponse<JsonApiResource<TransactionAttributes>>> {
+    return this.listAt<JsonApiResource<TransactionAttributes>>(
+      this.buildPath(id, '/transactions'),
+      params
+    );
+  }
+
+  /**
+   * Debit Transaction (`POST /accounts/{id}/debit_transactions`).
+   */
+  async debit(
+    id: string | number,
+    payload: CreateDebitTransactionBody,
+    options: IdempotencyOptions = {}
+  ): Promise<JsonApiResponse<JsonApiResource<TransactionAttributes>>> {
+    return this.guardedWrite('debit', options, (request) =>
+      this.transport.post<JsonApiResponse<JsonApiResource<TransactionAttributes>>>(
+        this.buildPath(id, '/debit_transactions'),
+        payload,
+        request
+      )
+    );
+  }
+
+  /**
+   * Credit Transaction (`POST /accounts/{id}/credit_transactions`).
+   */
+  async credit(
+    id: string | number,
+    payload: CreateCreditTransactionBody,
+    options: IdempotencyOptions = {}
+  ): Promise<JsonApiResponse<JsonApiResource<TransactionAttributes>>> {
+    return this.guardedWrite('credit', options, (request) =>
+      this.transport.post<JsonApiResponse<JsonApiResource<TransactionAttributes>>>(
+        this.buildPath(id, '/credit_transactions'),
+        payload,
+        request
+      )
+    );
+  }
+}
+
+// ============================================================================
+// BankFees
+// ============================================================================
+
+/**
+ * Spec operations for `/bank_fees`:
+ * createBankFee, showBankFee, updateBankFee, deleteBankFee, archiveBankFee,
+ * unarchiveBankFee, payBankFee.
+ */
+export class GeneratedBankFeesResource<
+  TResource extends JsonApiResource = JsonApiResource<BankFeeAttributes>,
+  TAttributes = BankFeeAttributes,
+  TFilters extends object = object
+> extends BaseResource<
+  TResource,
+  TAttributes,
+  TFilters,
+  CreateBankFeeBody,
+  UpdateBankFeeBody
+> {
+  constructor(config: Omit<ResourceConfig, 'basePath' | 'resourceType'>) {
+    super({
+      ...config,
+      basePath: '/bank_fees',
+      resourceType: 'bank_fees',
+    });
+  }
+
+  /**
+   * Show (`GET /bank_fees/{id}`).
+   */
+  override async get(
+    id: string | number,
+    params: ShowQueryParams = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.get(id, params);
+  }
+
+  /**
+   * Create (`POST /bank_fees`).
+   */
+  override async create(
+    payload: CreateBankFeeBody,
+    options: IdempotencyOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.create(payload, options);
+  }
+
+  /**
+   * Edit (`PUT /bank_fees/{id}`).
+   */
+  override async update(
+    id: string | number,
+    payload: PartialPayload<UpdateBankFeeBody>,
+    options: ActionOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.update(id, payload, options);
+  }
+
+  /**
+   * Delete (`DELETE /bank_fees/{id}`).
+   */
+  override async delete(id: string | number, options: ActionOptions = {}): Promise<void> {
+    return super.delete(id, options);
+  }
+
+  /**
+   * Archive (`PATCH /bank_fees/{id}/archive`).
+   */
+  async archive(
+    id: string | number,
+    options: ActionOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return this.transport.patch<JsonApiResponse<TResource>>(
+      this.buildPath(id, '/archive'),
+      undefined,
+      this.requestOptions(options)
+    );
+  }
+
+  /**
+   * Unarchive (`PATCH /bank_fees/{id}/unarchive`).
+   */
+  async unarchive(
+    id: string | number,
+    options: ActionOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return this.transport.patch<JsonApiResponse<TResource>>(
+      this.buildPath(id, '/unarchive'),
+      undefined,
+      this.requestOptions(options)
+    );
+  }
+
+  /**
+   * Pay (`POST /bank_fees/{id}/payments`).
+   */
+  async pay(
+    id: string | number,
+    payload: PayBankFeeBody,
+    options: IdempotencyOptions = {}
+  ): Promise<JsonApiResponse<JsonApiResource<PaymentAttributes>>> {
+    return this.guardedWrite('pay', options, (request) =>
+      this.transport.post<JsonApiResponse<JsonApiResource<PaymentAttributes>>>(
+        this.buildPath(id, '/payments'),
+        payload,
+        request
+      )
+    );
+  }
+}
+
+// ============================================================================
+// Contacts
+// ============================================================================
+
+/**
+ * Spec operations for `/contacts`:
+ * listContacts, createContact, showContact, updateContact, deleteContact,
+ * collectFromContact, payToContact.
+ */
+export class GeneratedContactsResource<
+  TResource extends JsonApiResource = JsonApiResource<ContactAttributes>,
+  TAttributes = ContactAttributes,
+  TFilters extends object = ContactsFilters
+> extends BaseResource<
+  TResource,
+  TAttributes,
+  TFilters,
+  CreateContactBody,
+  UpdateContactBody
+> {
+  constructor(config: Omit<ResourceConfig, 'basePath' | 'resourceType'>) {
+    super({
+      ...config,
+      basePath: '/contacts',
+      resourceType: 'contacts',
+    });
+  }
+
+  /**
+   * Index (`GET /contacts`).
+   */
+  override async list(params: ListQueryParams<TFilters> = {}): Promise<PaginatedResponse<TResource>> {
+    return super.list(params);
+  }
+
+  override iterate(
+    params: ListQueryParams<TFilters> & IterateOptions = {}
+  ): AsyncGenerator<TResource, void, undefined> {
+    return super.iterate(params);
+  }
+
+  override async listAll(params: ListQueryParams<TFilters> & IterateOptions = {}): Promise<TResource[]> {
+    return super.listAll(params);
+  }
+
+  override async count(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<number> {
+    return super.count(params);
+  }
+
+  override async exists(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<boolean> {
+    return super.exists(params);
+  }
+
+  override async first(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<TResource | null> {
+    return super.first(params);
+  }
+
+  /**
+   * Show (`GET /contacts/{id}`).
+   */
+  override async get(
+    id: string | number,
+    params: ShowQueryParams = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.get(id, params);
+  }
+
+  /**
+   * Create (`POST /contacts`).
+   */
+  override async create(
+    payload: CreateContactBody,
+    options: IdempotencyOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.create(payload, options);
+  }
+
+  /**
+   * Edit (`PUT /contacts/{id}`).
+   */
+  override async update(
+    id: string | number,
+    payload: PartialPayload<UpdateContactBody>,
+    options: ActionOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.update(id, payload, options);
+  }
+
+  /**
+   * Delete (`DELETE /contacts/{id}`).
+   */
+  override async delete(id: string | number, options: ActionOptions = {}): Promise<void> {
+    return super.delete(id, options);
+  }
+
+  /**
+   * Tahsilat (`POST /contacts/{id}/contact_debit_transactions`).
+   */
+  async collect(
+    id: string | number,
+    payload: CollectFromContactBody,
+    options: IdempotencyOptions = {}
+  ): Promise<JsonApiResponse<JsonApiResource<TransactionAttributes>>> {
+    return this.guardedWrite('collect', options, (request) =>
+      this.transport.post<JsonApiResponse<JsonApiResource<TransactionAttributes>>>(
+        this.buildPath(id, '/contact_debit_transactions'),
+        payload,
+        request
+      )
+    );
+  }
+
+  /**
+   * Ödeme (`POST /contacts/{id}/contact_credit_transactions`).
+   */
+  async pay(
+    id: string | number,
+    payload: PayToContactBody,
+    options: IdempotencyOptions = {}
+  ): Promise<JsonApiResponse<JsonApiResource<TransactionAttributes>>> {
+    return this.guardedWrite('pay', options, (request) =>
+      this.transport.post<JsonApiResponse<JsonApiResource<TransactionAttributes>>>(
+        this.buildPath(id, '/contact_credit_transactions'),
+        payload,
+        request
+      )
+    );
+  }
+}
+
+// ============================================================================
+// EArchives
+// ============================================================================
+
+/**
+ * Spec operations for `/e_archives`:
+ * createEArchive, showEArchive, showEArchivePdf.
+ */
+export class GeneratedEArchivesResource<
+  TResource extends JsonApiResource = JsonApiResource<EArchiveAttributes>,
+  TAttributes = EArchiveAttributes,
+  TFilters extends object = object
+> extends BaseResource<
+  TResource,
+  TAttributes,
+  TFilters,
+  CreateEArchiveBody,
+  ResourcePayload<TAttributes>
+> {
+  constructor(config: Omit<ResourceConfig, 'basePath' | 'resourceType'>) {
+    super({
+      ...config,
+      basePath: '/e_archives',
+      resourceType: 'e_archives',
+    });
+  }
+
+  /**
+   * Show (`GET /e_archives/{id}`).
+   */
+  override async get(
+    id: string | number,
+    params: ShowQueryParams = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.get(id, params);
+  }
+
+  /**
+   * Create (`POST /e_archives`).
+   */
+  override async create(
+    payload: CreateEArchiveBody,
+    options: IdempotencyOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.create(payload, options);
+  }
+
+  /**
+   * Show PDF (`GET /e_archives/{id}/pdf`).
+   */
+  async getPdf(
+    id: string | number,
+    params: ShowQueryParams = {}
+  ): Promise<JsonApiResponse<JsonApiResource<EDocumentPdfAttributes>>> {
+    return this.transport.get<JsonApiResponse<JsonApiResource<EDocumentPdfAttributes>>>(
+      this.buildPath(id, '/pdf'),
+      buildShowQuery(params),
+      this.requestOptions(params)
+    );
+  }
+}
+
+// ============================================================================
+// EInvoiceInboxes
+// ============================================================================
+
+/**
+ * Spec operations for `/e_invoice_inboxes`:
+ * listEInvoiceInboxes.
+ */
+export class GeneratedEInvoiceInboxesResource<
+  TResource extends JsonApiResource = JsonApiResource<EInvoiceInboxAttributes>,
+  TAttributes = EInvoiceInboxAttributes,
+  TFilters extends object = EInvoiceInboxesFilters
+> extends BaseResource<TResource, TAttributes, TFilters> {
+  constructor(config: Omit<ResourceConfig, 'basePath' | 'resourceType'>) {
+    super({
+      ...config,
+      basePath: '/e_invoice_inboxes',
+      resourceType: 'e_invoice_inboxes',
+    });
+  }
+
+  /**
+   * Index (`GET /e_invoice_inboxes`).
+   */
+  override async list(params: ListQueryParams<TFilters> = {}): Promise<PaginatedResponse<TResource>> {
+    return super.list(params);
+  }
+
+  override iterate(
+    params: ListQueryParams<TFilters> & IterateOptions = {}
+  ): AsyncGenerator<TResource, void, undefined> {
+    return super.iterate(params);
+  }
+
+  override async listAll(params: ListQueryParams<TFilters> & IterateOptions = {}): Promise<TResource[]> {
+    return super.listAll(params);
+  }
+
+  override async count(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<number> {
+    return super.count(params);
+  }
+
+  override async exists(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<boolean> {
+    return super.exists(params);
+  }
+
+  override async first(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<TResource | null> {
+    return super.first(params);
+  }
+}
+
+// ============================================================================
+// EInvoices
+// ============================================================================
+
+/**
+ * Spec operations for `/e_invoices`:
+ * createEInvoice, showEInvoice, showEInvoicePdf.
+ */
+export class GeneratedEInvoicesResource<
+  TResource extends JsonApiResource = JsonApiResource<EInvoiceAttributes>,
+  TAttributes = EInvoiceAttributes,
+  TFilters extends object = object
+> extends BaseResource<
+  TResource,
+  TAttributes,
+  TFilters,
+  CreateEInvoiceBody,
+  ResourcePayload<TAttributes>
+> {
+  constructor(config: Omit<ResourceConfig, 'basePath' | 'resourceType'>) {
+    super({
+      ...config,
+      basePath: '/e_invoices',
+      resourceType: 'e_invoices',
+    });
+  }
+
+  /**
+   * Show (`GET /e_invoices/{id}`).
+   */
+  override async get(
+    id: string | number,
+    params: ShowQueryParams = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.get(id, params);
+  }
+
+  /**
+   * Create (`POST /e_invoices`).
+   */
+  override async create(
+    payload: CreateEInvoiceBody,
+    options: IdempotencyOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.create(payload, options);
+  }
+
+  /**
+   * Show PDF (`GET /e_invoices/{id}/pdf`).
+   */
+  async getPdf(
+    id: string | number,
+    params: ShowQueryParams = {}
+  ): Promise<JsonApiResponse<JsonApiResource<EDocumentPdfAttributes>>> {
+    return this.transport.get<JsonApiResponse<JsonApiResource<EDocumentPdfAttributes>>>(
+      this.buildPath(id, '/pdf'),
+      buildShowQuery(params),
+      this.requestOptions(params)
+    );
+  }
+}
+
+// ============================================================================
+// ESmms
+// ============================================================================
+
+/**
+ * Spec operations for `/e_smms`:
+ * createESmm, showESmm, showESmmPdf.
+ */
+export class GeneratedESmmsResource<
+  TResource extends JsonApiResource = JsonApiResource<ESmmAttributes>,
+  TAttributes = ESmmAttributes,
+  TFilters extends object = object
+> extends BaseResource<
+  TResource,
+  TAttributes,
+  TFilters,
+  CreateESmmBody,
+  ResourcePayload<TAttributes>
+> {
+  constructor(config: Omit<ResourceConfig, 'basePath' | 'resourceType'>) {
+    super({
+      ...config,
+      basePath: '/e_smms',
+      resourceType: 'e_smms',
+    });
+  }
+
+  /**
+   * Show (`GET /e_smms/{id}`).
+   */
+  override async get(
+    id: string | number,
+    params: ShowQueryParams = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.get(id, params);
+  }
+
+  /**
+   * Create (`POST /e_smms`).
+   */
+  override async create(
+    payload: CreateESmmBody,
+    options: IdempotencyOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.create(payload, options);
+  }
+
+  /**
+   * Show PDF (`GET /e_smms/{id}.pdf`).
+   */
+  async getPdf(
+    id: string | number,
+    params: ShowQueryParams = {}
+  ): Promise<JsonApiResponse<JsonApiResource<EDocumentPdfAttributes>>> {
+    return this.transport.get<JsonApiResponse<JsonApiResource<EDocumentPdfAttributes>>>(
+      this.buildPath(id, '.pdf'),
+      buildShowQuery(params),
+      this.requestOptions(params)
+    );
+  }
+}
+
+// ============================================================================
+// Employees
+// ============================================================================
+
+/**
+ * Spec operations for `/employees`:
+ * listEmployees, createEmployee, showEmployee, updateEmployee, deleteEmployee,
+ * archiveEmployee, unarchiveEmployee.
+ */
+export class GeneratedEmployeesResource<
+  TResource extends JsonApiResource = JsonApiResource<EmployeeAttributes>,
+  TAttributes = EmployeeAttributes,
+  TFilters extends object = EmployeesFilters
+> extends BaseResource<
+  TResource,
+  TAttributes,
+  TFilters,
+  CreateEmployeeBody,
+  UpdateEmployeeBody
+> {
+  constructor(config: Omit<ResourceConfig, 'basePath' | 'resourceType'>) {
+    super({
+      ...config,
+      basePath: '/employees',
+      resourceType: 'employees',
+    });
+  }
+
+  /**
+   * Index (`GET /employees`).
+   */
+  override async list(params: ListQueryParams<TFilters> = {}): Promise<PaginatedResponse<TResource>> {
+    return super.list(params);
+  }
+
+  override iterate(
+    params: ListQueryParams<TFilters> & IterateOptions = {}
+  ): AsyncGenerator<TResource, void, undefined> {
+    return super.iterate(params);
+  }
+
+  override async listAll(params: ListQueryParams<TFilters> & IterateOptions = {}): Promise<TResource[]> {
+    return super.listAll(params);
+  }
+
+  override async count(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<number> {
+    return super.count(params);
+  }
+
+  override async exists(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<boolean> {
+    return super.exists(params);
+  }
+
+  override async first(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<TResource | null> {
+    return super.first(params);
+  }
+
+  /**
+   * Show (`GET /employees/{id}`).
+   */
+  override async get(
+    id: string | number,
+    params: ShowQueryParams = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.get(id, params);
+  }
+
+  /**
+   * Create (`POST /employees`).
+   */
+  override async create(
+    payload: CreateEmployeeBody,
+    options: IdempotencyOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.create(payload, options);
+  }
+
+  /**
+   * Edit (`PUT /employees/{id}`).
+   */
+  override async update(
+    id: string | number,
+    payload: PartialPayload<UpdateEmployeeBody>,
+    options: ActionOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.update(id, payload, options);
+  }
+
+  /**
+   * Delete (`DELETE /employees/{id}`).
+   */
+  override async delete(id: string | number, options: ActionOptions = {}): Promise<void> {
+    return super.delete(id, options);
+  }
+
+  /**
+   * Archive (`PATCH /employees/{id}/archive`).
+   */
+  async archive(
+    id: string | number,
+    options: ActionOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return this.transport.patch<JsonApiResponse<TResource>>(
+      this.buildPath(id, '/archive'),
+      undefined,
+      this.requestOptions(options)
+    );
+  }
+
+  /**
+   * Unarchive (`PATCH /employees/{id}/unarchive`).
+   */
+  async unarchive(
+    id: string | number,
+    options: ActionOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return this.transport.patch<JsonApiResponse<TResource>>(
+      this.buildPath(id, '/unarchive'),
+      undefined,
+      this.requestOptions(options)
+    );
+  }
+}
+
+// ============================================================================
+// InventoryLevels
+// ============================================================================
+
+/**
+ * Spec operations for `/inventory_levels`:
+ * listInventoryLevels.
+ */
+export class GeneratedInventoryLevelsResource<
+  TResource extends JsonApiResource = JsonApiResource<InventoryLevelAttributes>,
+  TAttributes = InventoryLevelAttributes,
+  TFilters extends object = InventoryLevelsFilters
+> extends BaseResource<TResource, TAttributes, TFilters> {
+  constructor(config: Omit<ResourceConfig, 'basePath' | 'resourceType'>) {
+    super({
+      ...config,
+      basePath: '/inventory_levels',
+      resourceType: 'inventory_levels',
+    });
+  }
+
+  /**
+   * Index (`GET /product/{product_id}/inventory_levels`).
+   */
+  async listForProduct(
+    productId: string | number,
+    params: ListQueryParams<TFilters> = {}
+  ): Promise<PaginatedResponse<TResource>> {
+    return this.listAt<TResource>(
+      `/${this.companyId}/product/${productId}/inventory_levels`,
+      params
+    );
+  }
+}
+
+// ============================================================================
+// ItemCategories
+// ============================================================================
+
+/**
+ * Spec operations for `/item_categories`:
+ * listItemCategories, createItemCategory, showItemCategory, updateItemCategory,
+ * deleteItemCategory.
+ */
+export class GeneratedItemCategoriesResource<
+  TResource extends JsonApiResource = JsonApiResource<ItemCategoryAttributes>,
+  TAttributes = ItemCategoryAttributes,
+  TFilters extends object = ItemCategoriesFilters
+> extends BaseResource<
+  TResource,
+  TAttributes,
+  TFilters,
+  CreateItemCategoryBody,
+  UpdateItemCategoryBody
+> {
+  constructor(config: Omit<ResourceConfig, 'basePath' | 'resourceType'>) {
+    super({
+      ...config,
+      basePath: '/item_categories',
+      resourceType: 'item_categories',
+    });
+  }
+
+  /**
+   * Index (`GET /item_categories`).
+   */
+  override async list(params: ListQueryParams<TFilters> = {}): Promise<PaginatedResponse<TResource>> {
+    return super.list(params);
+  }
+
+  override iterate(
+    params: ListQueryParams<TFilters> & IterateOptions = {}
+  ): AsyncGenerator<TResource, void, undefined> {
+    return super.iterate(params);
+  }
+
+  override async listAll(params: ListQueryParams<TFilters> & IterateOptions = {}): Promise<TResource[]> {
+    return super.listAll(params);
+  }
+
+  override async count(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<number> {
+    return super.count(params);
+  }
+
+  override async exists(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<boolean> {
+    return super.exists(params);
+  }
+
+  override async first(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<TResource | null> {
+    return super.first(params);
+  }
+
+  /**
+   * Kategori bilgisini gösterir. (`GET /item_categories/{id}`).
+   */
+  override async get(
+    id: string | number,
+    params: ShowQueryParams = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.get(id, params);
+  }
+
+  /**
+   * Create (`POST /item_categories`).
+   */
+  override async create(
+    payload: CreateItemCategoryBody,
+    options: IdempotencyOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.create(payload, options);
+  }
+
+  /**
+   * Edit (`PUT /item_categories/{id}`).
+   */
+  override async update(
+    id: string | number,
+    payload: PartialPayload<UpdateItemCategoryBody>,
+    options: ActionOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.update(id, payload, options);
+  }
+
+  /**
+   * Delete (`DELETE /item_categories/{id}`).
+   */
+  override async delete(id: string | number, options: ActionOptions = {}): Promise<void> {
+    return super.delete(id, options);
+  }
+}
+
+// ============================================================================
+// Products
+// ============================================================================
+
+/**
+ * Spec operations for `/products`:
+ * listProducts, createProduct, showProduct, updateProduct, deleteProduct.
+ */
+export class GeneratedProductsResource<
+  TResource extends JsonApiResource = JsonApiResource<ProductAttributes>,
+  TAttributes = ProductAttributes,
+  TFilters extends object = ProductsFilters
+> extends BaseResource<
+  TResource,
+  TAttributes,
+  TFilters,
+  CreateProductBody,
+  UpdateProductBody
+> {
+  constructor(config: Omit<ResourceConfig, 'basePath' | 'resourceType'>) {
+    super({
+      ...config,
+      basePath: '/products',
+      resourceType: 'products',
+    });
+  }
+
+  /**
+   * Index (`GET /products`).
+   */
+  override async list(params: ListQueryParams<TFilters> = {}): Promise<PaginatedResponse<TResource>> {
+    return super.list(params);
+  }
+
+  override iterate(
+    params: ListQueryParams<TFilters> & IterateOptions = {}
+  ): AsyncGenerator<TResource, void, undefined> {
+    return super.iterate(params);
+  }
+
+  override async listAll(params: ListQueryParams<TFilters> & IterateOptions = {}): Promise<TResource[]> {
+    return super.listAll(params);
+  }
+
+  override async count(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<number> {
+    return super.count(params);
+  }
+
+  override async exists(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<boolean> {
+    return super.exists(params);
+  }
+
+  override async first(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<TResource | null> {
+    return super.first(params);
+  }
+
+  /**
+   * Show (`GET /products/{id}`).
+   */
+  override async get(
+    id: string | number,
+    params: ShowQueryParams = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.get(id, params);
+  }
+
+  /**
+   * Create (`POST /products`).
+   */
+  override async create(
+    payload: CreateProductBody,
+    options: IdempotencyOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.create(payload, options);
+  }
+
+  /**
+   * Edit (`PUT /products/{id}`).
+   */
+  override async update(
+    id: string | number,
+    payload: PartialPayload<UpdateProductBody>,
+    options: ActionOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.update(id, payload, options);
+  }
+
+  /**
+   * Delete (`DELETE /products/{id}`).
+   */
+  override async delete(id: string | number, options: ActionOptions = {}): Promise<void> {
+    return super.delete(id, options);
+  }
+}
+
+// ============================================================================
+// PurchaseBills
+// ============================================================================
+
+/**
+ * Spec operations for `/purchase_bills`:
+ * listPurchaseBills, createPurchaseBillBasic, createPurchaseBillDetailed,
+ * showPurchaseBill, deletePurchaseBill, updatePurchaseBillBasic,
+ * updatePurchaseBillDetailed, payPurchaseBill, cancelPurchaseBill,
+ * recoverPurchaseBill, archivePurchaseBill, unarchivePurchaseBill.
+ */
+export class GeneratedPurchaseBillsResource<
+  TResource extends JsonApiResource = JsonApiResource<PurchaseBillAttributes>,
+  TAttributes = PurchaseBillAttributes,
+  TFilters extends object = PurchaseBillsFilters
+> extends BaseResource<
+  TResource,
+  TAttributes,
+  TFilters,
+  CreatePurchaseBillBasicBody | CreatePurchaseBillDetailedBody,
+  UpdatePurchaseBillBasicBody | UpdatePurchaseBillDetailedBody
+> {
+  constructor(config: Omit<ResourceConfig, 'basePath' | 'resourceType'>) {
+    super({
+      ...config,
+      basePath: '/purchase_bills',
+      resourceType: 'purchase_bills',
+    });
+  }
+
+  /**
+   * Index (`GET /purchase_bills`).
+   */
+  override async list(params: ListQueryParams<TFilters> = {}): Promise<PaginatedResponse<TResource>> {
+    return super.list(params);
+  }
+
+  override iterate(
+    params: ListQueryParams<TFilters> & IterateOptions = {}
+  ): AsyncGenerator<TResource, void, undefined> {
+    return super.iterate(params);
+  }
+
+  override async listAll(params: ListQueryParams<TFilters> & IterateOptions = {}): Promise<TResource[]> {
+    return super.listAll(params);
+  }
+
+  override async count(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<number> {
+    return super.count(params);
+  }
+
+  override async exists(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<boolean> {
+    return super.exists(params);
+  }
+
+  override async first(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<TResource | null> {
+    return super.first(params);
+  }
+
+  /**
+   * Show (`GET /purchase_bills/{id}`).
+   */
+  override async get(
+    id: string | number,
+    params: ShowQueryParams = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.get(id, params);
+  }
+
+  /**
+   * Create Basic PurchaseBill (`POST /purchase_bills#basic`).
+   */
+  override async create(
+    payload: CreatePurchaseBillBasicBody | CreatePurchaseBillDetailedBody,
+    options: IdempotencyOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.create(payload, options);
+  }
+
+  /**
+   * Edit Basic PurchaseBill (`PUT /purchase_bills/{id}#basic`).
+   */
+  override async update(
+    id: string | number,
+    payload: PartialPayload<UpdatePurchaseBillBasicBody | UpdatePurchaseBillDetailedBody>,
+    options: ActionOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.update(id, payload, options);
+  }
+
+  /**
+   * Delete (`DELETE /purchase_bills/{id}`).
+   */
+  override async delete(id: string | number, options: ActionOptions = {}): Promise<void> {
+    return super.delete(id, options);
+  }
+
+  /**
+   * Pay (`POST /purchase_bills/{id}/payments`).
+   */
+  async pay(
+    id: string | number,
+    payload: PayPurchaseBillBody,
+    options: IdempotencyOptions = {}
+  ): Promise<JsonApiResponse<JsonApiResource<PaymentAttributes>>> {
+    return this.guardedWrite('pay', options, (request) =>
+      this.transport.post<JsonApiResponse<JsonApiResource<PaymentAttributes>>>(
+        this.buildPath(id, '/payments'),
+        payload,
+        request
+      )
+    );
+  }
+
+  /**
+   * Cancel (`DELETE /purchase_bills/{id}/cancel`).
+   */
+  async cancel(
+    id: string | number,
+    options: ActionOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return this.transport.delete<JsonApiResponse<TResource>>(
+      this.buildPath(id, '/cancel'),
+      this.requestOptions(options)
+    );
+  }
+
+  /**
+   * Recover (`PATCH /purchase_bills/{id}/recover`).
+   */
+  async recover(
+    id: string | number,
+    options: ActionOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return this.transport.patch<JsonApiResponse<TResource>>(
+      this.buildPath(id, '/recover'),
+      undefined,
+      this.requestOptions(options)
+    );
+  }
+
+  /**
+   * Archive (`PATCH /purchase_bills/{id}/archive`).
+   */
+  async archive(
+    id: string | number,
+    options: ActionOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return this.transport.patch<JsonApiResponse<TResource>>(
+      this.buildPath(id, '/archive'),
+      undefined,
+      this.requestOptions(options)
+    );
+  }
+
+  /**
+   * Unarchive (`PATCH /purchase_bills/{id}/unarchive`).
+   */
+  async unarchive(
+    id: string | number,
+    options: ActionOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return this.transport.patch<JsonApiResponse<TResource>>(
+      this.buildPath(id, '/unarchive'),
+      undefined,
+      this.requestOptions(options)
+    );
+  }
+}
+
+// ============================================================================
+// Salaries
+// ============================================================================
+
+/**
+ * Spec operations for `/salaries`:
+ * listSalaries, createSalary, showSalary, updateSalary, deleteSalary,
+ * archiveSalary, unarchiveSalary, paySalary.
+ */
+export class GeneratedSalariesResource<
+  TResource extends JsonApiResource = JsonApiResource<SalaryAttributes>,
+  TAttributes = SalaryAttributes,
+  TFilters extends object = SalariesFilters
+> extends BaseResource<
+  TResource,
+  TAttributes,
+  TFilters,
+  CreateSalaryBody,
+  UpdateSalaryBody
+> {
+  constructor(config: Omit<ResourceConfig, 'basePath' | 'resourceType'>) {
+    super({
+      ...config,
+      basePath: '/salaries',
+      resourceType: 'salaries',
+    });
+  }
+
+  /**
+   * Index (`GET /salaries`).
+   */
+  override async list(params: ListQueryParams<TFilters> = {}): Promise<PaginatedResponse<TResource>> {
+    return super.list(params);
+  }
+
+  override iterate(
+    params: ListQueryParams<TFilters> & IterateOptions = {}
+  ): AsyncGenerator<TResource, void, undefined> {
+    return super.iterate(params);
+  }
+
+  override async listAll(params: ListQueryParams<TFilters> & IterateOptions = {}): Promise<TResource[]> {
+    return super.listAll(params);
+  }
+
+  override async count(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<number> {
+    return super.count(params);
+  }
+
+  override async exists(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<boolean> {
+    return super.exists(params);
+  }
+
+  override async first(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<TResource | null> {
+    return super.first(params);
+  }
+
+  /**
+   * Show (`GET /salaries/{id}`).
+   */
+  override async get(
+    id: string | number,
+    params: ShowQueryParams = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.get(id, params);
+  }
+
+  /**
+   * Create (`POST /salaries`).
+   */
+  override async create(
+    payload: CreateSalaryBody,
+    options: IdempotencyOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.create(payload, options);
+  }
+
+  /**
+   * Edit (`PUT /salaries/{id}`).
+   */
+  override async update(
+    id: string | number,
+    payload: PartialPayload<UpdateSalaryBody>,
+    options: ActionOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.update(id, payload, options);
+  }
+
+  /**
+   * Delete (`DELETE /salaries/{id}`).
+   */
+  override async delete(id: string | number, options: ActionOptions = {}): Promise<void> {
+    return super.delete(id, options);
+  }
+
+  /**
+   * Archive (`PATCH /salaries/{id}/archive`).
+   */
+  async archive(
+    id: string | number,
+    options: ActionOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return this.transport.patch<JsonApiResponse<TResource>>(
+      this.buildPath(id, '/archive'),
+      undefined,
+      this.requestOptions(options)
+    );
+  }
+
+  /**
+   * Unarchive (`PATCH /salaries/{id}/unarchive`).
+   */
+  async unarchive(
+    id: string | number,
+    options: ActionOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return this.transport.patch<JsonApiResponse<TResource>>(
+      this.buildPath(id, '/unarchive'),
+      undefined,
+      this.requestOptions(options)
+    );
+  }
+
+  /**
+   * Pay (`POST /salaries/{id}/payments`).
+   */
+  async pay(
+    id: string | number,
+    payload: PaySalaryBody,
+    options: IdempotencyOptions = {}
+  ): Promise<JsonApiResponse<JsonApiResource<PaymentAttributes>>> {
+    return this.guardedWrite('pay', options, (request) =>
+      this.transport.post<JsonApiResponse<JsonApiResource<PaymentAttributes>>>(
+        this.buildPath(id, '/payments'),
+        payload,
+        request
+      )
+    );
+  }
+}
+
+// ============================================================================
+// SalesInvoices
+// ============================================================================
+
+/**
+ * Spec operations for `/sales_invoices`:
+ * listSalesInvoices, createSalesInvoice, showSalesInvoice, updateSalesInvoice,
+ * deleteSalesInvoice, paySalesInvoice, cancelSalesInvoice, recoverSalesInvoice,
+ * archiveSalesInvoice, unarchiveSalesInvoice, convertEstimateToInvoice.
+ */
+export class GeneratedSalesInvoicesResource<
+  TResource extends JsonApiResource = JsonApiResource<SalesInvoiceAttributes>,
+  TAttributes = SalesInvoiceAttributes,
+  TFilters extends object = SalesInvoicesFilters
+> extends BaseResource<
+  TResource,
+  TAttributes,
+  TFilters,
+  CreateSalesInvoiceBody,
+  UpdateSalesInvoiceBody
+> {
+  constructor(config: Omit<ResourceConfig, 'basePath' | 'resourceType'>) {
+    super({
+      ...config,
+      basePath: '/sales_invoices',
+      resourceType: 'sales_invoices',
+    });
+  }
+
+  /**
+   * Index (`GET /sales_invoices`).
+   */
+  override async list(params: ListQueryParams<TFilters> = {}): Promise<PaginatedResponse<TResource>> {
+    return super.list(params);
+  }
+
+  override iterate(
+    params: ListQueryParams<TFilters> & IterateOptions = {}
+  ): AsyncGenerator<TResource, void, undefined> {
+    return super.iterate(params);
+  }
+
+  override async listAll(params: ListQueryParams<TFilters> & IterateOptions = {}): Promise<TResource[]> {
+    return super.listAll(params);
+  }
+
+  override async count(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<number> {
+    return super.count(params);
+  }
+
+  override async exists(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<boolean> {
+    return super.exists(params);
+  }
+
+  override async first(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<TResource | null> {
+    return super.first(params);
+  }
+
+  /**
+   * Show (`GET /sales_invoices/{id}`).
+   */
+  override async get(
+    id: string | number,
+    params: ShowQueryParams = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.get(id, params);
+  }
+
+  /**
+   * Create (`POST /sales_invoices`).
+   */
+  override async create(
+    payload: CreateSalesInvoiceBody,
+    options: IdempotencyOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.create(payload, options);
+  }
+
+  /**
+   * Edit (`PUT /sales_invoices/{id}`).
+   */
+  override async update(
+    id: string | number,
+    payload: PartialPayload<UpdateSalesInvoiceBody>,
+    options: ActionOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.update(id, payload, options);
+  }
+
+  /**
+   * Delete (`DELETE /sales_invoices/{id}`).
+   */
+  override async delete(id: string | number, options: ActionOptions = {}): Promise<void> {
+    return super.delete(id, options);
+  }
+
+  /**
+   * Pay (`POST /sales_invoices/{id}/payments`).
+   */
+  async pay(
+    id: string | number,
+    payload: PaySalesInvoiceBody,
+    options: IdempotencyOptions = {}
+  ): Promise<JsonApiResponse<JsonApiResource<PaymentAttributes>>> {
+    return this.guardedWrite('pay', options, (request) =>
+      this.transport.post<JsonApiResponse<JsonApiResource<PaymentAttributes>>>(
+        this.buildPath(id, '/payments'),
+        payload,
+        request
+      )
+    );
+  }
+
+  /**
+   * Cancel (`DELETE /sales_invoices/{id}/cancel`).
+   */
+  async cancel(
+    id: string | number,
+    options: ActionOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return this.transport.delete<JsonApiResponse<TResource>>(
+      this.buildPath(id, '/cancel'),
+      this.requestOptions(options)
+    );
+  }
+
+  /**
+   * Recover (`PATCH /sales_invoices/{id}/recover`).
+   */
+  async recover(
+    id: string | number,
+    options: ActionOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return this.transport.patch<JsonApiResponse<TResource>>(
+      this.buildPath(id, '/recover'),
+      undefined,
+      this.requestOptions(options)
+    );
+  }
+
+  /**
+   * Archive (`PATCH /sales_invoices/{id}/archive`).
+   */
+  async archive(
+    id: string | number,
+    options: ActionOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return this.transport.patch<JsonApiResponse<TResource>>(
+      this.buildPath(id, '/archive'),
+      undefined,
+      this.requestOptions(options)
+    );
+  }
+
+  /**
+   * Unarchive (`PATCH /sales_invoices/{id}/unarchive`).
+   */
+  async unarchive(
+    id: string | number,
+    options: ActionOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return this.transport.patch<JsonApiResponse<TResource>>(
+      this.buildPath(id, '/unarchive'),
+      undefined,
+      this.requestOptions(options)
+    );
+  }
+
+  /**
+   * Convert estimate to invoice (`PATCH /sales_invoices/{id}/convert_to_invoice`).
+   */
+  async convertToInvoice(
+    id: string | number,
+    payload: ConvertEstimateToInvoiceBody,
+    options: ActionOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return this.transport.patch<JsonApiResponse<TResource>>(
+      this.buildPath(id, '/convert_to_invoice'),
+      payload,
+      this.requestOptions(options)
+    );
+  }
+}
+
+// ============================================================================
+// SalesOffers
+// ============================================================================
+
+/**
+ * Spec operations for `/sales_offers`:
+ * listSalesOffers, createSalesOffers, showSalesOffers, updateSalesOffers,
+ * deleteSalesOffers, showSalesOffersPdf, archiveSalesOffers,
+ * unarchiveSalesOffers, showSalesOffersDetails, updateSalesOffersStatus.
+ */
+export class GeneratedSalesOffersResource<
+  TResource extends JsonApiResource = JsonApiResource<SalesOfferAttributes>,
+  TAttributes = SalesOfferAttributes,
+  TFilters extends object = SalesOffersFilters
+> extends BaseResource<
+  TResource,
+  TAttributes,
+  TFilters,
+  CreateSalesOffersBody,
+  UpdateSalesOffersBody
+> {
+  constructor(config: Omit<ResourceConfig, 'basePath' | 'resourceType'>) {
+    super({
+      ...config,
+      basePath: '/sales_offers',
+      resourceType: 'sales_offers',
+    });
+  }
+
+  /**
+   * Index (`GET /sales_offers`).
+   */
+  override async list(params: ListQueryParams<TFilters> = {}): Promise<PaginatedResponse<TResource>> {
+    return super.list(params);
+  }
+
+  override iterate(
+    params: ListQueryParams<TFilters> & IterateOptions = {}
+  ): AsyncGenerator<TResource, void, undefined> {
+    return super.iterate(params);
+  }
+
+  override async listAll(params: ListQueryParams<TFilters> & IterateOptions = {}): Promise<TResource[]> {
+    return super.listAll(params);
+  }
+
+  override async count(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<number> {
+    return super.count(params);
+  }
+
+  override async exists(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<boolean> {
+    return super.exists(params);
+  }
+
+  override async first(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<TResource | null> {
+    return super.first(params);
+  }
+
+  /**
+   * Show (`GET /sales_offers/{id}`).
+   */
+  override async get(
+    id: string | number,
+    params: ShowQueryParams = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.get(id, params);
+  }
+
+  /**
+   * Create (`POST /sales_offers`).
+   */
+  override async create(
+    payload: CreateSalesOffersBody,
+    options: IdempotencyOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.create(payload, options);
+  }
+
+  /**
+   * Edit (`PUT /sales_offers/{id}`).
+   */
+  override async update(
+    id: string | number,
+    payload: PartialPayload<UpdateSalesOffersBody>,
+    options: ActionOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.update(id, payload, options);
+  }
+
+  /**
+   * Delete (`DELETE /sales_offers/{id}`).
+   */
+  override async delete(id: string | number, options: ActionOptions = {}): Promise<void> {
+    return super.delete(id, options);
+  }
+
+  /**
+   * PDF (`POST /sales_offers/{id}/pdf`).
+   */
+  async getPdf(
+    id: string | number,
+    options: ActionOptions = {}
+  ): Promise<JsonApiResponse<JsonApiResource>> {
+    return this.transport.post<JsonApiResponse<JsonApiResource>>(
+      this.buildPath(id, '/pdf'),
+      undefined,
+      this.requestOptions(options)
+    );
+  }
+
+  /**
+   * Archive (`PATCH /sales_offers/{id}/archive`).
+   */
+  async archive(
+    id: string | number,
+    options: ActionOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return this.transport.patch<JsonApiResponse<TResource>>(
+      this.buildPath(id, '/archive'),
+      undefined,
+      this.requestOptions(options)
+    );
+  }
+
+  /**
+   * Unarchive (`PATCH /sales_offers/{id}/unarchive`).
+   */
+  async unarchive(
+    id: string | number,
+    options: ActionOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return this.transport.patch<JsonApiResponse<TResource>>(
+      this.buildPath(id, '/unarchive'),
+      undefined,
+      this.requestOptions(options)
+    );
+  }
+
+  /**
+   * Details (`GET /sales_offers/{id}/details`).
+   */
+  async details(
+    id: string | number,
+    params: ShowQueryParams = {}
+  ): Promise<JsonApiResponse<JsonApiResource<SalesOffersDetailAttributes>>> {
+    return this.transport.get<JsonApiResponse<JsonApiResource<SalesOffersDetailAttributes>>>(
+      this.buildPath(id, '/details'),
+      buildShowQuery(params),
+      this.requestOptions(params)
+    );
+  }
+
+  /**
+   * Update Status (`PATCH /sales_offers/{id}/update_status`).
+   */
+  async updateStatus(
+    id: string | number,
+    payload: SalesOffersUpdateStatusBody,
+    options: ActionOptions = {}
+  ): Promise<JsonApiResponse<JsonApiResource>> {
+    return this.transport.patch<JsonApiResponse<JsonApiResource>>(
+      this.buildPath(id, '/update_status'),
+      payload,
+      this.requestOptions(options)
+    );
+  }
+}
+
+// ============================================================================
+// Sharings
+// ============================================================================
+
+/**
+ * Spec operations for `/sharings`:
+ * e-mailSalesOffers.
+ */
+export class GeneratedSharingsResource<
+  TResource extends JsonApiResource = JsonApiResource,
+  TAttributes = object,
+  TFilters extends object = object
+> extends BaseResource<
+  TResource,
+  TAttributes,
+  TFilters,
+  EMailSalesOffersBody,
+  ResourcePayload<TAttributes>
+> {
+  constructor(config: Omit<ResourceConfig, 'basePath' | 'resourceType'>) {
+    super({
+      ...config,
+      basePath: '/sharings',
+      resourceType: 'sharings',
+    });
+  }
+
+  /**
+   * e-mail (`POST /sharings`).
+   */
+  override async create(
+    payload: EMailSalesOffersBody,
+    options: IdempotencyOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.create(payload, options);
+  }
+}
+
+// ============================================================================
+// ShipmentDocuments
+// ============================================================================
+
+/**
+ * Spec operations for `/shipment_documents`:
+ * listShipmentDocuments, createShipmentDocument, showShipmentDocument,
+ * updateShipmentDocument, deleteShipmentDocument.
+ */
+export class GeneratedShipmentDocumentsResource<
+  TResource extends JsonApiResource = JsonApiResource<ShipmentDocumentAttributes>,
+  TAttributes = ShipmentDocumentAttributes,
+  TFilters extends object = ShipmentDocumentsFilters
+> extends BaseResource<
+  TResource,
+  TAttributes,
+  TFilters,
+  CreateShipmentDocumentBody,
+  UpdateShipmentDocumentBody
+> {
+  constructor(config: Omit<ResourceConfig, 'basePath' | 'resourceType'>) {
+    super({
+      ...config,
+      basePath: '/shipment_documents',
+      resourceType: 'shipment_documents',
+    });
+  }
+
+  /**
+   * Index (`GET /shipment_documents`).
+   */
+  override async list(params: ListQueryParams<TFilters> = {}): Promise<PaginatedResponse<TResource>> {
+    return super.list(params);
+  }
+
+  override iterate(
+    params: ListQueryParams<TFilters> & IterateOptions = {}
+  ): AsyncGenerator<TResource, void, undefined> {
+    return super.iterate(params);
+  }
+
+  override async listAll(params: ListQueryParams<TFilters> & IterateOptions = {}): Promise<TResource[]> {
+    return super.listAll(params);
+  }
+
+  override async count(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<number> {
+    return super.count(params);
+  }
+
+  override async exists(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<boolean> {
+    return super.exists(params);
+  }
+
+  override async first(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<TResource | null> {
+    return super.first(params);
+  }
+
+  /**
+   * Show (`GET /shipment_documents/{id}`).
+   */
+  override async get(
+    id: string | number,
+    params: ShowQueryParams = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.get(id, params);
+  }
+
+  /**
+   * Create (`POST /shipment_documents`).
+   */
+  override async create(
+    payload: CreateShipmentDocumentBody,
+    options: IdempotencyOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.create(payload, options);
+  }
+
+  /**
+   * Edit (`PUT /shipment_documents/{id}`).
+   */
+  override async update(
+    id: string | number,
+    payload: PartialPayload<UpdateShipmentDocumentBody>,
+    options: ActionOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.update(id, payload, options);
+  }
+
+  /**
+   * Delete (`DELETE /shipment_documents/{id}`).
+   */
+  override async delete(id: string | number, options: ActionOptions = {}): Promise<void> {
+    return super.delete(id, options);
+  }
+}
+
+// ============================================================================
+// StockMovements
+// ============================================================================
+
+/**
+ * Spec operations for `/stock_movements`:
+ * listStockMovements.
+ */
+export class GeneratedStockMovementsResource<
+  TResource extends JsonApiResource = JsonApiResource<StockMovementAttributes>,
+  TAttributes = StockMovementAttributes,
+  TFilters extends object = object
+> extends BaseResource<TResource, TAttributes, TFilters> {
+  constructor(config: Omit<ResourceConfig, 'basePath' | 'resourceType'>) {
+    super({
+      ...config,
+      basePath: '/stock_movements',
+      resourceType: 'stock_movements',
+    });
+  }
+
+  /**
+   * Index (`GET /stock_movements`).
+   */
+  override async list(params: ListQueryParams<TFilters> = {}): Promise<PaginatedResponse<TResource>> {
+    return super.list(params);
+  }
+
+  override iterate(
+    params: ListQueryParams<TFilters> & IterateOptions = {}
+  ): AsyncGenerator<TResource, void, undefined> {
+    return super.iterate(params);
+  }
+
+  override async listAll(params: ListQueryParams<TFilters> & IterateOptions = {}): Promise<TResource[]> {
+    return super.listAll(params);
+  }
+
+  override async count(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<number> {
+    return super.count(params);
+  }
+
+  override async exists(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<boolean> {
+    return super.exists(params);
+  }
+
+  override async first(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<TResource | null> {
+    return super.first(params);
+  }
+}
+
+// ============================================================================
+// StockUpdates
+// ============================================================================
+
+/**
+ * Spec operations for `/stock_updates`:
+ * createStockUpdate.
+ */
+export class GeneratedStockUpdatesResource<
+  TResource extends JsonApiResource = JsonApiResource<StockUpdateAttributes>,
+  TAttributes = StockUpdateAttributes,
+  TFilters extends object = object
+> extends BaseResource<
+  TResource,
+  TAttributes,
+  TFilters,
+  CreateStockUpdateBody,
+  ResourcePayload<TAttributes>
+> {
+  constructor(config: Omit<ResourceConfig, 'basePath' | 'resourceType'>) {
+    super({
+      ...config,
+      basePath: '/stock_updates',
+      resourceType: 'stock_updates',
+    });
+  }
+
+  /**
+   * Create (`POST /stock_updates`).
+   */
+  override async create(
+    payload: CreateStockUpdateBody,
+    options: IdempotencyOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.create(payload, options);
+  }
+}
+
+// ============================================================================
+// Tags
+// ============================================================================
+
+/**
+ * Spec operations for `/tags`:
+ * listTags, createTag, showTag, updateTag, deleteTag.
+ */
+export class GeneratedTagsResource<
+  TResource extends JsonApiResource = JsonApiResource<TagAttributes>,
+  TAttributes = TagAttributes,
+  TFilters extends object = object
+> extends BaseResource<
+  TResource,
+  TAttributes,
+  TFilters,
+  CreateTagBody,
+  UpdateTagBody
+> {
+  constructor(config: Omit<ResourceConfig, 'basePath' | 'resourceType'>) {
+    super({
+      ...config,
+      basePath: '/tags',
+      resourceType: 'tags',
+    });
+  }
+
+  /**
+   * Index (`GET /tags`).
+   */
+  override async list(params: ListQueryParams<TFilters> = {}): Promise<PaginatedResponse<TResource>> {
+    return super.list(params);
+  }
+
+  override iterate(
+    params: ListQueryParams<TFilters> & IterateOptions = {}
+  ): AsyncGenerator<TResource, void, undefined> {
+    return super.iterate(params);
+  }
+
+  override async listAll(params: ListQueryParams<TFilters> & IterateOptions = {}): Promise<TResource[]> {
+    return super.listAll(params);
+  }
+
+  override async count(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<number> {
+    return super.count(params);
+  }
+
+  override async exists(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<boolean> {
+    return super.exists(params);
+  }
+
+  override async first(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<TResource | null> {
+    return super.first(params);
+  }
+
+  /**
+   * Show (`GET /tags/{id}`).
+   */
+  override async get(
+    id: string | number,
+    params: ShowQueryParams = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.get(id, params);
+  }
+
+  /**
+   * Create (`POST /tags`).
+   */
+  override async create(
+    payload: CreateTagBody,
+    options: IdempotencyOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.create(payload, options);
+  }
+
+  /**
+   * Edit (`PUT /tags/{id}`).
+   */
+  override async update(
+    id: string | number,
+    payload: PartialPayload<UpdateTagBody>,
+    options: ActionOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.update(id, payload, options);
+  }
+
+  /**
+   * Delete (`DELETE /tags/{id}`).
+   */
+  override async delete(id: string | number, options: ActionOptions = {}): Promise<void> {
+    return super.delete(id, options);
+  }
+}
+
+// ============================================================================
+// Taxes
+// ============================================================================
+
+/**
+ * Spec operations for `/taxes`:
+ * listTaxes, createTax, showTax, updateTax, deleteTax, archiveTax,
+ * unarchiveTax, payTax.
+ */
+export class GeneratedTaxesResource<
+  TResource extends JsonApiResource = JsonApiResource<TaxAttributes>,
+  TAttributes = TaxAttributes,
+  TFilters extends object = TaxesFilters
+> extends BaseResource<
+  TResource,
+  TAttributes,
+  TFilters,
+  CreateTaxBody,
+  UpdateTaxBody
+> {
+  constructor(config: Omit<ResourceConfig, 'basePath' | 'resourceType'>) {
+    super({
+      ...config,
+      basePath: '/taxes',
+      resourceType: 'taxes',
+    });
+  }
+
+  /**
+   * Index (`GET /taxes`).
+   */
+  override async list(params: ListQueryParams<TFilters> = {}): Promise<PaginatedResponse<TResource>> {
+    return super.list(params);
+  }
+
+  override iterate(
+    params: ListQueryParams<TFilters> & IterateOptions = {}
+  ): AsyncGenerator<TResource, void, undefined> {
+    return super.iterate(params);
+  }
+
+  override async listAll(params: ListQueryParams<TFilters> & IterateOptions = {}): Promise<TResource[]> {
+    return super.listAll(params);
+  }
+
+  override async count(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<number> {
+    return super.count(params);
+  }
+
+  override async exists(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<boolean> {
+    return super.exists(params);
+  }
+
+  override async first(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<TResource | null> {
+    return super.first(params);
+  }
+
+  /**
+   * Show (`GET /taxes/{id}`).
+   */
+  override async get(
+    id: string | number,
+    params: ShowQueryParams = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.get(id, params);
+  }
+
+  /**
+   * Create (`POST /taxes`).
+   */
+  override async create(
+    payload: CreateTaxBody,
+    options: IdempotencyOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.create(payload, options);
+  }
+
+  /**
+   * Edit (`PUT /taxes/{id}`).
+   */
+  override async update(
+    id: string | number,
+    payload: PartialPayload<UpdateTaxBody>,
+    options: ActionOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.update(id, payload, options);
+  }
+
+  /**
+   * Delete (`DELETE /taxes/{id}`).
+   */
+  override async delete(id: string | number, options: ActionOptions = {}): Promise<void> {
+    return super.delete(id, options);
+  }
+
+  /**
+   * Archive (`PATCH /taxes/{id}/archive`).
+   */
+  async archive(
+    id: string | number,
+    options: ActionOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return this.transport.patch<JsonApiResponse<TResource>>(
+      this.buildPath(id, '/archive'),
+      undefined,
+      this.requestOptions(options)
+    );
+  }
+
+  /**
+   * Unarchive (`PATCH /taxes/{id}/unarchive`).
+   */
+  async unarchive(
+    id: string | number,
+    options: ActionOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return this.transport.patch<JsonApiResponse<TResource>>(
+      this.buildPath(id, '/unarchive'),
+      undefined,
+      this.requestOptions(options)
+    );
+  }
+
+  /**
+   * Pay (`POST /taxes/{id}/payments`).
+   */
+  async pay(
+    id: string | number,
+    payload: PayTaxBody,
+    options: IdempotencyOptions = {}
+  ): Promise<JsonApiResponse<JsonApiResource<PaymentAttributes>>> {
+    return this.guardedWrite('pay', options, (request) =>
+      this.transport.post<JsonApiResponse<JsonApiResource<PaymentAttributes>>>(
+        this.buildPath(id, '/payments'),
+        payload,
+        request
+      )
+    );
+  }
+}
+
+// ============================================================================
+// Transactions
+// ============================================================================
+
+/**
+ * Spec operations for `/transactions`:
+ * showTransaction, deleteTransaction.
+ */
+export class GeneratedTransactionsResource<
+  TResource extends JsonApiResource = JsonApiResource<TransactionAttributes>,
+  TAttributes = TransactionAttributes,
+  TFilters extends object = object
+> extends BaseResource<TResource, TAttributes, TFilters> {
+  constructor(config: Omit<ResourceConfig, 'basePath' | 'resourceType'>) {
+    super({
+      ...config,
+      basePath: '/transactions',
+      resourceType: 'transactions',
+    });
+  }
+
+  /**
+   * Show (`GET /transactions/{id}`).
+   */
+  override async get(
+    id: string | number,
+    params: ShowQueryParams = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.get(id, params);
+  }
+
+  /**
+   * Delete (`DELETE /transactions/{id}`).
+   */
+  override async delete(id: string | number, options: ActionOptions = {}): Promise<void> {
+    return super.delete(id, options);
+  }
+}
+
+// ============================================================================
+// Warehouses
+// ============================================================================
+
+/**
+ * Spec operations for `/warehouses`:
+ * listWarehouses, createWarehouse, showWarehouse, updateWarehouse,
+ * deleteWarehouse.
+ */
+export class GeneratedWarehousesResource<
+  TResource extends JsonApiResource = JsonApiResource<WarehouseAttributes>,
+  TAttributes = WarehouseAttributes,
+  TFilters extends object = WarehousesFilters
+> extends BaseResource<
+  TResource,
+  TAttributes,
+  TFilters,
+  CreateWarehouseBody,
+  UpdateWarehouseBody
+> {
+  constructor(config: Omit<ResourceConfig, 'basePath' | 'resourceType'>) {
+    super({
+      ...config,
+      basePath: '/warehouses',
+      resourceType: 'warehouses',
+    });
+  }
+
+  /**
+   * Index (`GET /warehouses`).
+   */
+  override async list(params: ListQueryParams<TFilters> = {}): Promise<PaginatedResponse<TResource>> {
+    return super.list(params);
+  }
+
+  override iterate(
+    params: ListQueryParams<TFilters> & IterateOptions = {}
+  ): AsyncGenerator<TResource, void, undefined> {
+    return super.iterate(params);
+  }
+
+  override async listAll(params: ListQueryParams<TFilters> & IterateOptions = {}): Promise<TResource[]> {
+    return super.listAll(params);
+  }
+
+  override async count(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<number> {
+    return super.count(params);
+  }
+
+  override async exists(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<boolean> {
+    return super.exists(params);
+  }
+
+  override async first(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<TResource | null> {
+    return super.first(params);
+  }
+
+  /**
+   * Show (`GET /warehouses/{id}`).
+   */
+  override async get(
+    id: string | number,
+    params: ShowQueryParams = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.get(id, params);
+  }
+
+  /**
+   * Create (`POST /warehouses`).
+   */
+  override async create(
+    payload: CreateWarehouseBody,
+    options: IdempotencyOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.create(payload, options);
+  }
+
+  /**
+   * Edit (`PUT /warehouses/{id}`).
+   */
+  override async update(
+    id: string | number,
+    payload: PartialPayload<UpdateWarehouseBody>,
+    options: ActionOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.update(id, payload, options);
+  }
+
+  /**
+   * Delete (`DELETE /warehouses/{id}`).
+   */
+  override async delete(id: string | number, options: ActionOptions = {}): Promise<void> {
+    return super.delete(id, options);
+  }
+}
+
+// ============================================================================
+// Webhooks
+// ============================================================================
+
+/**
+ * Spec operations for `/webhooks`:
+ * getWebhook, createWebhook, updateWebhook, deleteWebhook.
+ */
+export class GeneratedWebhooksResource<
+  TResource extends JsonApiResource = JsonApiResource<WebhookAttributes>,
+  TAttributes = WebhookAttributes,
+  TFilters extends object = object
+> extends BaseResource<
+  TResource,
+  TAttributes,
+  TFilters,
+  CreateWebhookBody,
+  UpdateWebhookBody
+> {
+  constructor(config: Omit<ResourceConfig, 'basePath' | 'resourceType'>) {
+    super({
+      ...config,
+      basePath: '/webhooks',
+      resourceType: 'webhooks',
+    });
+  }
+
+  /**
+   * Get (`GET /webhooks`).
+   */
+  override async list(params: ListQueryParams<TFilters> = {}): Promise<PaginatedResponse<TResource>> {
+    return super.list(params);
+  }
+
+  override iterate(
+    params: ListQueryParams<TFilters> & IterateOptions = {}
+  ): AsyncGenerator<TResource, void, undefined> {
+    return super.iterate(params);
+  }
+
+  override async listAll(params: ListQueryParams<TFilters> & IterateOptions = {}): Promise<TResource[]> {
+    return super.listAll(params);
+  }
+
+  override async count(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<number> {
+    return super.count(params);
+  }
+
+  override async exists(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<boolean> {
+    return super.exists(params);
+  }
+
+  override async first(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<TResource | null> {
+    return super.first(params);
+  }
+
+  /**
+   * Create (`POST /webhooks`).
+   */
+  override async create(
+    payload: CreateWebhookBody,
+    options: IdempotencyOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.create(payload, options);
+  }
+
+  /**
+   * Edit (`PUT /webhooks/{id}`).
+   */
+  override async update(
+    id: string | number,
+    payload: PartialPayload<UpdateWebhookBody>,
+    options: ActionOptions = {}
+  ): Promise<JsonApiResponse<TResource>> {
+    return super.update(id, payload, options);
+  }
+
+  /**
+   * Delete (`DELETE /webhooks/{id}`).
+   */
+  override async delete(id: string | number, options: ActionOptions = {}): Promise<void> {
+    return super.delete(id, options);
+  }
+}
@@ -0,0 +1,4454 @@
+/**
+ * Auto-generated runtime schemas from Paraşüt Swagger spec.
+ * DO NOT EDIT MANUALLY - run `npm run generate` instead.
+ */
+
+import type { SchemaNode } from '../client/Validation.js';
+
+/** Schema per definition, referenced by `ref` */
+export const SCHEMAS: Record<string, SchemaNode> = {
+  Account: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['accounts'] },
+      attributes: { ref: 'AccountAttributes' },
+      relationships: {},
+    },
+  },
+  AccountAttributes: {
+    type: 'object',
+    required: ['name'],
+    properties: {
+      used_for: { type: 'string' },
+      last_used_at: { type: 'string' },
+      balance: { type: 'number' },
+      last_adjustment_date: { type: 'string' },
+      bank_integration_type: { type: 'string' },
+      associate_email: { type: 'string' },
+      created_at: { type: 'string' },
+      updated_at: { type: 'string' },
+      name: { type: 'string' },
+      currency: { type: 'string', enum: ['TRL', 'USD', 'EUR', 'GBP'] },
+      account_type: { type: 'string', enum: ['cash', 'bank', 'sys'] },
+      bank_name: { type: 'string' },
+      bank_branch: { type: 'string' },
+      bank_account_no: { type: 'string' },
+      iban: { type: 'string' },
+      archived: { type: 'boolean' },
+    },
+  },
+  AccountDebitCreditTransactionForm: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['transactions'] },
+      attributes: { ref: 'AccountDebitCreditTransactionFormAttributes' },
+      relationships: {},
+    },
+  },
+  AccountDebitCreditTransactionFormAttributes: {
+    type: 'object',
+    required: ['date', 'amount'],
+    properties: {
+      date: { type: 'string' },
+      amount: { type: 'number' },
+      description: { type: 'string' },
+    },
+  },
+  Address: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['addresses'] },
+      attributes: { ref: 'AddressAttributes' },
+      relationships: {
+        type: 'object',
+        properties: {
+          addressable: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['companies'] },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  AddressAttributes: {
+    type: 'object',
+    properties: {
+      name: { type: 'string' },
+      address: { type: 'string' },
+      phone: { type: 'string' },
+      fax: { type: 'string' },
+    },
+  },
+  BankFee: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['bank_fees'] },
+      attributes: { ref: 'BankFeeAttributes' },
+      relationships: {
+        type: 'object',
+        properties: {
+          category: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['item_categories'] },
+                },
+              },
+            },
+          },
+          tags: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    type: { type: 'string', enum: ['tags'] },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  BankFeeAttributes: {
+    type: 'object',
+    required: ['description', 'currency', 'issue_date', 'due_date', 'net_total'],
+    properties: {
+      total_paid: { type: 'number' },
+      archived: { type: 'boolean' },
+      remaining: { type: 'number' },
+      remaining_in_trl: { type: 'number' },
+      created_at: { type: 'string' },
+      updated_at: { type: 'string' },
+      description: { type: 'string' },
+      currency: { type: 'string', enum: ['TRL', 'USD', 'EUR', 'GBP'] },
+      issue_date: { type: 'string' },
+      due_date: { type: 'string' },
+      exchange_rate: { type: 'number' },
+      net_total: { type: 'number' },
+    },
+  },
+  Company: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['companies'] },
+      attributes: { ref: 'CompanyAttributes' },
+      relationships: {
+        type: 'object',
+        properties: {
+          default_warehouse: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['warehouses'] },
+                },
+              },
+            },
+          },
+          owner: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['users'] },
+                },
+              },
+            },
+          },
+          address: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['addresses'] },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  CompanyAttributes: {
+    type: 'object',
+    properties: {
+      name: { type: 'string' },
+      valid_until: { type: 'string' },
+      subscription_status: { type: 'string' },
+      trial_expiration_at: { type: 'string' },
+      allowed_inspection_at: { type: 'string' },
+      app_url: { type: 'string' },
+      legal_name: { type: 'string' },
+      occupation_field: { type: 'string' },
+      district: { type: 'string' },
+      city: { type: 'string' },
+      tax_office: { type: 'string' },
+      tax_number: { type: 'string' },
+      mersis_no: { type: 'string' },
+      total_unused_bonus_months: { type: 'number' },
+      subscription_started_at: { type: 'string' },
+      subscription_renewed_at: { type: 'string' },
+      subscription_value: { type: 'number' },
+      primary_job: { type: 'string' },
+      is_active: { type: 'boolean' },
+      accessible: { type: 'boolean' },
+      inspectable: { type: 'boolean' },
+      is_in_grace_period: { type: 'boolean' },
+      subscription_status_for_analytics: { type: 'string' },
+      end_of_grace_period_at: { type: 'string' },
+      inventory_enabled: { type: 'boolean' },
+      is_in_trial_period: { type: 'boolean' },
+      has_iyzico_integration: { type: 'boolean' },
+      has_active_subscription: { type: 'boolean' },
+      logo: {},
+      subscription_info_text: { type: 'string' },
+      subscription_info_title: { type: 'string' },
+      subscription_url: { type: 'string' },
+      referral_url: { type: 'string' },
+      subscription_plan_duration: { type: 'number' },
+      subscription_plan_name: { type: 'string' },
+      e_invoicing_activated_at: { type: 'string' },
+      has_selected_plan: { type: 'boolean' },
+    },
+  },
+  Contact: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['contacts'] },
+      attributes: { ref: 'ContactAttributes' },
+      relationships: {
+        type: 'object',
+        properties: {
+          category: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['item_categories'] },
+                },
+              },
+            },
+          },
+          contact_portal: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['contact_portals'] },
+                },
+              },
+            },
+          },
+          contact_people: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    type: { type: 'string', enum: ['contact_people'] },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  ContactAttributes: {
+    type: 'object',
+    required: ['name', 'account_type'],
+    properties: {
+      balance: { type: 'number' },
+      trl_balance: { type: 'number' },
+      usd_balance: { type: 'number' },
+      eur_balance: { type: 'number' },
+      gbp_balance: { type: 'number' },
+      created_at: { type: 'string' },
+      updated_at: { type: 'string' },
+      email: { type: 'string' },
+      name: { type: 'string' },
+      short_name: { type: 'string' },
+      contact_type: { type: 'string', enum: ['person', 'company'] },
+      tax_office: { type: 'string' },
+      tax_number: { type: 'string' },
+      district: { type: 'string' },
+      postal_code: { type: 'string' },
+      city: { type: 'string' },
+      country: { type: 'string' },
+      address: { type: 'string' },
+      phone: { type: 'string' },
+      fax: { type: 'string' },
+      is_abroad: { type: 'boolean' },
+      archived: { type: 'boolean' },
+      iban: { type: 'string' },
+      account_type: { type: 'string', enum: ['customer', 'supplier'] },
+      untrackable: { type: 'boolean' },
+      invoicing_preferences: {
+        type: 'object',
+        properties: {
+          e_document_accounts: {
+            type: 'array',
+            items: { type: 'integer' },
+          },
+        },
+      },
+    },
+  },
+  ContactCollectionForm: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['transactions'] },
+      attributes: { ref: 'ContactCollectionFormAttributes' },
+      relationships: {},
+    },
+  },
+  ContactCollectionFormAttributes: {
+    allOf: [
+      { ref: 'PaymentFormAttributes' },
+      {
+        type: 'object',
+        properties: {
+          payable_ids: {
+            type: 'array',
+            items: { type: 'integer' },
+          },
+        },
+      },
+    ],
+  },
+  ContactPaymentForm: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['transactions'] },
+      attributes: { ref: 'ContactPaymentFormAttributes' },
+      relationships: {},
+    },
+  },
+  ContactPaymentFormAttributes: {
+    allOf: [
+      { ref: 'PaymentFormAttributes' },
+      {
+        type: 'object',
+        properties: {
+          payable_ids: {
+            type: 'array',
+            items: { type: 'integer' },
+          },
+        },
+      },
+    ],
+  },
+  ContactPerson: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['contact_people'] },
+      attributes: { ref: 'ContactPersonAttributes' },
+      relationships: {},
+    },
+  },
+  ContactPersonAttributes: {
+    type: 'object',
+    properties: {
+      created_at: { type: 'string' },
+      updated_at: { type: 'string' },
+      name: { type: 'string' },
+      email: { type: 'string' },
+      phone: { type: 'string' },
+      notes: { type: 'string' },
+    },
+  },
+  EArchive: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['e_archives'] },
+      attributes: { ref: 'EArchiveAttributes' },
+      relationships: {
+        type: 'object',
+        properties: {
+          sales_invoice: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['sales_invoices'] },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  EArchiveAttributes: {
+    type: 'object',
+    properties: {
+      uuid: { type: 'string' },
+      vkn: { type: 'string' },
+      invoice_number: { type: 'string' },
+      note: { type: 'string' },
+      is_printed: { type: 'boolean' },
+      status: { type: 'string', enum: ['bounced', 'sent', 'printed', 'legalized'] },
+      printed_at: { type: 'string' },
+      cancellable_until: { type: 'string' },
+      is_signed: { type: 'boolean' },
+      created_at: { type: 'string' },
+      updated_at: { type: 'string' },
+    },
+  },
+  EArchiveForm: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['e_archives'] },
+      attributes: { ref: 'EArchiveFormAttributes' },
+      relationships: {},
+    },
+  },
+  EArchiveFormAttributes: {
+    allOf: [
+      { ref: 'EDocumentCommonFormAttributes' },
+      {
+        type: 'object',
+        properties: {
+          internet_sale: {
+            type: 'object',
+            properties: {
+              url: { type: 'string' },
+              payment_type: { type: 'string', enum: ['KREDIKARTI/BANKAKARTI', 'EFT/HAVALE', 'KAPIDAODEME', 'ODEMEARACISI'] },
+              payment_platform: { type: 'string' },
+              payment_date: { type: 'string' },
+            },
+          },
+          shipment: {
+            type: 'object',
+            properties: {
+              title: { type: 'string' },
+              vkn: { type: 'string' },
+              name: { type: 'string' },
+              tckn: { type: 'string' },
+              date: { type: 'string' },
+            },
+          },
+        },
+      },
+    ],
+  },
+  EDocumentCommonForm: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['e_document_commons'] },
+      attributes: { ref: 'EDocumentCommonFormAttributes' },
+      relationships: {},
+    },
+  },
+  EDocumentCommonFormAttributes: {
+    type: 'object',
+    properties: {
+      vat_withholding_params: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            detail_id: { type: 'integer' },
+            vat_withholding_code: { type: 'string' },
+          },
+        },
+      },
+      vat_exemption_reason_code: { type: 'string' },
+      vat_exemption_reason: { type: 'string' },
+      excise_duty_codes: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            product: { type: 'integer' },
+            sales_excise_duty_code: { type: 'string', enum: [57, 59, 60, 61, 62, 63, 9077] },
+          },
+        },
+      },
+    },
+  },
+  EDocumentPdf: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['e_document_pdfs'] },
+      attributes: { ref: 'EDocumentPdfAttributes' },
+      relationships: {},
+    },
+  },
+  EDocumentPdfAttributes: {
+    type: 'object',
+    properties: {
+      url: { type: 'string' },
+      expires_at: { type: 'string' },
+    },
+  },
+  EInvoice: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['e_invoices'] },
+      attributes: { ref: 'EInvoiceAttributes' },
+      relationships: {
+        type: 'object',
+        properties: {
+          invoice: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['sales_invoices', 'purchase_bills'] },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  EInvoiceAttributes: {
+    type: 'object',
+    properties: {
+      external_id: { type: 'string' },
+      uuid: { type: 'string' },
+      env_uuid: { type: 'string' },
+      from_address: { type: 'string' },
+      from_vkn: { type: 'string' },
+      to_address: { type: 'string' },
+      to_vkn: { type: 'string' },
+      direction: { type: 'string', enum: ['inbound', 'outbound'] },
+      note: { type: 'string' },
+      response_type: { type: 'string', enum: ['accepted', 'rejected', 'refunded'] },
+      contact_name: { type: 'string' },
+      scenario: { type: 'string', enum: ['basic', 'commercial'] },
+      status: { type: 'string', enum: ['waiting', 'failed', 'successful'] },
+      gtb_ref_no: { type: 'string' },
+      gtb_registration_no: { type: 'string' },
+      gtb_export_date: { type: 'string' },
+      response_note: { type: 'string' },
+      issue_date: { type: 'string' },
+      is_expired: { type: 'boolean' },
+      is_answerable: { type: 'boolean' },
+      net_total: { type: 'number' },
+      currency: { type: 'string', enum: ['TRL', 'USD', 'EUR', 'GBP'] },
+      item_type: { type: 'string', enum: ['refund', 'invoice'] },
+      created_at: { type: 'string' },
+      updated_at: { type: 'string' },
+    },
+  },
+  EInvoiceForm: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['e_invoices'] },
+      attributes: { ref: 'EInvoiceFormAttributes' },
+      relationships: {},
+    },
+  },
+  EInvoiceFormAttributes: {
+    allOf: [
+      { ref: 'EDocumentCommonFormAttributes' },
+      {
+        type: 'object',
+        properties: {
+          scenario: { type: 'string', enum: ['basic', 'commercial'] },
+          to: { type: 'string' },
+          custom_requirement_params: {
+            type: 'object',
+            properties: {
+              integration: {
+                type: 'object',
+                properties: {
+                  data: { type: 'object' },
+                },
+              },
+            },
+          },
+        },
+      },
+    ],
+  },
+  EInvoiceInbox: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['e_invoice_inboxes'] },
+      attributes: { ref: 'EInvoiceInboxAttributes' },
+      relationships: {},
+    },
+  },
+  EInvoiceInboxAttributes: {
+    type: 'object',
+    properties: {
+      vkn: { type: 'string' },
+      e_invoice_address: { type: 'string' },
+      name: { type: 'string' },
+      inbox_type: { type: 'string' },
+      address_registered_at: { type: 'string' },
+      registered_at: { type: 'string' },
+      created_at: { type: 'string' },
+      updated_at: { type: 'string' },
+    },
+  },
+  ESmm: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['e_smms'] },
+      attributes: { ref: 'ESmmAttributes' },
+      relationships: {
+        type: 'object',
+        properties: {
+          sales_invoice: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['sales_invoices'] },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  ESmmAttributes: {
+    type: 'object',
+    properties: {
+      created_at: { type: 'string' },
+      updated_at: { type: 'string' },
+      printed_at: { type: 'string' },
+      uuid: { type: 'string' },
+      vkn: { type: 'string' },
+      invoice_number: { type: 'number' },
+      is_printed: { type: 'boolean' },
+      pdf_url: { type: 'string' },
+    },
+  },
+  ESmmCommonForm: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['e_smm_commons'] },
+      attributes: { ref: 'ESmmCommonFormAttributes' },
+      relationships: {},
+    },
+  },
+  ESmmCommonFormAttributes: {
+    type: 'object',
+    properties: {
+      vat_withholding_code: { type: 'string' },
+      note: { type: 'string' },
+    },
+  },
+  Employee: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['employees'] },
+      attributes: { ref: 'EmployeeAttributes' },
+      relationships: {
+        type: 'object',
+        properties: {
+          category: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['item_categories'] },
+                },
+              },
+            },
+          },
+          managed_by_user: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['users'] },
+                },
+              },
+            },
+          },
+          managed_by_user_role: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['user_roles'] },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  EmployeeAttributes: {
+    type: 'object',
+    required: ['name'],
+    properties: {
+      balance: { type: 'number' },
+      trl_balance: { type: 'number' },
+      usd_balance: { type: 'number' },
+      eur_balance: { type: 'number' },
+      gbp_balance: { type: 'number' },
+      created_at: { type: 'string' },
+      updated_at: { type: 'string' },
+      name: { type: 'string' },
+      email: { type: 'string' },
+      archived: { type: 'boolean' },
+      iban: { type: 'string' },
+    },
+  },
+  Error: {
+    type: 'object',
+    properties: {
+      title: { type: 'string' },
+      detail: { type: 'string' },
+    },
+  },
+  InventoryLevel: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['inventory_levels'] },
+      attributes: { ref: 'InventoryLevelAttributes' },
+      relationships: {
+        type: 'object',
+        properties: {
+          product: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['products'] },
+                },
+              },
+            },
+          },
+          warehouse: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['warehouses'] },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  InventoryLevelAttributes: {
+    type: 'object',
+    properties: {
+      created_at: { type: 'string' },
+      updated_at: { type: 'string' },
+      stock_count: { type: 'number' },
+      initial_stock_count: { type: 'number' },
+      critical_stock_count: { type: 'number' },
+    },
+  },
+  ItemCategory: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['item_categories'] },
+      attributes: { ref: 'ItemCategoryAttributes' },
+      relationships: {
+        type: 'object',
+        properties: {
+          parent_category: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['item_categories'] },
+                },
+              },
+            },
+          },
+          subcategories: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    type: { type: 'string', enum: ['item_categories'] },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  ItemCategoryAttributes: {
+    type: 'object',
+    required: ['name', 'category_type'],
+    properties: {
+      full_path: { type: 'string' },
+      created_at: { type: 'string' },
+      updated_at: { type: 'string' },
+      name: { type: 'string' },
+      bg_color: { type: 'string' },
+      text_color: { type: 'string' },
+      category_type: { type: 'string', enum: ['Product', 'Contact', 'Employee', 'SalesInvoice', 'Expenditure'] },
+      parent_id: { type: 'integer' },
+    },
+  },
+  ListMeta: {
+    type: 'object',
+    properties: {
+      current_page: { type: 'integer' },
+      total_pages: { type: 'integer' },
+      total_count: { type: 'integer' },
+    },
+  },
+  Me: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['users'] },
+      attributes: { ref: 'MeAttributes' },
+      relationships: {
+        type: 'object',
+        properties: {
+          user_roles: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    type: { type: 'string', enum: ['user_roles'] },
+                  },
+                },
+              },
+            },
+          },
+          companies: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    type: { type: 'string', enum: ['companies'] },
+                  },
+                },
+              },
+            },
+          },
+          profile: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['profiles'] },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  MeAttributes: {
+    type: 'object',
+    properties: {
+      name: { type: 'string' },
+      email: { type: 'string' },
+      is_confirmed: { type: 'boolean' },
+    },
+  },
+  Payment: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['payments'] },
+      attributes: { ref: 'PaymentAttributes' },
+      relationships: {
+        type: 'object',
+        properties: {
+          payable: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['sales_invoices', 'purchase_bills', 'taxes', 'bank_fees', 'salaries', 'checks'] },
+                },
+              },
+            },
+          },
+          transaction: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['transactions'] },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  PaymentAttributes: {
+    type: 'object',
+    properties: {
+      created_at: { type: 'string' },
+      updated_at: { type: 'string' },
+      date: { type: 'string' },
+      amount: { type: 'number' },
+      currency: { type: 'number' },
+      notes: { type: 'string' },
+    },
+  },
+  PaymentForm: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['payments'] },
+      attributes: { ref: 'PaymentFormAttributes' },
+      relationships: {},
+    },
+  },
+  PaymentFormAttributes: {
+    type: 'object',
+    properties: {
+      description: { type: 'string' },
+      account_id: { type: 'integer' },
+      date: { type: 'string' },
+      amount: { type: 'number' },
+      exchange_rate: { type: 'number' },
+    },
+  },
+  Product: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['products'] },
+      attributes: { ref: 'ProductAttributes' },
+      relationships: {
+        type: 'object',
+        properties: {
+          inventory_levels: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['inventory_levels'] },
+                },
+              },
+            },
+          },
+          category: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['item_categories'] },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  ProductAttributes: {
+    type: 'object',
+    required: ['name'],
+    properties: {
+      sales_excise_duty_code: { type: 'string' },
+      sales_invoice_details_count: { type: 'integer' },
+      purchase_invoice_details_count: { type: 'integer' },
+      list_price_in_trl: { type: 'number' },
+      buying_price_in_trl: { type: 'number' },
+      stock_count: { type: 'number' },
+      created_at: { type: 'string' },
+      updated_at: { type: 'string' },
+      code: { type: 'string' },
+      name: { type: 'string' },
+      vat_rate: { type: 'number' },
+      sales_excise_duty: { type: 'number' },
+      sales_excise_duty_type: { type: 'string' },
+      purchase_excise_duty: { type: 'number' },
+      purchase_excise_duty_type: { type: 'string' },
+      unit: { type: 'string' },
+      communications_tax_rate: { type: 'number' },
+      archived: { type: 'boolean' },
+      list_price: { type: 'number' },
+      currency: { type: 'string' },
+      buying_price: { type: 'number' },
+      buying_currency: { type: 'string' },
+      inventory_tracking: { type: 'boolean' },
+      initial_stock_count: { type: 'number' },
+      gtip: { type: 'string' },
+      barcode: { type: 'string' },
+    },
+  },
+  Profile: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['profiles'] },
+      attributes: { ref: 'ProfileAttributes' },
+      relationships: {
+        type: 'object',
+        properties: {
+          user: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['users'] },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  ProfileAttributes: {
+    type: 'object',
+    properties: {
+      phone: { type: 'string' },
+      job_title: { type: 'string' },
+      avatar: {},
+    },
+  },
+  PurchaseBill: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['purchase_bills'] },
+      attributes: { ref: 'PurchaseBillAttributes' },
+      relationships: {
+        type: 'object',
+        properties: {
+          category: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['item_categories'] },
+                },
+              },
+            },
+          },
+          spender: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['employees'] },
+                },
+              },
+            },
+          },
+          supplier: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['contacts'] },
+                },
+              },
+            },
+          },
+          details: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    type: { type: 'string', enum: ['purchase_bill_details'] },
+                  },
+                },
+              },
+            },
+          },
+          payments: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    type: { type: 'string', enum: ['payments'] },
+                  },
+                },
+              },
+            },
+          },
+          tags: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    type: { type: 'string', enum: ['tags'] },
+                  },
+                },
+              },
+            },
+          },
+          recurrence_plan: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['recurrence_plans'] },
+                },
+              },
+            },
+          },
+          active_e_document: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['e_invoices'] },
+                },
+              },
+            },
+          },
+          pay_to: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['contacts', 'employees'] },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  PurchaseBillAttributes: {
+    type: 'object',
+    required: ['item_type', 'issue_date', 'due_date', 'currency', 'net_total', 'total_vat'],
+    properties: {
+      archived: { type: 'boolean' },
+      total_paid: { type: 'number' },
+      gross_total: { type: 'number' },
+      total_excise_duty: { type: 'number' },
+      total_communications_tax: { type: 'number' },
+      total_vat: { type: 'number' },
+      total_vat_withholding: { type: 'number' },
+      total_discount: { type: 'number' },
+      total_invoice_discount: { type: 'number' },
+      remaining: { type: 'number' },
+      remaining_in_trl: { type: 'number' },
+      payment_status: { type: 'string', enum: ['paid', 'overdue', 'unpaid', 'partially_paid'] },
+      is_detailed: { type: 'boolean' },
+      sharings_count: { type: 'integer' },
+      e_invoices_count: { type: 'integer' },
+      remaining_reimbursement: { type: 'number' },
+      remaining_reimbursement_in_trl: { type: 'number' },
+      created_at: { type: 'string' },
+      updated_at: { type: 'string' },
+      item_type: { type: 'string', enum: ['purchase_bill', 'cancelled', 'recurring_purchase_bill', 'refund'] },
+      description: { type: 'string' },
+      issue_date: { type: 'string' },
+      due_date: { type: 'string' },
+      invoice_no: { type: 'string' },
+      currency: { type: 'string', enum: ['TRL', 'USD', 'EUR', 'GBP'] },
+      exchange_rate: { type: 'number' },
+      net_total: { type: 'number' },
+      withholding_rate: { type: 'number' },
+      invoice_discount_type: { type: 'string', enum: ['percentage', 'amount'] },
+      invoice_discount: { type: 'number' },
+    },
+  },
+  PurchaseBillBasicForm: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['purchase_bills'] },
+      attributes: { ref: 'PurchaseBillBasicFormAttributes' },
+      relationships: {},
+    },
+  },
+  PurchaseBillBasicFormAttributes: {
+    type: 'object',
+    required: ['item_type', 'issue_date', 'due_date', 'currency', 'net_total', 'total_vat'],
+    properties: {
+      item_type: { type: 'string', enum: ['purchase_bill', 'refund'] },
+      description: { type: 'string' },
+      issue_date: { type: 'string' },
+      due_date: { type: 'string' },
+      invoice_no: { type: 'string' },
+      currency: { type: 'string', enum: ['TRL', 'USD', 'EUR', 'GBP'] },
+      exchange_rate: { type: 'number' },
+      net_total: { type: 'number' },
+      total_vat: { type: 'number' },
+    },
+  },
+  PurchaseBillDetail: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['purchase_bill_details'] },
+      attributes: { ref: 'PurchaseBillDetailAttributes' },
+      relationships: {
+        type: 'object',
+        properties: {
+          warehouse: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['warehouses'] },
+                },
+              },
+            },
+          },
+          product: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['products'] },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  PurchaseBillDetailAttributes: {
+    type: 'object',
+    required: ['quantity', 'unit_price', 'vat_rate'],
+    properties: {
+      net_total: { type: 'number' },
+      vat_withholding: { type: 'number' },
+      created_at: { type: 'string' },
+      updated_at: { type: 'string' },
+      quantity: { type: 'number' },
+      unit_price: { type: 'number' },
+      vat_rate: { type: 'number' },
+      vat_withholding_rate: { type: 'number' },
+      discount_type: { type: 'string', enum: ['percentage', 'amount'] },
+      discount_value: { type: 'number' },
+      excise_duty_type: { type: 'string', enum: ['percentage', 'amount'] },
+      excise_duty_value: { type: 'number' },
+      communications_tax_rate: { type: 'number' },
+      description: { type: 'string' },
+    },
+  },
+  PurchaseBillDetailedForm: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['purchase_bills'] },
+      attributes: { ref: 'PurchaseBillDetailedFormAttributes' },
+      relationships: {},
+    },
+  },
+  PurchaseBillDetailedFormAttributes: {
+    type: 'object',
+    required: ['item_type', 'issue_date', 'due_date', 'currency'],
+    properties: {
+      item_type: { type: 'string', enum: ['purchase_bill', 'refund'] },
+      description: { type: 'string' },
+      issue_date: { type: 'string' },
+      due_date: { type: 'string' },
+      invoice_no: { type: 'string' },
+      currency: { type: 'string', enum: ['TRL', 'USD', 'EUR', 'GBP'] },
+      exchange_rate: { type: 'number' },
+      withholding_rate: { type: 'number' },
+      invoice_discount: { type: 'number' },
+      invoice_discount_type: { type: 'string', enum: ['percentage', 'amount'] },
+    },
+  },
+  Salary: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['salaries'] },
+      attributes: { ref: 'SalaryAttributes' },
+      relationships: {
+        type: 'object',
+        properties: {
+          employee: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['employees'] },
+                },
+              },
+            },
+          },
+          category: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['item_categories'] },
+                },
+              },
+            },
+          },
+          tags: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    type: { type: 'string', enum: ['tags'] },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  SalaryAttributes: {
+    type: 'object',
+    required: ['description', 'currency', 'issue_date', 'due_date', 'net_total'],
+    properties: {
+      total_paid: { type: 'number' },
+      archived: { type: 'boolean' },
+      remaining: { type: 'number' },
+      remaining_in_trl: { type: 'number' },
+      created_at: { type: 'string' },
+      updated_at: { type: 'string' },
+      description: { type: 'string' },
+      currency: { type: 'string', enum: ['TRL', 'USD', 'EUR', 'GBP'] },
+      issue_date: { type: 'string' },
+      due_date: { type: 'string' },
+      exchange_rate: { type: 'number' },
+      net_total: { type: 'number' },
+    },
+  },
+  SalesInvoice: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['sales_invoices'] },
+      attributes: { ref: 'SalesInvoiceAttributes' },
+      relationships: {
+        type: 'object',
+        properties: {
+          category: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['item_categories'] },
+                },
+              },
+            },
+          },
+          contact: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['contacts'] },
+                },
+              },
+            },
+          },
+          details: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    type: { type: 'string', enum: ['sales_invoice_details'] },
+                  },
+                },
+              },
+            },
+          },
+          payments: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    type: { type: 'string', enum: ['payments'] },
+                  },
+                },
+              },
+            },
+          },
+          tags: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    type: { type: 'string', enum: ['tags'] },
+                  },
+                },
+              },
+            },
+          },
+          sales_offer: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['sales_offers'] },
+                },
+              },
+            },
+          },
+          sharings: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    type: { type: 'string', enum: ['sharings'] },
+                  },
+                },
+              },
+            },
+          },
+          recurrence_plan: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['recurrence_plans'] },
+                },
+              },
+            },
+          },
+          active_e_document: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['e_archives', 'e_invoices'] },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  SalesInvoiceAttributes: {
+    type: 'object',
+    required: ['item_type', 'issue_date'],
+    properties: {
+      archived: { type: 'boolean' },
+      invoice_no: { type: 'string' },
+      net_total: { type: 'number' },
+      gross_total: { type: 'number' },
+      withholding: { type: 'number' },
+      total_excise_duty: { type: 'number' },
+      total_communications_tax: { type: 'number' },
+      total_vat: { type: 'number' },
+      total_vat_withholding: { type: 'number' },
+      total_discount: { type: 'number' },
+      total_invoice_discount: { type: 'number' },
+      before_taxes_total: { type: 'number' },
+      remaining: { type: 'number' },
+      remaining_in_trl: { type: 'number' },
+      payment_status: { type: 'string', enum: ['paid', 'overdue', 'unpaid', 'partially_paid'] },
+      created_at: { type: 'string' },
+      updated_at: { type: 'string' },
+      item_type: { type: 'string', enum: ['invoice', 'export', 'estimate', 'cancelled', 'recurring_invoice', 'recurring_estimate', 'recurring_export', 'refund'] },
+      description: { type: 'string' },
+      issue_date: { type: 'string' },
+      due_date: { type: 'string' },
+      invoice_series: { type: 'string' },
+      invoice_id: { type: 'integer' },
+      currency: { type: 'string', enum: ['TRL', 'USD', 'EUR', 'GBP'] },
+      exchange_rate: { type: 'number' },
+      withholding_rate: { type: 'number' },
+      invoice_discount_type: { type: 'string', enum: ['percentage', 'amount'] },
+      invoice_discount: { type: 'number' },
+      billing_address: { type: 'string' },
+      billing_postal_code: { type: 'string' },
+      billing_phone: { type: 'string' },
+      billing_fax: { type: 'string' },
+      tax_office: { type: 'string' },
+      tax_number: { type: 'string' },
+      country: { type: 'string' },
+      city: { type: 'string' },
+      district: { type: 'string' },
+      is_abroad: { type: 'boolean' },
+      order_no: { type: 'string' },
+      order_date: { type: 'string' },
+      shipment_addres: { type: 'string' },
+      shipment_included: { type: 'boolean' },
+      cash_sale: { type: 'boolean' },
+      payer_tax_numbers: {
+        type: 'array',
+        items: { type: 'string' },
+      },
+      invoice_note: { type: 'string' },
+      append_contact_balance: { type: 'boolean' },
+      e_document_accounts: {
+        type: 'array',
+        items: { type: 'number' },
+      },
+    },
+  },
+  SalesInvoiceCreateUpdate: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['sales_invoices'] },
+      attributes: { ref: 'SalesInvoiceCreateUpdateAttributes' },
+      relationships: {},
+    },
+  },
+  SalesInvoiceCreateUpdateAttributes: {
+    allOf: [
+      { ref: 'SalesInvoiceAttributes' },
+      {
+        type: 'object',
+        properties: {
+          payment_account_id: { type: 'number' },
+          payment_date: { type: 'string' },
+          payment_description: { type: 'string' },
+        },
+      },
+    ],
+  },
+  SalesInvoiceDetail: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['sales_invoice_details'] },
+      attributes: { ref: 'SalesInvoiceDetailAttributes' },
+      relationships: {
+        type: 'object',
+        properties: {
+          warehouse: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['warehouses'] },
+                },
+              },
+            },
+          },
+          product: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['products'] },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  SalesInvoiceDetailAttributes: {
+    type: 'object',
+    required: ['quantity', 'unit_price', 'vat_rate'],
+    properties: {
+      net_total: { type: 'number' },
+      vat_withholding: { type: 'number' },
+      created_at: { type: 'string' },
+      updated_at: { type: 'string' },
+      quantity: { type: 'number' },
+      unit_price: { type: 'number' },
+      vat_rate: { type: 'number' },
+      vat_withholding_rate: { type: 'number' },
+      discount_type: { type: 'string', enum: ['percentage', 'amount'] },
+      discount_value: { type: 'number' },
+      excise_duty_type: { type: 'string', enum: ['percentage', 'amount'] },
+      excise_duty_value: { type: 'number' },
+      communications_tax_rate: { type: 'number' },
+      description: { type: 'string' },
+      delivery_method: { type: 'string', enum: ['CFR', 'CIF', 'CIP', 'CPT', 'DAF', 'DAP', 'DPU', 'DDP', 'DDU', 'DEQ', 'DES', 'EXW', 'FAS', 'FCA', 'FOB'] },
+      shipping_method: { type: 'string', enum: ['Denizyolu', 'Demiryolu', 'Karayolu', 'Havayolu', 'Posta', 'Çok araçlı', 'Sabit taşıma tesisleri', 'İç su taşımacılığı'] },
+    },
+  },
+  SalesOfferAttributes: {
+    type: 'object',
+    required: ['item_type', 'issue_date'],
+    properties: {
+      content: { type: 'string' },
+      contact_type: { type: 'string' },
+      sharings_count: { type: 'number' },
+      status: { type: 'string' },
+      display_exchange_rate_in_pdf: { type: 'boolean' },
+      archived: { type: 'boolean' },
+      net_total: { type: 'number' },
+      gross_total: { type: 'number' },
+      withholding: { type: 'number' },
+      total_excise_duty: { type: 'number' },
+      total_communications_tax: { type: 'number' },
+      total_accommodation_tax: { type: 'number' },
+      total_vat: { type: 'number' },
+      total_vat_withholding: { type: 'number' },
+      vat_withholding: { type: 'number' },
+      total_discount: { type: 'number' },
+      total_invoice_discount: { type: 'number' },
+      description: { type: 'string' },
+      issue_date: { type: 'string' },
+      due_date: { type: 'string' },
+      currency: { type: 'string', enum: ['TRL', 'USD', 'EUR', 'GBP'] },
+      exchange_rate: { type: 'number' },
+      withholding_rate: { type: 'number' },
+      invoice_discount_type: { type: 'string', enum: ['percentage', 'amount'] },
+      invoice_discount: { type: 'number' },
+      billing_address: { type: 'string' },
+      billing_phone: { type: 'string' },
+      billing_fax: { type: 'string' },
+      tax_office: { type: 'string' },
+      tax_number: { type: 'string' },
+      city: { type: 'string' },
+      district: { type: 'string' },
+      is_abroad: { type: 'boolean' },
+      order_no: { type: 'string' },
+      order_date: { type: 'string' },
+    },
+  },
+  SalesOffers: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['sales_offers'] },
+      attributes: { ref: 'SalesOfferAttributes' },
+      relationships: {
+        type: 'object',
+        properties: {
+          sales_invoice: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['sales_invoices'] },
+                },
+              },
+            },
+          },
+          contact: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['contacts'] },
+                },
+              },
+            },
+          },
+          details: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    type: { type: 'string', enum: ['sales_offer_details'] },
+                  },
+                },
+              },
+            },
+          },
+          activities: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    type: { type: 'string', enum: ['activities'] },
+                  },
+                },
+              },
+            },
+          },
+          sharings: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    type: { type: 'string', enum: ['sharings'] },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  SalesOffersCreateUpdateAttributes: {
+    type: 'object',
+    required: ['item_type', 'issue_date'],
+    properties: {
+      content: { type: 'string' },
+      contact_type: { type: 'string' },
+      sharings_count: { type: 'number' },
+      status: { type: 'string' },
+      display_exchange_rate_in_pdf: { type: 'boolean' },
+      archived: { type: 'boolean' },
+      net_total: { type: 'number' },
+      gross_total: { type: 'number' },
+      withholding: { type: 'number' },
+      total_excise_duty: { type: 'number' },
+      total_communications_tax: { type: 'number' },
+      total_accommodation_tax: { type: 'number' },
+      total_vat: { type: 'number' },
+      total_vat_withholding: { type: 'number' },
+      total_discount: { type: 'number' },
+      total_invoice_discount: { type: 'number' },
+      description: { type: 'string' },
+      issue_date: { type: 'string' },
+      due_date: { type: 'string' },
+      currency: { type: 'string', enum: ['TRL', 'USD', 'EUR', 'GBP'] },
+      exchange_rate: { type: 'number' },
+      withholding_rate: { type: 'number' },
+      invoice_discount_type: { type: 'string', enum: ['percentage', 'amount'] },
+      invoice_discount: { type: 'number' },
+      billing_address: { type: 'string' },
+      billing_phone: { type: 'string' },
+      billing_fax: { type: 'string' },
+      tax_office: { type: 'string' },
+      tax_number: { type: 'string' },
+      city: { type: 'string' },
+      district: { type: 'string' },
+      is_abroad: { type: 'boolean' },
+      order_no: { type: 'string' },
+    },
+  },
+  SalesOffersDetailAttributes: {
+    type: 'object',
+    properties: {
+      description: { type: 'string' },
+      net_total: { type: 'number' },
+      unit_price: { type: 'number' },
+      vat_rate: { type: 'number' },
+      quantity: { type: 'number' },
+      discount_type: { type: 'string' },
+      discount_value: { type: 'number' },
+      communications_tax_rate: { type: 'number' },
+      excise_duty_type: { type: 'string' },
+      invoice_discount: { type: 'number' },
+      excise_duty: { type: 'number' },
+      excise_duty_rate: { type: 'number' },
+      discount: { type: 'number' },
+      communications_tax: { type: 'number' },
+      detail_no: { type: 'number' },
+      net_total_without_invoice_discount: { type: 'number' },
+      vat_withholding: { type: 'number' },
+      vat_withholding_rate: { type: 'number' },
+      accommodation_tax_rate: { type: 'number' },
+      accommodation_tax: { type: 'number' },
+      accommodation_tax_exempt: { type: 'boolean' },
+      created_at: { type: 'string' },
+      updated_at: { type: 'string' },
+      excise_duty_value: { type: 'number' },
+    },
+  },
+  SalesOffersDetails: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['sales_offers_details'] },
+      attributes: { ref: 'SalesOffersDetailAttributes' },
+      relationships: {
+        type: 'object',
+        properties: {
+          product: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['products'] },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  SalesOffersPdf: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['sales_offers_pdfs'] },
+      attributes: { ref: 'SalesOffersPdfAttributes' },
+      relationships: {},
+    },
+  },
+  SalesOffersPdfAttributes: {
+    type: 'object',
+    properties: {
+      url: { type: 'string' },
+      created_at: { type: 'string' },
+      status: { type: 'string' },
+      errors: {
+        type: 'array',
+        items: { type: 'string' },
+      },
+      result: { type: 'string' },
+      statistics: { type: 'string' },
+    },
+  },
+  SalesOffersUpdateStatusAttributes: {
+    type: 'object',
+    required: ['status'],
+    properties: {
+      status: { type: 'string', enum: ['accepted', 'rejected', 'waiting'] },
+    },
+  },
+  SalesOffersUpdateStatusBody: {
+    type: 'object',
+    required: ['data'],
+    properties: {
+      data: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          type: { type: 'string', enum: ['sales_offers'] },
+          attributes: { ref: 'SalesOffersUpdateStatusAttributes' },
+        },
+      },
+      include: { type: 'string' },
+    },
+  },
+  ShipmentDocument: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['shipment_documents'] },
+      attributes: { ref: 'ShipmentDocumentAttributes' },
+      relationships: {
+        type: 'object',
+        properties: {
+          contact: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['contacts'] },
+                },
+              },
+            },
+          },
+          tags: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    type: { type: 'string', enum: ['tags'] },
+                  },
+                },
+              },
+            },
+          },
+          stock_movements: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    type: { type: 'string', enum: ['stock_movements'] },
+                  },
+                },
+              },
+            },
+          },
+          invoices: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    type: { type: 'string', enum: ['sales_invoices', 'purchase_bills'] },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  ShipmentDocumentAttributes: {
+    type: 'object',
+    required: ['issue_date'],
+    properties: {
+      archived: { type: 'boolean' },
+      invoice_no: { type: 'string' },
+      print_note: { type: 'string' },
+      printed_at: { type: 'string' },
+      created_at: { type: 'string' },
+      updated_at: { type: 'string' },
+      inflow: { type: 'boolean' },
+      description: { type: 'string' },
+      city: { type: 'string' },
+      district: { type: 'string' },
+      address: { type: 'string' },
+      issue_date: { type: 'string' },
+      shipment_date: { type: 'string' },
+      procurement_number: { type: 'string' },
+    },
+  },
+  StockMovement: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['stock_movements'] },
+      attributes: { ref: 'StockMovementAttributes' },
+      relationships: {
+        type: 'object',
+        properties: {
+          warehouse: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['warehouses'] },
+                },
+              },
+            },
+          },
+          product: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['products'] },
+                },
+              },
+            },
+          },
+          source: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['shipment_documents', 'sales_invoice_details', 'purchase_bill_details'] },
+                },
+              },
+            },
+          },
+          contact: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['contacts'] },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  StockMovementAttributes: {
+    type: 'object',
+    required: ['quantity'],
+    properties: {
+      detail_no: { type: 'number' },
+      date: { type: 'string' },
+      created_at: { type: 'string' },
+      updated_at: { type: 'string' },
+      quantity: { type: 'number' },
+    },
+  },
+  StockUpdate: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['stock_updates'] },
+      attributes: { ref: 'StockUpdateAttributes' },
+      relationships: {
+        type: 'object',
+        properties: {
+          details: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    type: { type: 'string', enum: ['stock_update_details'] },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  StockUpdateAttributes: {
+    type: 'object',
+    properties: {
+      created_at: { type: 'string' },
+      updated_at: { type: 'string' },
+    },
+  },
+  StockUpdateDetail: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['stock_update_details'] },
+      attributes: { ref: 'StockUpdateDetailAttributes' },
+      relationships: {
+        type: 'object',
+        properties: {
+          warehouse: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['warehouses'] },
+                },
+              },
+            },
+          },
+          product: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['products'] },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  StockUpdateDetailAttributes: {
+    type: 'object',
+    required: ['new_total_inventory'],
+    properties: {
+      old_total_inventory: { type: 'number' },
+      created_at: { type: 'string' },
+      updated_at: { type: 'string' },
+      new_total_inventory: { type: 'number' },
+    },
+  },
+  Tag: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['tags'] },
+      attributes: { ref: 'TagAttributes' },
+      relationships: {},
+    },
+  },
+  TagAttributes: {
+    type: 'object',
+    required: ['name'],
+    properties: {
+      created_at: { type: 'string' },
+      updated_at: { type: 'string' },
+      name: { type: 'string' },
+    },
+  },
+  Tax: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['bank_fees'] },
+      attributes: { ref: 'TaxAttributes' },
+      relationships: {
+        type: 'object',
+        properties: {
+          category: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['item_categories'] },
+                },
+              },
+            },
+          },
+          tags: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    type: { type: 'string', enum: ['tags'] },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  TaxAttributes: {
+    type: 'object',
+    required: ['description', 'issue_date', 'due_date', 'net_total'],
+    properties: {
+      total_paid: { type: 'number' },
+      archived: { type: 'boolean' },
+      remaining: { type: 'number' },
+      remaining_in_trl: { type: 'number' },
+      created_at: { type: 'string' },
+      updated_at: { type: 'string' },
+      description: { type: 'string' },
+      issue_date: { type: 'string' },
+      due_date: { type: 'string' },
+      net_total: { type: 'number' },
+    },
+  },
+  TrackableJob: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['trackable_jobs'] },
+      attributes: { ref: 'TrackableJobAttributes' },
+      relationships: {},
+    },
+  },
+  TrackableJobAttributes: {
+    type: 'object',
+    properties: {
+      status: { type: 'string', enum: ['running', 'done', 'error'] },
+      errors: {
+        type: 'array',
+        items: { type: 'string' },
+      },
+    },
+  },
+  Transaction: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['transactions'] },
+      attributes: { ref: 'TransactionAttributes' },
+      relationships: {
+        type: 'object',
+        properties: {
+          debit_account: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['accounts'] },
+                },
+              },
+            },
+          },
+          credit_account: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['accounts'] },
+                },
+              },
+            },
+          },
+          payments: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    id: { type: 'string' },
+                    type: { type: 'string', enum: ['payments'] },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  TransactionAttributes: {
+    type: 'object',
+    properties: {
+      created_at: { type: 'string' },
+      updated_at: { type: 'string' },
+      description: { type: 'string' },
+      transaction_type: { type: 'string' },
+      date: { type: 'string' },
+      amount_in_trl: { type: 'number' },
+      debit_amount: { type: 'number' },
+      debit_currency: { type: 'string', enum: ['TRL', 'USD', 'EUR', 'GBP'] },
+      credit_amount: { type: 'number' },
+      credit_currency: { type: 'string', enum: ['TRL', 'USD', 'EUR', 'GBP'] },
+    },
+  },
+  UserRole: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['user_roles'] },
+      attributes: { ref: 'UserRoleAttributes' },
+      relationships: {
+        type: 'object',
+        properties: {
+          company: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['companies'] },
+                },
+              },
+            },
+          },
+          user: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['users'] },
+                },
+              },
+            },
+          },
+          managed_employee: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['employees'] },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  UserRoleAttributes: {
+    type: 'object',
+    properties: {
+      sales_invoices: { type: 'string', enum: ['rw', 'ro', 'na'] },
+      expenditures: { type: 'string', enum: ['rw', 'ro', 'na'] },
+      own_expenditures: { type: 'string', enum: ['rw', 'ro', 'na'] },
+      employees: { type: 'string', enum: ['rw', 'ro', 'na'] },
+      accounts: { type: 'string', enum: ['rw', 'ro', 'na'] },
+      settings: { type: 'string', enum: ['rw', 'ro', 'na'] },
+    },
+  },
+  Warehouse: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['warehouses'] },
+      attributes: { ref: 'WarehouseAttributes' },
+      relationships: {
+        type: 'object',
+        properties: {
+          inventory_levels: {
+            type: 'object',
+            properties: {
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  type: { type: 'string', enum: ['inventory_levels'] },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  WarehouseAttributes: {
+    type: 'object',
+    required: ['name'],
+    properties: {
+      created_at: { type: 'string' },
+      updated_at: { type: 'string' },
+      name: { type: 'string' },
+      address: { type: 'string' },
+      city: { type: 'string' },
+      district: { type: 'string' },
+      is_abroad: { type: 'boolean' },
+      archived: { type: 'boolean' },
+    },
+  },
+  Webhook: {
+    type: 'object',
+    required: ['attributes'],
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['webhook'] },
+      attributes: { ref: 'WebhookAttributes' },
+    },
+  },
+  WebhookAttributes: {
+    type: 'object',
+    properties: {
+      created_at: { type: 'string' },
+      updated_at: { type: 'string' },
+      company_id: { type: 'integer' },
+      model: { type: 'string', enum: ['shipment_document', 'employee', 'product', 'contact', 'stock_movement', 'sales_invoice'] },
+      action: { type: 'string', enum: ['create', 'update', 'delete'] },
+      uri: { type: 'string' },
+    },
+  },
+};
+
+/** Success response schema per operation */
+export const RESPONSE_SCHEMAS: Record<string, SchemaNode> = {
+  listAccounts: {
+    type: 'object',
+    properties: {
+      data: {
+        type: 'array',
+        items: { ref: 'Account' },
+      },
+      meta: { ref: 'ListMeta' },
+    },
+  },
+  createAccount: {
+    type: 'object',
+    properties: {
+      data: { ref: 'Account' },
+    },
+  },
+  showAccount: {
+    type: 'object',
+    properties: {
+      data: { ref: 'Account' },
+    },
+  },
+  updateAccount: {
+    type: 'object',
+    properties: {
+      data: { ref: 'Account' },
+    },
+  },
+  deleteAccount: { type: 'object' },
+  listAccountTransactions: {
+    type: 'object',
+    properties: {
+      data: {
+        type: 'array',
+        items: { ref: 'Transaction' },
+      },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['accounts', 'payments'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+      meta: { ref: 'ListMeta' },
+    },
+  },
+  createDebitTransaction: {
+    type: 'object',
+    properties: {
+      data: { ref: 'Transaction' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['accounts', 'payments'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  createCreditTransaction: {
+    type: 'object',
+    properties: {
+      data: { ref: 'Transaction' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['accounts', 'payments'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  showMe: {
+    type: 'object',
+    properties: {
+      data: { ref: 'Me' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['user_roles', 'companies', 'profiles'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  createBankFee: {
+    type: 'object',
+    properties: {
+      data: { ref: 'BankFee' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories', 'tags'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  showBankFee: {
+    type: 'object',
+    properties: {
+      data: { ref: 'BankFee' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories', 'tags'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  updateBankFee: {
+    type: 'object',
+    properties: {
+      data: { ref: 'BankFee' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories', 'tags'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  deleteBankFee: { type: 'object' },
+  archiveBankFee: {
+    type: 'object',
+    properties: {
+      data: { ref: 'BankFee' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories', 'tags'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  unarchiveBankFee: {
+    type: 'object',
+    properties: {
+      data: { ref: 'BankFee' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories', 'tags'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  payBankFee: {
+    type: 'object',
+    properties: {
+      data: { ref: 'Payment' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['sales_invoices', 'purchase_bills', 'taxes', 'bank_fees', 'salaries', 'checks', 'transactions'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  listContacts: {
+    type: 'object',
+    properties: {
+      data: {
+        type: 'array',
+        items: { ref: 'Contact' },
+      },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories', 'contact_portals', 'contact_people'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+      meta: { ref: 'ListMeta' },
+    },
+  },
+  createContact: {
+    type: 'object',
+    properties: {
+      data: { ref: 'Contact' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories', 'contact_portals', 'contact_people'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  showContact: {
+    type: 'object',
+    properties: {
+      data: { ref: 'Contact' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories', 'contact_portals', 'contact_people'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  updateContact: {
+    type: 'object',
+    properties: {
+      data: { ref: 'Contact' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories', 'contact_portals', 'contact_people'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  deleteContact: { type: 'object' },
+  collectFromContact: {
+    type: 'object',
+    properties: {
+      data: { ref: 'Transaction' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['accounts', 'payments'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  payToContact: {
+    type: 'object',
+    properties: {
+      data: { ref: 'Transaction' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['accounts', 'payments'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  createEArchive: {
+    type: 'object',
+    properties: {
+      data: { ref: 'TrackableJob' },
+    },
+  },
+  showEArchive: {
+    type: 'object',
+    properties: {
+      data: { ref: 'EArchive' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['sales_invoices'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  showEArchivePdf: {
+    type: 'object',
+    properties: {
+      data: { ref: 'EDocumentPdf' },
+    },
+  },
+  listEInvoiceInboxes: {
+    type: 'object',
+    properties: {
+      data: {
+        type: 'array',
+        items: { ref: 'EInvoiceInbox' },
+      },
+      meta: { ref: 'ListMeta' },
+    },
+  },
+  createEInvoice: {
+    type: 'object',
+    properties: {
+      data: { ref: 'TrackableJob' },
+    },
+  },
+  showEInvoice: {
+    type: 'object',
+    properties: {
+      data: { ref: 'EInvoice' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['sales_invoices', 'purchase_bills'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  showEInvoicePdf: {
+    type: 'object',
+    properties: {
+      data: { ref: 'EDocumentPdf' },
+    },
+  },
+  createESmm: {
+    type: 'object',
+    properties: {
+      data: { ref: 'ESmm' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['sales_invoices', 'purchase_bills'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  showESmm: {
+    type: 'object',
+    properties: {
+      data: { ref: 'ESmm' },
+    },
+  },
+  showESmmPdf: {
+    type: 'object',
+    properties: {
+      data: { ref: 'EDocumentPdf' },
+    },
+  },
+  listEmployees: {
+    type: 'object',
+    properties: {
+      data: {
+        type: 'array',
+        items: { ref: 'Employee' },
+      },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories', 'users', 'user_roles'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+      meta: { ref: 'ListMeta' },
+    },
+  },
+  createEmployee: {
+    type: 'object',
+    properties: {
+      data: { ref: 'Employee' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories', 'users', 'user_roles'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  showEmployee: {
+    type: 'object',
+    properties: {
+      data: { ref: 'Employee' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories', 'users', 'user_roles'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  updateEmployee: {
+    type: 'object',
+    properties: {
+      data: { ref: 'Employee' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories', 'users', 'user_roles'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  deleteEmployee: { type: 'object' },
+  archiveEmployee: {
+    type: 'object',
+    properties: {
+      data: { ref: 'Employee' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories', 'users', 'user_roles'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  unarchiveEmployee: {
+    type: 'object',
+    properties: {
+      data: { ref: 'Employee' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories', 'users', 'user_roles'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  listInventoryLevels: {
+    type: 'object',
+    properties: {
+      data: {
+        type: 'array',
+        items: { ref: 'InventoryLevel' },
+      },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['products', 'warehouses'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+      meta: { ref: 'ListMeta' },
+    },
+  },
+  listItemCategories: {
+    type: 'object',
+    properties: {
+      data: {
+        type: 'array',
+        items: { ref: 'ItemCategory' },
+      },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+      meta: { ref: 'ListMeta' },
+    },
+  },
+  createItemCategory: {
+    type: 'object',
+    properties: {
+      data: { ref: 'ItemCategory' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  showItemCategory: {
+    type: 'object',
+    properties: {
+      data: { ref: 'ItemCategory' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  updateItemCategory: {
+    type: 'object',
+    properties: {
+      data: { ref: 'ItemCategory' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  deleteItemCategory: { type: 'object' },
+  listProducts: {
+    type: 'object',
+    properties: {
+      data: {
+        type: 'array',
+        items: { ref: 'Product' },
+      },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['inventory_levels', 'item_categories'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+      meta: { ref: 'ListMeta' },
+    },
+  },
+  createProduct: {
+    type: 'object',
+    properties: {
+      data: { ref: 'Product' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['inventory_levels', 'item_categories'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  showProduct: {
+    type: 'object',
+    properties: {
+      data: { ref: 'Product' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['inventory_levels', 'item_categories'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  updateProduct: {
+    type: 'object',
+    properties: {
+      data: { ref: 'Product' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['inventory_levels', 'item_categories'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  deleteProduct: { type: 'object' },
+  listPurchaseBills: {
+    type: 'object',
+    properties: {
+      data: {
+        type: 'array',
+        items: { ref: 'PurchaseBill' },
+      },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories', 'employees', 'contacts', 'purchase_bill_details', 'payments', 'tags', 'recurrence_plans', 'e_invoices'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+      meta: { ref: 'ListMeta' },
+    },
+  },
+  createPurchaseBillBasic: {
+    type: 'object',
+    properties: {
+      data: { ref: 'PurchaseBill' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories', 'employees', 'contacts', 'purchase_bill_details', 'payments', 'tags', 'recurrence_plans', 'e_invoices'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  createPurchaseBillDetailed: {
+    type: 'object',
+    properties: {
+      data: { ref: 'PurchaseBill' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories', 'employees', 'contacts', 'purchase_bill_details', 'payments', 'tags', 'recurrence_plans', 'e_invoices'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  showPurchaseBill: {
+    type: 'object',
+    properties: {
+      data: { ref: 'PurchaseBill' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories', 'employees', 'contacts', 'purchase_bill_details', 'payments', 'tags', 'recurrence_plans', 'e_invoices'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  deletePurchaseBill: { type: 'object' },
+  updatePurchaseBillBasic: {
+    type: 'object',
+    properties: {
+      data: { ref: 'PurchaseBill' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories', 'employees', 'contacts', 'purchase_bill_details', 'payments', 'tags', 'recurrence_plans', 'e_invoices'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  updatePurchaseBillDetailed: {
+    type: 'object',
+    properties: {
+      data: { ref: 'PurchaseBill' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories', 'employees', 'contacts', 'purchase_bill_details', 'payments', 'tags', 'recurrence_plans', 'e_invoices'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  payPurchaseBill: {
+    type: 'object',
+    properties: {
+      data: { ref: 'Payment' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['sales_invoices', 'purchase_bills', 'taxes', 'bank_fees', 'salaries', 'checks', 'transactions'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  cancelPurchaseBill: {
+    type: 'object',
+    properties: {
+      data: { ref: 'PurchaseBill' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories', 'employees', 'contacts', 'purchase_bill_details', 'payments', 'tags', 'recurrence_plans', 'e_invoices'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  recoverPurchaseBill: {
+    type: 'object',
+    properties: {
+      data: { ref: 'PurchaseBill' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories', 'employees', 'contacts', 'purchase_bill_details', 'payments', 'tags', 'recurrence_plans', 'e_invoices'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  archivePurchaseBill: {
+    type: 'object',
+    properties: {
+      data: { ref: 'PurchaseBill' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories', 'employees', 'contacts', 'purchase_bill_details', 'payments', 'tags', 'recurrence_plans', 'e_invoices'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  unarchivePurchaseBill: {
+    type: 'object',
+    properties: {
+      data: { ref: 'PurchaseBill' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories', 'employees', 'contacts', 'purchase_bill_details', 'payments', 'tags', 'recurrence_plans', 'e_invoices'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  listSalaries: {
+    type: 'object',
+    properties: {
+      data: {
+        type: 'array',
+        items: { ref: 'Salary' },
+      },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['employees', 'item_categories', 'tags'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+      meta: { ref: 'ListMeta' },
+    },
+  },
+  createSalary: {
+    type: 'object',
+    properties: {
+      data: { ref: 'Salary' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['employees', 'item_categories', 'tags'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  showSalary: {
+    type: 'object',
+    properties: {
+      data: { ref: 'Salary' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['employees', 'item_categories', 'tags'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  updateSalary: {
+    type: 'object',
+    properties: {
+      data: { ref: 'Salary' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['employees', 'item_categories', 'tags'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  deleteSalary: { type: 'object' },
+  archiveSalary: {
+    type: 'object',
+    properties: {
+      data: { ref: 'Salary' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['employees', 'item_categories', 'tags'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  unarchiveSalary: {
+    type: 'object',
+    properties: {
+      data: { ref: 'Salary' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['employees', 'item_categories', 'tags'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  paySalary: {
+    type: 'object',
+    properties: {
+      data: { ref: 'Payment' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['sales_invoices', 'purchase_bills', 'taxes', 'bank_fees', 'salaries', 'checks', 'transactions'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  listSalesInvoices: {
+    type: 'object',
+    properties: {
+      data: {
+        type: 'array',
+        items: { ref: 'SalesInvoice' },
+      },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories', 'contacts', 'sales_invoice_details', 'payments', 'tags', 'sales_offers', 'sharings', 'recurrence_plans', 'e_archives', 'e_invoices'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+      meta: { ref: 'ListMeta' },
+    },
+  },
+  createSalesInvoice: {
+    type: 'object',
+    properties: {
+      data: { ref: 'SalesInvoice' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories', 'contacts', 'sales_invoice_details', 'payments', 'tags', 'sales_offers', 'sharings', 'recurrence_plans', 'e_archives', 'e_invoices'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  showSalesInvoice: {
+    type: 'object',
+    properties: {
+      data: { ref: 'SalesInvoice' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories', 'contacts', 'sales_invoice_details', 'payments', 'tags', 'sales_offers', 'sharings', 'recurrence_plans', 'e_archives', 'e_invoices'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  updateSalesInvoice: {
+    type: 'object',
+    properties: {
+      data: { ref: 'SalesInvoice' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories', 'contacts', 'sales_invoice_details', 'payments', 'tags', 'sales_offers', 'sharings', 'recurrence_plans', 'e_archives', 'e_invoices'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  deleteSalesInvoice: { type: 'object' },
+  paySalesInvoice: {
+    type: 'object',
+    properties: {
+      data: { ref: 'Payment' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['sales_invoices', 'purchase_bills', 'taxes', 'bank_fees', 'salaries', 'checks', 'transactions'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  cancelSalesInvoice: {
+    type: 'object',
+    properties: {
+      data: { ref: 'SalesInvoice' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories', 'contacts', 'sales_invoice_details', 'payments', 'tags', 'sales_offers', 'sharings', 'recurrence_plans', 'e_archives', 'e_invoices'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  recoverSalesInvoice: {
+    type: 'object',
+    properties: {
+      data: { ref: 'SalesInvoice' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories', 'contacts', 'sales_invoice_details', 'payments', 'tags', 'sales_offers', 'sharings', 'recurrence_plans', 'e_archives', 'e_invoices'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  archiveSalesInvoice: {
+    type: 'object',
+    properties: {
+      data: { ref: 'SalesInvoice' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories', 'contacts', 'sales_invoice_details', 'payments', 'tags', 'sales_offers', 'sharings', 'recurrence_plans', 'e_archives', 'e_invoices'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  unarchiveSalesInvoice: {
+    type: 'object',
+    properties: {
+      data: { ref: 'SalesInvoice' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories', 'contacts', 'sales_invoice_details', 'payments', 'tags', 'sales_offers', 'sharings', 'recurrence_plans', 'e_archives', 'e_invoices'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  convertEstimateToInvoice: {
+    type: 'object',
+    properties: {
+      data: { ref: 'SalesInvoice' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories', 'contacts', 'sales_invoice_details', 'payments', 'tags', 'sales_offers', 'sharings', 'recurrence_plans', 'e_archives', 'e_invoices'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  listSalesOffers: {
+    type: 'object',
+    properties: {
+      data: {
+        type: 'array',
+        items: { ref: 'SalesOffers' },
+      },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['contacts', 'sales_invoice'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+      meta: { ref: 'ListMeta' },
+    },
+  },
+  createSalesOffers: {
+    type: 'object',
+    properties: {
+      data: { ref: 'SalesOffers' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['contacts', 'sales_invoices', 'details', 'activities', 'sharings'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  showSalesOffers: {
+    type: 'object',
+    properties: {
+      data: { ref: 'SalesOffers' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['contacts', 'sales_invoices', 'details', 'activities', 'sharings'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  updateSalesOffers: {
+    type: 'object',
+    properties: {
+      data: { ref: 'SalesOffers' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['contacts', 'sales_invoices', 'details', 'activities', 'sharings'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  deleteSalesOffers: { type: 'object' },
+  showSalesOffersPdf: {
+    type: 'object',
+    properties: {
+      data: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          type: { type: 'string', enum: ['trackable_jobs'] },
+          attributes: { ref: 'SalesOffersPdf' },
+          links: {
+            type: 'object',
+            properties: {
+              self: { type: 'string' },
+            },
+          },
+          meta: { ref: 'ListMeta' },
+        },
+      },
+    },
+  },
+  archiveSalesOffers: {
+    type: 'object',
+    properties: {
+      data: { ref: 'SalesOffers' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string' },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  unarchiveSalesOffers: {
+    type: 'object',
+    properties: {
+      data: { ref: 'SalesOffers' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['contacts', 'sales_invoices', 'details', 'activities', 'sharings'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  showSalesOffersDetails: {
+    type: 'object',
+    properties: {
+      data: { ref: 'SalesOffersDetails' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['products'] },
+            attributes: { ref: 'ProductAttributes' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  updateSalesOffersStatus: {
+    type: 'object',
+    properties: {
+      data: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          type: { type: 'string', enum: ['sales_offers'] },
+          attributes: { ref: 'SalesOfferAttributes' },
+          relationships: {
+            type: 'object',
+            properties: {
+              activities: {
+                type: 'object',
+                properties: {
+                  data: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        id: { type: 'string' },
+                        type: { type: 'string', enum: ['activities'] },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['activities'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  'e-mailSalesOffers': {
+    type: 'object',
+    properties: {
+      data: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['sharings'] },
+            attributes: {
+              type: 'object',
+              properties: {
+                created_at: { type: 'string' },
+                email: { type: 'string' },
+                email_status: { type: 'string' },
+                message: { type: 'string' },
+                properties: { type: 'object' },
+                subject: { type: 'string' },
+                updated_at: { type: 'string' },
+              },
+            },
+            relationships: {
+              type: 'object',
+              properties: {
+                shareable: { type: 'object' },
+                collaborator: {
+                  type: 'object',
+                  properties: {
+                    data: {
+                      type: 'object',
+                      properties: {
+                        id: { type: 'string' },
+                        type: { type: 'string', enum: ['collaborators'] },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+            meta: {
+              type: 'object',
+              properties: {
+                created_at: { type: 'string' },
+                updated_at: { type: 'string' },
+              },
+            },
+          },
+        },
+      },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string' },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  listShipmentDocuments: {
+    type: 'object',
+    properties: {
+      data: {
+        type: 'array',
+        items: { ref: 'ShipmentDocument' },
+      },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['contacts', 'tags', 'stock_movements', 'sales_invoices', 'purchase_bills'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+      meta: { ref: 'ListMeta' },
+    },
+  },
+  createShipmentDocument: {
+    type: 'object',
+    properties: {
+      data: { ref: 'ShipmentDocument' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['contacts', 'tags', 'stock_movements', 'sales_invoices', 'purchase_bills'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  showShipmentDocument: {
+    type: 'object',
+    properties: {
+      data: { ref: 'ShipmentDocument' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['contacts', 'tags', 'stock_movements', 'sales_invoices', 'purchase_bills'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  updateShipmentDocument: {
+    type: 'object',
+    properties: {
+      data: { ref: 'ShipmentDocument' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['contacts', 'tags', 'stock_movements', 'sales_invoices', 'purchase_bills'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  deleteShipmentDocument: { type: 'object' },
+  listStockMovements: {
+    type: 'object',
+    properties: {
+      data: {
+        type: 'array',
+        items: { ref: 'StockMovement' },
+      },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['warehouses', 'products', 'shipment_documents', 'sales_invoice_details', 'purchase_bill_details', 'contacts'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+      meta: { ref: 'ListMeta' },
+    },
+  },
+  createStockUpdate: {
+    type: 'object',
+    properties: {
+      data: { ref: 'StockUpdate' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['stock_update_details'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  listTags: {
+    type: 'object',
+    properties: {
+      data: {
+        type: 'array',
+        items: { ref: 'Tag' },
+      },
+      meta: { ref: 'ListMeta' },
+    },
+  },
+  createTag: {
+    type: 'object',
+    properties: {
+      data: { ref: 'Tag' },
+    },
+  },
+  showTag: {
+    type: 'object',
+    properties: {
+      data: { ref: 'Tag' },
+    },
+  },
+  updateTag: {
+    type: 'object',
+    properties: {
+      data: { ref: 'Tag' },
+    },
+  },
+  deleteTag: { type: 'object' },
+  listTaxes: {
+    type: 'object',
+    properties: {
+      data: {
+        type: 'array',
+        items: { ref: 'Tax' },
+      },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories', 'tags'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+      meta: { ref: 'ListMeta' },
+    },
+  },
+  createTax: {
+    type: 'object',
+    properties: {
+      data: { ref: 'Tax' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories', 'tags'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  showTax: {
+    type: 'object',
+    properties: {
+      data: { ref: 'Tax' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories', 'tags'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  updateTax: {
+    type: 'object',
+    properties: {
+      data: { ref: 'Tax' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories', 'tags'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  deleteTax: { type: 'object' },
+  archiveTax: {
+    type: 'object',
+    properties: {
+      data: { ref: 'Tax' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories', 'tags'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  unarchiveTax: {
+    type: 'object',
+    properties: {
+      data: { ref: 'Tax' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['item_categories', 'tags'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  payTax: {
+    type: 'object',
+    properties: {
+      data: { ref: 'Payment' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['sales_invoices', 'purchase_bills', 'taxes', 'bank_fees', 'salaries', 'checks', 'transactions'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  showTrackableJob: {
+    type: 'object',
+    properties: {
+      data: { ref: 'TrackableJob' },
+    },
+  },
+  showTransaction: {
+    type: 'object',
+    properties: {
+      data: { ref: 'Transaction' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['accounts', 'payments'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  deleteTransaction: { type: 'object' },
+  listWarehouses: {
+    type: 'object',
+    properties: {
+      data: {
+        type: 'array',
+        items: { ref: 'Warehouse' },
+      },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['inventory_levels'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+      meta: { ref: 'ListMeta' },
+    },
+  },
+  createWarehouse: {
+    type: 'object',
+    properties: {
+      data: { ref: 'Warehouse' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['inventory_levels'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  showWarehouse: {
+    type: 'object',
+    properties: {
+      data: { ref: 'Warehouse' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['inventory_levels'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  updateWarehouse: {
+    type: 'object',
+    properties: {
+      data: { ref: 'Warehouse' },
+      included: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            type: { type: 'string', enum: ['inventory_levels'] },
+            attributes: { type: 'object' },
+            relationships: { type: 'object' },
+          },
+        },
+      },
+    },
+  },
+  deleteWarehouse: { type: 'object' },
+  getWebhook: {
+    type: 'object',
+    properties: {
+      data: {
+        type: 'array',
+        items: { ref: 'Webhook' },
+      },
+    },
+  },
+  createWebhook: {
+    type: 'object',
+    properties: {
+      data: { ref: 'Webhook' },
+    },
+  },
+  updateWebhook: {
+    type: 'object',
+    properties: {
+      data: { ref: 'Webhook' },
+    },
+  },
+  deleteWebhook: { type: 'object' },
+};
@@ -66,7 +66,7 @@ export interface Account {
   /** Type of the resource */
   type?: 'accounts';
   attributes: AccountAttributes;
-  relationships?: string;
+  relationships?: unknown;
 }
 
 export interface AccountAttributes {
@@ -101,7 +101,7 @@ export interface AccountDebitCreditTransactionForm {
   /** Type of the resource */
   type?: 'transactions';
   attributes: AccountDebitCreditTransactionFormAttributes;
-  relationships?: string;
+  relationships?: unknown;
 }
 
 export interface AccountDebitCreditTransactionFormAttributes {
@@ -119,13 +119,14 @@ export interface Address {
   type?: 'addresses';
   attributes: AddressAttributes;
   relationships?: {
-  addressable?: {
-  data?: {
-  id?: string;
-  type?: 'companies';
-};
-};
-};
+    addressable?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'companies';
+      };
+    };
+  };
 }
 
 export interface AddressAttributes {
@@ -141,19 +142,21 @@ export interface BankFee {
   type?: 'bank_fees';
   attributes: BankFeeAttributes;
   relationships?: {
-  category?: {
-  data?: {
-  id?: string;
-  type?: 'item_categories';
-};
-};
-  tags?: {
-  data?: {
-  id?: string;
-  type?: 'tags';
-}[];
-};
-};
+    category?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'item_categories';
+      };
+    };
+    tags?: {
+      data?: Array<{
+        id?: string;
+        /** Type of the resource */
+        type?: 'tags';
+      }>;
+    };
+  };
 }
 
 export interface BankFeeAttributes {
@@ -177,25 +180,28 @@ export interface Company {
   type?: 'companies';
   attributes: CompanyAttributes;
   relationships?: {
-  default_warehouse?: {
-  data?: {
-  id?: string;
-  type?: 'warehouses';
-};
-};
-  owner?: {
-  data?: {
-  id?: string;
-  type?: 'users';
-};
-};
-  address?: {
-  data?: {
-  id?: string;
-  type?: 'addresses';
-};
-};
-};
+    default_warehouse?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'warehouses';
+      };
+    };
+    owner?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'users';
+      };
+    };
+    address?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'addresses';
+      };
+    };
+  };
 }
 
 export interface CompanyAttributes {
@@ -227,7 +233,7 @@ export interface CompanyAttributes {
   readonly is_in_trial_period?: boolean;
   readonly has_iyzico_integration?: boolean;
   readonly has_active_subscription?: boolean;
-  logo?: string;
+  logo?: unknown;
   readonly subscription_info_text?: string;
   readonly subscription_info_title?: string;
   readonly subscription_url?: string;
@@ -244,25 +250,28 @@ export interface Contact {
   type?: 'contacts';
   attributes: ContactAttributes;
   relationships?: {
-  category?: {
-  data?: {
-  id?: string;
-  type?: 'item_categories';
-};
-};
-  contact_portal?: {
-  data?: {
-  id?: string;
-  type?: 'contact_portals';
-};
-};
-  contact_people?: {
-  data?: {
-  id?: string;
-  type?: 'contact_people';
-}[];
-};
-};
+    category?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'item_categories';
+      };
+    };
+    contact_portal?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'contact_portals';
+      };
+    };
+    contact_people?: {
+      data?: Array<{
+        id?: string;
+        /** Type of the resource */
+        type?: 'contact_people';
+      }>;
+    };
+  };
 }
 
 export interface ContactAttributes {
@@ -309,8 +318,9 @@ export interface ContactAttributes {
   /** Listelenmemiş müşteri sonradan listelenebilir hale getirilemez */
   untrackable?: boolean;
   invoicing_preferences?: {
-  e_document_accounts?: number[];
-};
+    /** Bu alana hesap ID'leri eklenebilir. */
+    e_document_accounts?: number[];
+  };
 }
 
 export interface ContactCollectionForm {
@@ -318,27 +328,33 @@ export interface ContactCollectionForm {
   /** Type of the resource */
   type?: 'transactions';
   attributes: ContactCollectionFormAttributes;
-  relationships?: string;
+  relationships?: unknown;
 }
 
-export type ContactCollectionFormAttributes = string;
+export interface ContactCollectionFormAttributes extends PaymentFormAttributes {
+  /** Satış Faturası ID'leri - *Tahsilatınızın öncelikli olarak eşleşmesini istediğiniz faturalar* */
+  payable_ids?: number[];
+}
 
 export interface ContactPaymentForm {
   id?: string;
   /** Type of the resource */
   type?: 'transactions';
   attributes: ContactPaymentFormAttributes;
-  relationships?: string;
+  relationships?: unknown;
 }
 
-export type ContactPaymentFormAttributes = string;
+export interface ContactPaymentFormAttributes extends PaymentFormAttributes {
+  /** Alış Faturası ID'leri - *Ödemenizin öncelikli olarak eşleşmesini istediğiniz faturalar* */
+  payable_ids?: number[];
+}
 
 export interface ContactPerson {
   id?: string;
   /** Type of the resource */
   type?: 'contact_people';
   attributes: ContactPersonAttributes;
-  relationships?: string;
+  relationships?: unknown;
 }
 
 export interface ContactPersonAttributes {
@@ -356,13 +372,14 @@ export interface EArchive {
   type?: 'e_archives';
   attributes: EArchiveAttributes;
   relationships?: {
-  sales_invoice?: {
-  data?: {
-  id?: string;
-  type?: 'sales_invoices';
-};
-};
-};
+    sales_invoice?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'sales_invoices';
+      };
+    };
+  };
 }
 
 export interface EArchiveAttributes {
@@ -384,34 +401,63 @@ export interface EArchiveForm {
   /** Type of the resource */
   type?: 'e_archives';
   attributes: EArchiveFormAttributes;
-  relationships?: string;
+  relationships?: unknown;
+}
+
+export interface EArchiveFormAttributes extends EDocumentCommonFormAttributes {
+  /** İnternet satışı bilgileri. İnternet üzerinden bir satış yapıyorsanız doldurmak zorunlu. */
+  internet_sale?: {
+    /** İnternet adresi */
+    url?: string;
+    /** Ödeme tipi */
+    payment_type?: 'KREDIKARTI/BANKAKARTI' | 'EFT/HAVALE' | 'KAPIDAODEME' | 'ODEMEARACISI';
+    /** Ödeme platformu - *(iyzico, payu gibi)* */
+    payment_platform?: string;
+    /** Ödeme tarihi */
+    payment_date?: string;
+  };
+  /** Gönderi bilgileri. Gönderim yapılıyorsa doldurmak zorunlu. Örneğin bir hizmet satışı için kargolanan veya gönderilen birşey yoktur, bu durumda doldurulması zorunlu değil ancak bir e-ticaret sitesi olarak yapılan satışta müşteriye kargo / kurye ile bir ürün gönderimi vardır, bu durumda doldurmak zorunlu. */
+  shipment?: {
+    /** Kargo şirketi adı *(Eğer kargo ile gönderiliyorsa)* */
+    title?: string;
+    /** Kargo şirketi VKN *(Eğer kargo ile gönderiliyorsa)* */
+    vkn?: string;
+    /** Kurye adı *(Eğer kurye ile gönderiliyorsa)* */
+    name?: string;
+    /** Kurye TCKN *(Eğer kurye ile gönderiliyorsa)* */
+    tckn?: string;
+    /** Gönderi tarihi */
+    date?: string;
+  };
 }
 
-export type EArchiveFormAttributes = string;
-
 export interface EDocumentCommonForm {
   id?: string;
   /** Type of the resource */
   type?: 'e_document_commons';
   attributes: EDocumentCommonFormAttributes;
-  relationships?: string;
+  relationships?: unknown;
 }
 
 export interface EDocumentCommonFormAttributes {
   /** Tevkifat kodları - *Tevkifat faturadaki her kalem için ayrıdır. Tevkifat uygulanan her ürün için Tevkifat kodu göndermeniz gerekmektedir.* - *Bu dosyada ilgili kodları bulabilirsiniz: https://ebelge.gib.gov.tr/dosyalar/kilavuzlar/UBLTR_1.2.1_Kilavuzlar.zip* */
-  vat_withholding_params?: {
-  detail_id?: number;
-  vat_withholding_code?: string;
-}[];
+  vat_withholding_params?: Array<{
+    /** Fatura kalem ID */
+    detail_id?: number;
+    /** Tevkifat kodu */
+    vat_withholding_code?: string;
+  }>;
   /** KDV'si %0 olan hizmet ve ürünlerin KDV muafiyet sebebi kodu. - *Bu dosyada ilgili kodları bulabilirsiniz: https://ebelge.gib.gov.tr/dosyalar/kilavuzlar/UBLTR_1.2.1_Kilavuzlar.zip* */
   vat_exemption_reason_code?: string;
   /** Eğer KDV muafiyet sebebi kodu 250 veya 350 ise KDV muafiyet sebebi açıklaması. */
   vat_exemption_reason?: string;
   /** ÖTV kodları - *Özel tüketim vergisi faturadaki her kalem için ayrıdır. ÖTV uygulanan her ürün için ÖTV kodu göndermeniz gerekmektedir.* */
-  excise_duty_codes?: {
-  product?: number;
-  sales_excise_duty_code?: '57' | '59' | '60' | '61' | '62' | '63' | '9077';
-}[];
+  excise_duty_codes?: Array<{
+    /** Ürün ID */
+    product?: number;
+    /** ÖTV kodu */
+    sales_excise_duty_code?: 57 | 59 | 60 | 61 | 62 | 63 | 9077;
+  }>;
 }
 
 export interface EDocumentPdf {
@@ -419,7 +465,7 @@ export interface EDocumentPdf {
   /** Type of the resource */
   type?: 'e_document_pdfs';
   attributes: EDocumentPdfAttributes;
-  relationships?: string;
+  relationships?: unknown;
 }
 
 export interface EDocumentPdfAttributes {
@@ -433,13 +479,14 @@ export interface EInvoice {
   type?: 'e_invoices';
   attributes: EInvoiceAttributes;
   relationships?: {
-  invoice?: {
-  data?: {
-  id?: string;
-  type?: 'sales_invoices' | 'purchase_bills';
-};
-};
-};
+    invoice?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'sales_invoices' | 'purchase_bills';
+      };
+    };
+  };
 }
 
 export interface EInvoiceAttributes {
@@ -479,17 +526,28 @@ export interface EInvoiceForm {
   /** Type of the resource */
   type?: 'e_invoices';
   attributes: EInvoiceFormAttributes;
-  relationships?: string;
+  relationships?: unknown;
 }
 
-export type EInvoiceFormAttributes = string;
+export interface EInvoiceFormAttributes extends EDocumentCommonFormAttributes {
+  /** Gönderim senaryosu */
+  scenario?: 'basic' | 'commercial';
+  /** Alıcının e-Fatura gelen kutusu - *[e-Fatura Gelen Kutusu Öğrenme](/#operation/listEInvoiceInboxes)* */
+  to?: string;
+  /** Özel gereksinimler - *[Detaylı bilgi](#section/SIK-KULLANILAN-ISLEMLER/Belirli-Firmalar-Icin-Ozel-Gereksinimler)* */
+  custom_requirement_params?: {
+    integration?: {
+      data?: Record<string, unknown>;
+    };
+  };
+}
 
 export interface EInvoiceInbox {
   id?: string;
   /** Type of the resource */
   type?: 'e_invoice_inboxes';
   attributes: EInvoiceInboxAttributes;
-  relationships?: string;
+  relationships?: unknown;
 }
 
 export interface EInvoiceInboxAttributes {
@@ -509,13 +567,14 @@ export interface ESmm {
   type?: 'e_smms';
   attributes: ESmmAttributes;
   relationships?: {
-  sales_invoice?: {
-  data?: {
-  id?: string;
-  type?: 'sales_invoices';
-};
-};
-};
+    sales_invoice?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'sales_invoices';
+      };
+    };
+  };
 }
 
 export interface ESmmAttributes {
@@ -534,7 +593,7 @@ export interface ESmmCommonForm {
   /** Type of the resource */
   type?: 'e_smm_commons';
   attributes: ESmmCommonFormAttributes;
-  relationships?: string;
+  relationships?: unknown;
 }
 
 export interface ESmmCommonFormAttributes {
@@ -550,25 +609,28 @@ export interface Employee {
   type?: 'employees';
   attributes: EmployeeAttributes;
   relationships?: {
-  category?: {
-  data?: {
-  id?: string;
-  type?: 'item_categories';
-};
-};
-  managed_by_user?: {
-  data?: {
-  id?: string;
-  type?: 'users';
-};
-};
-  managed_by_user_role?: {
-  data?: {
-  id?: string;
-  type?: 'user_roles';
-};
-};
-};
+    category?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'item_categories';
+      };
+    };
+    managed_by_user?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'users';
+      };
+    };
+    managed_by_user_role?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'user_roles';
+      };
+    };
+  };
 }
 
 export interface EmployeeAttributes {
@@ -593,19 +655,21 @@ export interface InventoryLevel {
   type?: 'inventory_levels';
   attributes: InventoryLevelAttributes;
   relationships?: {
-  product?: {
-  data?: {
-  id?: string;
-  type?: 'products';
-};
-};
-  warehouse?: {
-  data?: {
-  id?: string;
-  type?: 'warehouses';
-};
-};
-};
+    product?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'products';
+      };
+    };
+    warehouse?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'warehouses';
+      };
+    };
+  };
 }
 
 export interface InventoryLevelAttributes {
@@ -624,19 +688,21 @@ export interface ItemCategory {
   type?: 'item_categories';
   attributes: ItemCategoryAttributes;
   relationships?: {
-  parent_category?: {
-  data?: {
-  id?: string;
-  type?: 'item_categories';
-};
-};
-  subcategories?: {
-  data?: {
-  id?: string;
-  type?: 'item_categories';
-}[];
-};
-};
+    parent_category?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'item_categories';
+      };
+    };
+    subcategories?: {
+      data?: Array<{
+        id?: string;
+        /** Type of the resource */
+        type?: 'item_categories';
+      }>;
+    };
+  };
 }
 
 export interface ItemCategoryAttributes {
@@ -660,25 +726,28 @@ export interface Me {
   type?: 'users';
   attributes: MeAttributes;
   relationships?: {
-  user_roles?: {
-  data?: {
-  id?: string;
-  type?: 'user_roles';
-}[];
-};
-  companies?: {
-  data?: {
-  id?: string;
-  type?: 'companies';
-}[];
-};
-  profile?: {
-  data?: {
-  id?: string;
-  type?: 'profiles';
-};
-};
-};
+    user_roles?: {
+      data?: Array<{
+        id?: string;
+        /** Type of the resource */
+        type?: 'user_roles';
+      }>;
+    };
+    companies?: {
+      data?: Array<{
+        id?: string;
+        /** Type of the resource */
+        type?: 'companies';
+      }>;
+    };
+    profile?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'profiles';
+      };
+    };
+  };
 }
 
 export interface MeAttributes {
@@ -693,19 +762,21 @@ export interface Payment {
   type?: 'payments';
   attributes: PaymentAttributes;
   relationships?: {
-  payable?: {
-  data?: {
-  id?: string;
-  type?: 'sales_invoices' | 'purchase_bills' | 'taxes' | 'bank_fees' | 'salaries' | 'checks';
-};
-};
-  transaction?: {
-  data?: {
-  id?: string;
-  type?: 'transactions';
-};
-};
-};
+    payable?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'sales_invoices' | 'purchase_bills' | 'taxes' | 'bank_fees' | 'salaries' | 'checks';
+      };
+    };
+    transaction?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'transactions';
+      };
+    };
+  };
 }
 
 export interface PaymentAttributes {
@@ -725,7 +796,7 @@ export interface PaymentForm {
   /** Type of the resource */
   type?: 'payments';
   attributes: PaymentFormAttributes;
-  relationships?: string;
+  relationships?: unknown;
 }
 
 export interface PaymentFormAttributes {
@@ -747,19 +818,21 @@ export interface Product {
   type?: 'products';
   attributes: ProductAttributes;
   relationships?: {
-  inventory_levels?: {
-  data?: {
-  id?: string;
-  type?: 'inventory_levels';
-};
-};
-  category?: {
-  data?: {
-  id?: string;
-  type?: 'item_categories';
-};
-};
-};
+    inventory_levels?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'inventory_levels';
+      };
+    };
+    category?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'item_categories';
+      };
+    };
+  };
 }
 
 export interface ProductAttributes {
@@ -813,19 +886,20 @@ export interface Profile {
   type?: 'profiles';
   attributes: ProfileAttributes;
   relationships?: {
-  user?: {
-  data?: {
-  id?: string;
-  type?: 'users';
-};
-};
-};
+    user?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'users';
+      };
+    };
+  };
 }
 
 export interface ProfileAttributes {
   readonly phone?: string;
   readonly job_title?: string;
-  avatar?: string;
+  avatar?: unknown;
 }
 
 export interface PurchaseBill {
@@ -834,61 +908,70 @@ export interface PurchaseBill {
   type?: 'purchase_bills';
   attributes: PurchaseBillAttributes;
   relationships?: {
-  category?: {
-  data?: {
-  id?: string;
-  type?: 'item_categories';
-};
-};
-  spender?: {
-  data?: {
-  id?: string;
-  type?: 'employees';
-};
-};
-  supplier?: {
-  data?: {
-  id?: string;
-  type?: 'contacts';
-};
-};
-  details?: {
-  data?: {
-  id?: string;
-  type?: 'purchase_bill_details';
-}[];
-};
-  payments?: {
-  data?: {
-  id?: string;
-  type?: 'payments';
-}[];
-};
-  tags?: {
-  data?: {
-  id?: string;
-  type?: 'tags';
-}[];
-};
-  recurrence_plan?: {
-  data?: {
-  id?: string;
-  type?: 'recurrence_plans';
-};
-};
-  active_e_document?: {
-  data?: {
-  id?: string;
-  type?: 'e_invoices';
-};
-};
-  pay_to?: {
-  data?: {
-  id?: string;
-  type?: 'contacts' | 'employees';
-};
-};
-};
+    category?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'item_categories';
+      };
+    };
+    spender?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'employees';
+      };
+    };
+    supplier?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'contacts';
+      };
+    };
+    details?: {
+      data?: Array<{
+        id?: string;
+        /** Type of the resource */
+        type?: 'purchase_bill_details';
+      }>;
+    };
+    payments?: {
+      data?: Array<{
+        id?: string;
+        /** Type of the resource */
+        type?: 'payments';
+      }>;
+    };
+    tags?: {
+      data?: Array<{
+        id?: string;
+        /** Type of the resource */
+        type?: 'tags';
+      }>;
+    };
+    recurrence_plan?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'recurrence_plans';
+      };
+    };
+    active_e_document?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'e_invoices';
+      };
+    };
+    pay_to?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'contacts' | 'employees';
+      };
+    };
+  };
 }
 
 export interface PurchaseBillAttributes {
@@ -929,7 +1012,7 @@ export interface PurchaseBillBasicForm {
   /** Type of the resource */
   type?: 'purchase_bills';
   attributes: PurchaseBillBasicFormAttributes;
-  relationships?: string;
+  relationships?: unknown;
 }
 
 export interface PurchaseBillBasicFormAttributes {
@@ -950,19 +1033,21 @@ export interface PurchaseBillDetail {
   type?: 'purchase_bill_details';
   attributes: PurchaseBillDetailAttributes;
   relationships?: {
-  warehouse?: {
-  data?: {
-  id?: string;
-  type?: 'warehouses';
-};
-};
-  product?: {
-  data?: {
-  id?: string;
-  type?: 'products';
-};
-};
-};
+    warehouse?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'warehouses';
+      };
+    };
+    product?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'products';
+      };
+    };
+  };
 }
 
 export interface PurchaseBillDetailAttributes {
@@ -987,7 +1072,7 @@ export interface PurchaseBillDetailedForm {
   /** Type of the resource */
   type?: 'purchase_bills';
   attributes: PurchaseBillDetailedFormAttributes;
-  relationships?: string;
+  relationships?: unknown;
 }
 
 export interface PurchaseBillDetailedFormAttributes {
@@ -1009,25 +1094,28 @@ export interface Salary {
   type?: 'salaries';
   attributes: SalaryAttributes;
   relationships?: {
-  employee?: {
-  data?: {
-  id?: string;
-  type?: 'employees';
-};
-};
-  category?: {
-  data?: {
-  id?: string;
-  type?: 'item_categories';
-};
-};
-  tags?: {
-  data?: {
-  id?: string;
-  type?: 'tags';
-}[];
-};
-};
+    employee?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'employees';
+      };
+    };
+    category?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'item_categories';
+      };
+    };
+    tags?: {
+      data?: Array<{
+        id?: string;
+        /** Type of the resource */
+        type?: 'tags';
+      }>;
+    };
+  };
 }
 
 export interface SalaryAttributes {
@@ -1051,61 +1139,70 @@ export interface SalesInvoice {
   type?: 'sales_invoices';
   attributes: SalesInvoiceAttributes;
   relationships?: {
-  category?: {
-  data?: {
-  id?: string;
-  type?: 'item_categories';
-};
-};
-  contact?: {
-  data?: {
-  id?: string;
-  type?: 'contacts';
-};
-};
-  details?: {
-  data?: {
-  id?: string;
-  type?: 'sales_invoice_details';
-}[];
-};
-  payments?: {
-  data?: {
-  id?: string;
-  type?: 'payments';
-}[];
-};
-  tags?: {
-  data?: {
-  id?: string;
-  type?: 'tags';
-}[];
-};
-  sales_offer?: {
-  data?: {
-  id?: string;
-  type?: 'sales_offers';
-};
-};
-  sharings?: {
-  data?: {
-  id?: string;
-  type?: 'sharings';
-}[];
-};
-  recurrence_plan?: {
-  data?: {
-  id?: string;
-  type?: 'recurrence_plans';
-};
-};
-  active_e_document?: {
-  data?: {
-  id?: string;
-  type?: 'e_archives' | 'e_invoices';
-};
-};
-};
+    category?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'item_categories';
+      };
+    };
+    contact?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'contacts';
+      };
+    };
+    details?: {
+      data?: Array<{
+        id?: string;
+        /** Type of the resource */
+        type?: 'sales_invoice_details';
+      }>;
+    };
+    payments?: {
+      data?: Array<{
+        id?: string;
+        /** Type of the resource */
+        type?: 'payments';
+      }>;
+    };
+    tags?: {
+      data?: Array<{
+        id?: string;
+        /** Type of the resource */
+        type?: 'tags';
+      }>;
+    };
+    sales_offer?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'sales_offers';
+      };
+    };
+    sharings?: {
+      data?: Array<{
+        id?: string;
+        /** Type of the resource */
+        type?: 'sharings';
+      }>;
+    };
+    recurrence_plan?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'recurrence_plans';
+      };
+    };
+    active_e_document?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'e_archives' | 'e_invoices';
+      };
+    };
+  };
 }
 
 export interface SalesInvoiceAttributes {
@@ -1199,10 +1296,16 @@ export interface SalesInvoiceCreateUpdate {
   /** Type of the resource */
   type?: 'sales_invoices';
   attributes: SalesInvoiceCreateUpdateAttributes;
-  relationships?: string;
+  relationships?: unknown;
 }
 
-export type SalesInvoiceCreateUpdateAttributes = string;
+export interface SalesInvoiceCreateUpdateAttributes extends SalesInvoiceAttributes {
+  /** Peşin faturalar için ödeme oluşturma / güncellemede kullanılır. */
+  payment_account_id?: number;
+  /** Peşin faturalar için ödeme oluşturma / güncellemede kullanılır. */
+  payment_date?: string;
+  payment_description?: string;
+}
 
 export interface SalesInvoiceDetail {
   id?: string;
@@ -1210,19 +1313,21 @@ export interface SalesInvoiceDetail {
   type?: 'sales_invoice_details';
   attributes: SalesInvoiceDetailAttributes;
   relationships?: {
-  warehouse?: {
-  data?: {
-  id?: string;
-  type?: 'warehouses';
-};
-};
-  product?: {
-  data?: {
-  id?: string;
-  type?: 'products';
-};
-};
-};
+    warehouse?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'warehouses';
+      };
+    };
+    product?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'products';
+      };
+    };
+  };
 }
 
 export interface SalesInvoiceDetailAttributes {
@@ -1326,37 +1431,42 @@ export interface SalesOffers {
   type?: 'sales_offers';
   attributes: SalesOfferAttributes;
   relationships?: {
-  sales_invoice?: {
-  data?: {
-  id?: string;
-  type?: 'sales_invoices';
-};
-};
-  contact?: {
-  data?: {
-  id?: string;
-  type?: 'contacts';
-};
-};
-  details?: {
-  data?: {
-  id?: string;
-  type?: 'sales_offer_details';
-}[];
-};
-  activities?: {
-  data?: {
-  id?: string;
-  type?: 'activities';
-}[];
-};
-  sharings?: {
-  data?: {
-  id?: string;
-  type?: 'sharings';
-}[];
-};
-};
+    sales_invoice?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'sales_invoices';
+      };
+    };
+    contact?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'contacts';
+      };
+    };
+    details?: {
+      data?: Array<{
+        id?: string;
+        /** Type of the resource */
+        type?: 'sales_offer_details';
+      }>;
+    };
+    activities?: {
+      data?: Array<{
+        id?: string;
+        /** Type of the resource */
+        type?: 'activities';
+      }>;
+    };
+    sharings?: {
+      data?: Array<{
+        id?: string;
+        /** Type of the resource */
+        type?: 'sharings';
+      }>;
+    };
+  };
 }
 
 export interface SalesOffersCreateUpdateAttributes {
@@ -1450,13 +1560,14 @@ export interface SalesOffersDetails {
   type?: 'sales_offers_details';
   attributes: SalesOffersDetailAttributes;
   relationships?: {
-  product?: {
-  data?: {
-  id?: string;
-  type?: 'products';
-};
-};
-};
+    product?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'products';
+      };
+    };
+  };
 }
 
 export interface SalesOffersPdf {
@@ -1464,7 +1575,7 @@ export interface SalesOffersPdf {
   /** Type of the resource */
   type?: 'sales_offers_pdfs';
   attributes: SalesOffersPdfAttributes;
-  relationships?: string;
+  relationships?: unknown;
 }
 
 export interface SalesOffersPdfAttributes {
@@ -1483,10 +1594,11 @@ export interface SalesOffersUpdateStatusAttributes {
 
 export interface SalesOffersUpdateStatusBody {
   data: {
-  id?: string;
-  type?: 'sales_offers';
-  attributes?: SalesOffersUpdateStatusAttributes;
-};
+    id?: string;
+    /** Type of the resource */
+    type?: 'sales_offers';
+    attributes?: SalesOffersUpdateStatusAttributes;
+  };
   /** Response ile birlikte geri dönmesini istediğiniz ilişkiler - *Available: activities* */
   include?: string;
 }
@@ -1497,31 +1609,35 @@ export interface ShipmentDocument {
   type?: 'shipment_documents';
   attributes: ShipmentDocumentAttributes;
   relationships?: {
-  contact?: {
-  data?: {
-  id?: string;
-  type?: 'contacts';
-};
-};
-  tags?: {
-  data?: {
-  id?: string;
-  type?: 'tags';
-}[];
-};
-  stock_movements?: {
-  data?: {
-  id?: string;
-  type?: 'stock_movements';
-}[];
-};
-  invoices?: {
-  data?: {
-  id?: string;
-  type?: 'sales_invoices' | 'purchase_bills';
-}[];
-};
-};
+    contact?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'contacts';
+      };
+    };
+    tags?: {
+      data?: Array<{
+        id?: string;
+        /** Type of the resource */
+        type?: 'tags';
+      }>;
+    };
+    stock_movements?: {
+      data?: Array<{
+        id?: string;
+        /** Type of the resource */
+        type?: 'stock_movements';
+      }>;
+    };
+    invoices?: {
+      data?: Array<{
+        id?: string;
+        /** Type of the resource */
+        type?: 'sales_invoices' | 'purchase_bills';
+      }>;
+    };
+  };
 }
 
 export interface ShipmentDocumentAttributes {
@@ -1561,31 +1677,35 @@ export interface StockMovement {
   type?: 'stock_movements';
   attributes: StockMovementAttributes;
   relationships?: {
-  warehouse?: {
-  data?: {
-  id?: string;
-  type?: 'warehouses';
-};
-};
-  product?: {
-  data?: {
-  id?: string;
-  type?: 'products';
-};
-};
-  source?: {
-  data?: {
-  id?: string;
-  type?: 'shipment_documents' | 'sales_invoice_details' | 'purchase_bill_details';
-};
-};
-  contact?: {
-  data?: {
-  id?: string;
-  type?: 'contacts';
-};
-};
-};
+    warehouse?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'warehouses';
+      };
+    };
+    product?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'products';
+      };
+    };
+    source?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'shipment_documents' | 'sales_invoice_details' | 'purchase_bill_details';
+      };
+    };
+    contact?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'contacts';
+      };
+    };
+  };
 }
 
 export interface StockMovementAttributes {
@@ -1607,13 +1727,14 @@ export interface StockUpdate {
   type?: 'stock_updates';
   attributes: StockUpdateAttributes;
   relationships?: {
-  details?: {
-  data?: {
-  id?: string;
-  type?: 'stock_update_details';
-}[];
-};
-};
+    details?: {
+      data?: Array<{
+        id?: string;
+        /** Type of the resource */
+        type?: 'stock_update_details';
+      }>;
+    };
+  };
 }
 
 export interface StockUpdateAttributes {
@@ -1629,19 +1750,21 @@ export interface StockUpdateDetail {
   type?: 'stock_update_details';
   attributes: StockUpdateDetailAttributes;
   relationships?: {
-  warehouse?: {
-  data?: {
-  id?: string;
-  type?: 'warehouses';
-};
-};
-  product?: {
-  data?: {
-  id?: string;
-  type?: 'products';
-};
-};
-};
+    warehouse?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'warehouses';
+      };
+    };
+    product?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'products';
+      };
+    };
+  };
 }
 
 export interface StockUpdateDetailAttributes {
@@ -1660,7 +1783,7 @@ export interface Tag {
   /** Type of the resource */
   type?: 'tags';
   attributes: TagAttributes;
-  relationships?: string;
+  relationships?: unknown;
 }
 
 export interface TagAttributes {
@@ -1676,19 +1799,21 @@ export interface Tax {
   type?: 'bank_fees';
   attributes: TaxAttributes;
   relationships?: {
-  category?: {
-  data?: {
-  id?: string;
-  type?: 'item_categories';
-};
-};
-  tags?: {
-  data?: {
-  id?: string;
-  type?: 'tags';
-}[];
-};
-};
+    category?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'item_categories';
+      };
+    };
+    tags?: {
+      data?: Array<{
+        id?: string;
+        /** Type of the resource */
+        type?: 'tags';
+      }>;
+    };
+  };
 }
 
 export interface TaxAttributes {
@@ -1709,7 +1834,7 @@ export interface TrackableJob {
   /** Type of the resource */
   type?: 'trackable_jobs';
   attributes: TrackableJobAttributes;
-  relationships?: string;
+  relationships?: unknown;
 }
 
 export interface TrackableJobAttributes {
@@ -1723,25 +1848,28 @@ export interface Transaction {
   type?: 'transactions';
   attributes: TransactionAttributes;
   relationships?: {
-  debit_account?: {
-  data?: {
-  id?: string;
-  type?: 'accounts';
-};
-};
-  credit_account?: {
-  data?: {
-  id?: string;
-  type?: 'accounts';
-};
-};
-  payments?: {
-  data?: {
-  id?: string;
-  type?: 'payments';
-}[];
-};
-};
+    debit_account?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'accounts';
+      };
+    };
+    credit_account?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'accounts';
+      };
+    };
+    payments?: {
+      data?: Array<{
+        id?: string;
+        /** Type of the resource */
+        type?: 'payments';
+      }>;
+    };
+  };
 }
 
 export interface TransactionAttributes {
@@ -1771,25 +1899,28 @@ export interface UserRole {
   type?: 'user_roles';
   attributes: UserRoleAttributes;
   relationships?: {
-  company?: {
-  data?: {
-  id?: string;
-  type?: 'companies';
-};
-};
-  user?: {
-  data?: {
-  id?: string;
-  type?: 'users';
-};
-};
-  managed_employee?: {
-  data?: {
-  id?: string;
-  type?: 'employees';
-};
-};
-};
+    company?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'companies';
+      };
+    };
+    user?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'users';
+      };
+    };
+    managed_employee?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'employees';
+      };
+    };
+  };
 }
 
 export interface UserRoleAttributes {
@@ -1807,13 +1938,14 @@ export interface Warehouse {
   type?: 'warehouses';
   attributes: WarehouseAttributes;
   relationships?: {
-  inventory_levels?: {
-  data?: {
-  id?: string;
-  type?: 'inventory_levels';
-};
-};
-};
+    inventory_levels?: {
+      data?: {
+        id?: string;
+        /** Type of the resource */
+        type?: 'inventory_levels';
+      };
+    };
+  };
 }
 
 export interface WarehouseAttributes {
@@ -1854,3 +1986,1262 @@ export interface WebhookAttributes {
   /** URI to use webhook */
   uri?: string;
 }
+
+// ============================================================================
+// Request Bodies (Generated from inline body parameters)
+// ============================================================================
+
+/** Request body for createAccount (`POST /accounts`) */
+export interface CreateAccountBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'accounts';
+    attributes: AccountAttributes;
+  };
+}
+
+/** Request body for updateAccount (`PUT /accounts/{id}`) */
+export interface UpdateAccountBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'accounts';
+    attributes: AccountAttributes;
+  };
+}
+
+/** Request body for createDebitTransaction (`POST /accounts/{id}/debit_transactions`) */
+export interface CreateDebitTransactionBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'transactions';
+    attributes: AccountDebitCreditTransactionFormAttributes;
+  };
+}
+
+/** Request body for createCreditTransaction (`POST /accounts/{id}/credit_transactions`) */
+export interface CreateCreditTransactionBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'transactions';
+    attributes: AccountDebitCreditTransactionFormAttributes;
+  };
+}
+
+/** Request body for createBankFee (`POST /bank_fees`) */
+export interface CreateBankFeeBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'bank_fees';
+    attributes: BankFeeAttributes;
+    relationships?: {
+      category?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'item_categories';
+        };
+      };
+      tags?: {
+        data?: Array<{
+          id?: string;
+          /** Type of the resource */
+          type: 'tags';
+        }>;
+      };
+    };
+  };
+}
+
+/** Request body for updateBankFee (`PUT /bank_fees/{id}`) */
+export interface UpdateBankFeeBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'bank_fees';
+    attributes: BankFeeAttributes;
+    relationships?: {
+      category?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'item_categories';
+        };
+      };
+      tags?: {
+        data?: Array<{
+          id?: string;
+          /** Type of the resource */
+          type: 'tags';
+        }>;
+      };
+    };
+  };
+}
+
+/** Request body for payBankFee (`POST /bank_fees/{id}/payments`) */
+export interface PayBankFeeBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'payments';
+    attributes: PaymentFormAttributes;
+  };
+}
+
+/** Request body for createContact (`POST /contacts`) */
+export interface CreateContactBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'contacts';
+    attributes: ContactAttributes;
+    relationships?: {
+      category?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'item_categories';
+        };
+      };
+      contact_people?: {
+        data?: Array<{
+          id?: string;
+          /** Type of the resource */
+          type: 'contact_people';
+          attributes?: ContactPersonAttributes;
+        }>;
+      };
+    };
+  };
+}
+
+/** Request body for updateContact (`PUT /contacts/{id}`) */
+export interface UpdateContactBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'contacts';
+    attributes: ContactAttributes;
+    relationships?: {
+      category?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'item_categories';
+        };
+      };
+      contact_people?: {
+        data?: Array<{
+          id?: string;
+          /** Type of the resource */
+          type: 'contact_people';
+          attributes?: ContactPersonAttributes;
+        }>;
+      };
+    };
+  };
+}
+
+/** Request body for collectFromContact (`POST /contacts/{id}/contact_debit_transactions`) */
+export interface CollectFromContactBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'transactions';
+    attributes: ContactCollectionFormAttributes;
+  };
+}
+
+/** Request body for payToContact (`POST /contacts/{id}/contact_credit_transactions`) */
+export interface PayToContactBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'transactions';
+    attributes: ContactPaymentFormAttributes;
+  };
+}
+
+/** Request body for createEArchive (`POST /e_archives`) */
+export interface CreateEArchiveBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'e_archives';
+    attributes: EArchiveFormAttributes;
+    relationships?: {
+      sales_invoice?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'sales_invoices';
+        };
+      };
+    };
+  };
+}
+
+/** Request body for createEInvoice (`POST /e_invoices`) */
+export interface CreateEInvoiceBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'e_invoices';
+    attributes: EInvoiceFormAttributes;
+    relationships?: {
+      invoice?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'sales_invoices';
+        };
+      };
+    };
+  };
+}
+
+/** Request body for createESmm (`POST /e_smms`) */
+export interface CreateESmmBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'e_smms';
+    attributes: ESmmCommonFormAttributes;
+    relationships?: {
+      sales_invoice?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'sales_invoices';
+        };
+      };
+    };
+  };
+}
+
+/** Request body for createEmployee (`POST /employees`) */
+export interface CreateEmployeeBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'employees';
+    attributes: EmployeeAttributes;
+    relationships?: {
+      category?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'item_categories';
+        };
+      };
+    };
+  };
+}
+
+/** Request body for updateEmployee (`PUT /employees/{id}`) */
+export interface UpdateEmployeeBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'employees';
+    attributes: EmployeeAttributes;
+    relationships?: {
+      category?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'item_categories';
+        };
+      };
+    };
+  };
+}
+
+/** Request body for createItemCategory (`POST /item_categories`) */
+export interface CreateItemCategoryBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'item_categories';
+    attributes: ItemCategoryAttributes;
+  };
+}
+
+/** Request body for updateItemCategory (`PUT /item_categories/{id}`) */
+export interface UpdateItemCategoryBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'item_categories';
+    attributes: ItemCategoryAttributes;
+  };
+}
+
+/** Request body for createProduct (`POST /products`) */
+export interface CreateProductBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'products';
+    attributes: ProductAttributes;
+    relationships?: {
+      inventory_levels?: {
+        data?: Array<{
+          id?: string;
+          /** Type of the resource */
+          type: 'inventory_levels';
+        }>;
+      };
+      category?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'item_categories';
+        };
+      };
+    };
+  };
+}
+
+/** Request body for updateProduct (`PUT /products/{id}`) */
+export interface UpdateProductBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'products';
+    attributes: ProductAttributes;
+    relationships?: {
+      inventory_levels?: {
+        data?: Array<{
+          id?: string;
+          /** Type of the resource */
+          type: 'inventory_levels';
+        }>;
+      };
+      category?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'item_categories';
+        };
+      };
+    };
+  };
+}
+
+/** Request body for createPurchaseBillBasic (`POST /purchase_bills#basic`) */
+export interface CreatePurchaseBillBasicBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'purchase_bills';
+    attributes: PurchaseBillBasicFormAttributes;
+    relationships?: {
+      supplier?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'contacts';
+        };
+      };
+      paid_by_employee?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'employees';
+        };
+      };
+      category?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'item_categories';
+        };
+      };
+      tags?: {
+        data?: Array<{
+          id?: string;
+          /** Type of the resource */
+          type: 'tags';
+        }>;
+      };
+    };
+  };
+}
+
+/** Request body for createPurchaseBillDetailed (`POST /purchase_bills#detailed`) */
+export interface CreatePurchaseBillDetailedBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'purchase_bills';
+    attributes: PurchaseBillDetailedFormAttributes;
+    relationships?: {
+      details?: {
+        data?: Array<{
+          id?: string;
+          /** Type of the resource */
+          type: 'purchase_bill_details';
+          attributes?: PurchaseBillDetailAttributes;
+          relationships?: {
+            product?: {
+              data?: {
+                id?: string;
+                /** Type of the resource */
+                type: 'products';
+              };
+            };
+            warehouse?: {
+              data?: {
+                id?: string;
+                /** Type of the resource */
+                type: 'warehouses';
+              };
+            };
+          };
+        }>;
+      };
+      supplier?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'contacts';
+        };
+      };
+      paid_by_employee?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'employees';
+        };
+      };
+      category?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'item_categories';
+        };
+      };
+      tags?: {
+        data?: Array<{
+          id?: string;
+          /** Type of the resource */
+          type: 'tags';
+        }>;
+      };
+    };
+  };
+}
+
+/** Request body for updatePurchaseBillBasic (`PUT /purchase_bills/{id}#basic`) */
+export interface UpdatePurchaseBillBasicBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'purchase_bills';
+    attributes: PurchaseBillBasicFormAttributes;
+    relationships?: {
+      supplier?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'contacts';
+        };
+      };
+      paid_by_employee?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'employees';
+        };
+      };
+      category?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'item_categories';
+        };
+      };
+      tags?: {
+        data?: Array<{
+          id?: string;
+          /** Type of the resource */
+          type: 'tags';
+        }>;
+      };
+    };
+  };
+}
+
+/** Request body for updatePurchaseBillDetailed (`PUT /purchase_bills/{id}#detailed`) */
+export interface UpdatePurchaseBillDetailedBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'purchase_bills';
+    attributes: PurchaseBillDetailedFormAttributes;
+    relationships?: {
+      details?: {
+        data?: Array<{
+          id?: string;
+          /** Type of the resource */
+          type: 'purchase_bill_details';
+          attributes?: PurchaseBillDetailAttributes;
+          relationships?: {
+            product?: {
+              data?: {
+                id?: string;
+                /** Type of the resource */
+                type: 'products';
+              };
+            };
+            warehouse?: {
+              data?: {
+                id?: string;
+                /** Type of the resource */
+                type: 'warehouses';
+              };
+            };
+          };
+        }>;
+      };
+      supplier?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'contacts';
+        };
+      };
+      paid_by_employee?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'employees';
+        };
+      };
+      category?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'item_categories';
+        };
+      };
+      tags?: {
+        data?: Array<{
+          id?: string;
+          /** Type of the resource */
+          type: 'tags';
+        }>;
+      };
+    };
+  };
+}
+
+/** Request body for payPurchaseBill (`POST /purchase_bills/{id}/payments`) */
+export interface PayPurchaseBillBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'payments';
+    attributes: PaymentFormAttributes;
+  };
+}
+
+/** Request body for createSalary (`POST /salaries`) */
+export interface CreateSalaryBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'salaries';
+    attributes: SalaryAttributes;
+    relationships?: {
+      employee?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'employees';
+        };
+      };
+      category?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'item_categories';
+        };
+      };
+      tags?: {
+        data?: Array<{
+          id?: string;
+          /** Type of the resource */
+          type: 'tags';
+        }>;
+      };
+    };
+  };
+}
+
+/** Request body for updateSalary (`PUT /salaries/{id}`) */
+export interface UpdateSalaryBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'salaries';
+    attributes: SalaryAttributes;
+    relationships?: {
+      employee?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'employees';
+        };
+      };
+      category?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'item_categories';
+        };
+      };
+      tags?: {
+        data?: Array<{
+          id?: string;
+          /** Type of the resource */
+          type: 'tags';
+        }>;
+      };
+    };
+  };
+}
+
+/** Request body for paySalary (`POST /salaries/{id}/payments`) */
+export interface PaySalaryBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'payments';
+    attributes: PaymentFormAttributes;
+  };
+}
+
+/** Request body for createSalesInvoice (`POST /sales_invoices`) */
+export interface CreateSalesInvoiceBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'sales_invoices';
+    attributes: SalesInvoiceCreateUpdateAttributes;
+    relationships?: {
+      details?: {
+        data?: Array<{
+          id?: string;
+          /** Type of the resource */
+          type: 'sales_invoice_details';
+          attributes?: SalesInvoiceDetailAttributes;
+          relationships?: {
+            product?: {
+              data?: {
+                id?: string;
+                /** Type of the resource */
+                type: 'products';
+              };
+            };
+            warehouse?: {
+              data?: {
+                id?: string;
+                /** Type of the resource */
+                type: 'warehouses';
+              };
+            };
+          };
+        }>;
+      };
+      contact?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'contacts';
+        };
+      };
+      category?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'item_categories';
+        };
+      };
+      tags?: {
+        data?: Array<{
+          id?: string;
+          /** Type of the resource */
+          type: 'tags';
+        }>;
+      };
+      sales_offer?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'sales_offers';
+        };
+      };
+    };
+  };
+}
+
+/** Request body for updateSalesInvoice (`PUT /sales_invoices/{id}`) */
+export interface UpdateSalesInvoiceBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'sales_invoices';
+    attributes: SalesInvoiceCreateUpdateAttributes;
+    relationships?: {
+      details?: {
+        data?: Array<{
+          id?: string;
+          /** Type of the resource */
+          type: 'sales_invoice_details';
+          attributes?: SalesInvoiceDetailAttributes;
+          relationships?: {
+            product?: {
+              data?: {
+                id?: string;
+                /** Type of the resource */
+                type: 'products';
+              };
+            };
+            warehouse?: {
+              data?: {
+                id?: string;
+                /** Type of the resource */
+                type: 'warehouses';
+              };
+            };
+          };
+        }>;
+      };
+      contact?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'contacts';
+        };
+      };
+      category?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'item_categories';
+        };
+      };
+      tags?: {
+        data?: Array<{
+          id?: string;
+          /** Type of the resource */
+          type: 'tags';
+        }>;
+      };
+      sales_offer?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'sales_offers';
+        };
+      };
+    };
+  };
+}
+
+/** Request body for paySalesInvoice (`POST /sales_invoices/{id}/payments`) */
+export interface PaySalesInvoiceBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'payments';
+    attributes: PaymentFormAttributes;
+  };
+}
+
+/** Request body for convertEstimateToInvoice (`PATCH /sales_invoices/{id}/convert_to_invoice`) */
+export interface ConvertEstimateToInvoiceBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'sales_invoices';
+    attributes: SalesInvoiceAttributes;
+    relationships?: {
+      details?: {
+        data?: Array<{
+          id?: string;
+          /** Type of the resource */
+          type: 'sales_invoice_details';
+          attributes?: SalesInvoiceDetailAttributes;
+          relationships?: {
+            product?: {
+              data?: {
+                id?: string;
+                /** Type of the resource */
+                type: 'products';
+              };
+            };
+            warehouse?: {
+              data?: {
+                id?: string;
+                /** Type of the resource */
+                type: 'warehouses';
+              };
+            };
+          };
+        }>;
+      };
+      contact?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'contacts';
+        };
+      };
+      category?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'item_categories';
+        };
+      };
+      tags?: {
+        data?: Array<{
+          id?: string;
+          /** Type of the resource */
+          type: 'tags';
+        }>;
+      };
+      sales_offer?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'sales_offers';
+        };
+      };
+    };
+  };
+}
+
+/** Request body for createSalesOffers (`POST /sales_offers`) */
+export interface CreateSalesOffersBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'sales_offers';
+    attributes: SalesOffersCreateUpdateAttributes;
+    relationships?: {
+      details?: {
+        data?: Array<{
+          /** Type of the resource */
+          type: 'sales_offer_details';
+          attributes?: SalesOffersDetailAttributes;
+          relationships?: {
+            product?: {
+              data?: {
+                id?: string;
+                /** Type of the resource */
+                type: 'products';
+                attributes?: ProductAttributes;
+              };
+            };
+            offer?: {
+              data?: {
+                id?: string;
+                /** Type of the resource */
+                type: 'sales_offers';
+              };
+            };
+          };
+        }>;
+      };
+      contact?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'contacts';
+          attributes?: ContactAttributes;
+          relationships?: {
+            category?: {
+              data?: {
+                id?: string;
+                /** Type of the resource */
+                type: 'item_categories';
+              };
+            };
+          };
+        };
+      };
+    };
+  };
+}
+
+/** Request body for updateSalesOffers (`PUT /sales_offers/{id}`) */
+export interface UpdateSalesOffersBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'sales_offers';
+    attributes: SalesOffersCreateUpdateAttributes;
+    relationships?: {
+      details?: {
+        data?: Array<{
+          id?: string;
+          /** Type of the resource */
+          type: 'sales_offer_details';
+          attributes?: SalesOffersDetailAttributes;
+          relationships?: {
+            product?: {
+              data?: {
+                id?: string;
+                /** Type of the resource */
+                type: 'products';
+              };
+            };
+          };
+        }>;
+      };
+      contact?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'contacts';
+        };
+      };
+      sharings?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'sharings';
+        };
+      };
+      activities?: {
+        data?: Array<{
+          id?: string;
+          /** Type of the resource */
+          type: 'activities';
+        }>;
+      };
+      sales_invoice?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'sales_invoices';
+        };
+      };
+    };
+  };
+}
+
+/** Request body for e-mailSalesOffers (`POST /sharings`) */
+export interface EMailSalesOffersBody {
+  data: {
+    /** Type of the resource */
+    type: 'sharing_forms';
+    attributes: {
+      email?: {
+        /** E-mail adresleri */
+        addresses?: string;
+        /** E-mail konusu */
+        subject?: string;
+        /** E-mail içeriği */
+        body?: string;
+      };
+      portal?: {
+        /** Online tahsilat */
+        has_online_collection?: boolean;
+        /** Online ödeme hatırlatıcı */
+        has_online_payment_reminder?: boolean;
+        /** Referans linki */
+        has_referral_link?: boolean;
+      };
+      properties?: Record<string, unknown>;
+    };
+    relationships?: {
+      shareable?: {
+        data?: {
+          /** ID of the sales offers */
+          id?: string;
+          /** Type of the resource */
+          type: 'sales_offers';
+        };
+      };
+    };
+  };
+}
+
+/** Request body for createShipmentDocument (`POST /shipment_documents`) */
+export interface CreateShipmentDocumentBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'shipment_documents';
+    attributes: ShipmentDocumentAttributes;
+    relationships?: {
+      stock_movements?: {
+        data?: Array<{
+          id?: string;
+          /** Type of the resource */
+          type: 'stock_movements';
+          attributes?: StockMovementAttributes;
+          relationships?: {
+            product?: {
+              data?: {
+                id?: string;
+                /** Type of the resource */
+                type: 'products';
+              };
+            };
+          };
+        }>;
+      };
+      contact?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'contact';
+        };
+      };
+      tags?: {
+        data?: Array<{
+          id?: string;
+          /** Type of the resource */
+          type: 'tags';
+        }>;
+      };
+    };
+  };
+}
+
+/** Request body for updateShipmentDocument (`PUT /shipment_documents/{id}`) */
+export interface UpdateShipmentDocumentBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'shipment_documents';
+    attributes: ShipmentDocumentAttributes;
+    relationships?: {
+      stock_movements?: {
+        data?: Array<{
+          id?: string;
+          /** Type of the resource */
+          type: 'stock_movements';
+          attributes?: StockMovementAttributes;
+          relationships?: {
+            product?: {
+              data?: {
+                id?: string;
+                /** Type of the resource */
+                type: 'products';
+              };
+            };
+          };
+        }>;
+      };
+      contact?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'contact';
+        };
+      };
+      tags?: {
+        data?: Array<{
+          id?: string;
+          /** Type of the resource */
+          type: 'tags';
+        }>;
+      };
+    };
+  };
+}
+
+/** Request body for createStockUpdate (`POST /stock_updates`) */
+export interface CreateStockUpdateBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'stock_updates';
+    attributes: StockUpdateAttributes;
+    relationships?: {
+      details?: {
+        data?: Array<{
+          id?: string;
+          /** Type of the resource */
+          type: 'stock_update_details';
+          attributes?: StockUpdateDetailAttributes;
+          relationships?: {
+            product?: {
+              data?: {
+                id?: string;
+                /** Type of the resource */
+                type: 'products';
+              };
+            };
+            warehouse?: {
+              data?: {
+                id?: string;
+                /** Type of the resource */
+                type: 'warehouses';
+              };
+            };
+          };
+        }>;
+      };
+    };
+  };
+}
+
+/** Request body for createTag (`POST /tags`) */
+export interface CreateTagBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'tags';
+    attributes: TagAttributes;
+  };
+}
+
+/** Request body for updateTag (`PUT /tags/{id}`) */
+export interface UpdateTagBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'tags';
+    attributes: TagAttributes;
+  };
+}
+
+/** Request body for createTax (`POST /taxes`) */
+export interface CreateTaxBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'taxes';
+    attributes: TaxAttributes;
+    relationships?: {
+      category?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'item_categories';
+        };
+      };
+      tags?: {
+        data?: Array<{
+          id?: string;
+          /** Type of the resource */
+          type: 'tags';
+        }>;
+      };
+    };
+  };
+}
+
+/** Request body for updateTax (`PUT /taxes/{id}`) */
+export interface UpdateTaxBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'taxes';
+    attributes: TaxAttributes;
+    relationships?: {
+      category?: {
+        data?: {
+          id?: string;
+          /** Type of the resource */
+          type: 'item_categories';
+        };
+      };
+      tags?: {
+        data?: Array<{
+          id?: string;
+          /** Type of the resource */
+          type: 'tags';
+        }>;
+      };
+    };
+  };
+}
+
+/** Request body for payTax (`POST /taxes/{id}/payments`) */
+export interface PayTaxBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'payments';
+    attributes: PaymentFormAttributes;
+  };
+}
+
+/** Request body for createWarehouse (`POST /warehouses`) */
+export interface CreateWarehouseBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'warehouses';
+    attributes: WarehouseAttributes;
+    relationships?: {
+      inventory_levels?: {
+        data?: Array<{
+          id?: string;
+          /** Type of the resource */
+          type: 'inventory_levels';
+        }>;
+      };
+    };
+  };
+}
+
+/** Request body for updateWarehouse (`PUT /warehouses/{id}`) */
+export interface UpdateWarehouseBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'warehouses';
+    attributes: WarehouseAttributes;
+    relationships?: {
+      inventory_levels?: {
+        data?: Array<{
+          id?: string;
+          /** Type of the resource */
+          type: 'inventory_levels';
+        }>;
+      };
+    };
+  };
+}
+
+/** Request body for createWebhook (`POST /webhooks`) */
+export interface CreateWebhookBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'webhook';
+    attributes: {
+      /** Model name to create its webhook */
+      model: 'shipment_document' | 'employee' | 'product' | 'contact' | 'stock_movement' | 'sales_invoice';
+      /** Action name to create related webhook */
+      action: 'create' | 'update' | 'delete';
+      /** URI to use webhook */
+      uri: string;
+    };
+  };
+}
+
+/** Request body for updateWebhook (`PUT /webhooks/{id}`) */
+export interface UpdateWebhookBody {
+  data: {
+    id?: string;
+    /** Type of the resource */
+    type: 'webhook';
+    attributes: WebhookAttributes;
+  };
+}
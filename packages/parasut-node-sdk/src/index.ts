@@ -42,7 +42,13 @@
 // Main Client
 // ============================================================================
 
-export { ParasutClient, type ParasutClientConfig } from './client/ParasutClient.js';
+export {
+  ParasutClient,
+  type ParasutClientConfig,
+  type CompanyResult,
+  type DiscoverCompaniesConfig,
+  type MapCompaniesOptions,
+} from './client/ParasutClient.js';
 
 // ============================================================================
 // Authentication
@@ -56,8 +62,177 @@ export {
   type OAuthToken,
   type TokenStorage,
   type AuthCodeConfig,
+  type TokenRefreshContext,
+  type TokenRefreshHook,
 } from './client/OAuth.js';
 
+// ============================================================================
+// Transport
+// ============================================================================
+
+export {
+  HttpTransport,
+  createCoalescingMiddleware,
+  type TransportConfig,
+  type RequestConfig,
+  type ConnectionOptions,
+  type FetchFunction,
+  type Middleware,
+  type MiddlewareContext,
+  type MiddlewareNext,
+} from './client/HttpTransport.js';
+
+// ============================================================================
+// Logging
+// ============================================================================
+
+export {
+  silentLogger,
+  createConsoleLogger,
+  createLoggingMiddleware,
+  redact,
+  DEFAULT_REDACT_KEYS,
+  type Logger,
+  type LogEvent,
+  type LogEventName,
+  type LogLevel,
+} from './client/Logger.js';
+
+// ============================================================================
+// Metrics
+// ============================================================================
+
+export {
+  MetricsCollector,
+  createMetricsMiddleware,
+  DEFAULT_METRICS_CONFIG,
+  type MetricsConfig,
+  type MetricsSnapshot,
+  type OperationMetrics,
+  type LatencySummary,
+} from './client/Metrics.js';
+
+// ============================================================================
+// Idempotency
+// ============================================================================
+
+export {
+  IdempotencyGuard,
+  MemoryIdempotencyStore,
+  DEFAULT_IDEMPOTENCY_CONFIG,
+  isAmbiguousError,
+  type IdempotencyConfig,
+  type IdempotencyOptions,
+  type IdempotencyRecord,
+  type IdempotencyStore,
+  type IdempotentOperation,
+} from './client/Idempotency.js';
+
+// ============================================================================
+// Circuit Breaker
+// ============================================================================
+
+export {
+  CircuitBreaker,
+  createCircuitBreakerMiddleware,
+  DEFAULT_CIRCUIT_BREAKER_CONFIG,
+  type CircuitBreakerConfig,
+  type CircuitState,
+  type CircuitStateChangeContext,
+  type CircuitStateChangeHook,
+} from './client/CircuitBreaker.js';
+
+// ============================================================================
+// Cache
+// ============================================================================
+
+export {
+  ResponseCache,
+  MemoryCacheStore,
+  createCacheMiddleware,
+  DEFAULT_CACHE_CONFIG,
+  type CacheConfig,
+  type CacheEntry,
+  type CacheStore,
+} from './client/Cache.js';
+
+// ============================================================================
+// Cassette
+// ============================================================================
+
+export {
+  Cassette,
+  type CassetteConfig,
+  type CassetteInteraction,
+  type CassetteMatchOptions,
+  type CassetteMode,
+  type CassetteRequest,
+  type CassetteResponse,
+} from './client/Cassette.js';
+
+// ============================================================================
+// Response Validation
+// ============================================================================
+
+export {
+  ResponseValidator,
+  validateSchema,
+  type ResponseValidatorConfig,
+  type SchemaNode,
+  type ValidationIssue,
+  type ValidationMode,
+} from './client/Validation.js';
+
+export { SCHEMAS, RESPONSE_SCHEMAS } from './generated/schemas.js';
+
+// ============================================================================
+// Webhook Receiver
+// ============================================================================
+
+export {
+  WebhookReceiver,
+  DEFAULT_WEBHOOK_RECEIVER_CONFIG,
+  parseWebhook,
+  signWebhook,
+  verifyWebhookSignature,
+  getEDocumentStatus,
+  type WebhookReceiverConfig,
+  type WebhookReceiveResult,
+  type WebhookHandler,
+  type WebhookHeaders,
+  type WebhookBody,
+  type ParseWebhookOptions,
+  type WebhookSigner,
+  type WebhookRecordMap,
+  type WebhookResource,
+  type WebhookEvent,
+  type WebhookEventOf,
+  type WebhookEventFor,
+  type WebhookEventType,
+  type EDocumentStatus,
+} from './client/Webhooks.js';
+
+// ============================================================================
+// Operations
+// ============================================================================
+
+export {
+  callOperation,
+  buildOperationPath,
+  type CallArgs,
+  type CallOptions,
+} from './client/Operations.js';
+
+export {
+  OPERATIONS,
+  OPERATIONS_BY_TAG,
+  type OperationMeta,
+  type OperationBodies,
+  type OperationId,
+  type OperationPathParams,
+  type OperationQueryParams,
+} from './generated/operations.js';
+
 // ============================================================================
 // Errors
 // ============================================================================
@@ -72,6 +247,12 @@ export {
   ParasutRateLimitError,
   ParasutNetworkError,
   ParasutTimeoutError,
+  ParasutAbortError,
+  ParasutIdempotencyError,
+  ParasutCircuitOpenError,
+  ParasutCassetteError,
+  ParasutResponseValidationError,
+  ParasutWebhookError,
   ParasutConfigError,
   type ApiErrorDetail,
 } from './client/errors.js';
@@ -80,7 +261,22 @@ export {
 // Configuration Types
 // ============================================================================
 
-export { type RateLimitConfig, DEFAULT_RATE_LIMIT_CONFIG } from './client/RateLimiter.js';
+export {
+  type RateLimitConfig,
+  type RateLimitInfo,
+  DEFAULT_RATE_LIMIT_CONFIG,
+  parseRateLimitHeaders,
+} from './client/RateLimiter.js';
+export {
+  MemoryRateLimitStore,
+  FileRateLimitStore,
+  type FileRateLimitStoreOptions,
+  type RateLimitStore,
+  type RateLimitBucket,
+  type RateLimitBucketState,
+  type RateLimitTakeResult,
+  type RateLimitAdjustment,
+} from './client/RateLimitStore.js';
 export { type RetryConfig, DEFAULT_RETRY_CONFIG } from './client/RetryHandler.js';
 
 // ============================================================================
@@ -125,11 +321,20 @@ export {
   type ResourceConfig,
   type PaginatedResponse,
   type IterateOptions,
+  type ActionOptions,
+  type ResourcePayload,
+  type PartialPayload,
   // Trackable Jobs
   TrackableJobsResource,
   TrackableJobError,
   TrackableJobTimeoutError,
   type PollOptions,
+  // Me
+  MeResource,
+  type MeResult,
+  type User,
+  type UserCompany,
+  type UserProfile,
   // Core resources
   AccountsResource,
   type Account,
@@ -196,11 +401,21 @@ export {
   InventoryLevelsResource,
   type InventoryLevel,
   type InventoryLevelAttributes,
+  type InventoryLevelRelationships,
   type InventoryLevelFilters,
   StockMovementsResource,
   type StockMovement,
   type StockMovementAttributes,
+  type StockMovementRelationships,
   type StockMovementFilters,
+  StockUpdatesResource,
+  type StockUpdate,
+  type StockUpdateAttributes,
+  WarehousesResource,
+  type Warehouse,
+  type WarehouseAttributes,
+  type WarehouseFilters,
+  type WithWarehouseName,
   ShipmentDocumentsResource,
   type ShipmentDocument,
   type ShipmentDocumentAttributes,
@@ -219,8 +434,111 @@ export {
   type Transaction,
   type TransactionAttributes,
   type TransactionFilters,
+  // Integrations
+  SharingsResource,
+  sharingForm,
+  type Sharing,
+  type SharingAttributes,
+  type ShareableType,
+  type SharingFormAttributes,
+  type SharingFormBody,
+  type SharingEmail,
+  type SharingPortal,
+  type ShareOptions,
+  type SharingResponse,
+  WebhooksResource,
+  type Webhook,
+  type WebhookAttributes,
+  type WebhookModel,
+  type WebhookAction,
 } from './resources/index.js';
 
+// ============================================================================
+// Generated Resources
+// ============================================================================
+
+export {
+  GeneratedAccountsResource,
+  GeneratedBankFeesResource,
+  GeneratedContactsResource,
+  GeneratedEArchivesResource,
+  GeneratedEInvoiceInboxesResource,
+  GeneratedEInvoicesResource,
+  GeneratedESmmsResource,
+  GeneratedEmployeesResource,
+  GeneratedInventoryLevelsResource,
+  GeneratedItemCategoriesResource,
+  GeneratedProductsResource,
+  GeneratedPurchaseBillsResource,
+  GeneratedSalariesResource,
+  GeneratedSalesInvoicesResource,
+  GeneratedSalesOffersResource,
+  GeneratedSharingsResource,
+  GeneratedShipmentDocumentsResource,
+  GeneratedStockMovementsResource,
+  GeneratedStockUpdatesResource,
+  GeneratedTagsResource,
+  GeneratedTaxesResource,
+  GeneratedTransactionsResource,
+  GeneratedWarehousesResource,
+  GeneratedWebhooksResource,
+} from './generated/resources.js';
+
+// ============================================================================
+// Generated Request Bodies
+// ============================================================================
+
+export type {
+  CollectFromContactBody,
+  ConvertEstimateToInvoiceBody,
+  CreateAccountBody,
+  CreateBankFeeBody,
+  CreateContactBody,
+  CreateCreditTransactionBody,
+  CreateDebitTransactionBody,
+  CreateEArchiveBody,
+  CreateEInvoiceBody,
+  CreateESmmBody,
+  CreateEmployeeBody,
+  CreateItemCategoryBody,
+  CreateProductBody,
+  CreatePurchaseBillBasicBody,
+  CreatePurchaseBillDetailedBody,
+  CreateSalaryBody,
+  CreateSalesInvoiceBody,
+  CreateSalesOffersBody,
+  CreateShipmentDocumentBody,
+  CreateStockUpdateBody,
+  CreateTagBody,
+  CreateTaxBody,
+  CreateWarehouseBody,
+  CreateWebhookBody,
+  EMailSalesOffersBody,
+  PayBankFeeBody,
+  PayPurchaseBillBody,
+  PaySalaryBody,
+  PaySalesInvoiceBody,
+  PayTaxBody,
+  PayToContactBody,
+  SalesOffersUpdateStatusBody,
+  UpdateAccountBody,
+  UpdateBankFeeBody,
+  UpdateContactBody,
+  UpdateEmployeeBody,
+  UpdateItemCategoryBody,
+  UpdateProductBody,
+  UpdatePurchaseBillBasicBody,
+  UpdatePurchaseBillDetailedBody,
+  UpdateSalaryBody,
+  UpdateSalesInvoiceBody,
+  UpdateSalesOffersBody,
+  UpdateShipmentDocumentBody,
+  UpdateTagBody,
+  UpdateTaxBody,
+  UpdateWarehouseBody,
+  UpdateWebhookBody,
+} from './generated/types.js';
+
 // ============================================================================
 // Generated Types (re-export commonly used types)
 // ============================================================================
@@ -5,11 +5,18 @@
  * Provides common CRUD operations and pagination helpers.
  */
 
-import type { HttpTransport } from '../client/HttpTransport.js';
+import type { HttpTransport, RequestConfig } from '../client/HttpTransport.js';
+import {
+  createdSince,
+  matchesAttributes,
+  type IdempotencyGuard,
+  type IdempotencyOptions,
+} from '../client/Idempotency.js';
 import type {
   ListQueryParams,
   ShowQueryParams,
 } from '../client/QueryBuilder.js';
+import type { ResponseValidator } from '../client/Validation.js';
 import { buildListQuery, buildShowQuery } from '../client/QueryBuilder.js';
 import type {
   JsonApiResource,
@@ -27,6 +34,14 @@ export interface ResourceConfig {
   companyId: number;
   basePath: string;
   resourceType: string;
+  /**
+   * Guards create/pay/debit/credit against duplicate writes.
+   */
+  idempotency?: IdempotencyGuard;
+  /**
+   * Checks get/list responses against the spec's schemas.
+   */
+  validator?: ResponseValidator;
 }
 
 export interface PaginatedResponse<T> {
@@ -40,25 +55,68 @@ export interface IterateOptions {
   maxPages?: number;
 }
 
+export interface ActionOptions {
+  signal?: AbortSignal;
+  /**
+   * Rate limiter lane for this request.
+   */
+  priority?: string;
+}
+
+/**
+ * JSON:API request body for create and update. Generated resources narrow
+ * this to the spec's form types, such as `CreateSalesInvoiceBody`.
+ */
+export interface ResourcePayload<TAttributes = unknown> {
+  data: {
+    id?: string;
+    type: string;
+    attributes: TAttributes;
+    relationships?: object;
+  };
+}
+
+/**
+ * An update body whose attributes may be partial, as PUT only changes the
+ * attributes it sends. Distributes over unions of form types.
+ */
+export type PartialPayload<TPayload extends ResourcePayload> = TPayload extends ResourcePayload
+  ? {
+      data: Omit<TPayload['data'], 'attributes'> & {
+        attributes?: Partial<TPayload['data']['attributes']>;
+      };
+    }
+  : never;
+
 // ============================================================================
 // Base Resource
 // ============================================================================
 
+/**
+ * CRUD and pagination for a collection. The methods are protected; each
+ * generated resource makes public only the ones its spec paths declare.
+ */
 export abstract class BaseResource<
   TResource extends JsonApiResource = JsonApiResource,
   TAttributes = object,
-  TFilters extends object = object
+  TFilters extends object = object,
+  TCreatePayload extends ResourcePayload = ResourcePayload<TAttributes>,
+  TUpdatePayload extends ResourcePayload = ResourcePayload<TAttributes>
 > {
   protected readonly transport: HttpTransport;
   protected readonly companyId: number;
   protected readonly basePath: string;
   protected readonly resourceType: string;
+  protected readonly idempotency: IdempotencyGuard | undefined;
+  protected readonly validator: ResponseValidator | undefined;
 
   constructor(config: ResourceConfig) {
     this.transport = config.transport;
     this.companyId = config.companyId;
     this.basePath = config.basePath;
     this.resourceType = config.resourceType;
+    this.idempotency = config.idempotency;
+    this.validator = config.validator;
   }
 
   /**
@@ -76,15 +134,42 @@ export abstract class BaseResource<
   }
 
   /**
-   * Lists resources with pagination and filtering.
+   * Request options carrying the signal and rate limiter lane.
    */
-  async list(
-    params: ListQueryParams<TFilters> = {}
-  ): Promise<PaginatedResponse<TResource>> {
-    const query = buildListQuery(params);
-    const response = await this.transport.get<JsonApiListResponse<TResource>>(
-      this.buildPath(),
-      query
+  protected requestOptions(options: ActionOptions): Partial<RequestConfig> {
+    return {
+      ...(options.signal !== undefined && { signal: options.signal }),
+      ...(options.priority !== undefined && { priority: options.priority }),
+    };
+  }
+
+  /**
+   * Checks a GET response for the collection (`member` false) or a single
+   * record against the spec when response validation is enabled.
+   */
+  protected validateResponse(member: boolean, payload: unknown): void {
+    if (!this.validator?.enabled) {
+      return;
+    }
+
+    const template = `/{company_id}${this.basePath}${member ? '/{id}' : ''}`;
+    const operationId = this.validator.operationId('GET', template);
+    if (operationId !== undefined) {
+      this.validator.validate(operationId, payload);
+    }
+  }
+
+  /**
+   * Lists a collection at `path`, such as a nested or member collection.
+   */
+  protected async listAt<T>(
+    path: string,
+    params: ListQueryParams<object> = {}
+  ): Promise<PaginatedResponse<T>> {
+    const response = await this.transport.get<JsonApiListResponse<T>>(
+      path,
+      buildListQuery(params),
+      this.requestOptions(params)
     );
 
     return {
@@ -94,55 +179,149 @@ export abstract class BaseResource<
     };
   }
 
+  /**
+   * Sends a non-idempotent write through the idempotency guard.
+   * `send` receives request options carrying the `Idempotency-Key` header.
+   */
+  protected async guardedWrite<T>(
+    action: string,
+    options: IdempotencyOptions,
+    send: (request: Partial<RequestConfig>) => Promise<T>,
+    lookup?: (since: Date) => Promise<T | null>
+  ): Promise<T> {
+    const request = this.requestOptions(options);
+
+    if (!this.idempotency?.enabled) {
+      return send(request);
+    }
+
+    return this.idempotency.execute({
+      operation: `${this.resourceType}.${action}`,
+      ...(options.idempotencyKey !== undefined && { key: options.idempotencyKey }),
+      send: (key) => send({ ...request, headers: { 'Idempotency-Key': key } }),
+      ...(lookup !== undefined && { lookup }),
+    });
+  }
+
+  /**
+   * Returns a lookup that finds a record created by an ambiguous `create`
+   * through its natural keys, or undefined when the payload has none.
+   * Resources with natural keys override this.
+   */
+  protected createdLookup(
+    _attributes: TCreatePayload['data']['attributes'],
+    _signal?: AbortSignal
+  ): ((since: Date) => Promise<JsonApiResponse<TResource> | null>) | undefined {
+    return undefined;
+  }
+
+  /**
+   * Returns a lookup that finds a payment by date, amount and notes in the
+   * `payments` included with the parent resource. Payments without notes
+   * cannot be told apart from another payment of the same amount, so they
+   * get no lookup.
+   */
+  protected paymentLookup(
+    id: string | number,
+    attributes: { date: string; amount: number; notes?: string },
+    signal?: AbortSignal
+  ): ((since: Date) => Promise<JsonApiResponse<JsonApiResource> | null>) | undefined {
+    if (!attributes.notes) {
+      return undefined;
+    }
+
+    return async (since) => {
+      const response = await this.get(id, {
+        include: 'payments',
+        ...(signal !== undefined && { signal }),
+      });
+      const payment = (response.included ?? []).find(
+        (resource) =>
+          resource.type === 'payments' &&
+          matchesAttributes(resource, {
+            date: attributes.date,
+            amount: attributes.amount,
+            notes: attributes.notes,
+          }) &&
+          createdSince(resource, since)
+      );
+      return payment ? { data: payment } : null;
+    };
+  }
+
+  /**
+   * Lists resources with pagination and filtering.
+   */
+  protected async list(
+    params: ListQueryParams<TFilters> = {}
+  ): Promise<PaginatedResponse<TResource>> {
+    const response = await this.listAt<TResource>(this.buildPath(), params);
+    this.validateResponse(false, response);
+    return response;
+  }
+
   /**
    * Gets a single resource by ID.
    */
-  async get(
+  protected async get(
     id: string | number,
     params: ShowQueryParams = {}
   ): Promise<JsonApiResponse<TResource>> {
-    const query = buildShowQuery(params);
-    return this.transport.get<JsonApiResponse<TResource>>(
+    const response = await this.transport.get<JsonApiResponse<TResource>>(
       this.buildPath(id),
-      query
+      buildShowQuery(params),
+      this.requestOptions(params)
     );
+    this.validateResponse(true, response);
+    return response;
   }
 
   /**
    * Creates a new resource.
+   * Pass `idempotencyKey` to safely repeat the same create.
    */
-  async create(
-    payload: { data: { type: string; attributes: TAttributes; relationships?: Record<string, unknown> } }
+  protected async create(
+    payload: TCreatePayload,
+    options: IdempotencyOptions = {}
   ): Promise<JsonApiResponse<TResource>> {
-    return this.transport.post<JsonApiResponse<TResource>>(
-      this.buildPath(),
-      payload
+    return this.guardedWrite(
+      'create',
+      options,
+      (request) => this.transport.post<JsonApiResponse<TResource>>(
+        this.buildPath(),
+        payload,
+        request
+      ),
+      this.createdLookup(payload.data.attributes, options.signal)
     );
   }
 
   /**
-   * Updates an existing resource.
+   * Updates an existing resource. The spec uses PUT for every update.
    */
-  async update(
+  protected async update(
     id: string | number,
-    payload: { data: { id: string; type: string; attributes?: Partial<TAttributes>; relationships?: Record<string, unknown> } }
+    payload: PartialPayload<TUpdatePayload>,
+    options: ActionOptions = {}
   ): Promise<JsonApiResponse<TResource>> {
-    return this.transport.patch<JsonApiResponse<TResource>>(
+    return this.transport.put<JsonApiResponse<TResource>>(
       this.buildPath(id),
-      payload
+      payload,
+      this.requestOptions(options)
     );
   }
 
   /**
    * Deletes a resource.
    */
-  async delete(id: string | number): Promise<void> {
-    await this.transport.delete(this.buildPath(id));
+  protected async delete(id: string | number, options: ActionOptions = {}): Promise<void> {
+    await this.transport.delete(this.buildPath(id), this.requestOptions(options));
   }
 
   /**
    * Async iterator for paginating through all resources.
    * Yields individual resources one at a time.
+   * Pass `signal` to stop fetching further pages.
    *
    * @example
    * ```typescript
@@ -151,7 +330,7 @@ export abstract class BaseResource<
    * }
    * ```
    */
-  async *iterate(
+  protected async *iterate(
     params: ListQueryParams<TFilters> & IterateOptions = {}
   ): AsyncGenerator<TResource, void, undefined> {
     const { pageSize = 25, maxPages, ...queryParams } = params;
@@ -185,7 +364,7 @@ export abstract class BaseResource<
    * });
    * ```
    */
-  async listAll(
+  protected async listAll(
     params: ListQueryParams<TFilters> & IterateOptions = {}
   ): Promise<TResource[]> {
     const results: TResource[] = [];
@@ -201,7 +380,7 @@ export abstract class BaseResource<
    * Counts resources matching the query.
    * Makes a single request to get the total_count from meta.
    */
-  async count(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<number> {
+  protected async count(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<number> {
     const response = await this.list({
       ...params,
       page: { number: 1, size: 1 }, // Minimize data transfer
@@ -212,7 +391,7 @@ export abstract class BaseResource<
   /**
    * Checks if any resources exist matching the query.
    */
-  async exists(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<boolean> {
+  protected async exists(params: Omit<ListQueryParams<TFilters>, 'page'> = {}): Promise<boolean> {
     const count = await this.count(params);
     return count > 0;
   }
@@ -220,7 +399,7 @@ export abstract class BaseResource<
   /**
    * Gets the first resource matching the query.
    */
-  async first(
+  protected async first(
     params: Omit<ListQueryParams<TFilters>, 'page'> = {}
   ): Promise<TResource | null> {
     const response = await this.list({
@@ -267,7 +446,7 @@ export interface Payable<T> {
 export interface HasPdf {
   pdf(
     id: string | number,
-    options?: { pollInterval?: number; timeout?: number }
+    options?: { pollInterval?: number; timeout?: number; signal?: AbortSignal }
   ): Promise<{ url: string; expiresAt: Date }>;
 }
 
@@ -4,8 +4,18 @@
  * Manage cash and bank accounts.
  */
 
-import { BaseResource, type ResourceConfig } from './BaseResource.js';
-import type { JsonApiResource, JsonApiResponse } from '../generated/types.js';
+import { GeneratedAccountsResource } from '../generated/resources.js';
+import {
+  createdSince,
+  matchesAttributes,
+  type IdempotencyOptions,
+} from '../client/Idempotency.js';
+import type { AccountsFilters } from '../generated/operations.js';
+import type {
+  JsonApiResource,
+  JsonApiResponse,
+  TransactionAttributes as TransactionRecordAttributes,
+} from '../generated/types.js';
 
 // ============================================================================
 // Types
@@ -34,14 +44,7 @@ export interface Account extends JsonApiResource<AccountAttributes> {
   type: 'accounts';
 }
 
-export interface AccountFilters {
-  name?: string;
-  currency?: 'TRL' | 'USD' | 'EUR' | 'GBP';
-  bank_name?: string;
-  bank_branch?: string;
-  account_type?: 'cash' | 'bank' | 'sys';
-  iban?: string;
-}
+export type AccountFilters = AccountsFilters;
 
 export interface TransactionAttributes {
   date: string;
@@ -53,45 +56,83 @@ export interface TransactionAttributes {
 // Resource
 // ============================================================================
 
-export class AccountsResource extends BaseResource<
+export class AccountsResource extends GeneratedAccountsResource<
   Account,
   AccountAttributes,
   AccountFilters
 > {
-  constructor(config: Omit<ResourceConfig, 'basePath' | 'resourceType'>) {
-    super({
-      ...config,
-      basePath: '/accounts',
-      resourceType: 'accounts',
-    });
-  }
-
   /**
    * Creates a debit transaction (withdrawal) on the account.
    */
-  async debit(
+  override async debit(
     accountId: string | number,
-    payload: { data: { type: 'transactions'; attributes: TransactionAttributes } }
-  ): Promise<JsonApiResponse<JsonApiResource>> {
-    return this.transport.post<JsonApiResponse<JsonApiResource>>(
-      this.buildPath(accountId, '/debit_transactions'),
-      payload
+    payload: { data: { type: 'transactions'; attributes: TransactionAttributes } },
+    options: IdempotencyOptions = {}
+  ): Promise<JsonApiResponse<JsonApiResource<TransactionRecordAttributes>>> {
+    return this.guardedWrite(
+      'debit',
+      options,
+      (request) => this.transport.post<JsonApiResponse<JsonApiResource<TransactionRecordAttributes>>>(
+        this.buildPath(accountId, '/debit_transactions'),
+        payload,
+        request
+      ),
+      this.transactionLookup(accountId, payload.data.attributes, options.signal)
     );
   }
 
   /**
    * Creates a credit transaction (deposit) on the account.
    */
-  async credit(
+  override async credit(
     accountId: string | number,
-    payload: { data: { type: 'transactions'; attributes: TransactionAttributes } }
-  ): Promise<JsonApiResponse<JsonApiResource>> {
-    return this.transport.post<JsonApiResponse<JsonApiResource>>(
-      this.buildPath(accountId, '/credit_transactions'),
-      payload
+    payload: { data: { type: 'transactions'; attributes: TransactionAttributes } },
+    options: IdempotencyOptions = {}
+  ): Promise<JsonApiResponse<JsonApiResource<TransactionRecordAttributes>>> {
+    return this.guardedWrite(
+      'credit',
+      options,
+      (request) => this.transport.post<JsonApiResponse<JsonApiResource<TransactionRecordAttributes>>>(
+        this.buildPath(accountId, '/credit_transactions'),
+        payload,
+        request
+      ),
+      this.transactionLookup(accountId, payload.data.attributes, options.signal)
     );
   }
 
+  /**
+   * Returns a lookup that finds a transaction on the account by date,
+   * amount and description. Transactions without a description get none.
+   */
+  private transactionLookup(
+    accountId: string | number,
+    attributes: TransactionAttributes,
+    signal?: AbortSignal
+  ): ((since: Date) => Promise<JsonApiResponse<JsonApiResource<TransactionRecordAttributes>> | null>) | undefined {
+    if (!attributes.description) {
+      return undefined;
+    }
+
+    return async (since) => {
+      const response = await this.transactions(accountId, {
+        filter: { date: attributes.date },
+        sort: '-id',
+        ...(signal !== undefined && { signal }),
+      });
+      const transaction = response.data.find((resource) => {
+        // The amount is reported on the debit or credit side
+        const { debit_amount, credit_amount } = resource.attributes;
+        return (
+          matchesAttributes(resource, { date: attributes.date, description: attributes.description }) &&
+          [debit_amount, credit_amount].some((amount) => Number(amount) === attributes.amount) &&
+          createdSince(resource, since)
+        );
+      });
+      return transaction ? { data: transaction } : null;
+    };
+  }
+
   /**
    * Lists cash accounts.
    */
@@ -4,8 +4,8 @@
  * Manage bank fees and charges.
  */
 
-import { BaseResource, type ResourceConfig } from './BaseResource.js';
-import type { JsonApiResource, JsonApiResponse } from '../generated/types.js';
+import { GeneratedBankFeesResource } from '../generated/resources.js';
+import type { JsonApiResource } from '../generated/types.js';
 
 export interface BankFeeAttributes {
   readonly created_at?: string;
@@ -31,44 +31,8 @@ export interface BankFeeFilters {
   due_date?: string;
 }
 
-export class BankFeesResource extends BaseResource<
+export class BankFeesResource extends GeneratedBankFeesResource<
   BankFee,
   BankFeeAttributes,
   BankFeeFilters
-> {
-  constructor(config: Omit<ResourceConfig, 'basePath' | 'resourceType'>) {
-    super({
-      ...config,
-      basePath: '/bank_fees',
-      resourceType: 'bank_fees',
-    });
-  }
-
-  async archive(id: string | number): Promise<JsonApiResponse<BankFee>> {
-    return this.transport.post<JsonApiResponse<BankFee>>(
-      this.buildPath(id, '/archive')
-    );
-  }
-
-  async unarchive(id: string | number): Promise<JsonApiResponse<BankFee>> {
-    return this.transport.post<JsonApiResponse<BankFee>>(
-      this.buildPath(id, '/unarchive')
-    );
-  }
-
-  async pay(
-    id: string | number,
-    payload: {
-      data: {
-        type: 'payments';
-        attributes: { date: string; amount: number; notes?: string };
-        relationships?: { account?: { data: { id: string; type: 'accounts' } } };
-      };
-    }
-  ): Promise<JsonApiResponse<JsonApiResource>> {
-    return this.transport.post<JsonApiResponse<JsonApiResource>>(
-      this.buildPath(id, '/payments'),
-      payload
-    );
-  }
-}
+> {}
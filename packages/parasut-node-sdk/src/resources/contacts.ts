@@ -4,7 +4,8 @@
  * Manage customers and suppliers.
  */
 
-import { BaseResource, type ResourceConfig } from './BaseResource.js';
+import { GeneratedContactsResource } from '../generated/resources.js';
+import type { ContactsFilters } from '../generated/operations.js';
 import type { JsonApiResource } from '../generated/types.js';
 
 // ============================================================================
@@ -40,32 +41,17 @@ export interface Contact extends JsonApiResource<ContactAttributes> {
   type: 'contacts';
 }
 
-export interface ContactFilters {
-  name?: string;
-  email?: string;
-  tax_number?: string;
-  tax_office?: string;
-  city?: string;
-  account_type?: 'customer' | 'supplier';
-}
+export type ContactFilters = ContactsFilters;
 
 // ============================================================================
 // Resource
 // ============================================================================
 
-export class ContactsResource extends BaseResource<
+export class ContactsResource extends GeneratedContactsResource<
   Contact,
   ContactAttributes,
   ContactFilters
 > {
-  constructor(config: Omit<ResourceConfig, 'basePath' | 'resourceType'>) {
-    super({
-      ...config,
-      basePath: '/contacts',
-      resourceType: 'contacts',
-    });
-  }
-
   /**
    * Finds contacts by name (partial match).
    */
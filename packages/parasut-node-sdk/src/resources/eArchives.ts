@@ -4,7 +4,9 @@
  * Manage e-archive documents with PDF generation.
  */
 
-import { BaseResource, type ResourceConfig } from './BaseResource.js';
+import type { ResourceConfig } from './BaseResource.js';
+import { GeneratedEArchivesResource } from '../generated/resources.js';
+import { sleep } from '../client/abort.js';
 import { TrackableJobsResource, type PollOptions } from './trackableJobs.js';
 import type { JsonApiResource, JsonApiResponse } from '../generated/types.js';
 
@@ -61,7 +63,7 @@ export interface PdfResult {
 // Resource
 // ============================================================================
 
-export class EArchivesResource extends BaseResource<
+export class EArchivesResource extends GeneratedEArchivesResource<
   EArchive,
   EArchiveAttributes,
   EArchiveFilters
@@ -72,11 +74,7 @@ export class EArchivesResource extends BaseResource<
     config: Omit<ResourceConfig, 'basePath' | 'resourceType'>,
     trackableJobs: TrackableJobsResource
   ) {
-    super({
-      ...config,
-      basePath: '/e_archives',
-      resourceType: 'e_archives',
-    });
+    super(config);
     this.trackableJobs = trackableJobs;
   }
 
@@ -141,7 +139,10 @@ export class EArchivesResource extends BaseResource<
     // Get the created e-archive from the sales invoice
     // The e-archive ID is not directly returned, so we need to query
     // This is a limitation of the API design
-    const response = await this.list({ page: { number: 1, size: 1 } });
+    const response = await this.list({
+      page: { number: 1, size: 1 },
+      ...(options?.signal !== undefined && { signal: options.signal }),
+    });
     if (response.data.length === 0) {
       throw new Error('E-archive created but could not be retrieved');
     }
@@ -161,9 +162,9 @@ export class EArchivesResource extends BaseResource<
    */
   async pdf(
     id: string | number,
-    options: { pollInterval?: number; timeout?: number } = {}
+    options: { pollInterval?: number; timeout?: number; signal?: AbortSignal } = {}
   ): Promise<PdfResult> {
-    const { pollInterval = 2000, timeout = 60000 } = options;
+    const { pollInterval = 2000, timeout = 60000, signal } = options;
     const startTime = Date.now();
 
     while (true) {
@@ -171,15 +172,15 @@ export class EArchivesResource extends BaseResource<
         throw new Error(`PDF not ready after ${timeout}ms`);
       }
 
-      const response = await this.transport.get<{
+      const response: {
         status?: number;
         noContent?: boolean;
         data?: { attributes?: { url?: string } };
-      }>(this.buildPath(id, '/pdf'));
+      } = await this.getPdf(id, { ...(signal !== undefined && { signal }) });
 
       // 204 No Content means PDF not ready yet
       if (response.noContent || response.status === 204) {
-        await this.sleep(pollInterval);
+        await sleep(pollInterval, signal);
         continue;
       }
 
@@ -192,11 +193,7 @@ export class EArchivesResource extends BaseResource<
         };
       }
 
-      await this.sleep(pollInterval);
+      await sleep(pollInterval, signal);
     }
   }
-
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-  }
 }
@@ -4,7 +4,8 @@
  * Check if a contact is an e-invoice user.
  */
 
-import { BaseResource, type ResourceConfig } from './BaseResource.js';
+import { GeneratedEInvoiceInboxesResource } from '../generated/resources.js';
+import type { EInvoiceInboxesFilters } from '../generated/operations.js';
 import type { JsonApiResource } from '../generated/types.js';
 
 // ============================================================================
@@ -26,7 +27,10 @@ export interface EInvoiceInbox extends JsonApiResource<EInvoiceInboxAttributes>
   type: 'e_invoice_inboxes';
 }
 
-export interface EInvoiceInboxFilters {
+export interface EInvoiceInboxFilters extends Omit<EInvoiceInboxesFilters, 'vkn'> {
+  /**
+   * The spec declares an integer, but a string keeps leading zeros.
+   */
   vkn?: string;
 }
 
@@ -34,19 +38,11 @@ export interface EInvoiceInboxFilters {
 // Resource
 // ============================================================================
 
-export class EInvoiceInboxesResource extends BaseResource<
+export class EInvoiceInboxesResource extends GeneratedEInvoiceInboxesResource<
   EInvoiceInbox,
   EInvoiceInboxAttributes,
   EInvoiceInboxFilters
 > {
-  constructor(config: Omit<ResourceConfig, 'basePath' | 'resourceType'>) {
-    super({
-      ...config,
-      basePath: '/e_invoice_inboxes',
-      resourceType: 'e_invoice_inboxes',
-    });
-  }
-
   /**
    * Checks if a contact with the given VKN (tax number) is an e-invoice user.
    * Returns the inbox if they are, null otherwise.
@@ -4,7 +4,9 @@
  * Manage e-invoice documents with PDF generation.
  */
 
-import { BaseResource, type ResourceConfig } from './BaseResource.js';
+import type { ResourceConfig } from './BaseResource.js';
+import { GeneratedEInvoicesResource } from '../generated/resources.js';
+import { sleep } from '../client/abort.js';
 import { TrackableJobsResource, type PollOptions } from './trackableJobs.js';
 import type { JsonApiResource, JsonApiResponse } from '../generated/types.js';
 
@@ -51,7 +53,7 @@ export interface PdfResult {
 // Resource
 // ============================================================================
 
-export class EInvoicesResource extends BaseResource<
+export class EInvoicesResource extends GeneratedEInvoicesResource<
   EInvoice,
   EInvoiceAttributes,
   EInvoiceFilters
@@ -62,11 +64,7 @@ export class EInvoicesResource extends BaseResource<
     config: Omit<ResourceConfig, 'basePath' | 'resourceType'>,
     trackableJobs: TrackableJobsResource
   ) {
-    super({
-      ...config,
-      basePath: '/e_invoices',
-      resourceType: 'e_invoices',
-    });
+    super(config);
     this.trackableJobs = trackableJobs;
   }
 
@@ -115,7 +113,10 @@ export class EInvoicesResource extends BaseResource<
     const createResult = await this.submit(payload);
     await this.trackableJobs.poll(createResult.trackableJobId, options);
 
-    const response = await this.list({ page: { number: 1, size: 1 } });
+    const response = await this.list({
+      page: { number: 1, size: 1 },
+      ...(options?.signal !== undefined && { signal: options.signal }),
+    });
     if (response.data.length === 0) {
       throw new Error('E-invoice created but could not be retrieved');
     }
@@ -127,9 +128,9 @@ export class EInvoicesResource extends BaseResource<
    */
   async pdf(
     id: string | number,
-    options: { pollInterval?: number; timeout?: number } = {}
+    options: { pollInterval?: number; timeout?: number; signal?: AbortSignal } = {}
   ): Promise<PdfResult> {
-    const { pollInterval = 2000, timeout = 60000 } = options;
+    const { pollInterval = 2000, timeout = 60000, signal } = options;
     const startTime = Date.now();
 
     while (true) {
@@ -137,14 +138,14 @@ export class EInvoicesResource extends BaseResource<
         throw new Error(`PDF not ready after ${timeout}ms`);
       }
 
-      const response = await this.transport.get<{
+      const response: {
         status?: number;
         noContent?: boolean;
         data?: { attributes?: { url?: string } };
-      }>(this.buildPath(id, '/pdf'));
+      } = await this.getPdf(id, { ...(signal !== undefined && { signal }) });
 
       if (response.noContent || response.status === 204) {
-        await this.sleep(pollInterval);
+        await sleep(pollInterval, signal);
         continue;
       }
 
@@ -156,11 +157,7 @@ export class EInvoicesResource extends BaseResource<
         };
       }
 
-      await this.sleep(pollInterval);
+      await sleep(pollInterval, signal);
     }
   }
-
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-  }
 }
@@ -4,7 +4,9 @@
  * Manage e-receipts for freelancers.
  */
 
-import { BaseResource, type ResourceConfig } from './BaseResource.js';
+import type { ResourceConfig } from './BaseResource.js';
+import { GeneratedESmmsResource } from '../generated/resources.js';
+import { sleep } from '../client/abort.js';
 import { TrackableJobsResource, type PollOptions } from './trackableJobs.js';
 import type { JsonApiResource, JsonApiResponse } from '../generated/types.js';
 
@@ -33,18 +35,14 @@ export interface PdfResult {
   expiresAt: Date;
 }
 
-export class ESmmsResource extends BaseResource<ESmm, ESmmAttributes, ESmmFilters> {
+export class ESmmsResource extends GeneratedESmmsResource<ESmm, ESmmAttributes, ESmmFilters> {
   private readonly trackableJobs: TrackableJobsResource;
 
   constructor(
     config: Omit<ResourceConfig, 'basePath' | 'resourceType'>,
     trackableJobs: TrackableJobsResource
   ) {
-    super({
-      ...config,
-      basePath: '/e_smms',
-      resourceType: 'e_smms',
-    });
+    super(config);
     this.trackableJobs = trackableJobs;
   }
 
@@ -84,7 +82,10 @@ export class ESmmsResource extends BaseResource<ESmm, ESmmAttributes, ESmmFilter
     const createResult = await this.submit(payload);
     await this.trackableJobs.poll(createResult.trackableJobId, options);
 
-    const response = await this.list({ page: { number: 1, size: 1 } });
+    const response = await this.list({
+      page: { number: 1, size: 1 },
+      ...(options?.signal !== undefined && { signal: options.signal }),
+    });
     if (response.data.length === 0) {
       throw new Error('E-SMM created but could not be retrieved');
     }
@@ -93,9 +94,9 @@ export class ESmmsResource extends BaseResource<ESmm, ESmmAttributes, ESmmFilter
 
   async pdf(
     id: string | number,
-    options: { pollInterval?: number; timeout?: number } = {}
+    options: { pollInterval?: number; timeout?: number; signal?: AbortSignal } = {}
   ): Promise<PdfResult> {
-    const { pollInterval = 2000, timeout = 60000 } = options;
+    const { pollInterval = 2000, timeout = 60000, signal } = options;
     const startTime = Date.now();
 
     while (true) {
@@ -103,14 +104,14 @@ export class ESmmsResource extends BaseResource<ESmm, ESmmAttributes, ESmmFilter
         throw new Error(`PDF not ready after ${timeout}ms`);
       }
 
-      const response = await this.transport.get<{
+      const response: {
         status?: number;
         noContent?: boolean;
         data?: { attributes?: { url?: string } };
-      }>(this.buildPath(id, '/pdf'));
+      } = await this.getPdf(id, { ...(signal !== undefined && { signal }) });
 
       if (response.noContent || response.status === 204) {
-        await this.sleep(pollInterval);
+        await sleep(pollInterval, signal);
         continue;
       }
 
@@ -122,11 +123,7 @@ export class ESmmsResource extends BaseResource<ESmm, ESmmAttributes, ESmmFilter
         };
       }
 
-      await this.sleep(pollInterval);
+      await sleep(pollInterval, signal);
     }
   }
-
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-  }
 }
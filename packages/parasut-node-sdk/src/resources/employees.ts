@@ -4,8 +4,9 @@
  * Manage employee records.
  */
 
-import { BaseResource, type ResourceConfig } from './BaseResource.js';
-import type { JsonApiResource, JsonApiResponse } from '../generated/types.js';
+import { GeneratedEmployeesResource } from '../generated/resources.js';
+import type { EmployeesFilters } from '../generated/operations.js';
+import type { JsonApiResource } from '../generated/types.js';
 
 // ============================================================================
 // Types
@@ -27,43 +28,14 @@ export interface Employee extends JsonApiResource<EmployeeAttributes> {
   type: 'employees';
 }
 
-export interface EmployeeFilters {
-  name?: string;
-  email?: string;
-}
+export type EmployeeFilters = EmployeesFilters;
 
 // ============================================================================
 // Resource
 // ============================================================================
 
-export class EmployeesResource extends BaseResource<
+export class EmployeesResource extends GeneratedEmployeesResource<
   Employee,
   EmployeeAttributes,
   EmployeeFilters
-> {
-  constructor(config: Omit<ResourceConfig, 'basePath' | 'resourceType'>) {
-    super({
-      ...config,
-      basePath: '/employees',
-      resourceType: 'employees',
-    });
-  }
-
-  /**
-   * Archives an employee.
-   */
-  async archive(id: string | number): Promise<JsonApiResponse<Employee>> {
-    return this.transport.post<JsonApiResponse<Employee>>(
-      this.buildPath(id, '/archive')
-    );
-  }
-
-  /**
-   * Unarchives an employee.
-   */
-  async unarchive(id: string | number): Promise<JsonApiResponse<Employee>> {
-    return this.transport.post<JsonApiResponse<Employee>>(
-      this.buildPath(id, '/unarchive')
-    );
-  }
-}
+> {}
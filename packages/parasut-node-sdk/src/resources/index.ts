@@ -2,8 +2,9 @@
  * Resource Exports
  */
 
-export { BaseResource, type ResourceConfig, type PaginatedResponse, type IterateOptions } from './BaseResource.js';
+export { BaseResource, type ResourceConfig, type PaginatedResponse, type IterateOptions, type ActionOptions, type ResourcePayload, type PartialPayload } from './BaseResource.js';
 export { TrackableJobsResource, TrackableJobError, TrackableJobTimeoutError, type PollOptions } from './trackableJobs.js';
+export { MeResource, type MeResult, type User, type UserCompany, type UserProfile } from './me.js';
 
 // Core resources
 export { AccountsResource, type Account, type AccountAttributes, type AccountFilters } from './accounts.js';
@@ -32,8 +33,10 @@ export { TaxesResource, type Tax, type TaxAttributes, type TaxFilters } from './
 export { EmployeesResource, type Employee, type EmployeeAttributes, type EmployeeFilters } from './employees.js';
 
 // Inventory
-export { InventoryLevelsResource, type InventoryLevel, type InventoryLevelAttributes, type InventoryLevelFilters } from './inventoryLevels.js';
-export { StockMovementsResource, type StockMovement, type StockMovementAttributes, type StockMovementFilters } from './stockMovements.js';
+export { InventoryLevelsResource, type InventoryLevel, type InventoryLevelAttributes, type InventoryLevelRelationships, type InventoryLevelFilters } from './inventoryLevels.js';
+export { StockMovementsResource, type StockMovement, type StockMovementAttributes, type StockMovementRelationships, type StockMovementFilters } from './stockMovements.js';
+export { StockUpdatesResource, type StockUpdate, type StockUpdateAttributes } from './stockUpdates.js';
+export { WarehousesResource, type Warehouse, type WarehouseAttributes, type WarehouseFilters, type WithWarehouseName } from './warehouses.js';
 export { ShipmentDocumentsResource, type ShipmentDocument, type ShipmentDocumentAttributes, type ShipmentDocumentFilters } from './shipmentDocuments.js';
 
 // Settings
@@ -42,3 +45,7 @@ export { ItemCategoriesResource, type ItemCategory, type ItemCategoryAttributes,
 
 // Financial
 export { TransactionsResource, type Transaction, type TransactionAttributes, type TransactionFilters } from './transactions.js';
+
+// Integrations
+export { SharingsResource, sharingForm, type Sharing, type SharingAttributes, type ShareableType, type SharingFormAttributes, type SharingFormBody, type SharingEmail, type SharingPortal, type ShareOptions, type SharingResponse } from './sharings.js';
+export { WebhooksResource, type Webhook, type WebhookAttributes, type WebhookModel, type WebhookAction } from './webhooks.js';
@@ -4,8 +4,16 @@
  * View inventory levels per warehouse.
  */
 
-import { BaseResource, type ResourceConfig } from './BaseResource.js';
-import type { JsonApiResource } from '../generated/types.js';
+import { GeneratedInventoryLevelsResource } from '../generated/resources.js';
+import type { InventoryLevelsFilters } from '../generated/operations.js';
+import type { JsonApiResource, JsonApiResponse, Relationship } from '../generated/types.js';
+import type { ListQueryParams, ShowQueryParams } from '../client/QueryBuilder.js';
+import type { PaginatedResponse, ResourceConfig } from './BaseResource.js';
+import {
+  includingWarehouse,
+  type WarehousesResource,
+  type WithWarehouseName,
+} from './warehouses.js';
 
 export interface InventoryLevelAttributes {
   readonly stock_count?: number;
@@ -13,33 +21,113 @@ export interface InventoryLevelAttributes {
   readonly updated_at?: string;
 }
 
-export interface InventoryLevel extends JsonApiResource<InventoryLevelAttributes> {
-  type: 'inventory_levels';
+export interface InventoryLevelRelationships {
+  product?: Relationship;
+  warehouse?: Relationship;
 }
 
-export interface InventoryLevelFilters {
-  product_id?: number;
-  warehouse_id?: number;
+export interface InventoryLevel extends JsonApiResource<InventoryLevelAttributes, InventoryLevelRelationships> {
+  type: 'inventory_levels';
 }
 
-export class InventoryLevelsResource extends BaseResource<
+/**
+ * Filters for a product's levels. The spec has no company-wide list, so
+ * levels are always listed per product.
+ */
+export type InventoryLevelFilters = InventoryLevelsFilters;
+
+export class InventoryLevelsResource extends GeneratedInventoryLevelsResource<
   InventoryLevel,
   InventoryLevelAttributes,
   InventoryLevelFilters
 > {
-  constructor(config: Omit<ResourceConfig, 'basePath' | 'resourceType'>) {
-    super({
-      ...config,
-      basePath: '/inventory_levels',
-      resourceType: 'inventory_levels',
-    });
+  private readonly warehouses: WarehousesResource;
+
+  constructor(
+    config: Omit<ResourceConfig, 'basePath' | 'resourceType'>,
+    warehouses: WarehousesResource
+  ) {
+    super(config);
+    this.warehouses = warehouses;
+  }
+
+  /**
+   * Lists inventory levels across the company.
+   *
+   * @deprecated The spec has no `GET /inventory_levels`; list a product's
+   * levels with `listForProduct(productId)`.
+   */
+  override async list(
+    params: ListQueryParams<InventoryLevelFilters> = {}
+  ): Promise<PaginatedResponse<InventoryLevel>> {
+    return super.list(params);
   }
 
-  async getForProduct(productId: number) {
-    return this.list({ filter: { product_id: productId } });
+  /**
+   * Gets a single inventory level by ID.
+   *
+   * @deprecated The spec has no `GET /inventory_levels/{id}`; find the level
+   * among the product's levels from `listForProduct(productId)`.
+   */
+  override async get(
+    id: string | number,
+    params: ShowQueryParams = {}
+  ): Promise<JsonApiResponse<InventoryLevel>> {
+    return super.get(id, params);
+  }
+
+  async getForProduct(productId: number, params: ListQueryParams<InventoryLevelFilters> = {}) {
+    return this.listForProduct(productId, params);
+  }
+
+  /**
+   * Lists inventory levels in a warehouse.
+   *
+   * @deprecated The spec has no company-wide `GET /inventory_levels`; use
+   * `getForProductInWarehouse(productId, warehouseId)`.
+   */
+  async getForWarehouse(warehouseId: number): Promise<PaginatedResponse<InventoryLevel>> {
+    return this.listAt<InventoryLevel>(this.buildPath(), { filter: { warehouse_id: warehouseId } });
+  }
+
+  /**
+   * Gets a product's inventory level in one warehouse, or null when the
+   * product has no level there. Pages through the product's levels, since
+   * they cannot be filtered by warehouse ID.
+   */
+  async getForProductInWarehouse(
+    productId: number,
+    warehouseId: string | number,
+    options: { signal?: AbortSignal } = {}
+  ): Promise<InventoryLevel | null> {
+    const id = String(warehouseId);
+    let page = 1;
+    let totalPages = 1;
+
+    while (page <= totalPages) {
+      const response = await this.listForProduct(productId, {
+        page: { number: page, size: 25 },
+        ...(options.signal !== undefined && { signal: options.signal }),
+      });
+      const level = response.data.find((record) => record.relationships?.warehouse?.data?.id === id);
+      if (level) {
+        return level;
+      }
+      totalPages = response.meta.total_pages;
+      page++;
+    }
+
+    return null;
   }
 
-  async getForWarehouse(warehouseId: number) {
-    return this.list({ filter: { warehouse_id: warehouseId } });
+  /**
+   * Lists a product's inventory levels with each level's warehouse name.
+   */
+  async getForProductWithWarehouses(
+    productId: number,
+    params: ListQueryParams<InventoryLevelFilters> = {}
+  ): Promise<PaginatedResponse<WithWarehouseName<InventoryLevel>>> {
+    const response = await this.listForProduct(productId, includingWarehouse(params));
+    return this.warehouses.withNames(response, params.signal);
   }
 }
@@ -4,7 +4,8 @@
  * Manage categories for products and expenses.
  */
 
-import { BaseResource, type ResourceConfig } from './BaseResource.js';
+import { GeneratedItemCategoriesResource } from '../generated/resources.js';
+import type { ItemCategoriesFilters } from '../generated/operations.js';
 import type { JsonApiResource } from '../generated/types.js';
 
 export type CategoryType = 'Product' | 'Contact' | 'SalesInvoice' | 'Employee' | 'BankFee' | 'PurchaseBill' | 'Tax' | 'Salary';
@@ -22,24 +23,13 @@ export interface ItemCategory extends JsonApiResource<ItemCategoryAttributes> {
   type: 'item_categories';
 }
 
-export interface ItemCategoryFilters {
-  name?: string;
-  category_type?: CategoryType;
-}
+export type ItemCategoryFilters = ItemCategoriesFilters;
 
-export class ItemCategoriesResource extends BaseResource<
+export class ItemCategoriesResource extends GeneratedItemCategoriesResource<
   ItemCategory,
   ItemCategoryAttributes,
   ItemCategoryFilters
 > {
-  constructor(config: Omit<ResourceConfig, 'basePath' | 'resourceType'>) {
-    super({
-      ...config,
-      basePath: '/item_categories',
-      resourceType: 'item_categories',
-    });
-  }
-
   /**
    * Lists categories of a specific type.
    */
@@ -0,0 +1,93 @@
+/**
+ * Me Resource
+ *
+ * The authenticated user, their profile and the companies they can access.
+ * Not scoped to a company.
+ */
+
+import type { HttpTransport } from '../client/HttpTransport.js';
+import type {
+  CompanyAttributes,
+  JsonApiResource,
+  JsonApiResponse,
+  Me,
+  MeAttributes,
+  ProfileAttributes,
+} from '../generated/types.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface User extends JsonApiResource<MeAttributes, NonNullable<Me['relationships']>> {
+  type: 'users';
+}
+
+export interface UserProfile extends JsonApiResource<ProfileAttributes> {
+  type: 'profiles';
+}
+
+export interface UserCompany extends JsonApiResource<CompanyAttributes> {
+  type: 'companies';
+}
+
+export interface MeResult {
+  user: User;
+  profile: UserProfile | null;
+  /**
+   * Companies the user can access, in the order the API lists them.
+   */
+  companies: UserCompany[];
+}
+
+// ============================================================================
+// Resource
+// ============================================================================
+
+export class MeResource {
+  private readonly transport: HttpTransport;
+
+  constructor(transport: HttpTransport) {
+    this.transport = transport;
+  }
+
+  /**
+   * Gets the user with their profile and companies.
+   *
+   * @example
+   * ```typescript
+   * const { user, companies } = await client.me.get();
+   * console.log(user.attributes.email, companies.map((c) => c.attributes.name));
+   * ```
+   */
+  async get(options: { signal?: AbortSignal } = {}): Promise<MeResult> {
+    const response = await this.transport.get<JsonApiResponse<User>>(
+      '/me',
+      { include: 'companies,profile' },
+      { ...(options.signal !== undefined && { signal: options.signal }) }
+    );
+
+    const included = response.included ?? [];
+    const find = (ref: { id?: string; type?: string }): JsonApiResource | undefined =>
+      included.find((resource) => resource.id === ref.id && resource.type === ref.type);
+
+    const relationships = response.data.relationships;
+    const companies = (relationships?.companies?.data ?? [])
+      .map(find)
+      .filter((company): company is UserCompany => company !== undefined);
+    const profileRef = relationships?.profile?.data;
+
+    return {
+      user: response.data,
+      profile: profileRef ? ((find(profileRef) as UserProfile | undefined) ?? null) : null,
+      companies,
+    };
+  }
+
+  /**
+   * Lists the companies the user can access.
+   */
+  async companies(options: { signal?: AbortSignal } = {}): Promise<UserCompany[]> {
+    return (await this.get(options)).companies;
+  }
+}
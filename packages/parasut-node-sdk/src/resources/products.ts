@@ -4,7 +4,8 @@
  * Manage products and services.
  */
 
-import { BaseResource, type ResourceConfig } from './BaseResource.js';
+import { GeneratedProductsResource } from '../generated/resources.js';
+import type { ProductsFilters } from '../generated/operations.js';
 import type { JsonApiResource } from '../generated/types.js';
 
 // ============================================================================
@@ -39,40 +40,21 @@ export interface Product extends JsonApiResource<ProductAttributes> {
   type: 'products';
 }
 
-export interface ProductFilters {
-  name?: string;
-  code?: string;
-  barcode?: string;
-}
+export type ProductFilters = ProductsFilters;
 
 // ============================================================================
 // Resource
 // ============================================================================
 
-export class ProductsResource extends BaseResource<
+export class ProductsResource extends GeneratedProductsResource<
   Product,
   ProductAttributes,
   ProductFilters
 > {
-  constructor(config: Omit<ResourceConfig, 'basePath' | 'resourceType'>) {
-    super({
-      ...config,
-      basePath: '/products',
-      resourceType: 'products',
-    });
-  }
-
   /**
    * Finds a product by code.
    */
   async findByCode(code: string) {
     return this.first({ filter: { code } });
   }
-
-  /**
-   * Finds a product by barcode.
-   */
-  async findByBarcode(barcode: string) {
-    return this.first({ filter: { barcode } });
-  }
 }
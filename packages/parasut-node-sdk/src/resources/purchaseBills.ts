@@ -4,8 +4,20 @@
  * Manage purchase bills and expenses with support for archive, cancel, and payments.
  */
 
-import { BaseResource, type ResourceConfig } from './BaseResource.js';
-import type { JsonApiResource, JsonApiResponse } from '../generated/types.js';
+import { GeneratedPurchaseBillsResource } from '../generated/resources.js';
+import {
+  createdSince,
+  matchesAttributes,
+  type IdempotencyOptions,
+} from '../client/Idempotency.js';
+import type { PurchaseBillsFilters } from '../generated/operations.js';
+import type {
+  JsonApiResource,
+  JsonApiResponse,
+  PaymentAttributes as PaymentRecordAttributes,
+  PurchaseBillBasicFormAttributes,
+  PurchaseBillDetailedFormAttributes,
+} from '../generated/types.js';
 
 // ============================================================================
 // Types
@@ -48,14 +60,7 @@ export interface PurchaseBill extends JsonApiResource<PurchaseBillAttributes> {
   type: 'purchase_bills';
 }
 
-export interface PurchaseBillFilters {
-  issue_date?: string;
-  due_date?: string;
-  contact_id?: number;
-  invoice_id?: number;
-  item_type?: BillItemType;
-  payment_status?: PaymentStatus;
-}
+export type PurchaseBillFilters = PurchaseBillsFilters;
 
 export interface PaymentAttributes {
   date: string;
@@ -69,59 +74,51 @@ export interface PaymentAttributes {
 // Resource
 // ============================================================================
 
-export class PurchaseBillsResource extends BaseResource<
+export class PurchaseBillsResource extends GeneratedPurchaseBillsResource<
   PurchaseBill,
   PurchaseBillAttributes,
   PurchaseBillFilters
 > {
-  constructor(config: Omit<ResourceConfig, 'basePath' | 'resourceType'>) {
-    super({
-      ...config,
-      basePath: '/purchase_bills',
-      resourceType: 'purchase_bills',
-    });
-  }
-
-  /**
-   * Archives a purchase bill.
-   */
-  async archive(id: string | number): Promise<JsonApiResponse<PurchaseBill>> {
-    return this.transport.post<JsonApiResponse<PurchaseBill>>(
-      this.buildPath(id, '/archive')
-    );
-  }
-
-  /**
-   * Unarchives a purchase bill.
-   */
-  async unarchive(id: string | number): Promise<JsonApiResponse<PurchaseBill>> {
-    return this.transport.post<JsonApiResponse<PurchaseBill>>(
-      this.buildPath(id, '/unarchive')
-    );
-  }
-
   /**
-   * Cancels a purchase bill.
+   * Finds a bill created by an ambiguous `create` through its issue date and
+   * supplier document number. Bills without `invoice_no` cannot be verified.
+   * The API can't filter by `invoice_no`, so this pages newest first until
+   * it reaches bills older than the attempt.
    */
-  async cancel(id: string | number): Promise<JsonApiResponse<PurchaseBill>> {
-    return this.transport.delete<JsonApiResponse<PurchaseBill>>(
-      this.buildPath(id, '/cancel')
-    );
-  }
+  protected override createdLookup(
+    attributes: PurchaseBillBasicFormAttributes | PurchaseBillDetailedFormAttributes,
+    signal?: AbortSignal
+  ): ((since: Date) => Promise<JsonApiResponse<PurchaseBill> | null>) | undefined {
+    const { invoice_no, issue_date, item_type } = attributes;
+    if (invoice_no === undefined) {
+      return undefined;
+    }
 
-  /**
-   * Recovers a cancelled purchase bill.
-   */
-  async recover(id: string | number): Promise<JsonApiResponse<PurchaseBill>> {
-    return this.transport.patch<JsonApiResponse<PurchaseBill>>(
-      this.buildPath(id, '/recover')
-    );
+    return async (since) => {
+      const bills = this.iterate({
+        filter: {
+          issue_date,
+          ...(item_type !== undefined && { item_type }),
+        },
+        sort: '-id',
+        ...(signal !== undefined && { signal }),
+      });
+      for await (const bill of bills) {
+        if (!createdSince(bill, since)) {
+          return null;
+        }
+        if (matchesAttributes(bill, { invoice_no, issue_date, item_type })) {
+          return { data: bill };
+        }
+      }
+      return null;
+    };
   }
 
   /**
    * Adds a payment to a purchase bill.
    */
-  async pay(
+  override async pay(
     id: string | number,
     payload: {
       data: {
@@ -131,32 +128,25 @@ export class PurchaseBillsResource extends BaseResource<
           account?: { data: { id: string; type: 'accounts' } };
         };
       };
-    }
-  ): Promise<JsonApiResponse<JsonApiResource>> {
-    return this.transport.post<JsonApiResponse<JsonApiResource>>(
-      this.buildPath(id, '/payments'),
-      payload
+    },
+    options: IdempotencyOptions = {}
+  ): Promise<JsonApiResponse<JsonApiResource<PaymentRecordAttributes>>> {
+    return this.guardedWrite(
+      'pay',
+      options,
+      (request) => this.transport.post<JsonApiResponse<JsonApiResource<PaymentRecordAttributes>>>(
+        this.buildPath(id, '/payments'),
+        payload,
+        request
+      ),
+      this.paymentLookup(id, payload.data.attributes, options.signal)
     );
   }
 
-  /**
-   * Lists overdue bills.
-   */
-  async listOverdue() {
-    return this.list({ filter: { payment_status: 'overdue' } });
-  }
-
-  /**
-   * Lists unpaid bills.
-   */
-  async listUnpaid() {
-    return this.list({ filter: { payment_status: 'unpaid' } });
-  }
-
   /**
    * Lists bills for a specific supplier.
    */
   async listBySupplier(contactId: number) {
-    return this.list({ filter: { contact_id: contactId } });
+    return this.list({ filter: { supplier_id: contactId } });
   }
 }
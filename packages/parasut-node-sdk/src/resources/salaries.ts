@@ -4,8 +4,9 @@
  * Manage salary records.
  */
 
-import { BaseResource, type ResourceConfig } from './BaseResource.js';
-import type { JsonApiResource, JsonApiResponse } from '../generated/types.js';
+import { GeneratedSalariesResource } from '../generated/resources.js';
+import type { SalariesFilters } from '../generated/operations.js';
+import type { JsonApiResource } from '../generated/types.js';
 
 export interface SalaryAttributes {
   readonly created_at?: string;
@@ -23,50 +24,10 @@ export interface Salary extends JsonApiResource<SalaryAttributes> {
   type: 'salaries';
 }
 
-export interface SalaryFilters {
-  issue_date?: string;
-  due_date?: string;
-  employee_id?: number;
-}
+export type SalaryFilters = SalariesFilters;
 
-export class SalariesResource extends BaseResource<
+export class SalariesResource extends GeneratedSalariesResource<
   Salary,
   SalaryAttributes,
   SalaryFilters
-> {
-  constructor(config: Omit<ResourceConfig, 'basePath' | 'resourceType'>) {
-    super({
-      ...config,
-      basePath: '/salaries',
-      resourceType: 'salaries',
-    });
-  }
-
-  async archive(id: string | number): Promise<JsonApiResponse<Salary>> {
-    return this.transport.post<JsonApiResponse<Salary>>(
-      this.buildPath(id, '/archive')
-    );
-  }
-
-  async unarchive(id: string | number): Promise<JsonApiResponse<Salary>> {
-    return this.transport.post<JsonApiResponse<Salary>>(
-      this.buildPath(id, '/unarchive')
-    );
-  }
-
-  async pay(
-    id: string | number,
-    payload: {
-      data: {
-        type: 'payments';
-        attributes: { date: string; amount: number; notes?: string };
-        relationships?: { account?: { data: { id: string; type: 'accounts' } } };
-      };
-    }
-  ): Promise<JsonApiResponse<JsonApiResource>> {
-    return this.transport.post<JsonApiResponse<JsonApiResource>>(
-      this.buildPath(id, '/payments'),
-      payload
-    );
-  }
-}
+> {}
@@ -4,8 +4,21 @@
  * Manage sales invoices with support for archive, cancel, and payments.
  */
 
-import { BaseResource, type ResourceConfig } from './BaseResource.js';
-import type { JsonApiResource, JsonApiResponse } from '../generated/types.js';
+import type { ResourceConfig } from './BaseResource.js';
+import { GeneratedSalesInvoicesResource } from '../generated/resources.js';
+import {
+  createdSince,
+  matchesAttributes,
+  type IdempotencyOptions,
+} from '../client/Idempotency.js';
+import type { SalesInvoicesFilters } from '../generated/operations.js';
+import type {
+  JsonApiResource,
+  JsonApiResponse,
+  PaymentAttributes as PaymentRecordAttributes,
+  SalesInvoiceCreateUpdateAttributes,
+} from '../generated/types.js';
+import type { ShareOptions, SharingResponse, SharingsResource } from './sharings.js';
 
 // ============================================================================
 // Types
@@ -62,15 +75,7 @@ export interface SalesInvoice extends JsonApiResource<SalesInvoiceAttributes> {
   type: 'sales_invoices';
 }
 
-export interface SalesInvoiceFilters {
-  issue_date?: string;
-  due_date?: string;
-  contact_id?: number;
-  invoice_id?: number;
-  invoice_series?: string;
-  item_type?: InvoiceItemType;
-  payment_status?: PaymentStatus;
-}
+export type SalesInvoiceFilters = SalesInvoicesFilters;
 
 export interface PaymentAttributes {
   date: string;
@@ -84,53 +89,50 @@ export interface PaymentAttributes {
 // Resource
 // ============================================================================
 
-export class SalesInvoicesResource extends BaseResource<
+export class SalesInvoicesResource extends GeneratedSalesInvoicesResource<
   SalesInvoice,
   SalesInvoiceAttributes,
   SalesInvoiceFilters
 > {
-  constructor(config: Omit<ResourceConfig, 'basePath' | 'resourceType'>) {
-    super({
-      ...config,
-      basePath: '/sales_invoices',
-      resourceType: 'sales_invoices',
-    });
-  }
-
-  /**
-   * Archives a sales invoice.
-   */
-  async archive(id: string | number): Promise<JsonApiResponse<SalesInvoice>> {
-    return this.transport.post<JsonApiResponse<SalesInvoice>>(
-      this.buildPath(id, '/archive')
-    );
-  }
-
-  /**
-   * Unarchives a sales invoice.
-   */
-  async unarchive(id: string | number): Promise<JsonApiResponse<SalesInvoice>> {
-    return this.transport.post<JsonApiResponse<SalesInvoice>>(
-      this.buildPath(id, '/unarchive')
-    );
+  private readonly sharings: SharingsResource;
+
+  constructor(
+    config: Omit<ResourceConfig, 'basePath' | 'resourceType'>,
+    sharings: SharingsResource
+  ) {
+    super(config);
+    this.sharings = sharings;
   }
 
   /**
-   * Cancels a sales invoice.
+   * Finds an invoice created by an ambiguous `create` through its
+   * series and number. Invoices without `invoice_id` cannot be verified.
    */
-  async cancel(id: string | number): Promise<JsonApiResponse<SalesInvoice>> {
-    return this.transport.delete<JsonApiResponse<SalesInvoice>>(
-      this.buildPath(id, '/cancel')
-    );
-  }
+  protected override createdLookup(
+    attributes: SalesInvoiceCreateUpdateAttributes,
+    signal?: AbortSignal
+  ): ((since: Date) => Promise<JsonApiResponse<SalesInvoice> | null>) | undefined {
+    const { invoice_id, invoice_series, item_type } = attributes;
+    if (invoice_id === undefined) {
+      return undefined;
+    }
 
-  /**
-   * Recovers a cancelled sales invoice.
-   */
-  async recover(id: string | number): Promise<JsonApiResponse<SalesInvoice>> {
-    return this.transport.patch<JsonApiResponse<SalesInvoice>>(
-      this.buildPath(id, '/recover')
-    );
+    return async (since) => {
+      const response = await this.list({
+        filter: {
+          invoice_id,
+          ...(invoice_series !== undefined && { invoice_series }),
+        },
+        sort: '-id',
+        ...(signal !== undefined && { signal }),
+      });
+      const invoice = response.data.find(
+        (resource) =>
+          matchesAttributes(resource, { invoice_id, invoice_series, item_type }) &&
+          createdSince(resource, since)
+      );
+      return invoice ? { data: invoice } : null;
+    };
   }
 
   /**
@@ -153,7 +155,7 @@ export class SalesInvoicesResource extends BaseResource<
    * });
    * ```
    */
-  async pay(
+  override async pay(
     id: string | number,
     payload: {
       data: {
@@ -163,14 +165,35 @@ export class SalesInvoicesResource extends BaseResource<
           account?: { data: { id: string; type: 'accounts' } };
         };
       };
-    }
-  ): Promise<JsonApiResponse<JsonApiResource>> {
-    return this.transport.post<JsonApiResponse<JsonApiResource>>(
-      this.buildPath(id, '/payments'),
-      payload
+    },
+    options: IdempotencyOptions = {}
+  ): Promise<JsonApiResponse<JsonApiResource<PaymentRecordAttributes>>> {
+    return this.guardedWrite(
+      'pay',
+      options,
+      (request) => this.transport.post<JsonApiResponse<JsonApiResource<PaymentRecordAttributes>>>(
+        this.buildPath(id, '/payments'),
+        payload,
+        request
+      ),
+      this.paymentLookup(id, payload.data.attributes, options.signal)
     );
   }
 
+  /**
+   * Sends a sales invoice to the customer by e-mail and/or the portal.
+   *
+   * @example
+   * ```typescript
+   * await client.salesInvoices.share(invoiceId, {
+   *   email: { to: ['muhasebe@example.com'], subject: 'Fatura #42' },
+   * });
+   * ```
+   */
+  async share(id: string | number, options: ShareOptions): Promise<SharingResponse> {
+    return this.sharings.share('sales_invoices', id, options);
+  }
+
   /**
    * Lists overdue invoices.
    */
@@ -4,7 +4,12 @@
  * Manage sales offers/quotes with conversion to invoice.
  */
 
-import { BaseResource, type ResourceConfig } from './BaseResource.js';
+import type { ResourceConfig } from './BaseResource.js';
+import { GeneratedSalesOffersResource } from '../generated/resources.js';
+import { sleep } from '../client/abort.js';
+import type { TrackableJobsResource } from './trackableJobs.js';
+import type { ShareOptions, SharingResponse, SharingsResource } from './sharings.js';
+import type { SalesOffersFilters } from '../generated/operations.js';
 import type { JsonApiResource, JsonApiResponse } from '../generated/types.js';
 
 // ============================================================================
@@ -41,11 +46,7 @@ export interface SalesOffer extends JsonApiResource<SalesOfferAttributes> {
   type: 'sales_offers';
 }
 
-export interface SalesOfferFilters {
-  issue_date?: string;
-  contact_id?: number;
-  offer_no?: string;
-}
+export type SalesOfferFilters = SalesOffersFilters;
 
 export interface PdfResult {
   url: string;
@@ -56,35 +57,29 @@ export interface PdfResult {
 // Resource
 // ============================================================================
 
-export class SalesOffersResource extends BaseResource<
+export class SalesOffersResource extends GeneratedSalesOffersResource<
   SalesOffer,
   SalesOfferAttributes,
   SalesOfferFilters
 > {
-  constructor(config: Omit<ResourceConfig, 'basePath' | 'resourceType'>) {
-    super({
-      ...config,
-      basePath: '/sales_offers',
-      resourceType: 'sales_offers',
-    });
-  }
-
-  /**
-   * Archives a sales offer.
-   */
-  async archive(id: string | number): Promise<JsonApiResponse<SalesOffer>> {
-    return this.transport.post<JsonApiResponse<SalesOffer>>(
-      this.buildPath(id, '/archive')
-    );
+  private readonly trackableJobs: TrackableJobsResource;
+  private readonly sharings: SharingsResource;
+
+  constructor(
+    config: Omit<ResourceConfig, 'basePath' | 'resourceType'>,
+    trackableJobs: TrackableJobsResource,
+    sharings: SharingsResource
+  ) {
+    super(config);
+    this.trackableJobs = trackableJobs;
+    this.sharings = sharings;
   }
 
   /**
-   * Unarchives a sales offer.
+   * Sends a sales offer to the customer by e-mail and/or the portal.
    */
-  async unarchive(id: string | number): Promise<JsonApiResponse<SalesOffer>> {
-    return this.transport.post<JsonApiResponse<SalesOffer>>(
-      this.buildPath(id, '/unarchive')
-    );
+  async share(id: string | number, options: ShareOptions): Promise<SharingResponse> {
+    return this.sharings.share('sales_offers', id, options);
   }
 
   /**
@@ -92,27 +87,17 @@ export class SalesOffersResource extends BaseResource<
    */
   async pdf(
     id: string | number,
-    options: { pollInterval?: number; timeout?: number } = {}
+    options: { pollInterval?: number; timeout?: number; signal?: AbortSignal } = {}
   ): Promise<PdfResult> {
-    const { pollInterval = 2000, timeout = 60000 } = options;
+    const { pollInterval = 2000, timeout = 60000, signal } = options;
     const startTime = Date.now();
 
-    while (true) {
-      if (Date.now() - startTime > timeout) {
-        throw new Error(`PDF not ready after ${timeout}ms`);
-      }
-
-      const response = await this.transport.get<{
-        status?: number;
-        noContent?: boolean;
-        data?: { attributes?: { url?: string } };
-      }>(this.buildPath(id, '/pdf'));
-
-      if (response.noContent || response.status === 204) {
-        await this.sleep(pollInterval);
-        continue;
-      }
+    // The PDF is rendered by a trackable job that carries the URL when done
+    let response: { data?: { id?: string; attributes?: { url?: string } } } =
+      await this.getPdf(id, { ...(signal !== undefined && { signal }) });
+    const jobId = response.data?.id;
 
+    while (true) {
       const url = response.data?.attributes?.url;
       if (url) {
         return {
@@ -121,7 +106,15 @@ export class SalesOffersResource extends BaseResource<
         };
       }
 
-      await this.sleep(pollInterval);
+      if (jobId === undefined) {
+        throw new Error('PDF request returned no trackable job');
+      }
+      if (Date.now() - startTime > timeout) {
+        throw new Error(`PDF not ready after ${timeout}ms`);
+      }
+
+      await sleep(pollInterval, signal);
+      response = await this.trackableJobs.get(jobId, { ...(signal !== undefined && { signal }) });
     }
   }
 
@@ -142,8 +135,4 @@ export class SalesOffersResource extends BaseResource<
       invoiceData ? { data: { attributes: invoiceData } } : undefined
     );
   }
-
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-  }
 }
@@ -4,7 +4,8 @@
  * Manage shipment/delivery documents.
  */
 
-import { BaseResource, type ResourceConfig } from './BaseResource.js';
+import { GeneratedShipmentDocumentsResource } from '../generated/resources.js';
+import type { ShipmentDocumentsFilters } from '../generated/operations.js';
 import type { JsonApiResource } from '../generated/types.js';
 
 export interface ShipmentDocumentAttributes {
@@ -20,21 +21,10 @@ export interface ShipmentDocument extends JsonApiResource<ShipmentDocumentAttrib
   type: 'shipment_documents';
 }
 
-export interface ShipmentDocumentFilters {
-  document_date?: string;
-  shipment_type?: 'inbound' | 'outbound' | 'transfer';
-}
+export type ShipmentDocumentFilters = ShipmentDocumentsFilters;
 
-export class ShipmentDocumentsResource extends BaseResource<
+export class ShipmentDocumentsResource extends GeneratedShipmentDocumentsResource<
   ShipmentDocument,
   ShipmentDocumentAttributes,
   ShipmentDocumentFilters
-> {
-  constructor(config: Omit<ResourceConfig, 'basePath' | 'resourceType'>) {
-    super({
-      ...config,
-      basePath: '/shipment_documents',
-      resourceType: 'shipment_documents',
-    });
-  }
-}
+> {}
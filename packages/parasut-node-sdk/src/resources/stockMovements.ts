@@ -4,8 +4,15 @@
  * View stock movement history.
  */
 
-import { BaseResource, type ResourceConfig } from './BaseResource.js';
-import type { JsonApiResource } from '../generated/types.js';
+import { GeneratedStockMovementsResource } from '../generated/resources.js';
+import type { JsonApiResource, Relationship } from '../generated/types.js';
+import type { ListQueryParams } from '../client/QueryBuilder.js';
+import type { PaginatedResponse, ResourceConfig } from './BaseResource.js';
+import {
+  includingWarehouse,
+  type WarehousesResource,
+  type WithWarehouseName,
+} from './warehouses.js';
 
 export interface StockMovementAttributes {
   readonly date?: string;
@@ -16,7 +23,14 @@ export interface StockMovementAttributes {
   readonly updated_at?: string;
 }
 
-export interface StockMovement extends JsonApiResource<StockMovementAttributes> {
+export interface StockMovementRelationships {
+  product?: Relationship;
+  warehouse?: Relationship;
+  source?: Relationship;
+  contact?: Relationship;
+}
+
+export interface StockMovement extends JsonApiResource<StockMovementAttributes, StockMovementRelationships> {
   type: 'stock_movements';
 }
 
@@ -26,16 +40,28 @@ export interface StockMovementFilters {
   date?: string;
 }
 
-export class StockMovementsResource extends BaseResource<
+export class StockMovementsResource extends GeneratedStockMovementsResource<
   StockMovement,
   StockMovementAttributes,
   StockMovementFilters
 > {
-  constructor(config: Omit<ResourceConfig, 'basePath' | 'resourceType'>) {
-    super({
-      ...config,
-      basePath: '/stock_movements',
-      resourceType: 'stock_movements',
-    });
+  private readonly warehouses: WarehousesResource;
+
+  constructor(
+    config: Omit<ResourceConfig, 'basePath' | 'resourceType'>,
+    warehouses: WarehousesResource
+  ) {
+    super(config);
+    this.warehouses = warehouses;
+  }
+
+  /**
+   * Lists stock movements with each movement's warehouse name.
+   */
+  async listWithWarehouses(
+    params: ListQueryParams<StockMovementFilters> = {}
+  ): Promise<PaginatedResponse<WithWarehouseName<StockMovement>>> {
+    const response = await this.list(includingWarehouse(params));
+    return this.warehouses.withNames(response, params.signal);
   }
 }
@@ -0,0 +1,22 @@
+/**
+ * Stock Updates Resource (Stok Güncelleme)
+ *
+ * Set new inventory totals for products per warehouse.
+ */
+
+import { GeneratedStockUpdatesResource } from '../generated/resources.js';
+import type { JsonApiResource } from '../generated/types.js';
+
+export interface StockUpdateAttributes {
+  readonly created_at?: string;
+  readonly updated_at?: string;
+}
+
+export interface StockUpdate extends JsonApiResource<StockUpdateAttributes> {
+  type: 'stock_updates';
+}
+
+export class StockUpdatesResource extends GeneratedStockUpdatesResource<
+  StockUpdate,
+  StockUpdateAttributes
+> {}
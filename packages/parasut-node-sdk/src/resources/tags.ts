@@ -4,7 +4,7 @@
  * Manage tags for organizing resources.
  */
 
-import { BaseResource, type ResourceConfig } from './BaseResource.js';
+import { GeneratedTagsResource } from '../generated/resources.js';
 import type { JsonApiResource } from '../generated/types.js';
 
 export interface TagAttributes {
@@ -21,12 +21,4 @@ export interface TagFilters {
   name?: string;
 }
 
-export class TagsResource extends BaseResource<Tag, TagAttributes, TagFilters> {
-  constructor(config: Omit<ResourceConfig, 'basePath' | 'resourceType'>) {
-    super({
-      ...config,
-      basePath: '/tags',
-      resourceType: 'tags',
-    });
-  }
-}
+export class TagsResource extends GeneratedTagsResource<Tag, TagAttributes, TagFilters> {}
@@ -4,8 +4,9 @@
  * Manage tax records.
  */
 
-import { BaseResource, type ResourceConfig } from './BaseResource.js';
-import type { JsonApiResource, JsonApiResponse } from '../generated/types.js';
+import { GeneratedTaxesResource } from '../generated/resources.js';
+import type { TaxesFilters } from '../generated/operations.js';
+import type { JsonApiResource } from '../generated/types.js';
 
 export interface TaxAttributes {
   readonly created_at?: string;
@@ -24,45 +25,6 @@ export interface Tax extends JsonApiResource<TaxAttributes> {
   type: 'taxes';
 }
 
-export interface TaxFilters {
-  issue_date?: string;
-  due_date?: string;
-}
-
-export class TaxesResource extends BaseResource<Tax, TaxAttributes, TaxFilters> {
-  constructor(config: Omit<ResourceConfig, 'basePath' | 'resourceType'>) {
-    super({
-      ...config,
-      basePath: '/taxes',
-      resourceType: 'taxes',
-    });
-  }
-
-  async archive(id: string | number): Promise<JsonApiResponse<Tax>> {
-    return this.transport.post<JsonApiResponse<Tax>>(
-      this.buildPath(id, '/archive')
-    );
-  }
+export type TaxFilters = TaxesFilters;
 
-  async unarchive(id: string | number): Promise<JsonApiResponse<Tax>> {
-    return this.transport.post<JsonApiResponse<Tax>>(
-      this.buildPath(id, '/unarchive')
-    );
-  }
-
-  async pay(
-    id: string | number,
-    payload: {
-      data: {
-        type: 'payments';
-        attributes: { date: string; amount: number; notes?: string };
-        relationships?: { account?: { data: { id: string; type: 'accounts' } } };
-      };
-    }
-  ): Promise<JsonApiResponse<JsonApiResource>> {
-    return this.transport.post<JsonApiResponse<JsonApiResource>>(
-      this.buildPath(id, '/payments'),
-      payload
-    );
-  }
-}
+export class TaxesResource extends GeneratedTaxesResource<Tax, TaxAttributes, TaxFilters> {}
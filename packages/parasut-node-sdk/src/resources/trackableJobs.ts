@@ -5,6 +5,7 @@
  */
 
 import type { HttpTransport } from '../client/HttpTransport.js';
+import { sleep } from '../client/abort.js';
 import type { JsonApiResponse } from '../generated/types.js';
 
 // ============================================================================
@@ -16,6 +17,10 @@ export type JobStatus = 'pending' | 'running' | 'done' | 'error';
 export interface TrackableJobAttributes {
   status: JobStatus;
   errors?: string[];
+  /**
+   * Result URL of jobs that render files, such as sales offer PDFs.
+   */
+  url?: string;
 }
 
 export interface TrackableJob {
@@ -36,6 +41,11 @@ export interface PollOptions {
    * @default 60000 (1 minute)
    */
   timeout?: number;
+
+  /**
+   * Stops polling (including the in-flight request and any sleep) when aborted.
+   */
+  signal?: AbortSignal;
 }
 
 export class TrackableJobError extends Error {
@@ -76,9 +86,14 @@ export class TrackableJobsResource {
   /**
    * Gets the current status of a trackable job.
    */
-  async get(id: string): Promise<JsonApiResponse<TrackableJob>> {
+  async get(
+    id: string,
+    options: { signal?: AbortSignal } = {}
+  ): Promise<JsonApiResponse<TrackableJob>> {
     return this.transport.get<JsonApiResponse<TrackableJob>>(
-      `/${this.companyId}/trackable_jobs/${id}`
+      `/${this.companyId}/trackable_jobs/${id}`,
+      undefined,
+      { ...(options.signal !== undefined && { signal: options.signal }) }
     );
   }
 
@@ -98,6 +113,7 @@ export class TrackableJobsResource {
     const {
       pollInterval = 2000,
       timeout = 60_000,
+      signal,
     } = options;
 
     const startTime = Date.now();
@@ -110,7 +126,7 @@ export class TrackableJobsResource {
       }
 
       // Get job status
-      const response = await this.get(id);
+      const response = await this.get(id, { ...(signal !== undefined && { signal }) });
       const job = response.data;
       lastStatus = job.attributes.status;
 
@@ -128,7 +144,7 @@ export class TrackableJobsResource {
         case 'pending':
         case 'running':
           // Still processing, wait and try again
-          await this.sleep(pollInterval);
+          await sleep(pollInterval, signal);
           break;
       }
     }
@@ -160,8 +176,4 @@ export class TrackableJobsResource {
       throw error;
     }
   }
-
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-  }
 }
@@ -4,8 +4,10 @@
  * Manage financial transactions.
  */
 
-import { BaseResource, type ResourceConfig } from './BaseResource.js';
+import { GeneratedTransactionsResource } from '../generated/resources.js';
 import type { JsonApiResource } from '../generated/types.js';
+import type { ListQueryParams } from '../client/QueryBuilder.js';
+import type { PaginatedResponse } from './BaseResource.js';
 
 export interface TransactionAttributes {
   readonly created_at?: string;
@@ -25,16 +27,20 @@ export interface TransactionFilters {
   date?: string;
 }
 
-export class TransactionsResource extends BaseResource<
+export class TransactionsResource extends GeneratedTransactionsResource<
   Transaction,
   TransactionAttributes,
   TransactionFilters
 > {
-  constructor(config: Omit<ResourceConfig, 'basePath' | 'resourceType'>) {
-    super({
-      ...config,
-      basePath: '/transactions',
-      resourceType: 'transactions',
-    });
+  /**
+   * Lists transactions across the company.
+   *
+   * @deprecated The spec has no `GET /transactions`; list an account's
+   * transactions with `client.accounts.transactions(accountId)`.
+   */
+  override async list(
+    params: ListQueryParams<TransactionFilters> = {}
+  ): Promise<PaginatedResponse<Transaction>> {
+    return super.list(params);
   }
 }
@@ -0,0 +1,111 @@
+/**
+ * Warehouses Resource (Depo)
+ *
+ * Manage warehouses and resolve warehouse names for inventory records.
+ */
+
+import { GeneratedWarehousesResource } from '../generated/resources.js';
+import { ParasutNotFoundError } from '../client/errors.js';
+import type { WarehousesFilters } from '../generated/operations.js';
+import type { JsonApiResource, Relationship } from '../generated/types.js';
+import type { PaginatedResponse } from './BaseResource.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface WarehouseAttributes {
+  readonly created_at?: string;
+  readonly updated_at?: string;
+  name: string;
+  address?: string;
+  city?: string;
+  district?: string;
+  is_abroad?: boolean;
+  archived?: boolean;
+}
+
+export interface Warehouse extends JsonApiResource<WarehouseAttributes> {
+  type: 'warehouses';
+}
+
+export type WarehouseFilters = WarehousesFilters;
+
+/**
+ * A record with its `warehouse` relationship resolved to a name.
+ * `warehouseName` is null when the record has no warehouse.
+ */
+export type WithWarehouseName<T> = T & { warehouseName: string | null };
+
+/**
+ * Adds `warehouse` to a query's `include`.
+ */
+export function includingWarehouse<P extends { include?: string | string[] }>(params: P): P {
+  const include = typeof params.include === 'string' ? params.include.split(',') : params.include ?? [];
+  return { ...params, include: include.includes('warehouse') ? include : [...include, 'warehouse'] };
+}
+
+// ============================================================================
+// Resource
+// ============================================================================
+
+export class WarehousesResource extends GeneratedWarehousesResource<
+  Warehouse,
+  WarehouseAttributes,
+  WarehouseFilters
+> {
+  /**
+   * Finds a warehouse by name.
+   */
+  async findByName(name: string) {
+    return this.first({ filter: { name } });
+  }
+
+  /**
+   * Adds `warehouseName` to each record of a list response. Names come from
+   * warehouses in `included` (request them with `include: 'warehouse'`);
+   * others are fetched concurrently, once each. Deleted warehouses resolve
+   * to null.
+   */
+  async withNames<T extends JsonApiResource<object, { warehouse?: Relationship }>>(
+    response: PaginatedResponse<T>,
+    signal?: AbortSignal
+  ): Promise<PaginatedResponse<WithWarehouseName<T>>> {
+    const names = new Map<string, string>();
+    for (const resource of response.included ?? []) {
+      if (resource.type === 'warehouses') {
+        names.set(resource.id, (resource.attributes as WarehouseAttributes).name);
+      }
+    }
+
+    const missing = new Set<string>();
+    for (const record of response.data) {
+      const id = record.relationships?.warehouse?.data?.id;
+      if (id !== undefined && !names.has(id)) {
+        missing.add(id);
+      }
+    }
+
+    // The rate limiter paces these requests
+    await Promise.all(
+      [...missing].map(async (id) => {
+        try {
+          const warehouse = await this.get(id, signal !== undefined ? { signal } : {});
+          names.set(id, warehouse.data.attributes.name);
+        } catch (error) {
+          if (!(error instanceof ParasutNotFoundError)) {
+            throw error;
+          }
+        }
+      })
+    );
+
+    return {
+      ...response,
+      data: response.data.map((record) => {
+        const id = record.relationships?.warehouse?.data?.id;
+        return { ...record, warehouseName: id !== undefined ? names.get(id) ?? null : null };
+      }),
+    };
+  }
+}
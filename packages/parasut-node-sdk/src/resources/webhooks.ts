@@ -0,0 +1,70 @@
+/**
+ * Webhooks Resource
+ *
+ * Manage webhook subscriptions. Deliveries are handled by `WebhookReceiver`.
+ */
+
+import { GeneratedWebhooksResource } from '../generated/resources.js';
+import type { JsonApiResource } from '../generated/types.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Models a webhook can subscribe to.
+ */
+export type WebhookModel =
+  | 'shipment_document'
+  | 'employee'
+  | 'product'
+  | 'contact'
+  | 'stock_movement'
+  | 'sales_invoice';
+
+export type WebhookAction = 'create' | 'update' | 'delete';
+
+export interface WebhookAttributes {
+  readonly created_at?: string;
+  readonly updated_at?: string;
+  readonly company_id?: number;
+  model: WebhookModel;
+  action: WebhookAction;
+  uri: string;
+}
+
+export interface Webhook extends JsonApiResource<WebhookAttributes> {
+  type: 'webhook';
+}
+
+// ============================================================================
+// Resource
+// ============================================================================
+
+export class WebhooksResource extends GeneratedWebhooksResource<Webhook, WebhookAttributes> {
+  /**
+   * Subscribes `uri` to an action on a model.
+   */
+  async subscribe(model: WebhookModel, action: WebhookAction, uri: string) {
+    return this.create({
+      data: { type: 'webhook', attributes: { model, action, uri } },
+    });
+  }
+
+  /**
+   * Finds the subscriptions for a model, optionally narrowed to one action.
+   * The endpoint has no filters, so this pages through all webhooks.
+   */
+  async findFor(model: WebhookModel, action?: WebhookAction): Promise<Webhook[]> {
+    const matches: Webhook[] = [];
+    for await (const webhook of this.iterate()) {
+      if (
+        webhook.attributes.model === model &&
+        (action === undefined || webhook.attributes.action === action)
+      ) {
+        matches.push(webhook);
+      }
+    }
+    return matches;
+  }
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CircuitBreaker,
+  ParasutApiError,
+  ParasutCircuitOpenError,
+  ParasutNetworkError,
+} from '../src/index.js';
+import { createClient, createFake, delay, errorResponse, scriptedFetch } from './helpers.js';
+
+function setup(rateLimit = false) {
+  const fake = createFake();
+  const script = scriptedFetch(fake);
+  const client = createClient(script.fetch, {
+    retry: { enabled: false },
+    circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 50 },
+    ...(rateLimit && { rateLimit: { enabled: true, requestsPerWindow: 5, windowMs: 60_000 } }),
+  });
+  const changes: string[] = [];
+  client.circuitBreaker.onStateChange(({ from, to }) => changes.push(`${from}->${to}`));
+  return { script, client, changes };
+}
+
+describe('circuit breaker', () => {
+  it('opens after consecutive failures and fails fast without sending', async () => {
+    const { script, client, changes } = setup();
+    script.push(errorResponse(503), new TypeError('fetch failed'));
+
+    await expect(client.accounts.list()).rejects.toBeInstanceOf(ParasutApiError);
+    await expect(client.accounts.list()).rejects.toBeInstanceOf(ParasutNetworkError);
+    const error = await client.accounts.list().catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ParasutCircuitOpenError);
+    expect((error as ParasutCircuitOpenError).retryAfterMs).toBeGreaterThan(0);
+    expect(script.requests).toHaveLength(2);
+    expect(changes).toEqual(['closed->open']);
+  });
+
+  it('does not count client errors as failures', async () => {
+    const { script, client } = setup();
+    script.push(errorResponse(503), errorResponse(404), errorResponse(503));
+
+    for (let i = 0; i < 3; i++) {
+      await client.accounts.list().catch(() => undefined);
+    }
+
+    expect(client.circuitBreaker.getState()).toBe('closed');
+  });
+
+  it('closes when the half-open trial succeeds', async () => {
+    const { script, client, changes } = setup();
+    script.push(errorResponse(503), errorResponse(503));
+    await client.accounts.list().catch(() => undefined);
+    await client.accounts.list().catch(() => undefined);
+
+    await delay(60);
+    await client.accounts.list();
+
+    expect(changes).toEqual(['closed->open', 'open->half-open', 'half-open->closed']);
+    expect(script.requests).toHaveLength(3);
+  });
+
+  it('reopens when the half-open trial fails', async () => {
+    const { script, client, changes } = setup();
+    script.push(errorResponse(503), errorResponse(503), errorResponse(500));
+    await client.accounts.list().catch(() => undefined);
+    await client.accounts.list().catch(() => undefined);
+
+    await delay(60);
+    await expect(client.accounts.list()).rejects.toBeInstanceOf(ParasutApiError);
+    await expect(client.accounts.list()).rejects.toBeInstanceOf(ParasutCircuitOpenError);
+
+    expect(changes).toEqual(['closed->open', 'open->half-open', 'half-open->open']);
+  });
+
+  it('rejects an open circuit before taking a rate limit token', async () => {
+    const { script, client } = setup(true);
+    script.push(errorResponse(503), errorResponse(503));
+    await client.accounts.list().catch(() => undefined);
+    await client.accounts.list().catch(() => undefined);
+
+    await client.accounts.list().catch(() => undefined);
+
+    expect(Math.floor(client.rateLimiter.getAvailableTokens())).toBe(3);
+  });
+
+  it('admits only halfOpenMaxRequests trials at a time', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 20 });
+    await breaker.execute(() => Promise.reject(new ParasutNetworkError('down'))).catch(() => undefined);
+    await delay(30);
+
+    let finish!: () => void;
+    const trial = breaker.execute(() => new Promise<void>((resolve) => (finish = resolve)));
+    await expect(breaker.execute(async () => 'second')).rejects.toBeInstanceOf(ParasutCircuitOpenError);
+    expect(breaker.getState()).toBe('half-open');
+
+    finish();
+    await trial;
+    expect(breaker.getState()).toBe('closed');
+    await expect(breaker.execute(async () => 'next')).resolves.toBe('next');
+  });
+});
@@ -0,0 +1,116 @@
+import { mkdtemp, readFile, readdir, rm, unlink, utimes, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FileRateLimitStore, MemoryRateLimitStore, ParasutAbortError } from '../src/index.js';
+import { RateLimiter } from '../src/client/RateLimiter.js';
+import { delay } from './helpers.js';
+
+const bucket = { capacity: 1000, windowMs: 100_000_000 };
+
+let dir: string;
+let path: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'parasut-rate-limit-'));
+  path = join(dir, 'bucket.json');
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+/**
+ * Writes a lock file that looks abandoned by a crashed process.
+ */
+async function writeStaleFile(file: string, content: string): Promise<void> {
+  await writeFile(file, content);
+  const old = new Date(Date.now() - 60_000);
+  await utimes(file, old, old);
+}
+
+async function tokensLeft(): Promise<number> {
+  return (JSON.parse(await readFile(path, 'utf8')) as { tokens: number }).tokens;
+}
+
+describe('FileRateLimitStore', () => {
+  it('hands out each token once across concurrent stores', async () => {
+    const stores = [0, 1, 2].map(() => new FileRateLimitStore(path, { retryDelayMs: 1 }));
+    const small = { capacity: 5, windowMs: 100_000_000 };
+
+    const results = await Promise.all(
+      stores.flatMap((store) => Array.from({ length: 4 }, () => store.take(small)))
+    );
+
+    expect(results.filter((result) => result.waitMs === 0)).toHaveLength(5);
+    expect(await tokensLeft()).toBe(0);
+    expect(await readdir(dir)).toEqual(['bucket.json']);
+  });
+
+  it('takes over a stale lock exactly once under contention', async () => {
+    await writeStaleFile(`${path}.lock`, 'dead:1');
+    const stores = [0, 1, 2].map(() => new FileRateLimitStore(path, { staleLockMs: 1000, retryDelayMs: 1 }));
+
+    await Promise.all(stores.flatMap((store) => Array.from({ length: 20 }, () => store.take(bucket))));
+
+    expect(await tokensLeft()).toBe(940);
+    expect(await readdir(dir)).toEqual(['bucket.json']);
+  });
+
+  it('clears a guard left behind by a crashed breaker', async () => {
+    await writeStaleFile(`${path}.lock`, 'dead:1');
+    await writeStaleFile(`${path}.lock.break`, 'dead:2');
+    const store = new FileRateLimitStore(path, { staleLockMs: 1000, retryDelayMs: 1 });
+
+    await store.take(bucket);
+
+    expect(await tokensLeft()).toBe(999);
+    expect(await readdir(dir)).toEqual(['bucket.json']);
+  });
+
+  it('waits for a fresh lock held by another process', async () => {
+    await writeFile(`${path}.lock`, 'other:1');
+    const store = new FileRateLimitStore(path, { staleLockMs: 1000, retryDelayMs: 1 });
+
+    let taken = false;
+    const pending = store.take(bucket).then(() => (taken = true));
+    await delay(30);
+
+    expect(taken).toBe(false);
+    expect(await readFile(`${path}.lock`, 'utf8')).toBe('other:1');
+
+    await unlink(`${path}.lock`);
+    await pending;
+    expect(await tokensLeft()).toBe(999);
+  });
+
+  it('shares pauses between stores on the same file', async () => {
+    const a = new FileRateLimitStore(path);
+    const b = new FileRateLimitStore(path);
+
+    await a.adjust(bucket, { pauseUntil: Date.now() + 1000 });
+    const result = await b.take(bucket);
+
+    expect(result.waitMs).toBeGreaterThan(900);
+    expect(result.remaining).toBe(0);
+  });
+});
+
+describe('shared limiter state', () => {
+  it('draws limiters sharing a store from one bucket', async () => {
+    const store = new MemoryRateLimitStore();
+    const a = new RateLimiter({ requestsPerWindow: 3, windowMs: 60_000, store });
+    const b = new RateLimiter({ requestsPerWindow: 3, windowMs: 60_000, store });
+
+    await a.acquire();
+    await a.acquire();
+    await b.acquire();
+    const controller = new AbortController();
+    const waiting = b.acquire(controller.signal);
+    await delay(10);
+    controller.abort();
+
+    await expect(waiting).rejects.toBeInstanceOf(ParasutAbortError);
+    expect(b.getAvailableTokens()).toBe(0);
+  });
+});
@@ -0,0 +1,264 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ParasutAbortError, ParasutConfigError, parseRateLimitHeaders } from '../src/index.js';
+import { RateLimiter } from '../src/client/RateLimiter.js';
+import { createClient, createFake, delay, scriptedFetch } from './helpers.js';
+
+/**
+ * Tracks whether a promise has settled.
+ */
+function track(promise: Promise<unknown>): { settled: boolean } {
+  const state = { settled: false };
+  void promise.then(
+    () => (state.settled = true),
+    () => (state.settled = true)
+  );
+  return state;
+}
+
+describe('parseRateLimitHeaders', () => {
+  it('reads Retry-After as delta-seconds or an HTTP date', () => {
+    expect(parseRateLimitHeaders(new Headers({ 'retry-after': '1.5' }))).toEqual({ retryAfterMs: 1500 });
+
+    const date = new Date(Date.now() + 30_000).toUTCString();
+    const { retryAfterMs } = parseRateLimitHeaders(new Headers({ 'retry-after': date }));
+    expect(retryAfterMs).toBeGreaterThan(28_000);
+    expect(retryAfterMs).toBeLessThanOrEqual(30_000);
+  });
+
+  it('reads X-RateLimit-Reset as delta-seconds or an epoch timestamp', () => {
+    const headers = new Headers({
+      'x-ratelimit-limit': '10',
+      'x-ratelimit-remaining': '4',
+      'x-ratelimit-reset': '7',
+    });
+    expect(parseRateLimitHeaders(headers)).toEqual({ limit: 10, remaining: 4, resetMs: 7000 });
+
+    const epoch = String(Math.floor(Date.now() / 1000) + 20);
+    const { resetMs } = parseRateLimitHeaders(new Headers({ 'x-ratelimit-reset': epoch }));
+    expect(resetMs).toBeGreaterThan(18_000);
+    expect(resetMs).toBeLessThanOrEqual(20_000);
+
+    const epochMs = String(Date.now() + 20_000);
+    const fromMs = parseRateLimitHeaders(new Headers({ 'x-ratelimit-reset': epochMs })).resetMs;
+    expect(fromMs).toBeGreaterThan(18_000);
+    expect(fromMs).toBeLessThanOrEqual(20_000);
+  });
+
+  it('ignores malformed values', () => {
+    const headers = new Headers({
+      'retry-after': 'soon',
+      'x-ratelimit-limit': '-1',
+      'x-ratelimit-remaining': '',
+    });
+    expect(parseRateLimitHeaders(headers)).toEqual({});
+  });
+});
+
+describe('adaptive limits', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('lowers the limit to what the server reports until the window resets', () => {
+    const limiter = new RateLimiter({ requestsPerWindow: 10, windowMs: 1000 });
+
+    limiter.updateFromHeaders({ limit: 2, resetMs: 3000 });
+    expect(limiter.getAvailableTokens()).toBe(2);
+
+    vi.advanceTimersByTime(2999);
+    expect(limiter.getAvailableTokens()).toBe(2);
+
+    // Past the reset a full configured window refills ten
+    vi.advanceTimersByTime(1001);
+    expect(limiter.getAvailableTokens()).toBe(10);
+  });
+
+  it('never raises the limit above the config', async () => {
+    const limiter = new RateLimiter({ requestsPerWindow: 10, windowMs: 1000 });
+
+    limiter.updateFromHeaders({ limit: 50, resetMs: 500 });
+    for (let i = 0; i < 10; i++) {
+      await limiter.acquire();
+    }
+
+    expect(limiter.getAvailableTokens()).toBe(0);
+    vi.advanceTimersByTime(1000);
+    expect(limiter.getAvailableTokens()).toBe(10);
+  });
+
+  it('keeps the configured window and caps the time until reset', () => {
+    const limiter = new RateLimiter({ requestsPerWindow: 10, windowMs: 1000, maxResetMs: 5000 });
+
+    limiter.updateFromHeaders({ limit: 3, resetMs: 10_000_000 });
+
+    // Refills follow the configured window, with the learned limit
+    vi.advanceTimersByTime(1000);
+    expect(limiter.getAvailableTokens()).toBe(3);
+
+    // The learned limit lapses after maxResetMs, not the reported 10 000s
+    vi.advanceTimersByTime(5000);
+    expect(limiter.getAvailableTokens()).toBe(10);
+  });
+
+  it('pauses until an epoch X-RateLimit-Reset', async () => {
+    vi.setSystemTime(new Date('2024-01-02T10:00:00.000Z'));
+    const limiter = new RateLimiter({ requestsPerWindow: 10, windowMs: 1000 });
+    const reset = String(Date.parse('2024-01-02T10:00:03.000Z') / 1000);
+
+    limiter.updateFromHeaders(
+      parseRateLimitHeaders(
+        new Headers({ 'x-ratelimit-limit': '10', 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': reset })
+      )
+    );
+    const waiter = track(limiter.acquire());
+
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(waiter.settled).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(waiter.settled).toBe(true);
+  });
+
+  it('ignores reported limits when adaptive is off', () => {
+    const limiter = new RateLimiter({ requestsPerWindow: 10, adaptive: false });
+
+    limiter.updateFromHeaders({ limit: 1, remaining: 0, retryAfterMs: 5000 });
+
+    expect(limiter.getAvailableTokens()).toBe(10);
+  });
+
+  it('pauses every caller for Retry-After', async () => {
+    const limiter = new RateLimiter({ requestsPerWindow: 10, windowMs: 1000 });
+
+    limiter.updateFromHeaders({ retryAfterMs: 500 });
+    const first = track(limiter.acquire());
+    const second = track(limiter.acquire());
+
+    await vi.advanceTimersByTimeAsync(499);
+    expect(first.settled).toBe(false);
+    expect(second.settled).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(300);
+    expect(first.settled).toBe(true);
+    expect(second.settled).toBe(true);
+  });
+
+  it('pauses until the reset when the window is exhausted', async () => {
+    const limiter = new RateLimiter({ requestsPerWindow: 10, windowMs: 1000 });
+
+    limiter.updateFromHeaders({ remaining: 0, resetMs: 400 });
+    const waiter = track(limiter.acquire());
+
+    await vi.advanceTimersByTimeAsync(399);
+    expect(waiter.settled).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(waiter.settled).toBe(true);
+  });
+});
+
+describe('adaptive limits through the client', () => {
+  it('adopts the remaining count from response headers', async () => {
+    const fake = createFake();
+    const script = scriptedFetch(fake);
+    script.push(
+      new Response(JSON.stringify({ data: [], meta: {} }), {
+        headers: {
+          'content-type': 'application/vnd.api+json',
+          'x-ratelimit-limit': '10',
+          'x-ratelimit-remaining': '3',
+          'x-ratelimit-reset': '10',
+        },
+      })
+    );
+    const client = createClient(script.fetch, {
+      rateLimit: { enabled: true, requestsPerWindow: 10, windowMs: 10_000 },
+    });
+
+    await client.accounts.list();
+
+    expect(Math.floor(client.rateLimiter.getAvailableTokens())).toBe(3);
+  });
+});
+
+describe('priority lanes', () => {
+  it('serves waiting lanes in proportion to their weights', async () => {
+    const limiter = new RateLimiter({ requestsPerWindow: 1, windowMs: 10 });
+    await limiter.acquire();
+
+    const served: string[] = [];
+    const waiters: Promise<void>[] = [];
+    for (const lane of ['low', 'normal', 'high']) {
+      for (let i = 0; i < 7; i++) {
+        waiters.push(limiter.acquire(undefined, { lane }).then(() => void served.push(lane)));
+      }
+    }
+    await delay(0);
+    expect(limiter.getQueueLengths()).toEqual({ high: 7, normal: 7, low: 7 });
+
+    while (served.length < 7) {
+      await delay(5);
+    }
+    limiter.reset();
+    await Promise.allSettled(waiters);
+
+    // Weights 4:2:1 give one round of seven tokens
+    const round = served.slice(0, 7);
+    expect(round.filter((lane) => lane === 'high')).toHaveLength(4);
+    expect(round.filter((lane) => lane === 'normal')).toHaveLength(2);
+    expect(round.filter((lane) => lane === 'low')).toHaveLength(1);
+  });
+
+  it('does not hold a lone low-priority caller back', async () => {
+    const limiter = new RateLimiter({ requestsPerWindow: 1, windowMs: 10 });
+    await limiter.acquire();
+
+    const started = Date.now();
+    await limiter.acquire(undefined, { lane: 'low' });
+
+    expect(Date.now() - started).toBeLessThan(100);
+  });
+
+  it('removes an aborted caller from its lane', async () => {
+    const limiter = new RateLimiter({ requestsPerWindow: 1, windowMs: 60_000 });
+    await limiter.acquire();
+    const controller = new AbortController();
+
+    const waiting = limiter.acquire(controller.signal, { lane: 'low' });
+    await delay(0);
+    expect(limiter.getQueueLength('low')).toBe(1);
+    controller.abort();
+
+    await expect(waiting).rejects.toBeInstanceOf(ParasutAbortError);
+    expect(limiter.getQueueLength()).toBe(0);
+    limiter.reset();
+  });
+
+  it('accepts custom lanes and rejects unknown or invalid ones', async () => {
+    const limiter = new RateLimiter({ lanes: { bulk: 1 } });
+    expect(limiter.getQueueLengths()).toEqual({ high: 0, normal: 0, low: 0, bulk: 0 });
+    await expect(limiter.acquire(undefined, { lane: 'bulk' })).resolves.toBeUndefined();
+
+    await expect(limiter.acquire(undefined, { lane: 'urgent' })).rejects.toBeInstanceOf(ParasutConfigError);
+    expect(() => new RateLimiter({ lanes: { bulk: 0 } })).toThrow(ParasutConfigError);
+    expect(() => new RateLimiter({ defaultLane: 'bulk' })).toThrow(ParasutConfigError);
+  });
+
+  it('queues client requests in the lane given by priority', async () => {
+    const fake = createFake();
+    const client = createClient(fake.fetch, {
+      rateLimit: { enabled: true, requestsPerWindow: 1, windowMs: 20, adaptive: false },
+    });
+    const lanes: string[] = [];
+    client.rateLimiter.onWait(({ lane }) => lanes.push(lane));
+
+    await client.contacts.list();
+    await client.contacts.list({ priority: 'high' });
+
+    expect(lanes).toEqual(['high']);
+  });
+});
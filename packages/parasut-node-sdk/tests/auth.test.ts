@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { OAuthManager, ParasutAuthError } from '../src/index.js';
+import {
+  createClient,
+  createFake,
+  errorResponse,
+  scriptedFetch,
+  type RecordedRequest,
+} from './helpers.js';
+
+const credentials = {
+  clientId: 'client',
+  clientSecret: 'secret',
+  username: 'user@example.com',
+  password: 'password',
+};
+
+function isTokenRequest(request: RecordedRequest): boolean {
+  return new URL(request.url).pathname === '/oauth/token';
+}
+
+function apiRequests(requests: RecordedRequest[]): RecordedRequest[] {
+  return requests.filter((request) => !isTokenRequest(request));
+}
+
+describe('401 recovery', () => {
+  it('refreshes a rejected token once and replays the request', async () => {
+    const fake = createFake({ credentials });
+    const script = scriptedFetch(fake);
+    const client = createClient(script.fetch, { credentials });
+
+    await client.accounts.list();
+    const rejected = apiRequests(script.requests)[0]!.headers.get('authorization');
+    fake.expireTokens();
+    const response = await client.accounts.list({ page: { number: 2 } });
+
+    expect(response.data).toEqual([]);
+    expect(script.requests.filter(isTokenRequest)).toHaveLength(2);
+    const [, failed, replayed] = apiRequests(script.requests);
+    expect(failed!.headers.get('authorization')).toBe(rejected);
+    expect(replayed!.headers.get('authorization')).not.toBe(rejected);
+  });
+
+  it('shares one refresh between concurrent requests rejected with the same token', async () => {
+    const fake = createFake({ credentials });
+    const script = scriptedFetch(fake);
+    const client = createClient(script.fetch, { credentials });
+
+    await client.accounts.list();
+    fake.expireTokens();
+    await Promise.all([
+      client.accounts.list({ page: { number: 2 } }),
+      client.contacts.list(),
+      client.products.list(),
+    ]);
+
+    expect(script.requests.filter(isTokenRequest)).toHaveLength(2);
+    expect(apiRequests(script.requests)).toHaveLength(7);
+  });
+
+  it('does not replay a second time when the new token is rejected too', async () => {
+    const fake = createFake({ credentials });
+    const script = scriptedFetch(fake);
+    const client = createClient(script.fetch, { credentials });
+
+    await client.accounts.list();
+    script.push(errorResponse(401), undefined, errorResponse(401));
+
+    await expect(client.accounts.list({ page: { number: 2 } })).rejects.toBeInstanceOf(ParasutAuthError);
+    expect(script.requests.filter(isTokenRequest)).toHaveLength(2);
+    expect(apiRequests(script.requests)).toHaveLength(3);
+  });
+
+  it('surfaces a 401 for a static access token without refreshing', async () => {
+    const fake = createFake();
+    const script = scriptedFetch(fake);
+    script.push(errorResponse(401));
+    const client = createClient(script.fetch);
+
+    await expect(client.accounts.list()).rejects.toBeInstanceOf(ParasutAuthError);
+    expect(script.requests).toHaveLength(1);
+  });
+});
+
+describe('forced refresh', () => {
+  it('shares one refresh between callers whichever token they saw rejected', async () => {
+    const fake = createFake({ credentials });
+    const script = scriptedFetch(fake);
+    const oauth = new OAuthManager(credentials, { tokenUrl: 'http://fake/oauth/token', fetch: script.fetch });
+    const { accessToken } = await oauth.authenticate();
+
+    const tokens = await Promise.all([
+      oauth.forceRefresh(accessToken),
+      oauth.forceRefresh('older-token'),
+      oauth.forceRefresh(),
+    ]);
+
+    expect(script.requests).toHaveLength(2);
+    expect(new Set(tokens).size).toBe(1);
+    expect(tokens[0]).not.toBe(accessToken);
+  });
+});
@@ -0,0 +1,64 @@
+import { readFile } from 'node:fs/promises';
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import type {
+  CreateContactBody,
+  CreateSalesInvoiceBody,
+  PartialPayload,
+  UpdateSalesInvoiceBody,
+} from '../src/index.js';
+import { COMPANY_ID, createClient, createFake } from './helpers.js';
+
+describe('typed request bodies', () => {
+  it('types create and update payloads from the spec forms', () => {
+    const client = createClient(createFake().fetch);
+
+    expectTypeOf(client.contacts.create).parameter(0).toEqualTypeOf<CreateContactBody>();
+    expectTypeOf(client.salesInvoices.create).parameter(0).toEqualTypeOf<CreateSalesInvoiceBody>();
+    // Updates send only the attributes that change
+    expectTypeOf(client.salesInvoices.update).parameter(1).toEqualTypeOf<PartialPayload<UpdateSalesInvoiceBody>>();
+
+    const body: CreateContactBody = {
+      // @ts-expect-error the form only takes contacts
+      data: { type: 'products', attributes: { name: 'Acme', account_type: 'customer' } },
+    };
+    expect(body.data.type).toBe('products');
+  });
+
+  it('leaves no form attributes aliased to string', async () => {
+    const source = await readFile(new URL('../src/generated/types.ts', import.meta.url), 'utf8');
+
+    expect(source).not.toMatch(/^export type \w+ = string;$/m);
+  });
+
+  it('sends nested details with a sales invoice', async () => {
+    const fake = createFake();
+    const contact = fake.store.insert(COMPANY_ID, 'contacts', { name: 'Acme', account_type: 'customer' });
+    const product = fake.store.insert(COMPANY_ID, 'products', { name: 'Widget' });
+    const client = createClient(fake.fetch);
+
+    const created = await client.salesInvoices.create({
+      data: {
+        type: 'sales_invoices',
+        attributes: { item_type: 'invoice', issue_date: '2024-01-15', currency: 'TRL' },
+        relationships: {
+          contact: { data: { id: contact.id, type: 'contacts' } },
+          details: {
+            data: [
+              {
+                type: 'sales_invoice_details',
+                attributes: { quantity: 2, unit_price: 50, vat_rate: 20 },
+                relationships: { product: { data: { id: product.id, type: 'products' } } },
+              },
+            ],
+          },
+        },
+      },
+    });
+
+    const details = fake.store.all(COMPANY_ID, 'sales_invoice_details');
+    expect(details.map((detail) => detail.attributes)).toMatchObject([{ quantity: 2, unit_price: 50, vat_rate: 20 }]);
+    expect(fake.store.find(COMPANY_ID, 'sales_invoices', created.data.id)?.relationships['details']).toEqual({
+      data: [{ id: details[0]!.id, type: 'sales_invoice_details' }],
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import { MemoryCacheStore, type LogEvent } from '../src/index.js';
+import {
+  COMPANY_ID,
+  createClient,
+  createFake,
+  delay,
+  scriptedFetch,
+  type RecordedRequest,
+} from './helpers.js';
+
+function gets(requests: RecordedRequest[], resource: string): RecordedRequest[] {
+  return requests.filter(
+    (request) => request.method === 'GET' && new URL(request.url).pathname.endsWith(`/${resource}`)
+  );
+}
+
+describe('response cache', () => {
+  it('serves repeated GETs of a cached resource from the cache', async () => {
+    const fake = createFake();
+    const script = scriptedFetch(fake);
+    const client = createClient(script.fetch, { cache: {} });
+
+    await client.accounts.list();
+    await client.accounts.list();
+    await client.accounts.list({ page: { number: 2 } });
+
+    expect(script.requests).toHaveLength(2);
+  });
+
+  it('does not cache resources without a TTL', async () => {
+    const fake = createFake();
+    const script = scriptedFetch(fake);
+    const client = createClient(script.fetch, { cache: {} });
+
+    await client.contacts.list();
+    await client.contacts.list();
+
+    expect(script.requests).toHaveLength(2);
+  });
+
+  it('refetches once the TTL has passed', async () => {
+    const fake = createFake();
+    const script = scriptedFetch(fake);
+    const client = createClient(script.fetch, { cache: { ttlMs: { accounts: 20 } } });
+
+    await client.accounts.list();
+    await delay(30);
+    await client.accounts.list();
+
+    expect(script.requests).toHaveLength(2);
+  });
+
+  it('keeps entries of different logins apart in a shared store', async () => {
+    const fake = createFake({ accessTokens: ['token-a', 'token-b'] });
+    const script = scriptedFetch(fake);
+    const store = new MemoryCacheStore();
+    const a = createClient(script.fetch, { accessToken: 'token-a', cache: { store } });
+    const b = createClient(script.fetch, { accessToken: 'token-b', cache: { store } });
+
+    await a.accounts.list();
+    await b.accounts.list();
+    await a.accounts.list();
+    await b.accounts.list();
+
+    expect(script.requests.map((request) => request.headers.get('authorization'))).toEqual([
+      'Bearer token-a',
+      'Bearer token-b',
+    ]);
+  });
+
+  it('drops cached balances of every login when an invoice is paid', async () => {
+    const fake = createFake({ accessTokens: ['token-a', 'token-b'] });
+    const script = scriptedFetch(fake);
+    const store = new MemoryCacheStore();
+    const a = createClient(script.fetch, { accessToken: 'token-a', cache: { store } });
+    const b = createClient(script.fetch, { accessToken: 'token-b', cache: { store } });
+    const invoice = fake.store.insert(COMPANY_ID, 'sales_invoices', {
+      issue_date: '2024-01-01',
+      item_type: 'invoice',
+      gross_total: 100,
+    });
+
+    await a.accounts.list();
+    await b.accounts.list();
+    await a.salesInvoices.pay(invoice.id, {
+      data: { type: 'payments', attributes: { date: '2024-01-02', amount: 10 } },
+    });
+    await a.accounts.list();
+    await b.accounts.list();
+
+    expect(gets(script.requests, 'accounts')).toHaveLength(4);
+  });
+
+  it('does not cache a response fetched while a write was in flight', async () => {
+    const fake = createFake();
+    const script = scriptedFetch(fake);
+    const client = createClient(script.fetch, { cache: {} });
+
+    let release!: () => void;
+    const released = new Promise<void>((resolve) => (release = resolve));
+    script.push(async (input, init) => {
+      const response = await fake.fetch(input, init);
+      await released;
+      return response;
+    });
+
+    const stale = client.accounts.list();
+    await delay(5);
+    await client.accounts.create({
+      data: { type: 'accounts', attributes: { name: 'Kasa', account_type: 'cash' } },
+    });
+    release();
+    expect((await stale).data).toHaveLength(0);
+
+    const fresh = await client.accounts.list();
+    expect(fresh.data).toHaveLength(1);
+  });
+
+  it('returns the write result when invalidation fails', async () => {
+    const fake = createFake();
+    const store = new MemoryCacheStore();
+    store.deleteByPrefix = async () => {
+      throw new Error('store unavailable');
+    };
+    const events: LogEvent[] = [];
+    const client = createClient(fake.fetch, {
+      cache: { store },
+      logger: { log: (event) => events.push(event) },
+    });
+
+    const response = await client.accounts.create({
+      data: { type: 'accounts', attributes: { name: 'Kasa', account_type: 'cash' } },
+    });
+
+    expect(response.data.attributes.name).toBe('Kasa');
+    expect(events.filter((event) => event.event === 'cache:error')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { ParasutAbortError } from '../src/index.js';
+import { COMPANY_ID, createClient, createFake, delay, scriptedFetch } from './helpers.js';
+
+describe('cancellation', () => {
+  it('aborts update and delete without sending', async () => {
+    const fake = createFake();
+    const contact = fake.store.insert(COMPANY_ID, 'contacts', { name: 'Acme', account_type: 'customer' });
+    const client = createClient(fake.fetch);
+    const signal = AbortSignal.abort();
+
+    await expect(
+      client.contacts.update(contact.id, { data: { type: 'contacts', attributes: { name: 'Other' } } }, { signal })
+    ).rejects.toBeInstanceOf(ParasutAbortError);
+    await expect(client.contacts.delete(contact.id, { signal })).rejects.toBeInstanceOf(ParasutAbortError);
+
+    expect(fake.store.find(COMPANY_ID, 'contacts', contact.id)?.attributes).toMatchObject({ name: 'Acme' });
+  });
+
+  it('queues update and delete in the lane given by priority', async () => {
+    const fake = createFake();
+    const contact = fake.store.insert(COMPANY_ID, 'contacts', { name: 'Acme', account_type: 'customer' });
+    const client = createClient(fake.fetch, {
+      rateLimit: { enabled: true, requestsPerWindow: 1, windowMs: 100, adaptive: false },
+    });
+    const lanes: string[] = [];
+    client.rateLimiter.onWait(({ lane }) => lanes.push(lane));
+
+    await client.contacts.update(
+      contact.id,
+      { data: { type: 'contacts', attributes: { name: 'Other' } } },
+      { priority: 'high' }
+    );
+    await client.contacts.delete(contact.id, { priority: 'low' });
+
+    expect(lanes).toEqual(['low']);
+    expect(fake.store.find(COMPANY_ID, 'contacts', contact.id)).toBeUndefined();
+  });
+
+  it('stops an iterator before fetching the next page', async () => {
+    const fake = createFake();
+    for (let i = 0; i < 30; i++) {
+      fake.store.insert(COMPANY_ID, 'contacts', { name: `Contact ${i}`, account_type: 'customer' });
+    }
+    const script = scriptedFetch(fake);
+    const client = createClient(script.fetch);
+    const controller = new AbortController();
+    let seen = 0;
+
+    const loop = async () => {
+      for await (const _contact of client.contacts.iterate({ signal: controller.signal })) {
+        seen++;
+        controller.abort();
+      }
+    };
+
+    await expect(loop()).rejects.toBeInstanceOf(ParasutAbortError);
+    expect(seen).toBe(25);
+    expect(script.requests).toHaveLength(1);
+  });
+
+  it('interrupts the sleep between job polls', async () => {
+    const fake = createFake();
+    const job = fake.store.insert(COMPANY_ID, 'trackable_jobs', { status: 'pending', errors: [] });
+    const client = createClient(fake.fetch);
+    const controller = new AbortController();
+
+    const polling = client.trackableJobs.poll(job.id, { pollInterval: 60_000, signal: controller.signal });
+    await delay(20);
+    controller.abort();
+
+    await expect(polling).rejects.toBeInstanceOf(ParasutAbortError);
+  });
+
+  it('interrupts the wait for a PDF', async () => {
+    const fake = createFake();
+    const script = scriptedFetch(fake);
+    script.push(new Response(null, { status: 204 }));
+    const client = createClient(script.fetch);
+    const controller = new AbortController();
+
+    const waiting = client.eArchives.pdf(9, { pollInterval: 60_000, signal: controller.signal });
+    await delay(20);
+    controller.abort();
+
+    await expect(waiting).rejects.toBeInstanceOf(ParasutAbortError);
+    expect(script.requests).toHaveLength(1);
+  });
+});
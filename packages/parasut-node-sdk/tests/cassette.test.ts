@@ -0,0 +1,122 @@
+import { mkdir, mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Cassette, ParasutCassetteError, type CassetteInteraction } from '../src/index.js';
+import { COMPANY_ID, createClient, createFake } from './helpers.js';
+
+const credentials = {
+  clientId: 'client-id',
+  clientSecret: 'client-secret-value',
+  username: 'user@example.com',
+  password: 'password-value',
+};
+
+let dir: string;
+let path: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'parasut-cassette-'));
+  path = join(dir, 'session.json');
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+/**
+ * Records a login, a contact create and a contact list against the fake API.
+ */
+async function recordSession(): Promise<void> {
+  const fake = createFake({ credentials });
+  fake.store.insert(COMPANY_ID, 'accounts', { name: 'Kasa', account_type: 'cash' });
+  const cassette = new Cassette({ path, mode: 'record', fetch: fake.fetch });
+  const client = createClient(cassette.fetch, { credentials });
+
+  await client.contacts.create({
+    data: {
+      type: 'contacts',
+      attributes: { name: 'Acme', account_type: 'customer', tax_number: '1234567890' },
+    },
+  });
+  await client.contacts.list({ filter: { name: 'Acme' } });
+  await cassette.save();
+}
+
+async function interactions(): Promise<CassetteInteraction[]> {
+  return (JSON.parse(await readFile(path, 'utf8')) as { interactions: CassetteInteraction[] }).interactions;
+}
+
+describe('cassette', () => {
+  it('replays a recorded session without a server', async () => {
+    await recordSession();
+    const cassette = new Cassette({ path, mode: 'replay' });
+    const client = createClient(cassette.fetch, { credentials });
+
+    const created = await client.contacts.create({
+      data: {
+        type: 'contacts',
+        attributes: { name: 'Acme', account_type: 'customer', tax_number: '1234567890' },
+      },
+    });
+    const listed = await client.contacts.list({ filter: { name: 'Acme' } });
+
+    expect(created.data.attributes.name).toBe('Acme');
+    expect(listed.data.map((contact) => contact.id)).toEqual([created.data.id]);
+    expect(cassette.pending).toEqual([]);
+  });
+
+  it('keeps credentials, tokens and sensitive attributes out of the file', async () => {
+    await recordSession();
+    const file = await readFile(path, 'utf8');
+
+    for (const secret of [credentials.clientSecret, credentials.password, '1234567890']) {
+      expect(file).not.toContain(secret);
+    }
+    const [login] = await interactions();
+    expect(JSON.parse(login!.response.body)).toMatchObject({
+      access_token: 'cassette-access_token-1',
+      refresh_token: 'cassette-refresh_token-2',
+    });
+    const apiRequests = (await interactions()).slice(1);
+    for (const { request } of apiRequests) {
+      expect(request.headers['authorization']).toBe('[REDACTED]');
+    }
+  });
+
+  it('serves each interaction once and rejects requests that were not recorded', async () => {
+    await recordSession();
+    const cassette = new Cassette({ path, mode: 'replay' });
+    const client = createClient(cassette.fetch, { credentials });
+
+    await expect(client.contacts.list({ filter: { name: 'Other' } })).rejects.toBeInstanceOf(ParasutCassetteError);
+    await client.contacts.list({ filter: { name: 'Acme' } });
+    await expect(client.contacts.list({ filter: { name: 'Acme' } })).rejects.toBeInstanceOf(ParasutCassetteError);
+    expect(cassette.pending.map(({ request }) => request.method)).toEqual(['POST']);
+  });
+
+  it('ignores request parts left out of matching', async () => {
+    await recordSession();
+    const cassette = new Cassette({ path, mode: 'replay', match: { query: false, body: false } });
+    const client = createClient(cassette.fetch, { credentials });
+
+    const listed = await client.contacts.list({ filter: { name: 'Other' } });
+
+    expect(listed.data).toHaveLength(1);
+  });
+
+  it('keeps recording after a failed write', async () => {
+    const fake = createFake({ credentials });
+    const nested = join(dir, 'missing', 'session.json');
+    const cassette = new Cassette({ path: nested, mode: 'record', fetch: fake.fetch });
+    const client = createClient(cassette.fetch, { credentials });
+
+    await expect(client.contacts.list()).rejects.toThrow();
+    await mkdir(join(dir, 'missing'));
+    await client.contacts.list();
+    await cassette.save();
+
+    const saved = JSON.parse(await readFile(nested, 'utf8')) as { interactions: CassetteInteraction[] };
+    expect(saved.interactions.length).toBeGreaterThan(0);
+  });
+});
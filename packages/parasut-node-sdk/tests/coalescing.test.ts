@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { ParasutAbortError } from '../src/index.js';
+import type { FetchFunction } from '../src/client/HttpTransport.js';
+import type { FakeParasutServer } from '../src/fake/index.js';
+import { COMPANY_ID, createClient, createFake, delay } from './helpers.js';
+
+interface GatedFetch {
+  fetch: FetchFunction;
+  /**
+   * Signals of the requests sent so far.
+   */
+  signals: Array<AbortSignal | undefined>;
+  release(): void;
+}
+
+/**
+ * Holds every request until `release()`, failing it if its signal aborts.
+ */
+function gatedFetch(fake: FakeParasutServer): GatedFetch {
+  let release!: () => void;
+  const released = new Promise<void>((resolve) => (release = resolve));
+  const signals: Array<AbortSignal | undefined> = [];
+
+  const fetch: FetchFunction = async (input, init) => {
+    const signal = init?.signal ?? undefined;
+    signals.push(signal);
+    await new Promise<void>((resolve, reject) => {
+      signal?.addEventListener('abort', () => reject(signal.reason), { once: true });
+      void released.then(resolve);
+    });
+    return fake.fetch(input, init);
+  };
+
+  return { fetch, signals, release };
+}
+
+describe('request coalescing', () => {
+  it('shares one request between concurrent identical GETs', async () => {
+    const fake = createFake();
+    fake.store.insert(COMPANY_ID, 'contacts', { name: 'Acme', account_type: 'customer' });
+    const gate = gatedFetch(fake);
+    const client = createClient(gate.fetch);
+
+    const pending = [client.contacts.list(), client.contacts.list(), client.contacts.list()];
+    await delay(5);
+    gate.release();
+    const [first, second, third] = await Promise.all(pending);
+
+    expect(gate.signals).toHaveLength(1);
+    expect(second).toEqual(first);
+    expect(third).toEqual(first);
+    // Every caller gets its own copy
+    expect(second).not.toBe(first);
+  });
+
+  it('sends separate requests for different queries and lanes', async () => {
+    const fake = createFake();
+    const gate = gatedFetch(fake);
+    const client = createClient(gate.fetch);
+
+    const pending = [
+      client.contacts.list(),
+      client.contacts.list({ page: { number: 2 } }),
+      client.contacts.list({ priority: 'high' }),
+    ];
+    await delay(5);
+    gate.release();
+    await Promise.all(pending);
+
+    expect(gate.signals).toHaveLength(3);
+  });
+
+  it('does not coalesce requests that start after the first completed', async () => {
+    const fake = createFake();
+    let calls = 0;
+    const client = createClient((input, init) => {
+      calls++;
+      return fake.fetch(input, init);
+    });
+
+    await client.contacts.list();
+    await client.contacts.list();
+
+    expect(calls).toBe(2);
+  });
+
+  it('keeps the shared request running while any caller still waits', async () => {
+    const fake = createFake();
+    const gate = gatedFetch(fake);
+    const client = createClient(gate.fetch);
+    const controller = new AbortController();
+
+    const aborted = client.contacts.list({ signal: controller.signal });
+    const waiting = client.contacts.list();
+    await delay(5);
+    controller.abort();
+
+    await expect(aborted).rejects.toBeInstanceOf(ParasutAbortError);
+    expect(gate.signals[0]?.aborted).toBe(false);
+
+    gate.release();
+    await expect(waiting).resolves.toMatchObject({ data: [] });
+  });
+
+  it('cancels the shared request once every caller aborted', async () => {
+    const fake = createFake();
+    const gate = gatedFetch(fake);
+    const client = createClient(gate.fetch);
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const pending = [
+      client.contacts.list({ signal: first.signal }),
+      client.contacts.list({ signal: second.signal }),
+    ];
+    await delay(5);
+    first.abort();
+    second.abort();
+
+    for (const request of pending) {
+      await expect(request).rejects.toBeInstanceOf(ParasutAbortError);
+    }
+    expect(gate.signals[0]?.aborted).toBe(true);
+  });
+
+  it('can be turned off', async () => {
+    const fake = createFake();
+    const gate = gatedFetch(fake);
+    const client = createClient(gate.fetch, { coalesceRequests: false });
+
+    const pending = [client.contacts.list(), client.contacts.list()];
+    await delay(5);
+    gate.release();
+    await Promise.all(pending);
+
+    expect(gate.signals).toHaveLength(2);
+  });
+});
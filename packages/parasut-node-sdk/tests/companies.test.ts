@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MemoryTokenStorage,
+  ParasutAbortError,
+  ParasutApiError,
+  ParasutAuthError,
+  ParasutClient,
+  ParasutConfigError,
+} from '../src/index.js';
+import { BASE_URL, COMPANY_ID, createClient, createFake, delay, scriptedFetch } from './helpers.js';
+
+const OTHER_COMPANY_ID = 654321;
+
+const credentials = {
+  clientId: 'client',
+  clientSecret: 'secret',
+  username: 'user@example.com',
+  password: 'password',
+};
+
+function createCompaniesFake() {
+  return createFake({
+    credentials,
+    companies: [
+      { id: COMPANY_ID, name: 'Demo Company' },
+      { id: OTHER_COMPANY_ID, name: 'Other Company' },
+    ],
+  });
+}
+
+describe('forCompany', () => {
+  it('scopes paths to the company and shares one token', async () => {
+    const fake = createCompaniesFake();
+    fake.store.insert(OTHER_COMPANY_ID, 'contacts', { name: 'Other Co Customer', account_type: 'customer' });
+    const script = scriptedFetch(fake);
+    const client = createClient(script.fetch, { credentials });
+    const other = client.forCompany(OTHER_COMPANY_ID);
+
+    const own = await client.contacts.list();
+    const scoped = await other.contacts.list();
+
+    expect(own.data).toEqual([]);
+    expect(scoped.data.map((contact) => contact.attributes.name)).toEqual(['Other Co Customer']);
+    expect(script.requests.map(({ url }) => new URL(url).pathname)).toEqual([
+      '/oauth/token',
+      `/v4/${COMPANY_ID}/contacts`,
+      `/v4/${OTHER_COMPANY_ID}/contacts`,
+    ]);
+    expect(other.companyId).toBe(OTHER_COMPANY_ID);
+    expect(client.forCompany(OTHER_COMPANY_ID)).toBe(other);
+    expect(other.metrics).toBe(client.metrics);
+    expect(other.rateLimiter).toBe(client.rateLimiter);
+  });
+
+  it('rejects a missing company ID', () => {
+    const client = createClient(createFake().fetch);
+
+    expect(() => client.forCompany(0)).toThrow(ParasutConfigError);
+  });
+});
+
+describe('mapCompanies', () => {
+  it('runs at most `concurrency` companies at once and keeps input order', async () => {
+    const client = createClient(createFake().fetch);
+    const companyIds = [1, 2, 3, 4, 5];
+    let running = 0;
+    let peak = 0;
+
+    const results = await client.mapCompanies(
+      companyIds,
+      async (company, companyId) => {
+        running++;
+        peak = Math.max(peak, running);
+        await delay(companyId === 1 ? 20 : 5);
+        running--;
+        if (companyId === 3) {
+          throw new Error('company 3 failed');
+        }
+        return company.companyId * 10;
+      },
+      { concurrency: 2 }
+    );
+
+    expect(peak).toBe(2);
+    expect(results.map((result) => result.companyId)).toEqual(companyIds);
+    expect(results.map((result) => result.status)).toEqual([
+      'fulfilled',
+      'fulfilled',
+      'rejected',
+      'fulfilled',
+      'fulfilled',
+    ]);
+    expect(results[0]).toMatchObject({ value: 10 });
+  });
+
+  it('settles API failures per company', async () => {
+    const fake = createCompaniesFake();
+    const client = createClient(fake.fetch, { credentials });
+
+    const results = await client.mapCompanies([COMPANY_ID, 999], (company) => company.contacts.list());
+
+    expect(results[0]?.status).toBe('fulfilled');
+    expect(results[1]?.status === 'rejected' && results[1].reason).toBeInstanceOf(ParasutApiError);
+  });
+
+  it('stops starting companies once aborted', async () => {
+    const client = createClient(createFake().fetch);
+    const controller = new AbortController();
+    const started: number[] = [];
+
+    const mapping = client.mapCompanies(
+      [1, 2, 3, 4],
+      async (_company, companyId) => {
+        started.push(companyId);
+        controller.abort();
+        await delay(5);
+      },
+      { concurrency: 1, signal: controller.signal }
+    );
+
+    await expect(mapping).rejects.toBeInstanceOf(ParasutAbortError);
+    expect(started).toEqual([1]);
+  });
+});
+
+describe('company discovery', () => {
+  it('returns the user and the companies they can access', async () => {
+    const fake = createCompaniesFake();
+    const client = createClient(fake.fetch, { credentials });
+
+    const { user, profile, companies } = await client.me.get();
+
+    expect(user.attributes.email).toBe(credentials.username);
+    expect(profile).toBeNull();
+    expect(companies.map((company) => [company.id, company.attributes.name])).toEqual([
+      [String(COMPANY_ID), 'Demo Company'],
+      [String(OTHER_COMPANY_ID), 'Other Company'],
+    ]);
+  });
+
+  it('lists companies before a client exists and hands the token over', async () => {
+    const fake = createCompaniesFake();
+    const script = scriptedFetch(fake);
+    const tokenStorage = new MemoryTokenStorage();
+    const config = { baseUrl: BASE_URL, tokenUrl: 'http://fake/oauth/token', fetch: script.fetch, tokenStorage };
+
+    const companies = await ParasutClient.discoverCompanies(credentials, config);
+    const client = new ParasutClient({ companyId: Number(companies[1]!.id), credentials, ...config });
+    await client.contacts.list();
+
+    expect(companies.map((company) => company.id)).toEqual([String(COMPANY_ID), String(OTHER_COMPANY_ID)]);
+    expect(script.requests.map(({ url }) => new URL(url).pathname)).toEqual([
+      '/oauth/token',
+      '/v4/me',
+      `/v4/${OTHER_COMPANY_ID}/contacts`,
+    ]);
+  });
+
+  it('surfaces rejected credentials', async () => {
+    const fake = createCompaniesFake();
+
+    await expect(
+      ParasutClient.discoverCompanies(
+        { ...credentials, password: 'wrong' },
+        { baseUrl: BASE_URL, tokenUrl: 'http://fake/oauth/token', fetch: fake.fetch }
+      )
+    ).rejects.toBeInstanceOf(ParasutAuthError);
+  });
+});
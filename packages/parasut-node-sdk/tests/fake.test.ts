@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest';
+import { ParasutClient } from '../src/index.js';
+import type { FakeParasutServer } from '../src/fake/index.js';
+import { ACCESS_TOKEN, COMPANY_ID, createFake } from './helpers.js';
+
+interface ResourceJson {
+  id: string;
+  type: string;
+  attributes: Record<string, unknown>;
+}
+
+interface ApiResult<T = unknown> {
+  status: number;
+  body: T;
+}
+
+/**
+ * Sends a JSON request to the fake API with the static token.
+ */
+async function api<T = unknown>(
+  fake: FakeParasutServer,
+  method: string,
+  path: string,
+  body?: unknown,
+  token = ACCESS_TOKEN
+): Promise<ApiResult<T>> {
+  const response = await fake.fetch(`http://fake/v4${path}`, {
+    method,
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+    ...(body !== undefined && { body: JSON.stringify(body) }),
+  });
+  return { status: response.status, body: (response.status === 204 ? null : await response.json()) as T };
+}
+
+async function token(
+  fake: FakeParasutServer,
+  params: Record<string, string>
+): Promise<ApiResult<Record<string, string>>> {
+  const response = await fake.fetch('http://fake/oauth/token', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({ client_id: 'client', client_secret: 'secret', ...params }).toString(),
+  });
+  return { status: response.status, body: (await response.json()) as Record<string, string> };
+}
+
+describe('FakeParasutServer', () => {
+  it('issues tokens by password and rotates them on refresh', async () => {
+    const fake = createFake({
+      credentials: { clientId: 'client', clientSecret: 'secret', username: 'user', password: 'password' },
+    });
+
+    const denied = await token(fake, { grant_type: 'password', username: 'user', password: 'wrong' });
+    const issued = await token(fake, { grant_type: 'password', username: 'user', password: 'password' });
+    const refreshToken = issued.body['refresh_token']!;
+    const refreshed = await token(fake, { grant_type: 'refresh_token', refresh_token: refreshToken });
+    const reused = await token(fake, { grant_type: 'refresh_token', refresh_token: refreshToken });
+    const statusWith = async (accessToken: string | undefined) =>
+      (await api(fake, 'GET', `/${COMPANY_ID}/contacts`, undefined, accessToken)).status;
+
+    expect(denied).toMatchObject({ status: 400, body: { error: 'invalid_grant' } });
+    expect(issued.body).toMatchObject({ token_type: 'bearer', expires_in: 7200 });
+    expect(refreshed.status).toBe(200);
+    expect(reused.status).toBe(400);
+    expect(await statusWith(issued.body['access_token'])).toBe(401);
+    expect(await statusWith(refreshed.body['access_token'])).toBe(200);
+  });
+
+  it('pages, filters, sorts and includes', async () => {
+    const fake = createFake();
+    const category = fake.store.insert(COMPANY_ID, 'item_categories', { name: 'Retail' });
+    for (const name of ['Cedar', 'Acme', 'Birch']) {
+      fake.store.insert(
+        COMPANY_ID,
+        'contacts',
+        { name, account_type: 'customer' },
+        { category: { data: { id: category.id, type: 'item_categories' } } }
+      );
+    }
+    fake.store.insert(COMPANY_ID, 'contacts', { name: 'Dune', account_type: 'supplier' });
+
+    const page = await api<{ data: ResourceJson[]; meta: unknown; included: ResourceJson[] }>(
+      fake,
+      'GET',
+      `/${COMPANY_ID}/contacts?filter[account_type]=customer&sort=name&page[size]=2&page[number]=2&include=category`
+    );
+
+    expect(page.body.data.map((contact) => contact.attributes['name'])).toEqual(['Cedar']);
+    expect(page.body.meta).toEqual({ current_page: 2, total_pages: 2, total_count: 3, per_page: 2 });
+    expect(page.body.included).toHaveLength(1);
+    expect(page.body.included[0]).toMatchObject({
+      id: category.id,
+      type: 'item_categories',
+      attributes: { name: 'Retail' },
+    });
+  });
+
+  it('answers errors in the JSON:API errors format', async () => {
+    const fake = createFake();
+
+    const missing = await api(fake, 'GET', `/${COMPANY_ID}/contacts/999`);
+    const invalid = await api(fake, 'POST', `/${COMPANY_ID}/contacts`, {
+      data: { type: 'contacts', attributes: { account_type: 'customer' } },
+    });
+    const otherCompany = await api(fake, 'GET', '/999/contacts');
+    const noToken = await api(fake, 'GET', `/${COMPANY_ID}/contacts`, undefined, 'unknown');
+
+    expect(missing).toMatchObject({ status: 404, body: { errors: [{ title: expect.any(String) }] } });
+    expect(invalid).toMatchObject({
+      status: 422,
+      body: { errors: [{ source: { pointer: '/data/attributes/name' } }] },
+    });
+    expect(otherCompany.status).toBe(403);
+    expect(noToken.status).toBe(401);
+  });
+
+  it('archives records and runs e-document jobs from pending to done', async () => {
+    const fake = createFake();
+    const employee = fake.store.insert(COMPANY_ID, 'employees', { name: 'Ayşe' });
+    const invoice = fake.store.insert(COMPANY_ID, 'sales_invoices', { item_type: 'invoice', net_total: '100.0' });
+
+    const archived = await api<{ data: ResourceJson }>(fake, 'PATCH', `/${COMPANY_ID}/employees/${employee.id}/archive`);
+    expect(archived.body.data.attributes['archived']).toBe(true);
+
+    const started = await api<{ data: ResourceJson }>(fake, 'POST', `/${COMPANY_ID}/e_archives`, {
+      data: {
+        type: 'e_archives',
+        attributes: {},
+        relationships: { sales_invoice: { data: { id: invoice.id, type: 'sales_invoices' } } },
+      },
+    });
+    const jobPath = `/trackable_jobs/${started.body.data.id}`;
+    const statuses = [started.body.data.attributes['status']];
+    for (let i = 0; i < 3; i++) {
+      const job = await api<{ data: ResourceJson }>(fake, 'GET', `/${COMPANY_ID}${jobPath}`);
+      statuses.push(job.body.data.attributes['status']);
+    }
+
+    expect(statuses).toEqual(['pending', 'running', 'done', 'done']);
+    const [eArchive] = fake.store.all(COMPANY_ID, 'e_archives');
+    expect(eArchive?.attributes['status']).toBe('approved');
+    expect(fake.store.find(COMPANY_ID, 'sales_invoices', invoice.id)?.relationships['active_e_document']).toEqual({
+      data: { id: eArchive!.id, type: 'e_archives' },
+    });
+  });
+
+  it('serves a client over HTTP', async () => {
+    const fake = createFake();
+    fake.store.insert(COMPANY_ID, 'contacts', { name: 'Acme', account_type: 'customer' });
+    const baseUrl = await fake.listen();
+
+    try {
+      const client = new ParasutClient({
+        companyId: COMPANY_ID,
+        accessToken: ACCESS_TOKEN,
+        baseUrl,
+        rateLimit: { enabled: false },
+      });
+      const contacts = await client.contacts.list();
+
+      expect(contacts.data.map((contact) => contact.attributes.name)).toEqual(['Acme']);
+    } finally {
+      await fake.close();
+    }
+  });
+});
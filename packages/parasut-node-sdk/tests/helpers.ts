@@ -0,0 +1,117 @@
+/**
+ * Shared test helpers: a fake API with a static token, a client wired to
+ * it, and a fetch that answers scripted responses before falling through.
+ */
+
+import { ParasutClient, type ParasutClientConfig } from '../src/index.js';
+import type { FetchFunction } from '../src/client/HttpTransport.js';
+import { FakeParasutServer, type FakeParasutServerConfig } from '../src/fake/index.js';
+
+export const COMPANY_ID = 123456;
+export const ACCESS_TOKEN = 'test-token';
+export const BASE_URL = 'http://fake/v4';
+
+/**
+ * A scripted answer: a response to return, an error to throw, a fetch to
+ * answer with, or `undefined` to let the fake server answer.
+ */
+export type ScriptedAnswer = Response | Error | FetchFunction | undefined;
+
+export interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: Headers;
+}
+
+export interface ScriptedFetch {
+  fetch: FetchFunction;
+  /**
+   * Every request seen, in order.
+   */
+  requests: RecordedRequest[];
+  /**
+   * Queues answers for the next requests.
+   */
+  push(...answers: ScriptedAnswer[]): void;
+}
+
+export function createFake(config: Partial<FakeParasutServerConfig> = {}): FakeParasutServer {
+  return new FakeParasutServer({ accessTokens: [ACCESS_TOKEN], ...config });
+}
+
+/**
+ * Wraps `fake.fetch`, answering queued responses first.
+ */
+export function scriptedFetch(fake: FakeParasutServer): ScriptedFetch {
+  const queue: ScriptedAnswer[] = [];
+  const requests: RecordedRequest[] = [];
+
+  const fetch: FetchFunction = async (input, init) => {
+    requests.push({
+      method: init?.method ?? 'GET',
+      url: input,
+      headers: new Headers(init?.headers),
+    });
+    const answer = queue.shift();
+    if (answer instanceof Error) {
+      throw answer;
+    }
+    if (typeof answer === 'function') {
+      return answer(input, init);
+    }
+    return answer ?? fake.fetch(input, init);
+  };
+
+  return {
+    fetch,
+    requests,
+    push: (...answers) => queue.push(...answers),
+  };
+}
+
+/**
+ * Lets the fake server process the request, then fails as if the
+ * connection dropped before the response arrived.
+ */
+export function lostResponse(fake: FakeParasutServer): FetchFunction {
+  return async (input, init) => {
+    await fake.fetch(input, init);
+    throw new TypeError('fetch failed');
+  };
+}
+
+/**
+ * Creates a client for the fake API. Rate limiting is off and retries are
+ * fast unless the config says otherwise.
+ */
+export function createClient(
+  fetch: FetchFunction,
+  config: Partial<ParasutClientConfig> = {}
+): ParasutClient {
+  return new ParasutClient({
+    companyId: COMPANY_ID,
+    accessToken: ACCESS_TOKEN,
+    baseUrl: BASE_URL,
+    fetch,
+    ...config,
+    rateLimit: { enabled: false, ...config.rateLimit },
+    retry: { initialDelayMs: 1, maxDelayMs: 5, ...config.retry },
+  });
+}
+
+/**
+ * A JSON:API error response.
+ */
+export function errorResponse(status: number, headers: Record<string, string> = {}): Response {
+  return new Response(
+    JSON.stringify({ errors: [{ title: 'Error', detail: `Status ${status}` }] }),
+    { status, headers: { 'content-type': 'application/vnd.api+json', ...headers } }
+  );
+}
+
+/**
+ * Resolves after the given number of milliseconds.
+ */
+export function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,228 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ParasutIdempotencyError,
+  ParasutNetworkError,
+  ParasutValidationError,
+} from '../src/index.js';
+import type { FakeParasutServer } from '../src/fake/index.js';
+import {
+  COMPANY_ID,
+  createClient,
+  createFake,
+  errorResponse,
+  lostResponse,
+  scriptedFetch,
+  type RecordedRequest,
+} from './helpers.js';
+
+function seedInvoice(fake: FakeParasutServer): string {
+  return fake.store.insert(COMPANY_ID, 'sales_invoices', {
+    issue_date: '2024-01-01',
+    item_type: 'invoice',
+    gross_total: 100,
+  }).id;
+}
+
+function payment(amount: number, details: { notes?: string } = { notes: 'Order 1001' }) {
+  return { data: { type: 'payments' as const, attributes: { date: '2024-01-02', amount, ...details } } };
+}
+
+function posts(requests: RecordedRequest[]): RecordedRequest[] {
+  return requests.filter((request) => request.method === 'POST');
+}
+
+describe('idempotency guard', () => {
+  it('finds a payment whose response was lost instead of paying twice', async () => {
+    const fake = createFake();
+    const script = scriptedFetch(fake);
+    const client = createClient(script.fetch);
+    const invoiceId = seedInvoice(fake);
+
+    script.push(lostResponse(fake));
+    const response = await client.salesInvoices.pay(invoiceId, payment(40));
+
+    expect(response.data.type).toBe('payments');
+    expect(fake.store.all(COMPANY_ID, 'payments')).toHaveLength(1);
+    expect(posts(script.requests)).toHaveLength(1);
+  });
+
+  it('reposts once when the lookup shows the payment was not recorded', async () => {
+    const fake = createFake();
+    const script = scriptedFetch(fake);
+    const client = createClient(script.fetch);
+    const invoiceId = seedInvoice(fake);
+
+    script.push(errorResponse(502));
+    await client.salesInvoices.pay(invoiceId, payment(40));
+
+    expect(fake.store.all(COMPANY_ID, 'payments')).toHaveLength(1);
+    const [first, second] = posts(script.requests);
+    expect(second).toBeDefined();
+    expect(second!.headers.get('idempotency-key')).toBe(first!.headers.get('idempotency-key'));
+  });
+
+  it('does not take an earlier payment with the same details for a lost one', async () => {
+    const fake = createFake();
+    const script = scriptedFetch(fake);
+    const client = createClient(script.fetch);
+    const invoiceId = seedInvoice(fake);
+    const earlier = await client.salesInvoices.pay(invoiceId, payment(40));
+    const minuteAgo = new Date(Date.now() - 60_000).toISOString();
+    fake.store.find(COMPANY_ID, 'payments', earlier.data.id)!.attributes['created_at'] = minuteAgo;
+
+    script.push(errorResponse(502));
+    await client.salesInvoices.pay(invoiceId, payment(40));
+
+    expect(fake.store.all(COMPANY_ID, 'payments')).toHaveLength(2);
+  });
+
+  it('rethrows an ambiguous payment without notes instead of guessing', async () => {
+    const fake = createFake();
+    const script = scriptedFetch(fake);
+    const client = createClient(script.fetch);
+    const invoiceId = seedInvoice(fake);
+
+    script.push(lostResponse(fake));
+    await expect(client.salesInvoices.pay(invoiceId, payment(40, {}))).rejects.toBeInstanceOf(ParasutNetworkError);
+    expect(posts(script.requests)).toHaveLength(1);
+  });
+
+  it('looks an account transaction up only by its description', async () => {
+    const fake = createFake();
+    const script = scriptedFetch(fake);
+    const client = createClient(script.fetch);
+    const accountId = fake.store.insert(COMPANY_ID, 'accounts', { name: 'Kasa', account_type: 'cash' }).id;
+    const debit = (description?: string) => ({
+      data: {
+        type: 'transactions' as const,
+        attributes: { date: '2024-01-02', amount: 25, ...(description !== undefined && { description }) },
+      },
+    });
+
+    script.push(lostResponse(fake));
+    await client.accounts.debit(accountId, debit('Petty cash'));
+    script.push(lostResponse(fake));
+    await expect(client.accounts.debit(accountId, debit())).rejects.toBeInstanceOf(ParasutNetworkError);
+
+    expect(posts(script.requests)).toHaveLength(2);
+  });
+
+  it('pages through newer bills to find a lost purchase bill', async () => {
+    const fake = createFake();
+    const script = scriptedFetch(fake);
+    const client = createClient(script.fetch);
+
+    // Other writers add bills for the same day before the response is lost
+    script.push(async (input, init) => {
+      await fake.fetch(input, init);
+      for (let i = 0; i < 30; i++) {
+        fake.store.insert(COMPANY_ID, 'purchase_bills', { issue_date: '2024-01-02', item_type: 'purchase_bill' });
+      }
+      throw new TypeError('fetch failed');
+    });
+    const response = await client.purchaseBills.create({
+      data: {
+        type: 'purchase_bills',
+        attributes: {
+          item_type: 'purchase_bill',
+          issue_date: '2024-01-02',
+          due_date: '2024-02-01',
+          currency: 'TRL',
+          invoice_no: 'SUP-42',
+        },
+      },
+    });
+
+    expect(response.data.attributes.invoice_no).toBe('SUP-42');
+    expect(posts(script.requests)).toHaveLength(1);
+  });
+
+  it('queues a guarded write in the lane given by priority', async () => {
+    const fake = createFake();
+    const client = createClient(fake.fetch, {
+      rateLimit: { enabled: true, requestsPerWindow: 1, windowMs: 100, adaptive: false },
+    });
+    const invoiceId = seedInvoice(fake);
+    const lanes: string[] = [];
+    client.rateLimiter.onWait(({ lane }) => lanes.push(lane));
+
+    await client.salesInvoices.pay(invoiceId, payment(40));
+    await client.salesInvoices.pay(invoiceId, payment(20), { priority: 'low' });
+
+    expect(lanes).toEqual(['low']);
+  });
+
+  it('returns the stored response when a key is used again', async () => {
+    const fake = createFake();
+    const script = scriptedFetch(fake);
+    const client = createClient(script.fetch);
+    const invoiceId = seedInvoice(fake);
+
+    const first = await client.salesInvoices.pay(invoiceId, payment(40), { idempotencyKey: 'pay-1' });
+    const second = await client.salesInvoices.pay(invoiceId, payment(40), { idempotencyKey: 'pay-1' });
+
+    expect(second.data.id).toBe(first.data.id);
+    expect(fake.store.all(COMPANY_ID, 'payments')).toHaveLength(1);
+    expect(posts(script.requests)).toHaveLength(1);
+    expect(posts(script.requests)[0]!.headers.get('idempotency-key')).toBe('pay-1');
+  });
+
+  it('sends concurrent writes with the same key once', async () => {
+    const fake = createFake();
+    const script = scriptedFetch(fake);
+    const client = createClient(script.fetch);
+    const invoiceId = seedInvoice(fake);
+
+    const [first, second] = await Promise.all([
+      client.salesInvoices.pay(invoiceId, payment(40), { idempotencyKey: 'pay-1' }),
+      client.salesInvoices.pay(invoiceId, payment(40), { idempotencyKey: 'pay-1' }),
+    ]);
+
+    expect(second.data.id).toBe(first.data.id);
+    expect(fake.store.all(COMPANY_ID, 'payments')).toHaveLength(1);
+  });
+
+  it('rethrows an ambiguous failure it cannot verify', async () => {
+    const fake = createFake();
+    const script = scriptedFetch(fake);
+    const client = createClient(script.fetch);
+
+    // Without an invoice number there is nothing to look the invoice up by
+    script.push(lostResponse(fake));
+    await expect(
+      client.salesInvoices.create({
+        data: { type: 'sales_invoices', attributes: { item_type: 'invoice', issue_date: '2024-01-01' } },
+      })
+    ).rejects.toBeInstanceOf(ParasutNetworkError);
+    expect(posts(script.requests)).toHaveLength(1);
+  });
+
+  it('rejects a key reused for another operation', async () => {
+    const fake = createFake();
+    const client = createClient(fake.fetch);
+    const invoiceId = seedInvoice(fake);
+
+    await client.salesInvoices.pay(invoiceId, payment(40), { idempotencyKey: 'shared' });
+
+    await expect(
+      client.salesInvoices.create(
+        { data: { type: 'sales_invoices', attributes: { item_type: 'invoice', issue_date: '2024-01-01' } } },
+        { idempotencyKey: 'shared' }
+      )
+    ).rejects.toBeInstanceOf(ParasutIdempotencyError);
+    expect(fake.store.all(COMPANY_ID, 'sales_invoices')).toHaveLength(1);
+  });
+
+  it('frees the key after a definite failure', async () => {
+    const fake = createFake();
+    const client = createClient(fake.fetch);
+    const invoiceId = seedInvoice(fake);
+
+    await expect(
+      client.salesInvoices.pay(invoiceId, payment(0), { idempotencyKey: 'pay-1' })
+    ).rejects.toBeInstanceOf(ParasutValidationError);
+    await client.salesInvoices.pay(invoiceId, payment(40), { idempotencyKey: 'pay-1' });
+
+    expect(fake.store.all(COMPANY_ID, 'payments')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { redact, type LogEvent, type Logger } from '../src/index.js';
+import { COMPANY_ID, createClient, createFake, errorResponse, scriptedFetch } from './helpers.js';
+
+const credentials = {
+  clientId: 'client',
+  clientSecret: 'client-secret-value',
+  username: 'user@example.com',
+  password: 'password-value',
+};
+
+function memoryLogger(): Logger & { events: LogEvent[] } {
+  const events: LogEvent[] = [];
+  return { events, log: (event) => void events.push(event) };
+}
+
+describe('redact', () => {
+  it('masks secrets, configured attributes and bearer tokens', () => {
+    const input = {
+      headers: { Authorization: 'Bearer abc.def' },
+      query: { 'filter[tax_number]': '1234567890', 'filter[name]': 'Acme' },
+      data: { attributes: { name: 'Acme', iban: 'TR00', vkn: '42' } },
+      error: 'Rejected Bearer abc.def, try again',
+    };
+
+    expect(redact(input, ['iban', 'vkn', 'tax_number'])).toEqual({
+      headers: { Authorization: '[REDACTED]' },
+      query: { 'filter[tax_number]': '[REDACTED]', 'filter[name]': 'Acme' },
+      data: { attributes: { name: 'Acme', iban: '[REDACTED]', vkn: '[REDACTED]' } },
+      error: 'Rejected Bearer [REDACTED], try again',
+    });
+    // The input is left as it was
+    expect(input.headers.Authorization).toBe('Bearer abc.def');
+  });
+});
+
+describe('client logging', () => {
+  it('emits token, request and retry events without secrets', async () => {
+    const fake = createFake({ credentials });
+    const script = scriptedFetch(fake);
+    script.push(undefined, errorResponse(503, { 'x-request-id': 'req-1' }));
+    const logger = memoryLogger();
+    const client = createClient(script.fetch, { credentials, logger });
+
+    await client.contacts.list({ filter: { tax_number: '1234567890' } });
+
+    expect(logger.events.map(({ event }) => event)).toEqual([
+      'token:refresh',
+      'request:start',
+      'request:end',
+      'request:retry',
+      'request:start',
+      'request:end',
+    ]);
+    expect(logger.events[0]).toMatchObject({ grantType: 'password', level: 'info' });
+    expect(logger.events[2]).toMatchObject({
+      method: 'GET',
+      path: `/${COMPANY_ID}/contacts`,
+      status: 503,
+      attempt: 1,
+      requestId: 'req-1',
+      level: 'error',
+    });
+    expect(logger.events[5]).toMatchObject({ status: 200, attempt: 2, level: 'info' });
+    expect(logger.events[5]!.durationMs).toBeGreaterThanOrEqual(0);
+
+    const serialized = JSON.stringify(logger.events);
+    for (const secret of [credentials.clientSecret, credentials.password, '1234567890']) {
+      expect(serialized).not.toContain(secret);
+    }
+    const token = script.requests[1]!.headers.get('authorization')!.replace('Bearer ', '');
+    expect(serialized).not.toContain(token);
+  });
+
+  it('redacts the configured attribute keys instead of the defaults', async () => {
+    const fake = createFake();
+    const logger = memoryLogger();
+    const client = createClient(fake.fetch, { logger, redactKeys: ['email'] });
+
+    await client.contacts.create({
+      data: {
+        type: 'contacts',
+        attributes: { name: 'Acme', account_type: 'customer', email: 'billing@acme.test', tax_number: '111' },
+      },
+    });
+
+    const start = logger.events.find(({ event }) => event === 'request:start');
+    expect(start?.body).toMatchObject({
+      data: { attributes: { name: 'Acme', email: '[REDACTED]', tax_number: '111' } },
+    });
+  });
+});
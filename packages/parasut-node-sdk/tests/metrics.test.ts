@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { MetricsCollector } from '../src/index.js';
+import { COMPANY_ID, createClient, createFake, errorResponse, scriptedFetch } from './helpers.js';
+
+describe('MetricsCollector', () => {
+  it('keys requests by spec operation and collapses unknown paths', () => {
+    const metrics = new MetricsCollector();
+
+    expect(metrics.resolveOperation('GET', `/${COMPANY_ID}/contacts/5`).operation).toBe('showContact');
+    expect(metrics.resolveOperation('PUT', `/${COMPANY_ID}/contacts/5`).operation).toBe('updateContact');
+    expect(metrics.resolveOperation('GET', `/${COMPANY_ID}/contacts?page[size]=5`).operation).toBe('listContacts');
+    expect(metrics.resolveOperation('GET', '/unknown/42/things')).toEqual({
+      operation: 'GET /unknown/{id}/things',
+      path: '/unknown/{id}/things',
+    });
+  });
+
+  it('summarizes latency percentiles within the sample window', () => {
+    const metrics = new MetricsCollector({ maxSamples: 100 });
+    for (let ms = 1; ms <= 200; ms++) {
+      metrics.recordRequest('GET', `/${COMPANY_ID}/contacts`, '200', ms);
+    }
+
+    const [contacts] = metrics.snapshot().operations;
+
+    // Counts and sums cover everything; percentiles the last 100 samples
+    expect(contacts!.requests).toBe(200);
+    expect(contacts!.latencyMs).toMatchObject({ count: 200, max: 200, sum: 20_100 });
+    expect(contacts!.latencyMs.p50).toBeGreaterThanOrEqual(150);
+    expect(contacts!.latencyMs.p99).toBeGreaterThanOrEqual(198);
+  });
+});
+
+describe('client metrics', () => {
+  it('counts attempts, statuses, retries and token refreshes', async () => {
+    const credentials = { clientId: 'client', clientSecret: 'secret', username: 'user', password: 'password' };
+    const fake = createFake({ credentials });
+    const script = scriptedFetch(fake);
+    script.push(undefined, errorResponse(503));
+    const client = createClient(script.fetch, { credentials });
+
+    await client.contacts.list();
+    await expect(client.contacts.get(404)).rejects.toThrow();
+
+    const snapshot = client.metrics.snapshot();
+    expect(snapshot.totals).toEqual({ requests: 3, errors: 2, retries: 1 });
+    expect(snapshot.tokenRefreshes).toBe(1);
+    expect(snapshot.operations.map(({ operation, statuses }) => ({ operation, statuses }))).toEqual([
+      { operation: 'listContacts', statuses: { 200: 1, 503: 1 } },
+      { operation: 'showContact', statuses: { 404: 1 } },
+    ]);
+
+    const text = client.metrics.toPrometheus();
+    expect(text).toContain('parasut_requests_total{operation="listContacts",method="GET",status="503"} 1');
+    expect(text).toContain('parasut_retries_total{operation="listContacts",method="GET"} 1');
+    expect(text).toContain('parasut_token_refreshes_total 1');
+    expect(text.endsWith('\n')).toBe(true);
+  });
+
+  it('records time spent waiting for the rate limiter', async () => {
+    const fake = createFake();
+    const client = createClient(fake.fetch, {
+      rateLimit: { enabled: true, requestsPerWindow: 1, windowMs: 50, adaptive: false },
+    });
+
+    await client.contacts.list();
+    await client.contacts.list();
+
+    const { rateLimit } = client.metrics.snapshot();
+    expect(rateLimit.waits).toBe(1);
+    expect(rateLimit.totalWaitMs).toBeGreaterThan(0);
+  });
+});
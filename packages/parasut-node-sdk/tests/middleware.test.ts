@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { HttpTransport, ParasutApiError } from '../src/index.js';
+import { BASE_URL, COMPANY_ID, createClient, createFake, errorResponse, scriptedFetch } from './helpers.js';
+
+function createTransport(fetch = createFake().fetch): HttpTransport {
+  return new HttpTransport({
+    baseUrl: BASE_URL,
+    timeout: 1000,
+    headers: { Authorization: 'Bearer test-token' },
+    fetch,
+  });
+}
+
+describe('middleware', () => {
+  it('runs in registration order around the request', async () => {
+    const transport = createTransport();
+    const calls: string[] = [];
+    for (const name of ['outer', 'inner']) {
+      transport.use(async (_ctx, next) => {
+        calls.push(`${name} before`);
+        const body = await next();
+        calls.push(`${name} after`);
+        return body;
+      });
+    }
+
+    await transport.request({ method: 'GET', path: `/${COMPANY_ID}/accounts` });
+
+    expect(calls).toEqual(['outer before', 'inner before', 'inner after', 'outer after']);
+  });
+
+  it('short-circuits without reaching the network', async () => {
+    const script = scriptedFetch(createFake());
+    const transport = createTransport(script.fetch);
+    transport.use(async () => ({ data: [], cached: true }));
+
+    const body = await transport.request({ method: 'GET', path: `/${COMPANY_ID}/accounts` });
+
+    expect(body).toEqual({ data: [], cached: true });
+    expect(script.requests).toEqual([]);
+  });
+
+  it('sees the raw response of the request', async () => {
+    const transport = createTransport();
+    const statuses: number[] = [];
+    transport.use(async (ctx, next) => {
+      try {
+        return await next();
+      } finally {
+        statuses.push(ctx.response?.status ?? 0);
+      }
+    });
+
+    await transport.request({ method: 'GET', path: `/${COMPANY_ID}/accounts` });
+    await expect(transport.request({ method: 'GET', path: `/${COMPANY_ID}/accounts/404` })).rejects.toBeInstanceOf(
+      ParasutApiError
+    );
+
+    expect(statuses).toEqual([200, 404]);
+  });
+
+  it('keeps the interceptor methods as adapters', async () => {
+    const script = scriptedFetch(createFake());
+    script.push(undefined, errorResponse(422));
+    const transport = createTransport(script.fetch);
+    const responses: number[] = [];
+    transport.addRequestInterceptor((config) => ({ ...config, headers: { ...config.headers, 'X-Trace': 'abc' } }));
+    transport.addResponseInterceptor((response, body) => {
+      responses.push(response.status);
+      return body;
+    });
+    transport.addErrorInterceptor((error) => new Error(`wrapped: ${error.message}`));
+
+    await transport.request({ method: 'GET', path: `/${COMPANY_ID}/accounts` });
+    await expect(transport.request({ method: 'GET', path: `/${COMPANY_ID}/accounts` })).rejects.toThrow(/^wrapped: /);
+
+    expect(script.requests[0]!.headers.get('x-trace')).toBe('abc');
+    expect(responses).toEqual([200]);
+  });
+
+  it('runs client middleware once per attempt', async () => {
+    const fake = createFake();
+    const script = scriptedFetch(fake);
+    script.push(errorResponse(503));
+    const client = createClient(script.fetch);
+    const seen: string[] = [];
+    client.use(async (ctx, next) => {
+      seen.push(ctx.request.headers?.['Authorization'] ?? '');
+      return next();
+    });
+
+    await client.accounts.list();
+
+    expect(seen).toEqual(['Bearer test-token', 'Bearer test-token']);
+  });
+});
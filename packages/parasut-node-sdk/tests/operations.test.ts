@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { ParasutConfigError, buildOperationPath } from '../src/index.js';
+import { COMPANY_ID, createClient, createFake, scriptedFetch } from './helpers.js';
+
+describe('buildOperationPath', () => {
+  it('fills in the company and encodes path parameters', () => {
+    expect(buildOperationPath('showContact', COMPANY_ID, { id: 'a/b' })).toBe(`/${COMPANY_ID}/contacts/a%2Fb`);
+    expect(buildOperationPath('showMe', COMPANY_ID)).toBe('/me');
+    // Spec variants share one URL
+    expect(buildOperationPath('createPurchaseBillDetailed', COMPANY_ID)).toBe(`/${COMPANY_ID}/purchase_bills`);
+  });
+
+  it('rejects unknown operations and missing path parameters', () => {
+    expect(() => buildOperationPath('showEverything', COMPANY_ID)).toThrow(ParasutConfigError);
+    expect(() => buildOperationPath('showContact', COMPANY_ID)).toThrow(/"id"/);
+    expect(() => buildOperationPath('showContact', COMPANY_ID, { id: '' })).toThrow(ParasutConfigError);
+  });
+});
+
+describe('client.call', () => {
+  it('sends the operation with its method, path and query', async () => {
+    const fake = createFake();
+    const account = fake.store.insert(COMPANY_ID, 'accounts', { name: 'Kasa', account_type: 'cash' });
+    fake.store.insert(
+      COMPANY_ID,
+      'transactions',
+      { date: '2024-01-15', description: 'Deposit' },
+      { account: { data: { id: account.id, type: 'accounts' } } }
+    );
+    const script = scriptedFetch(fake);
+    const client = createClient(script.fetch);
+
+    const result = await client.call<'listAccountTransactions', { data: { attributes: { description: string } }[] }>(
+      'listAccountTransactions',
+      { pathParams: { id: account.id }, query: { 'filter[date]': '2024-01-15' } }
+    );
+
+    expect(result.data.map((transaction) => transaction.attributes.description)).toEqual(['Deposit']);
+    const url = new URL(script.requests[0]!.url);
+    expect([script.requests[0]!.method, url.pathname, url.searchParams.get('filter[date]')]).toEqual([
+      'GET',
+      `/v4/${COMPANY_ID}/accounts/${account.id}/transactions`,
+      '2024-01-15',
+    ]);
+  });
+
+  it('resolves 204 operations to undefined', async () => {
+    const fake = createFake();
+    const contact = fake.store.insert(COMPANY_ID, 'contacts', { name: 'Acme', account_type: 'customer' });
+    const client = createClient(fake.fetch);
+
+    await expect(client.call('deleteContact', { pathParams: { id: contact.id } })).resolves.toBeUndefined();
+    expect(fake.store.find(COMPANY_ID, 'contacts', contact.id)).toBeUndefined();
+  });
+
+  it('requires path parameters before sending', async () => {
+    const fake = createFake();
+    const script = scriptedFetch(fake);
+    const client = createClient(script.fetch);
+
+    // @ts-expect-error pathParams is required for operations with path parameters
+    await expect(client.call('showContact')).rejects.toBeInstanceOf(ParasutConfigError);
+    expect(script.requests).toEqual([]);
+  });
+});
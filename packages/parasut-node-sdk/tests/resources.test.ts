@@ -0,0 +1,68 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { COMPANY_ID, createClient, createFake, scriptedFetch } from './helpers.js';
+
+function listResponse(): Response {
+  return new Response(JSON.stringify({ data: [], meta: { total_count: 0, total_pages: 1 } }), {
+    headers: { 'content-type': 'application/vnd.api+json' },
+  });
+}
+
+describe('deprecated wrappers', () => {
+  it('still sends the company-wide transaction and inventory level reads', async () => {
+    const fake = createFake();
+    const script = scriptedFetch(fake);
+    script.push(
+      listResponse(),
+      listResponse(),
+      new Response(JSON.stringify({ data: { id: '7', type: 'inventory_levels', attributes: {} } }), {
+        headers: { 'content-type': 'application/vnd.api+json' },
+      })
+    );
+    const client = createClient(script.fetch);
+
+    await client.transactions.list({ filter: { date: '2024-01-02' } });
+    await client.inventoryLevels.list();
+    const level = await client.inventoryLevels.get(7);
+
+    expect(level.data.id).toBe('7');
+    expect(script.requests.map(({ url }) => new URL(url).pathname)).toEqual([
+      `/v4/${COMPANY_ID}/transactions`,
+      `/v4/${COMPANY_ID}/inventory_levels`,
+      `/v4/${COMPANY_ID}/inventory_levels/7`,
+    ]);
+  });
+});
+
+describe('generated resources', () => {
+  it('exposes only the CRUD methods each spec collection declares', () => {
+    const client = createClient(createFake().fetch);
+
+    expectTypeOf(client.eArchives).toHaveProperty('create');
+    expectTypeOf(client.eArchives).not.toHaveProperty('list');
+    expectTypeOf(client.eArchives).not.toHaveProperty('update');
+    expectTypeOf(client.bankFees).not.toHaveProperty('list');
+    expectTypeOf(client.stockMovements).toHaveProperty('list');
+    expectTypeOf(client.stockMovements).not.toHaveProperty('get');
+    expectTypeOf(client.eInvoiceInboxes).not.toHaveProperty('create');
+  });
+
+  it('sends member actions to their spec method and path', async () => {
+    const fake = createFake();
+    const invoice = fake.store.insert(COMPANY_ID, 'sales_invoices', { item_type: 'invoice', net_total: '100.0' });
+    const script = scriptedFetch(fake);
+    const client = createClient(script.fetch);
+
+    await client.salesInvoices.archive(invoice.id);
+    await client.salesInvoices.unarchive(invoice.id);
+    await client.salesInvoices.cancel(invoice.id);
+    await client.salesInvoices.recover(invoice.id);
+
+    const path = `/v4/${COMPANY_ID}/sales_invoices/${invoice.id}`;
+    expect(script.requests.map(({ method, url }) => `${method} ${new URL(url).pathname}`)).toEqual([
+      `PATCH ${path}/archive`,
+      `PATCH ${path}/unarchive`,
+      `DELETE ${path}/cancel`,
+      `PATCH ${path}/recover`,
+    ]);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { ParasutValidationError, sharingForm } from '../src/index.js';
+import { COMPANY_ID, createClient, createFake, scriptedFetch } from './helpers.js';
+
+describe('sharingForm', () => {
+  it('builds the spec form from email and portal options', () => {
+    expect(
+      sharingForm('sales_offers', 7, {
+        email: { to: ['a@example.com', 'b@example.com'], subject: 'Teklif' },
+        portal: { onlineCollection: true },
+      })
+    ).toEqual({
+      data: {
+        type: 'sharing_forms',
+        attributes: {
+          email: { addresses: 'a@example.com,b@example.com', subject: 'Teklif' },
+          portal: { has_online_collection: true },
+        },
+        relationships: { shareable: { data: { id: '7', type: 'sales_offers' } } },
+      },
+    });
+  });
+});
+
+describe('sharing documents', () => {
+  it('emails a sales invoice to each recipient', async () => {
+    const fake = createFake();
+    const invoice = fake.store.insert(COMPANY_ID, 'sales_invoices', { item_type: 'invoice', sharings_count: 0 });
+    const script = scriptedFetch(fake);
+    const client = createClient(script.fetch);
+
+    const response = await client.salesInvoices.share(invoice.id, {
+      email: { to: ['a@example.com', 'b@example.com'], subject: 'Fatura', body: 'Ekte faturanız var.' },
+    });
+
+    expect(response.data.map((sharing) => sharing.attributes.email)).toEqual(['a@example.com', 'b@example.com']);
+    expect(response.data[0]?.attributes).toMatchObject({ subject: 'Fatura', message: 'Ekte faturanız var.' });
+    expect(fake.store.find(COMPANY_ID, 'sales_invoices', invoice.id)?.attributes['sharings_count']).toBe(2);
+    expect(script.requests.map(({ method, url }) => `${method} ${new URL(url).pathname}`)).toEqual([
+      `POST /v4/${COMPANY_ID}/sharings`,
+    ]);
+  });
+
+  it('shares offers and e-documents through the same endpoint', async () => {
+    const fake = createFake();
+    const offer = fake.store.insert(COMPANY_ID, 'sales_offers', { description: 'Teklif' });
+    const eArchive = fake.store.insert(COMPANY_ID, 'e_archives', { status: 'approved' });
+    const client = createClient(fake.fetch);
+
+    await client.salesOffers.share(offer.id, { portal: { paymentReminder: true } });
+    await client.sharings.share('e_archives', eArchive.id, { email: { to: 'c@example.com' } });
+
+    const shared = fake.store.all(COMPANY_ID, 'sharings').map((sharing) => sharing.relationships['shareable']);
+    expect(shared).toEqual([
+      { data: { id: offer.id, type: 'sales_offers' } },
+      { data: { id: eArchive.id, type: 'e_archives' } },
+    ]);
+  });
+
+  it('surfaces a sharing without recipients as a validation error', async () => {
+    const fake = createFake();
+    const invoice = fake.store.insert(COMPANY_ID, 'sales_invoices', { item_type: 'invoice' });
+    const client = createClient(fake.fetch);
+
+    await expect(client.salesInvoices.share(invoice.id, { email: { to: [] } })).rejects.toBeInstanceOf(
+      ParasutValidationError
+    );
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { ParasutApiError, ParasutRateLimitError } from '../src/index.js';
+import type { FetchFunction } from '../src/client/HttpTransport.js';
+import { COMPANY_ID, createClient, createFake, errorResponse, scriptedFetch } from './helpers.js';
+
+describe('retries', () => {
+  it('retries a GET that failed with a retryable status', async () => {
+    const fake = createFake();
+    const script = scriptedFetch(fake);
+    script.push(errorResponse(503), errorResponse(502));
+    const client = createClient(script.fetch);
+
+    const response = await client.accounts.list();
+
+    expect(response.data).toEqual([]);
+    expect(script.requests).toHaveLength(3);
+  });
+
+  it('waits for Retry-After before retrying a 429', async () => {
+    const fake = createFake();
+    const script = scriptedFetch(fake);
+    script.push(errorResponse(429, { 'retry-after': '0.05' }));
+    const retries: Array<number | undefined> = [];
+    const client = createClient(script.fetch);
+    client.retryHandler.onRetry((ctx) => {
+      retries.push(ctx.delayMs);
+    });
+
+    await client.accounts.list();
+
+    expect(retries).toEqual([50]);
+    expect(script.requests).toHaveLength(2);
+  });
+
+  it('retries a 429 on POST since the request was never processed', async () => {
+    const fake = createFake();
+    const script = scriptedFetch(fake);
+    script.push(errorResponse(429, { 'retry-after': '0' }));
+    const client = createClient(script.fetch, { idempotency: { enabled: false } });
+
+    const response = await client.contacts.create({
+      data: { type: 'contacts', attributes: { name: 'Acme', account_type: 'customer' } },
+    });
+
+    expect(response.data.attributes.name).toBe('Acme');
+    expect(script.requests.map((request) => request.method)).toEqual(['POST', 'POST']);
+  });
+
+  it('does not retry a POST that failed with a 5xx', async () => {
+    const fake = createFake();
+    const script = scriptedFetch(fake);
+    script.push(errorResponse(500));
+    const client = createClient(script.fetch, { idempotency: { enabled: false } });
+
+    await expect(
+      client.contacts.create({
+        data: { type: 'contacts', attributes: { name: 'Acme', account_type: 'customer' } },
+      })
+    ).rejects.toMatchObject({ status: 500 });
+    expect(script.requests).toHaveLength(1);
+  });
+
+  it('gives up after maxRetries', async () => {
+    const fake = createFake();
+    const script = scriptedFetch(fake);
+    script.push(errorResponse(429), errorResponse(429), errorResponse(429));
+    const client = createClient(script.fetch, { retry: { maxRetries: 2 } });
+
+    await expect(client.accounts.list()).rejects.toBeInstanceOf(ParasutRateLimitError);
+    expect(script.requests).toHaveLength(3);
+  });
+
+  it('does not retry client errors', async () => {
+    const fake = createFake();
+    const script = scriptedFetch(fake);
+    script.push(errorResponse(400));
+    const client = createClient(script.fetch);
+
+    await expect(client.accounts.list()).rejects.toBeInstanceOf(ParasutApiError);
+    expect(script.requests).toHaveLength(1);
+  });
+});
+
+describe('rate limiting', () => {
+  it('holds requests beyond the window until tokens refill', async () => {
+    const fake = createFake();
+    const script = scriptedFetch(fake);
+    const client = createClient(script.fetch, {
+      rateLimit: { enabled: true, requestsPerWindow: 2, windowMs: 200, adaptive: false },
+    });
+
+    const started = Date.now();
+    await Promise.all([1, 2, 3].map((number) => client.accounts.list({ page: { number } })));
+
+    // Two tokens per 200ms refill one token every 100ms
+    expect(Date.now() - started).toBeGreaterThanOrEqual(90);
+    expect(script.requests).toHaveLength(3);
+  });
+
+  it('takes a token for every retry attempt', async () => {
+    const fake = createFake();
+    const script = scriptedFetch(fake);
+    script.push(errorResponse(503));
+    const client = createClient(script.fetch, {
+      rateLimit: { enabled: true, requestsPerWindow: 5, windowMs: 60_000, adaptive: false },
+    });
+
+    await client.accounts.list();
+
+    expect(Math.floor(client.rateLimiter.getAvailableTokens())).toBe(3);
+  });
+});
+
+describe('connection options', () => {
+  it('sends API and token requests through the injected fetch with the dispatcher', async () => {
+    const credentials = { clientId: 'client', clientSecret: 'secret', username: 'user', password: 'password' };
+    const fake = createFake({ credentials });
+    const dispatcher = { name: 'keep-alive agent' };
+    const seen: { path: string; dispatcher: unknown }[] = [];
+    const fetch: FetchFunction = (input, init) => {
+      seen.push({ path: new URL(input).pathname, dispatcher: (init as { dispatcher?: unknown }).dispatcher });
+      return fake.fetch(input, init);
+    };
+    const client = createClient(fetch, { credentials, dispatcher });
+
+    await client.accounts.list();
+
+    expect(seen).toEqual([
+      { path: '/oauth/token', dispatcher },
+      { path: `/v4/${COMPANY_ID}/accounts`, dispatcher },
+    ]);
+  });
+});
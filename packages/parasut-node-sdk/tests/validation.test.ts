@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ParasutResponseValidationError,
+  validateSchema,
+  type LogEvent,
+  type SchemaNode,
+} from '../src/index.js';
+import { COMPANY_ID, createClient, createFake, scriptedFetch } from './helpers.js';
+
+/**
+ * A sales invoice with the required attributes and the given overrides.
+ */
+function invoiceResponse(attributes: Record<string, unknown>): Response {
+  const data = {
+    id: '42',
+    type: 'sales_invoices',
+    attributes: { item_type: 'invoice', issue_date: '2024-01-15', ...attributes },
+  };
+  return new Response(JSON.stringify({ data }), {
+    headers: { 'content-type': 'application/vnd.api+json' },
+  });
+}
+
+describe('validateSchema', () => {
+  const schema: SchemaNode = {
+    type: 'object',
+    required: ['name'],
+    properties: {
+      name: { type: 'string' },
+      'a/b': { type: 'integer' },
+      total: { type: 'number' },
+      status: { enum: ['paid', 'unpaid'] },
+      lines: { type: 'array', items: { type: 'object', properties: { quantity: { type: 'number' } } } },
+    },
+  };
+
+  it('reports mismatches by JSON pointer without their values', () => {
+    const issues = validateSchema(
+      { 'a/b': 1.5, total: '100.0', status: 'void', lines: [{ quantity: 1 }, { quantity: '2' }] },
+      schema
+    );
+
+    expect(issues).toEqual([
+      { pointer: '/name', expected: 'required', received: 'undefined' },
+      { pointer: '/a~1b', expected: 'integer', received: 'number' },
+      { pointer: '/total', expected: 'number', received: 'string' },
+      { pointer: '/status', expected: '"paid" | "unpaid"', received: 'string' },
+      { pointer: '/lines/1/quantity', expected: 'number', received: 'string' },
+    ]);
+  });
+
+  it('allows null optional values and unknown properties', () => {
+    expect(validateSchema({ name: 'Acme', total: null, extra: true }, schema)).toEqual([]);
+    expect(validateSchema({ name: null }, schema)).toEqual([
+      { pointer: '/name', expected: 'string', received: 'null' },
+    ]);
+  });
+});
+
+describe('validateResponses', () => {
+  it('throws in strict mode with the operation ID and pointer', async () => {
+    const fake = createFake();
+    const script = scriptedFetch(fake);
+    script.push(invoiceResponse({ net_total: '100.0' }));
+    const client = createClient(script.fetch, { validateResponses: 'strict' });
+
+    const error = await client.salesInvoices.get(42).catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(ParasutResponseValidationError);
+    expect(error).toMatchObject({
+      operationId: 'showSalesInvoice',
+      issues: [{ pointer: '/data/attributes/net_total', expected: 'number', received: 'string' }],
+    });
+  });
+
+  it('checks every record of a list', async () => {
+    const fake = createFake();
+    fake.store.insert(COMPANY_ID, 'contacts', { name: 'Acme', account_type: 'customer' });
+    fake.store.insert(COMPANY_ID, 'contacts', { name: 42, account_type: 'customer' });
+    const client = createClient(fake.fetch, { validateResponses: 'strict' });
+
+    await expect(client.contacts.list()).rejects.toMatchObject({
+      operationId: 'listContacts',
+      issues: [{ pointer: '/data/1/attributes/name', expected: 'string', received: 'number' }],
+    });
+  });
+
+  it('logs in warn mode and returns the response', async () => {
+    const fake = createFake();
+    const script = scriptedFetch(fake);
+    script.push(invoiceResponse({ net_total: '100.0' }));
+    const events: LogEvent[] = [];
+    const client = createClient(script.fetch, {
+      validateResponses: 'warn',
+      logger: { log: (event) => void events.push(event) },
+    });
+
+    const invoice = await client.salesInvoices.get(42);
+
+    expect(invoice.data.id).toBe('42');
+    expect(events.filter(({ event }) => event === 'response:invalid')).toEqual([
+      {
+        event: 'response:invalid',
+        level: 'warn',
+        operationId: 'showSalesInvoice',
+        issues: [{ pointer: '/data/attributes/net_total', expected: 'number', received: 'string' }],
+      },
+    ]);
+  });
+
+  it('does not check responses by default', async () => {
+    const fake = createFake();
+    const script = scriptedFetch(fake);
+    script.push(invoiceResponse({ net_total: '100.0' }));
+    const client = createClient(script.fetch);
+
+    await expect(client.salesInvoices.get(42)).resolves.toMatchObject({ data: { id: '42' } });
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { COMPANY_ID, createClient, createFake, scriptedFetch } from './helpers.js';
+
+describe('inventory levels by warehouse', () => {
+  it('finds a product level in a warehouse across pages', async () => {
+    const fake = createFake();
+    const client = createClient(fake.fetch);
+    const product = fake.store.insert(COMPANY_ID, 'products', { name: 'Kalem' });
+    const warehouses = Array.from({ length: 30 }, (_, i) =>
+      fake.store.insert(COMPANY_ID, 'warehouses', { name: `Depo ${i + 1}` })
+    );
+    for (const [i, warehouse] of warehouses.entries()) {
+      fake.store.insert(COMPANY_ID, 'inventory_levels', { stock_count: i }, {
+        product: { data: { id: product.id, type: 'products' } },
+        warehouse: { data: { id: warehouse.id, type: 'warehouses' } },
+      });
+    }
+
+    const last = await client.inventoryLevels.getForProductInWarehouse(Number(product.id), warehouses[29]!.id);
+    const missing = await client.inventoryLevels.getForProductInWarehouse(Number(product.id), 'unknown');
+
+    expect(last?.attributes.stock_count).toBe(29);
+    expect(missing).toBeNull();
+  });
+
+  it('keeps the deprecated warehouse listing', async () => {
+    const fake = createFake();
+    const script = scriptedFetch(fake);
+    script.push(
+      new Response(JSON.stringify({ data: [], meta: { total_count: 0, total_pages: 1 } }), {
+        headers: { 'content-type': 'application/vnd.api+json' },
+      })
+    );
+    const client = createClient(script.fetch);
+
+    const response = await client.inventoryLevels.getForWarehouse(5);
+
+    expect(response.data).toEqual([]);
+    const url = new URL(script.requests[0]!.url);
+    expect(url.pathname).toBe(`/v4/${COMPANY_ID}/inventory_levels`);
+    expect(url.searchParams.get('filter[warehouse_id]')).toBe('5');
+  });
+});
+
+describe('warehouses', () => {
+  it('creates, finds, updates and deletes warehouses', async () => {
+    const fake = createFake();
+    const client = createClient(fake.fetch);
+
+    const created = await client.warehouses.create({
+      data: { type: 'warehouses', attributes: { name: 'Ana Depo', city: 'İstanbul' } },
+    });
+    await client.warehouses.update(created.data.id, {
+      data: { type: 'warehouses', attributes: { name: 'Merkez Depo' } },
+    });
+    const found = await client.warehouses.findByName('Merkez Depo');
+    await client.warehouses.delete(created.data.id);
+
+    expect(found?.id).toBe(created.data.id);
+    expect(found?.attributes.city).toBe('İstanbul');
+    expect(fake.store.all(COMPANY_ID, 'warehouses')).toEqual([]);
+  });
+
+  it('names warehouses from included records, fetching the rest once', async () => {
+    const fake = createFake();
+    const included = fake.store.insert(COMPANY_ID, 'warehouses', { name: 'Included' });
+    const fetched = fake.store.insert(COMPANY_ID, 'warehouses', { name: 'Fetched' });
+    const script = scriptedFetch(fake);
+    const client = createClient(script.fetch);
+    const level = (id: string, warehouseId?: string) => ({
+      id,
+      type: 'inventory_levels',
+      attributes: {},
+      relationships: warehouseId === undefined ? {} : { warehouse: { data: { id: warehouseId, type: 'warehouses' } } },
+    });
+
+    const named = await client.warehouses.withNames({
+      data: [level('1', included.id), level('2', fetched.id), level('3', fetched.id), level('4', '999'), level('5')],
+      included: [{ id: included.id, type: 'warehouses', attributes: { name: 'Included' } }],
+      meta: { current_page: 1, total_pages: 1, total_count: 5 },
+    });
+
+    expect(named.data.map((record) => record.warehouseName)).toEqual(['Included', 'Fetched', 'Fetched', null, null]);
+    expect(script.requests.map(({ url }) => new URL(url).pathname).sort()).toEqual([
+      `/v4/${COMPANY_ID}/warehouses/${fetched.id}`,
+      `/v4/${COMPANY_ID}/warehouses/999`,
+    ]);
+  });
+
+  it('lists product levels with warehouse names in one request', async () => {
+    const fake = createFake();
+    const product = fake.store.insert(COMPANY_ID, 'products', { name: 'Kalem' });
+    const warehouse = fake.store.insert(COMPANY_ID, 'warehouses', { name: 'Ana Depo' });
+    fake.store.insert(COMPANY_ID, 'inventory_levels', { stock_count: 7 }, {
+      product: { data: { id: product.id, type: 'products' } },
+      warehouse: { data: { id: warehouse.id, type: 'warehouses' } },
+    });
+    const script = scriptedFetch(fake);
+    const client = createClient(script.fetch);
+
+    const levels = await client.inventoryLevels.getForProductWithWarehouses(Number(product.id));
+
+    expect(levels.data.map((record) => [record.attributes.stock_count, record.warehouseName])).toEqual([
+      [7, 'Ana Depo'],
+    ]);
+    expect(script.requests).toHaveLength(1);
+    expect(new URL(script.requests[0]!.url).searchParams.get('include')).toBe('warehouse');
+  });
+});
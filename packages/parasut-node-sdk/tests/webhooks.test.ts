@@ -0,0 +1,280 @@
+import { createHmac } from 'node:crypto';
+import { createServer, request } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { describe, expect, it } from 'vitest';
+import {
+  ParasutWebhookError,
+  WebhookReceiver,
+  getEDocumentStatus,
+  parseWebhook,
+  signWebhook,
+  type WebhookEvent,
+} from '../src/index.js';
+import { delay } from './helpers.js';
+
+const secret = 'webhook-key';
+
+function delivery(overrides: Record<string, unknown> = {}): string {
+  return JSON.stringify({
+    company_id: '123456',
+    resource: 'sales_invoice',
+    action: 'update',
+    event_date: '2024-01-02T01:01:00.000Z',
+    data: {
+      id: 42,
+      included: [],
+      data: JSON.stringify({
+        data: { id: '42', type: 'sales_invoices', attributes: { net_total: '100.0' } },
+      }),
+    },
+    ...overrides,
+  });
+}
+
+function signed(body: string): Record<string, string> {
+  return { 'content-type': 'application/json', signature: signWebhook(body, secret) };
+}
+
+function reasonOf(fn: () => unknown): string | undefined {
+  try {
+    fn();
+  } catch (error) {
+    return error instanceof ParasutWebhookError ? error.reason : 'other';
+  }
+  return undefined;
+}
+
+describe('parseWebhook', () => {
+  it('turns a delivery into a typed event', () => {
+    const event = parseWebhook({}, delivery());
+
+    expect(event).toMatchObject({
+      type: 'sales_invoice.update',
+      companyId: 123456,
+      id: '42',
+      deliveryId: 'sales_invoice:update:42:2024-01-02T01:01:00.000Z',
+      record: { id: '42', type: 'sales_invoices' },
+    });
+    if (event.type === 'sales_invoice.update') {
+      expect(event.record?.attributes.net_total).toBe('100.0');
+    }
+  });
+
+  it('accepts a matching signature and rejects everything else', () => {
+    const body = delivery();
+
+    expect(parseWebhook(signed(body), body, { secret }).id).toBe('42');
+    expect(parseWebhook(signed(body), Buffer.from(body), { secret }).id).toBe('42');
+    expect(reasonOf(() => parseWebhook(signed(body), `${body} `, { secret }))).toBe('signature');
+    expect(reasonOf(() => parseWebhook({}, body, { secret }))).toBe('signature');
+    // A parsed body can't be checked against the raw signature
+    const parsed = JSON.parse(body) as Record<string, unknown>;
+    expect(reasonOf(() => parseWebhook(signed(body), parsed, { secret }))).toBe('signature');
+  });
+
+  it('checks the spec signature: SHA256 of the body and the encryption key', () => {
+    // The delivery from the webhook section of the spec, with the record filled in
+    const body = JSON.stringify({
+      company_id: '1',
+      resource: 'sales_invoice',
+      action: 'update',
+      event_date: '2023-01-02T01:01:00.000Z',
+      data: {
+        id: 1,
+        company_id: '1',
+        created_at: '2023-01-01T01:01:00.000Z',
+        updated_at: '2023-01-01T01:02:00.000Z',
+        operated_by_type: null,
+        operated_by_id: null,
+        included: [],
+        data: JSON.stringify({ data: { id: '1', type: 'sales_invoices', attributes: { net_total: '100.0' } } }),
+      },
+    });
+    const signature = 'a864d2082af57a2801d8f0ed4a9795dd2b384508b86d0cf4945e0339e15fa549';
+
+    expect(signWebhook(body, 'encryption-key')).toBe(signature);
+    expect(parseWebhook({ signature }, body, { secret: 'encryption-key' }).id).toBe('1');
+  });
+
+  it('verifies with a custom signer', () => {
+    const body = delivery();
+    const sign = (raw: string | Uint8Array, key: string): string =>
+      createHmac('sha256', key).update(raw).digest('base64');
+
+    expect(parseWebhook({ signature: sign(body, secret) }, body, { secret, sign }).id).toBe('42');
+    expect(reasonOf(() => parseWebhook(signed(body), body, { secret, sign }))).toBe('signature');
+  });
+
+  it('reads e-document status changes from sales invoice updates', () => {
+    const invoice = {
+      data: {
+        id: '42',
+        type: 'sales_invoices',
+        attributes: {},
+        relationships: { active_e_document: { data: { id: '9', type: 'e_archives' } } },
+      },
+    };
+    const withArchive = delivery({
+      data: {
+        id: 42,
+        included: [{ id: '9', type: 'e_archives', attributes: { status: 'approved' } }],
+        data: JSON.stringify(invoice),
+      },
+    });
+    const withoutIncluded = delivery({ data: { id: 42, included: [], data: JSON.stringify(invoice) } });
+
+    expect(getEDocumentStatus(parseWebhook({}, withArchive))).toMatchObject({
+      type: 'e_archives',
+      id: '9',
+      status: 'approved',
+    });
+    expect(getEDocumentStatus(parseWebhook({}, withoutIncluded))).toMatchObject({ id: '9', status: undefined });
+    expect(getEDocumentStatus(parseWebhook({}, delivery()))).toBeNull();
+    expect(getEDocumentStatus(parseWebhook({}, delivery({ resource: 'contact' })))).toBeNull();
+  });
+
+  it('rejects models and actions outside the spec', () => {
+    expect(reasonOf(() => parseWebhook({}, delivery({ resource: 'e_invoice' })))).toBe('unsupported');
+    expect(reasonOf(() => parseWebhook({}, delivery({ action: 'archive' })))).toBe('unsupported');
+    expect(reasonOf(() => parseWebhook({}, '{not json'))).toBe('payload');
+  });
+});
+
+describe('WebhookReceiver', () => {
+  it('runs handlers once per delivery', async () => {
+    const receiver = new WebhookReceiver({ secret });
+    const seen: string[] = [];
+    receiver.on('sales_invoice.update', (event) => void seen.push(event.id));
+    const body = delivery();
+
+    const first = await receiver.receive(signed(body), body);
+    const second = await receiver.receive(signed(body), body);
+
+    expect([first.duplicate, second.duplicate]).toEqual([false, true]);
+    expect(seen).toEqual(['42']);
+    expect(receiver.events()).toHaveLength(1);
+  });
+
+  it('treats a redelivery that arrives during dispatch as a duplicate', async () => {
+    const receiver = new WebhookReceiver();
+    let calls = 0;
+    receiver.onAny(async () => {
+      calls++;
+      await delay(10);
+    });
+
+    const results = await Promise.all([receiver.receive({}, delivery()), receiver.receive({}, delivery())]);
+
+    expect(results.map((result) => result.duplicate).sort()).toEqual([false, true]);
+    expect(calls).toBe(1);
+  });
+
+  it('forgets a delivery whose handler failed so the redelivery runs', async () => {
+    const receiver = new WebhookReceiver();
+    let fail = true;
+    receiver.onAny(() => {
+      if (fail) throw new Error('database down');
+    });
+
+    await expect(receiver.receive({}, delivery())).rejects.toThrow('database down');
+    expect(receiver.events()).toEqual([]);
+
+    fail = false;
+    const retried = await receiver.receive({}, delivery());
+    expect(retried.duplicate).toBe(false);
+    expect(receiver.events()).toHaveLength(1);
+  });
+
+  it('dedups by a delivery ID header when configured', async () => {
+    const receiver = new WebhookReceiver({ deliveryIdHeader: 'x-delivery-id' });
+
+    const a = await receiver.receive({ 'x-delivery-id': 'd-1' }, delivery());
+    const b = await receiver.receive({ 'x-delivery-id': 'd-2' }, delivery());
+    const c = await receiver.receive({ 'x-delivery-id': 'd-1' }, delivery());
+
+    expect([a.duplicate, b.duplicate, c.duplicate]).toEqual([false, false, true]);
+  });
+
+  it('bounds the dedup set and the replay buffer', async () => {
+    const receiver = new WebhookReceiver({ dedupSize: 2, replaySize: 2 });
+
+    for (const id of [1, 2, 3]) {
+      await receiver.receive({}, delivery({ data: { id } }));
+    }
+
+    expect(receiver.events().map((event) => event.id)).toEqual(['2', '3']);
+    // The oldest delivery ID was evicted, so it is processed again
+    expect((await receiver.receive({}, delivery({ data: { id: 1 } }))).duplicate).toBe(false);
+  });
+
+  it('replays buffered events through current handlers', async () => {
+    const receiver = new WebhookReceiver();
+    await receiver.receive({}, delivery());
+    await receiver.receive({}, delivery({ resource: 'contact', data: { id: 7 } }));
+
+    const replayed: WebhookEvent[] = [];
+    receiver.onAny((event) => void replayed.push(event));
+    const count = await receiver.replay((event) => event.resource === 'contact');
+
+    expect(count).toBe(1);
+    expect(replayed.map((event) => event.type)).toEqual(['contact.update']);
+  });
+
+  it('answers deliveries over HTTP with statuses Paraşüt acts on', async () => {
+    const receiver = new WebhookReceiver({ secret });
+    receiver.on('contact.update', () => {
+      throw new Error('handler failed');
+    });
+    const server = createServer(receiver.nodeHandler());
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    const post = (body: string, headers: Record<string, string>) =>
+      fetch(`http://127.0.0.1:${port}/`, { method: 'POST', body, headers }).then((res) => res.status);
+
+    try {
+      const ok = delivery();
+      const failing = delivery({ resource: 'contact' });
+      const unsupported = delivery({ resource: 'e_invoice' });
+
+      expect(await post(ok, signed(ok))).toBe(200);
+      expect(await post(ok, { signature: 'forged' })).toBe(401);
+      expect(await post(failing, signed(failing))).toBe(500);
+      expect(await post(unsupported, signed(unsupported))).toBe(200);
+    } finally {
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  });
+
+  it('answers 413 for bodies over maxBodyBytes', async () => {
+    const receiver = new WebhookReceiver({ maxBodyBytes: 1024 });
+    const seen: string[] = [];
+    receiver.onAny((event) => void seen.push(event.id));
+    const server = createServer(receiver.nodeHandler());
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    const oversized = delivery({ padding: 'x'.repeat(2048) });
+    // Chunked, so the limit is hit while reading rather than from Content-Length
+    const streamed = () =>
+      new Promise<number | undefined>((resolve, reject) => {
+        const req = request({ host: '127.0.0.1', port, method: 'POST' }, (res) => {
+          res.resume();
+          resolve(res.statusCode);
+        });
+        req.on('error', reject);
+        req.write(oversized.slice(0, 800));
+        req.end(oversized.slice(800));
+      });
+
+    try {
+      const declared = await fetch(`http://127.0.0.1:${port}/`, { method: 'POST', body: oversized });
+      expect(declared.status).toBe(413);
+      expect(await streamed()).toBe(413);
+      expect(seen).toEqual([]);
+      expect((await fetch(`http://127.0.0.1:${port}/`, { method: 'POST', body: delivery() })).status).toBe(200);
+    } finally {
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  });
+});